@@ -1,6 +1,6 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import Link from 'next/link';
 import {
   Card,
@@ -12,6 +12,7 @@ import {
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import {
   ArrowLeft,
   TrendingUp,
@@ -33,205 +34,51 @@ import {
   AlertCircle,
   ThumbsUp,
   ThumbsDown,
+  EyeOff,
+  LineChart as LineChartIcon,
+  Download,
 } from 'lucide-react';
-import { Matter, TEST_MODELS, ModelConfig, SummaryType, SUMMARY_TYPE_INFO } from '@/lib/types';
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip as ChartTooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { Matter, SummaryType, SUMMARY_TYPE_INFO } from '@/lib/types';
+import {
+  calculateAnalytics,
+  CONTROL_BASELINE,
+  isBaselineModel,
+  ModelStats,
+  Recommendation,
+  testedModels,
+} from '@/lib/analytics';
+import { JudgeReliability } from '@/lib/adjudication';
+import { HumanJudgeAgreement, JUDGE_TRUST_INFO, OVERALL_CATEGORY } from '@/lib/human-review';
+import {
+  CONFIDENCE_LEVELS,
+  ConfidenceLevel,
+  DEFAULT_CONFIDENCE,
+  formatConfidence,
+  formatInterval,
+} from '@/lib/significance';
+import {
+  detectShifts,
+  OVERALL_METRIC,
+  TrendMetricInfo,
+  trendMetrics,
+  trendObservations,
+  TrendShift,
+  weeklyTrend,
+} from '@/lib/trends';
 import { getMatters } from '@/lib/storage';
-import { cn, formatCurrency, getScoreColor } from '@/lib/utils';
-
-interface ModelStats {
-  model: ModelConfig;
-  runCount: number;
-  avgScore: number;
-  avgScoreVsBaseline: number;
-  totalCost: number;
-  avgCost: number;
-  avgCostVsBaseline: number;
-  winCount: number;
-  podiumCount: number;
-  avgRank: number;
-  scores: number[];
-  qualityCostRatio: number;
-  // New: Store individual run details for reasoning
-  bestScore: number;
-  worstScore: number;
-  avgFactualAccuracy: number;
-  avgCitationAccuracy: number;
-  avgRelevance: number;
-  avgComprehensiveness: number;
-  avgLegalUtility: number;
-}
-
-interface SummaryTypeAnalytics {
-  summaryType: SummaryType;
-  label: string;
-  runCount: number;
-  modelStats: Record<string, ModelStats>;
-  recommendation: {
-    bestQuality: string | null;
-    bestValue: string | null;
-    recommendedSwitch: string | null;
-    reasoning: string;
-  };
-}
-
-interface AggregateAnalytics {
-  totalRuns: number;
-  completedRuns: number;
-  totalDocuments: number;
-  // Overall stats (all types combined)
-  overallStats: {
-    modelStats: Record<string, ModelStats>;
-    recommendation: {
-      bestQuality: string | null;
-      bestValue: string | null;
-      recommendedSwitch: string | null;
-      reasoning: string;
-    };
-  };
-  // Per-summary-type stats
-  byType: Record<string, SummaryTypeAnalytics>;
-  baselineModelId: string;
-}
-
-const BASELINE_MODEL_ID = 'google/gemini-2.5-flash';
-
-function initializeModelStats(model: ModelConfig): ModelStats {
-  return {
-    model,
-    runCount: 0,
-    avgScore: 0,
-    avgScoreVsBaseline: 0,
-    totalCost: 0,
-    avgCost: 0,
-    avgCostVsBaseline: 0,
-    winCount: 0,
-    podiumCount: 0,
-    avgRank: 0,
-    scores: [],
-    qualityCostRatio: 0,
-    bestScore: 0,
-    worstScore: 100,
-    avgFactualAccuracy: 0,
-    avgCitationAccuracy: 0,
-    avgRelevance: 0,
-    avgComprehensiveness: 0,
-    avgLegalUtility: 0,
-  };
-}
+import { cn, formatCurrency, formatDuration, getScoreColor } from '@/lib/utils';
 
-function aggregateModelStats(
-  modelStats: Record<string, ModelStats>,
-  matter: Matter,
-  baselineModelId: string
-): void {
-  const scores = Object.values(matter.qualityScores);
-  const baselineScore = matter.qualityScores[baselineModelId];
-  const ranked = [...scores].sort((a, b) => b.overallScore - a.overallScore);
-
-  scores.forEach((score) => {
-    const stats = modelStats[score.model];
-    if (!stats) return;
-
-    const summary = matter.summaries[score.model];
-    const rank = ranked.findIndex((r) => r.model === score.model) + 1;
-
-    stats.runCount++;
-    stats.scores.push(score.overallScore);
-    stats.totalCost += summary?.costUsd || 0;
-    stats.avgRank = (stats.avgRank * (stats.runCount - 1) + rank) / stats.runCount;
-
-    // Track best/worst
-    if (score.overallScore > stats.bestScore) stats.bestScore = score.overallScore;
-    if (score.overallScore < stats.worstScore) stats.worstScore = score.overallScore;
-
-    // Track category averages
-    const n = stats.runCount;
-    stats.avgFactualAccuracy = ((stats.avgFactualAccuracy * (n - 1)) + (score.factualAccuracy?.score || 0)) / n;
-    stats.avgCitationAccuracy = ((stats.avgCitationAccuracy * (n - 1)) + (score.citationAccuracy?.score || 0)) / n;
-    stats.avgRelevance = ((stats.avgRelevance * (n - 1)) + (score.relevance?.score || 0)) / n;
-    stats.avgComprehensiveness = ((stats.avgComprehensiveness * (n - 1)) + (score.comprehensiveness?.score || 0)) / n;
-    stats.avgLegalUtility = ((stats.avgLegalUtility * (n - 1)) + (score.legalUtility?.score || 0)) / n;
-
-    if (rank === 1) stats.winCount++;
-    if (rank <= 3) stats.podiumCount++;
-
-    if (baselineScore) {
-      stats.avgScoreVsBaseline =
-        (stats.avgScoreVsBaseline * (stats.runCount - 1) +
-          (score.overallScore - baselineScore.overallScore)) /
-        stats.runCount;
-    }
-  });
-}
-
-function finalizeModelStats(modelStats: Record<string, ModelStats>, baselineModelId: string): void {
-  Object.values(modelStats).forEach((stats) => {
-    if (stats.runCount > 0) {
-      stats.avgScore = stats.scores.reduce((a, b) => a + b, 0) / stats.scores.length;
-      stats.avgCost = stats.totalCost / stats.runCount;
-
-      const baselineStats = modelStats[baselineModelId];
-      if (baselineStats && baselineStats.avgCost > 0) {
-        stats.avgCostVsBaseline =
-          ((baselineStats.avgCost - stats.avgCost) / baselineStats.avgCost) * 100;
-      }
-
-      stats.qualityCostRatio = stats.avgCost > 0 ? stats.avgScore / stats.avgCost : 0;
-    }
-  });
-}
-
-function generateRecommendation(
-  modelStats: Record<string, ModelStats>,
-  baselineModelId: string
-): { bestQuality: string | null; bestValue: string | null; recommendedSwitch: string | null; reasoning: string } {
-  const validStats = Object.values(modelStats).filter((s) => s.runCount > 0);
-  const baselineStats = modelStats[baselineModelId];
-
-  let bestQuality: string | null = null;
-  let bestValue: string | null = null;
-  let recommendedSwitch: string | null = null;
-  let reasoning = '';
-
-  if (validStats.length > 0) {
-    const byQuality = [...validStats].sort((a, b) => b.avgScore - a.avgScore);
-    bestQuality = byQuality[0]?.model.id || null;
-
-    const byValue = [...validStats].sort((a, b) => b.qualityCostRatio - a.qualityCostRatio);
-    bestValue = byValue[0]?.model.id || null;
-
-    if (baselineStats && baselineStats.runCount > 0) {
-      const candidates = validStats
-        .filter(
-          (s) =>
-            s.model.id !== baselineModelId &&
-            s.avgCostVsBaseline > 10 &&
-            s.avgScoreVsBaseline > -5 // Allow up to 5 point quality drop
-        )
-        .sort((a, b) => b.avgCostVsBaseline - a.avgCostVsBaseline);
-
-      if (candidates.length > 0) {
-        recommendedSwitch = candidates[0].model.id;
-        const switchStats = candidates[0];
-        reasoning = `${switchStats.model.name} offers ${switchStats.avgCostVsBaseline.toFixed(0)}% cost savings with only ${Math.abs(switchStats.avgScoreVsBaseline).toFixed(1)} point quality difference from baseline.`;
-      } else {
-        const betterModels = validStats.filter(
-          (s) => s.model.id !== baselineModelId && s.avgScoreVsBaseline > 3
-        );
-        if (betterModels.length > 0) {
-          const best = betterModels.sort((a, b) => b.avgScoreVsBaseline - a.avgScoreVsBaseline)[0];
-          reasoning = `${best.model.name} shows +${best.avgScoreVsBaseline.toFixed(1)} better quality than baseline. Consider upgrading despite ${best.avgCostVsBaseline > 0 ? 'similar' : 'higher'} cost.`;
-        } else {
-          reasoning = 'Current baseline remains competitive. More data needed for confident recommendations.';
-        }
-      }
-    }
-  }
-
-  return { bestQuality, bestValue, recommendedSwitch, reasoning };
-}
-
-function generateModelReasoning(stats: ModelStats, baselineStats: ModelStats | null, rank: number): string {
+function generateModelReasoning(stats: ModelStats): string {
   const reasons: string[] = [];
   
   // Quality assessment
@@ -254,7 +101,7 @@ function generateModelReasoning(stats: ModelStats, baselineStats: ModelStats | n
   }
   
   // Cost comparison
-  if (baselineStats && baselineStats.runCount > 0) {
+  if (stats.vsBaseline) {
     if (stats.avgCostVsBaseline > 70) {
       reasons.push(`${stats.avgCostVsBaseline.toFixed(0)}% cheaper than baseline`);
     } else if (stats.avgCostVsBaseline > 30) {
@@ -293,70 +140,6 @@ function generateModelReasoning(stats: ModelStats, baselineStats: ModelStats | n
   return reasons.slice(0, 3).join(' • ');
 }
 
-function calculateAnalytics(matters: Matter[]): AggregateAnalytics {
-  const completedMatters = matters.filter(
-    (m) => m.status === 'completed' && Object.keys(m.qualityScores).length > 0
-  );
-
-  // Initialize overall stats
-  const overallModelStats: Record<string, ModelStats> = {};
-  TEST_MODELS.forEach((model) => {
-    overallModelStats[model.id] = initializeModelStats(model);
-  });
-
-  // Initialize per-type stats
-  const byType: Record<string, SummaryTypeAnalytics> = {};
-
-  // Process each completed matter
-  completedMatters.forEach((matter) => {
-    const summaryType = matter.summaryType;
-    
-    // Initialize type analytics if not exists
-    if (!byType[summaryType]) {
-      const typeModelStats: Record<string, ModelStats> = {};
-      TEST_MODELS.forEach((model) => {
-        typeModelStats[model.id] = initializeModelStats(model);
-      });
-      
-      byType[summaryType] = {
-        summaryType,
-        label: SUMMARY_TYPE_INFO[summaryType]?.label || summaryType,
-        runCount: 0,
-        modelStats: typeModelStats,
-        recommendation: { bestQuality: null, bestValue: null, recommendedSwitch: null, reasoning: '' },
-      };
-    }
-    
-    byType[summaryType].runCount++;
-    
-    // Aggregate to overall stats
-    aggregateModelStats(overallModelStats, matter, BASELINE_MODEL_ID);
-    
-    // Aggregate to type-specific stats
-    aggregateModelStats(byType[summaryType].modelStats, matter, BASELINE_MODEL_ID);
-  });
-
-  // Finalize overall stats
-  finalizeModelStats(overallModelStats, BASELINE_MODEL_ID);
-  
-  // Finalize per-type stats
-  Object.values(byType).forEach((typeStats) => {
-    finalizeModelStats(typeStats.modelStats, BASELINE_MODEL_ID);
-    typeStats.recommendation = generateRecommendation(typeStats.modelStats, BASELINE_MODEL_ID);
-  });
-
-  return {
-    totalRuns: matters.length,
-    completedRuns: completedMatters.length,
-    totalDocuments: matters.reduce((sum, m) => sum + m.sourceDocuments.length, 0),
-    overallStats: {
-      modelStats: overallModelStats,
-      recommendation: generateRecommendation(overallModelStats, BASELINE_MODEL_ID),
-    },
-    byType,
-    baselineModelId: BASELINE_MODEL_ID,
-  };
-}
 
 function StatCard({
   title,
@@ -416,6 +199,270 @@ function StatCard({
   );
 }
 
+// Each judge's false-positive rate from reviewers' rulings, overall and month by month
+function JudgeReliabilityCard({ judges }: { judges: JudgeReliability[] }) {
+  const percent = (rate: number | null) => (rate === null ? '—' : `${Math.round(rate * 100)}%`);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="font-serif flex items-center gap-2">
+          <Scale className="h-5 w-5 text-primary" />
+          Judge Reliability
+        </CardTitle>
+        <CardDescription>
+          Share of each judge&apos;s reported errors and missing items that reviewers rejected as false positives
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {judges.map((judge) => (
+          <div key={judge.judgeId} className="space-y-2">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="font-medium">{judge.name}</p>
+                <p className="text-xs text-muted-foreground">
+                  {judge.reviewed} reviewed · {judge.confirmed} confirmed · {judge.rejected} rejected · {judge.downgraded} downgraded
+                </p>
+              </div>
+              <div className="text-right">
+                <p className={cn(
+                  'text-2xl font-bold',
+                  judge.falsePositiveRate === null ? 'text-muted-foreground'
+                    : judge.falsePositiveRate > 0.25 ? 'text-red-400'
+                    : judge.falsePositiveRate > 0.1 ? 'text-amber-400'
+                    : 'text-emerald-400'
+                )}>
+                  {percent(judge.falsePositiveRate)}
+                </p>
+                <p className="text-xs text-muted-foreground">false positives</p>
+              </div>
+            </div>
+            <div className="space-y-1">
+              {judge.periods.map((period) => (
+                <div key={period.period} className="flex items-center gap-3 text-xs">
+                  <span className="w-16 font-mono text-muted-foreground">{period.period}</span>
+                  <div className="flex-1 h-2 bg-muted rounded">
+                    <div
+                      className="h-full rounded bg-red-400/60"
+                      style={{ width: `${Math.round(period.falsePositiveRate * 100)}%` }}
+                    />
+                  </div>
+                  <span className="w-28 text-right font-mono">
+                    {percent(period.falsePositiveRate)} of {period.reviewed}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Whether the judge grades this summary type the way blind human reviewers do
+function HumanAgreementCard({ label, agreement }: { label: string; agreement: HumanJudgeAgreement }) {
+  const format = (value: number | null, digits = 2) => (value === null ? '—' : value.toFixed(digits));
+  const trustColor = {
+    trusted: 'border-emerald-500/30 text-emerald-400',
+    untrusted: 'border-red-500/30 text-red-400',
+    insufficient: 'border-amber-500/30 text-amber-400',
+  }[agreement.trust];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="font-serif flex items-center gap-2">
+          <EyeOff className="h-5 w-5 text-primary" />
+          Judge vs Human Agreement
+          <Badge variant="outline" className={trustColor}>{JUDGE_TRUST_INFO[agreement.trust].label}</Badge>
+        </CardTitle>
+        <CardDescription>
+          {agreement.ratings} blind grade{agreement.ratings === 1 ? '' : 's'} of {label.toLowerCase()} summaries from{' '}
+          {agreement.reviewers.length} reviewer{agreement.reviewers.length === 1 ? '' : 's'}.{' '}
+          {JUDGE_TRUST_INFO[agreement.trust].description}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-border text-xs text-muted-foreground">
+                <th className="text-left font-medium py-2 pr-4">Category</th>
+                <th className="text-right font-medium py-2 px-3">Summaries</th>
+                <th className="text-right font-medium py-2 px-3">Pearson r</th>
+                <th className="text-right font-medium py-2 px-3">Spearman ρ</th>
+                <th className="text-right font-medium py-2 px-3">Mean |diff|</th>
+                <th className="text-right font-medium py-2 pl-3">Judge bias</th>
+              </tr>
+            </thead>
+            <tbody>
+              {agreement.categories.map((row) => (
+                <tr key={row.categoryId} className={cn('border-b border-border/50', row.categoryId === OVERALL_CATEGORY && 'font-semibold')}>
+                  <td className="py-2 pr-4">{row.name}</td>
+                  <td className="text-right py-2 px-3 font-mono">{row.pairs}</td>
+                  <td className={cn(
+                    'text-right py-2 px-3 font-mono',
+                    row.pearson === null ? 'text-muted-foreground'
+                      : row.pearson >= 0.7 ? 'text-emerald-400'
+                      : row.pearson >= 0.4 ? 'text-amber-400'
+                      : 'text-red-400'
+                  )}>
+                    {format(row.pearson)}
+                  </td>
+                  <td className="text-right py-2 px-3 font-mono">{format(row.spearman)}</td>
+                  <td className="text-right py-2 px-3 font-mono">{format(row.meanAbsDiff, 1)}</td>
+                  <td className="text-right py-2 pl-3 font-mono">
+                    {row.bias === null ? '—' : `${row.bias > 0 ? '+' : ''}${row.bias.toFixed(1)}`}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Judge bias above zero means the judge scores higher than reviewers do.{' '}
+          {agreement.interRater
+            ? `Reviewers differ from each other by ${agreement.interRater.meanAbsDiff} points on average over ${agreement.interRater.pairs} shared grade${agreement.interRater.pairs === 1 ? '' : 's'}${agreement.interRater.pearson !== null ? ` (r = ${agreement.interRater.pearson.toFixed(2)})` : ''} - a judge within that range is as consistent as a second reviewer.`
+            : 'No summary has two reviewers yet, so agreement between people is unknown.'}
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
+
+function formatMetric(metric: TrendMetricInfo, value: number): string {
+  if (metric.unit === 'usd') return formatCurrency(value);
+  if (metric.unit === 'seconds') return formatDuration(Math.round(value * 1000));
+  return value.toFixed(1);
+}
+
+// Weekly per-model trend of one metric, with flags where a model's recent runs moved away from its earlier ones
+function TrendsCard({ matters }: { matters: Matter[] }) {
+  const metrics = useMemo(() => trendMetrics(matters), [matters]);
+  const [metricId, setMetricId] = useState(OVERALL_METRIC);
+  const metric = metrics.find((m) => m.id === metricId) || metrics[0];
+  const models = testedModels(matters);
+
+  const observations = useMemo(() => trendObservations(matters, metric.id), [matters, metric.id]);
+  const buckets = weeklyTrend(observations);
+  const charted = models.filter((model) => observations.some((o) => o.modelId === model.id));
+  // Flags on every metric, so a shift shows up without clicking through each one
+  const shifts = useMemo(
+    () => metrics.flatMap((m) => detectShifts(trendObservations(matters, m.id), m.id)),
+    [matters, metrics]
+  );
+  const modelLabel = (modelId: string) => models.find((m) => m.id === modelId)?.name || modelId;
+  const metricInfo = (id: string) => metrics.find((m) => m.id === id) || metric;
+  const describeShift = (shift: TrendShift) => {
+    const info = metricInfo(shift.metric);
+    const direction = shift.after > shift.before ? 'rose' : 'fell';
+    return `${info.name} ${direction} from ${formatMetric(info, shift.before)} to ${formatMetric(info, shift.after)} from the week of ${shift.week}`;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="font-serif flex items-center gap-2">
+              <LineChartIcon className="h-5 w-5 text-primary" />
+              Trends
+            </CardTitle>
+            <CardDescription>
+              Weekly average per model, by when each summary was generated
+            </CardDescription>
+          </div>
+          <Select value={metric.id} onValueChange={setMetricId}>
+            <SelectTrigger className="w-52">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {metrics.map((m) => (
+                <SelectItem key={m.id} value={m.id}>
+                  {m.name}
+                  {shifts.some((s) => s.metric === m.id) && ' ⚠'}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {buckets.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            No {metric.name.toLowerCase()} data yet{metric.unit === 'usd' ? ' - cost per page needs page counts from extraction' : ''}.
+          </p>
+        ) : (
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={buckets} margin={{ top: 8, right: 16, bottom: 0, left: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                <XAxis dataKey="week" tick={{ fontSize: 11 }} stroke="hsl(var(--muted-foreground))" />
+                <YAxis
+                  tick={{ fontSize: 11 }}
+                  stroke="hsl(var(--muted-foreground))"
+                  domain={metric.unit === 'points' ? [0, 100] : ['auto', 'auto']}
+                  tickFormatter={(value: number) => (metric.unit === 'usd' ? `$${value.toFixed(3)}` : metric.unit === 'seconds' ? `${Math.round(value)}s` : String(value))}
+                />
+                <ChartTooltip
+                  contentStyle={{ background: 'hsl(var(--card))', border: '1px solid hsl(var(--border))', fontSize: 12 }}
+                  formatter={(value) => formatMetric(metric, Number(value))}
+                />
+                {charted.map((model) => (
+                  <Line
+                    key={model.id}
+                    name={model.name}
+                    // Model ids contain dots, which recharts would read as a nested path
+                    dataKey={(bucket: { values: Record<string, number> }) => bucket.values[model.id]}
+                    stroke={model.color}
+                    strokeWidth={2}
+                    dot={{ r: 3 }}
+                    connectNulls
+                  />
+                ))}
+                {shifts
+                  .filter((shift) => shift.metric === metric.id)
+                  .map((shift) => (
+                    <ReferenceLine
+                      key={shift.modelId}
+                      x={shift.week}
+                      stroke={models.find((m) => m.id === shift.modelId)?.color || '#f59e0b'}
+                      strokeDasharray="4 4"
+                    />
+                  ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+
+        {shifts.length > 0 ? (
+          <div className="space-y-2">
+            {shifts.map((shift) => (
+              <button
+                key={`${shift.modelId}|${shift.metric}`}
+                type="button"
+                onClick={() => setMetricId(shift.metric)}
+                className="w-full flex items-start gap-2 p-2 rounded-lg border border-amber-500/30 bg-amber-500/5 text-left text-sm"
+              >
+                <AlertCircle className="h-4 w-4 text-amber-400 shrink-0 mt-0.5" />
+                <span>
+                  <span className="font-medium">{modelLabel(shift.modelId)}</span>
+                  <span className="text-muted-foreground"> - {describeShift(shift)}</span>
+                </span>
+              </button>
+            ))}
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            No significant shifts: no model&apos;s last few runs differ clearly from the few before them.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 function SummaryTypeIcon({ type }: { type: string }) {
   const info = SUMMARY_TYPE_INFO[type as SummaryType];
   if (!info) return <FileStack className="h-4 w-4" />;
@@ -429,20 +476,18 @@ function SummaryTypeIcon({ type }: { type: string }) {
 
 function ModelLeaderboard({ 
   modelStats, 
-  baselineModelId,
+  baseline,
   title = "Model Leaderboard",
   description = "Ranked by average quality score"
 }: { 
   modelStats: Record<string, ModelStats>; 
-  baselineModelId: string;
+  baseline: string;
   title?: string;
   description?: string;
 }) {
   const sortedModels = Object.values(modelStats)
     .filter((s) => s.runCount > 0)
     .sort((a, b) => b.avgScore - a.avgScore);
-  
-  const baselineStats = modelStats[baselineModelId];
 
   if (sortedModels.length === 0) {
     return (
@@ -466,9 +511,9 @@ function ModelLeaderboard({
       <CardContent>
         <div className="space-y-4">
           {sortedModels.map((stats, index) => {
-            const isBaseline = stats.model.id === baselineModelId;
+            const isBaseline = isBaselineModel(stats.model, baseline);
             const RankIcon = index === 0 ? Crown : index === 1 ? Medal : index === 2 ? Award : null;
-            const reasoning = generateModelReasoning(stats, baselineStats, index);
+            const reasoning = generateModelReasoning(stats);
 
             return (
               <div
@@ -540,6 +585,11 @@ function ModelLeaderboard({
                         {stats.avgScoreVsBaseline.toFixed(2)}
                       </p>
                       <p className="text-xs text-muted-foreground">vs baseline</p>
+                      {stats.vsBaseline?.ci && (
+                        <p className="text-[10px] font-mono text-muted-foreground">
+                          {formatInterval(stats.vsBaseline.ci)}
+                        </p>
+                      )}
                     </div>
                     <div>
                       <p className="text-lg font-bold">{formatCurrency(stats.avgCost)}</p>
@@ -598,6 +648,20 @@ function ModelLeaderboard({
                       {stats.qualityCostRatio.toFixed(0)} score/$
                     </span>
                   </div>
+                  {stats.vsBaseline && (
+                    <div className="flex items-center gap-1">
+                      <Scale className="h-3 w-3 text-muted-foreground" />
+                      <span
+                        className={cn(
+                          stats.vsBaseline.better ? 'text-emerald-400' : 'text-muted-foreground'
+                        )}
+                      >
+                        {stats.vsBaseline.wins}-{stats.vsBaseline.losses}
+                        {stats.vsBaseline.ties > 0 && `-${stats.vsBaseline.ties}`} vs baseline
+                        {stats.vsBaseline.signTestP !== null && ` (sign test p = ${stats.vsBaseline.signTestP.toFixed(3)})`}
+                      </span>
+                    </div>
+                  )}
                 </div>
               </div>
             );
@@ -612,7 +676,7 @@ function RecommendationCard({
   recommendation, 
   modelStats 
 }: { 
-  recommendation: { bestQuality: string | null; bestValue: string | null; recommendedSwitch: string | null; reasoning: string };
+  recommendation: Recommendation;
   modelStats: Record<string, ModelStats>;
 }) {
   return (
@@ -678,17 +742,26 @@ function RecommendationCard({
 }
 
 export default function AnalyticsPage() {
-  const [analytics, setAnalytics] = useState<AggregateAnalytics | null>(null);
-  const [loading, setLoading] = useState(true);
+  const [matters, setMatters] = useState<Matter[] | null>(null);
   const [selectedType, setSelectedType] = useState<string>('all');
+  const [confidence, setConfidence] = useState<ConfidenceLevel>(DEFAULT_CONFIDENCE);
+  const [baseline, setBaseline] = useState(CONTROL_BASELINE);
 
   useEffect(() => {
-    const matters = getMatters();
-    const stats = calculateAnalytics(matters);
-    setAnalytics(stats);
-    setLoading(false);
+    getMatters().then(setMatters);
   }, []);
 
+  const analytics = useMemo(
+    () => (matters ? calculateAnalytics(matters, baseline, confidence) : null),
+    [matters, baseline, confidence]
+  );
+  const loading = !matters;
+  // Trends follow the selected summary type
+  const trendMatters = useMemo(
+    () => (matters || []).filter((m) => m.status === 'completed' && (selectedType === 'all' || m.summaryType === selectedType)),
+    [matters, selectedType]
+  );
+
   if (loading || !analytics) {
     return (
       <div className="flex items-center justify-center h-full">
@@ -697,8 +770,13 @@ export default function AnalyticsPage() {
     );
   }
 
-  const baselineStats = analytics.overallStats.modelStats[BASELINE_MODEL_ID];
   const summaryTypes = Object.keys(analytics.byType);
+  const baselineOptions = Object.values(analytics.overallStats.modelStats)
+    .filter((s) => s.runCount > 0 && !s.model.isControl)
+    .map((s) => s.model);
+  const baselineName = baseline === CONTROL_BASELINE
+    ? 'Control'
+    : analytics.overallStats.modelStats[baseline]?.model.name || baseline;
 
   return (
     <div className="flex flex-col h-full">
@@ -719,6 +797,18 @@ export default function AnalyticsPage() {
                 Aggregate trends across {analytics.completedRuns} completed comparisons
               </p>
             </div>
+            {analytics.completedRuns > 0 && (
+              <div className="ml-auto flex items-center gap-2">
+                {(['csv', 'xlsx'] as const).map((format) => (
+                  <a key={format} href={`/api/analytics?${new URLSearchParams({ baseline, confidence: String(confidence), format })}`}>
+                    <Button variant="outline" size="sm" className="gap-2">
+                      <Download className="h-4 w-4" />
+                      {format.toUpperCase()}
+                    </Button>
+                  </a>
+                ))}
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -742,14 +832,14 @@ export default function AnalyticsPage() {
           />
           <StatCard
             title="Models Tested"
-            value={TEST_MODELS.length}
+            value={Object.keys(analytics.overallStats.modelStats).length}
             icon={Target}
             color="primary"
           />
           <StatCard
             title="Baseline Score"
-            value={baselineStats && baselineStats.runCount > 0 ? Math.round(baselineStats.avgScore) : 'N/A'}
-            subtitle="Gemini 2.5 Flash avg"
+            value={analytics.baselineAvgScore !== null ? Math.round(analytics.baselineAvgScore) : 'N/A'}
+            subtitle={`${baselineName} avg`}
             icon={Trophy}
             color="emerald"
           />
@@ -788,6 +878,35 @@ export default function AnalyticsPage() {
                     </TabsTrigger>
                   ))}
                 </TabsList>
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  Baseline
+                  <Select value={baseline} onValueChange={setBaseline}>
+                    <SelectTrigger className="w-56">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={CONTROL_BASELINE}>Control (each matter&apos;s)</SelectItem>
+                      {baselineOptions.map((model) => (
+                        <SelectItem key={model.id} value={model.id}>
+                          {model.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  Confidence
+                  <Select value={String(confidence)} onValueChange={(value) => setConfidence(Number(value) as ConfidenceLevel)}>
+                    <SelectTrigger className="w-24">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CONFIDENCE_LEVELS.map((level) => (
+                        <SelectItem key={level} value={String(level)}>
+                          {formatConfidence(level)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
               </div>
 
               {/* All Types Tab */}
@@ -798,7 +917,7 @@ export default function AnalyticsPage() {
                 />
                 <ModelLeaderboard 
                   modelStats={analytics.overallStats.modelStats}
-                  baselineModelId={analytics.baselineModelId}
+                  baseline={analytics.baseline}
                   title="Overall Model Leaderboard"
                   description="Ranked by average quality score across all summary types"
                 />
@@ -830,10 +949,17 @@ export default function AnalyticsPage() {
                   
                   <ModelLeaderboard 
                     modelStats={analytics.byType[type].modelStats}
-                    baselineModelId={analytics.baselineModelId}
+                    baseline={analytics.baseline}
                     title={`${analytics.byType[type].label} Leaderboard`}
                     description={`Model performance for ${analytics.byType[type].label.toLowerCase()} summaries`}
                   />
+
+                  {analytics.byType[type].humanAgreement && (
+                    <HumanAgreementCard
+                      label={analytics.byType[type].label}
+                      agreement={analytics.byType[type].humanAgreement}
+                    />
+                  )}
                 </TabsContent>
               ))}
             </Tabs>
@@ -907,6 +1033,12 @@ export default function AnalyticsPage() {
                 </CardContent>
               </Card>
             )}
+
+            <TrendsCard matters={trendMatters} />
+
+            {selectedType === 'all' && analytics.judgeReliability.length > 0 && (
+              <JudgeReliabilityCard judges={analytics.judgeReliability} />
+            )}
           </>
         )}
       </div>
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listMatters, listModels } from '@/lib/db';
+import { analyticsReport, CONTROL_BASELINE, testedModels } from '@/lib/analytics';
+import { analyticsCsv, analyticsXlsx, CsvTable } from '@/lib/analytics-export';
+import { CONFIDENCE_LEVELS, ConfidenceLevel, DEFAULT_CONFIDENCE } from '@/lib/significance';
+
+const FORMATS = ['json', 'csv', 'xlsx'] as const;
+type ExportFormat = typeof FORMATS[number];
+const CSV_TABLES: CsvTable[] = ['matters', 'models'];
+
+/**
+ * GET /api/analytics?baseline=control&confidence=0.95&format=json
+ * Cross-run analytics per model, per summary type and per matter summary.
+ * baseline is a model id or "control" (each matter's control model, the default);
+ * format=csv or xlsx downloads a spreadsheet instead of the JSON report;
+ * a CSV has one row per model per matter, or per-model totals with table=models.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const baseline = params.get('baseline') || CONTROL_BASELINE;
+    const confidence = Number(params.get('confidence') || DEFAULT_CONFIDENCE);
+    const format = (params.get('format') || 'json') as ExportFormat;
+    const table = (params.get('table') || 'matters') as CsvTable;
+
+    if (!CONFIDENCE_LEVELS.includes(confidence as ConfidenceLevel)) {
+      return NextResponse.json(
+        { error: `confidence must be one of ${CONFIDENCE_LEVELS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if (!FORMATS.includes(format)) {
+      return NextResponse.json({ error: `format must be one of ${FORMATS.join(', ')}` }, { status: 400 });
+    }
+    if (!CSV_TABLES.includes(table)) {
+      return NextResponse.json({ error: `table must be one of ${CSV_TABLES.join(', ')}` }, { status: 400 });
+    }
+
+    const matters = listMatters();
+    // A model a matter ran with counts even if it has since left the registry
+    const knownModel = (id: string) =>
+      listModels().some((m) => m.id === id) || testedModels(matters).some((m) => m.id === id);
+    if (baseline !== CONTROL_BASELINE && !knownModel(baseline)) {
+      return NextResponse.json(
+        { error: `baseline must be "${CONTROL_BASELINE}" or a known model id, not ${baseline}` },
+        { status: 400 }
+      );
+    }
+
+    const report = analyticsReport(matters, baseline, confidence as ConfidenceLevel);
+    if (format === 'json') return NextResponse.json(report);
+
+    const suffix = format === 'csv' && table === 'models' ? '-models' : '';
+    const filename = `analytics${suffix}-${report.generatedAt.slice(0, 10)}.${format}`;
+    const body = format === 'csv' ? analyticsCsv(report, table) : Buffer.from(await analyticsXlsx(report));
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': format === 'csv'
+          ? 'text/csv; charset=utf-8'
+          : 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error('[API/analytics] Report exception:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
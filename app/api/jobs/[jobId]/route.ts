@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findJob } from '@/lib/db';
+import { cancelJob } from '@/lib/job-runner';
+
+/**
+ * GET /api/jobs/{jobId}
+ * Get a processing job's current state
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const { jobId } = await params;
+
+  try {
+    const job = findJob(jobId);
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+    return NextResponse.json({ job });
+  } catch (error) {
+    console.error(`[API/jobs] Get ${jobId} exception:`, error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/jobs/{jobId}
+ * Cancel a running job. Summaries finished so far are kept.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const { jobId } = await params;
+
+  try {
+    const job = cancelJob(jobId);
+    if (!job) {
+      return NextResponse.json({ error: 'Job is not running' }, { status: 404 });
+    }
+    console.log(`[API/jobs] Cancellation requested for ${jobId}`);
+    return NextResponse.json({ job });
+  } catch (error) {
+    console.error(`[API/jobs] Cancel ${jobId} exception:`, error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,130 @@
+import { NextResponse } from 'next/server';
+import { listModels } from '@/lib/db';
+import { DiscoveredModel, mergeDiscoveredModels } from '@/lib/models';
+
+const API_BASE_URL = process.env.CASE_API_URL || 'https://api.case.dev';
+const API_KEY = process.env.CASE_API_KEY || '';
+
+// Helper to log with timestamp and color
+function log(level: 'info' | 'error' | 'warn', message: string, data?: unknown) {
+  const timestamp = new Date().toISOString();
+  const prefix = `[${timestamp}] [API/llm/models]`;
+
+  if (level === 'error') {
+    console.error(`${prefix} ❌ ${message}`, data ?? '');
+  } else if (level === 'warn') {
+    console.warn(`${prefix} ⚠️ ${message}`, data ?? '');
+  } else {
+    console.log(`${prefix} ✓ ${message}`, data ?? '');
+  }
+}
+
+// One entry of the gateway's listing - OpenAI-style, with the gateway's extra fields
+interface GatewayModel {
+  id?: string;
+  name?: string;
+  type?: string;
+  owned_by?: string;
+  context_window?: number;
+  context_length?: number;
+  pricing?: {
+    input?: string | number;
+    output?: string | number;
+    prompt?: string | number;
+    completion?: string | number;
+  };
+}
+
+// Gateway prices are per token; the registry keeps them per 1M tokens
+function perMillion(price: string | number | undefined): number | undefined {
+  if (price === undefined || price === null || price === '') return undefined;
+  const value = Number(price);
+  return Number.isFinite(value) && value >= 0 ? Number((value * 1_000_000).toFixed(4)) : undefined;
+}
+
+function toDiscoveredModel(model: GatewayModel): DiscoveredModel | null {
+  if (!model.id) return null;
+  // Embedding and image models can't write a summary
+  if (model.type && model.type !== 'language' && model.type !== 'chat') return null;
+  return {
+    id: model.id,
+    name: model.name,
+    provider: model.owned_by || model.id.split('/')[0],
+    contextLength: model.context_window || model.context_length,
+    inputPricePer1M: perMillion(model.pricing?.input ?? model.pricing?.prompt),
+    outputPricePer1M: perMillion(model.pricing?.output ?? model.pricing?.completion),
+  };
+}
+
+/**
+ * GET /api/llm/models
+ * List the models the LLM gateway offers, merged with the model registry
+ */
+export async function GET() {
+  try {
+    if (!API_KEY) {
+      log('error', 'CASE_API_KEY is not set');
+      return NextResponse.json(
+        { error: 'Server configuration error: API key not set' },
+        { status: 500 }
+      );
+    }
+
+    const targetUrl = `${API_BASE_URL}/llm/v1/models`;
+    log('info', `Proxying to: ${targetUrl}`);
+
+    const startTime = Date.now();
+    const response = await fetch(targetUrl, {
+      headers: { 'Authorization': `Bearer ${API_KEY}` },
+      cache: 'no-store',
+    });
+
+    const duration = Date.now() - startTime;
+
+    // Try to parse response as JSON, but handle non-JSON error responses
+    let data;
+    const responseText = await response.text();
+    try {
+      data = JSON.parse(responseText);
+    } catch {
+      log('error', `Non-JSON response from API (${response.status}) in ${duration}ms`, {
+        status: response.status,
+        responseText: responseText.substring(0, 200),
+      });
+      return NextResponse.json(
+        { error: responseText || `API returned non-JSON response (${response.status})` },
+        { status: response.status || 500 }
+      );
+    }
+
+    if (!response.ok) {
+      log('error', `Model listing failed (${response.status}) in ${duration}ms`, {
+        status: response.status,
+        error: data.message || data.error,
+      });
+      return NextResponse.json(
+        { error: data.message || data.error || 'Failed to list models' },
+        { status: response.status }
+      );
+    }
+
+    const listing: GatewayModel[] = Array.isArray(data.data) ? data.data : Array.isArray(data.models) ? data.models : [];
+    const discovered = listing
+      .map(toDiscoveredModel)
+      .filter((model): model is DiscoveredModel => model !== null);
+    const models = mergeDiscoveredModels(discovered, listModels());
+
+    log('info', `Listed ${discovered.length} models in ${duration}ms`, {
+      unregistered: models.filter(m => !m.inRegistry).length,
+      unpriced: models.filter(m => m.inputPricePer1M === undefined).length,
+    });
+
+    return NextResponse.json({ models });
+  } catch (error) {
+    log('error', 'Model listing exception', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findMatter } from '@/lib/db';
+import { getActiveJob, subscribe } from '@/lib/job-runner';
+import { MatterEvent } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+// Keep proxies from closing an idle stream
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+/**
+ * GET /api/matters/{id}/events
+ * Server-sent events for a matter: a snapshot of the matter and its running
+ * job, then every matter/job/log change while the connection is open.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  const matter = findMatter(id);
+  if (!matter) {
+    return NextResponse.json({ error: 'Matter not found' }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (event: MatterEvent) => {
+        try {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+        } catch {
+          cleanup();
+        }
+      };
+
+      // Subscribe before taking the snapshot so no change slips in between
+      const unsubscribe = subscribe(id, send);
+      send({ type: 'snapshot', matter: findMatter(id) || matter, job: getActiveJob(id) });
+
+      const heartbeat = setInterval(() => {
+        try {
+          controller.enqueue(encoder.encode(': heartbeat\n\n'));
+        } catch {
+          cleanup();
+        }
+      }, HEARTBEAT_INTERVAL_MS);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+      request.signal.addEventListener('abort', () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findMatter } from '@/lib/db';
+import { createMatterExport, exportFilename } from '@/lib/migrations';
+
+/**
+ * GET /api/matters/{id}/export
+ * Download a single matter as a versioned export file
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const matter = findMatter(id);
+    if (!matter) {
+      return NextResponse.json({ error: 'Matter not found' }, { status: 404 });
+    }
+
+    return new NextResponse(JSON.stringify(createMatterExport(matter), null, 2), {
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="${exportFilename(matter.name)}"`,
+      },
+    });
+  } catch (error) {
+    console.error(`[API/matters] Export ${id} exception:`, error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findMatter } from '@/lib/db';
+import { saveUpload } from '@/lib/uploads';
+
+/**
+ * POST /api/matters/{id}/files
+ * Store a document picked in the wizard so the processing job can read it.
+ * Expects multipart form data with `file` and `documentId`.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const matter = findMatter(id);
+    if (!matter) {
+      return NextResponse.json({ error: 'Matter not found' }, { status: 404 });
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+    const documentId = formData.get('documentId') as string | null;
+
+    if (!file || !documentId) {
+      return NextResponse.json({ error: 'file and documentId are required' }, { status: 400 });
+    }
+    if (!matter.sourceDocuments.some(d => d.id === documentId)) {
+      return NextResponse.json({ error: `Unknown document ${documentId}` }, { status: 400 });
+    }
+
+    saveUpload(id, documentId, Buffer.from(await file.arrayBuffer()));
+    console.log(`[API/matters] Stored ${file.name} (${file.size} bytes) for matter ${id}`);
+    return NextResponse.json({ success: true, documentId, size: file.size }, { status: 201 });
+  } catch (error) {
+    console.error(`[API/matters] Upload for ${id} exception:`, error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findMatter, listJobsForMatter } from '@/lib/db';
+import { getActiveJob, startJob } from '@/lib/job-runner';
+import { JobType } from '@/lib/types';
+
+const JOB_TYPES: JobType[] = ['process', 'summarize', 'refresh', 'analyze'];
+
+/**
+ * GET /api/matters/{id}/jobs
+ * Recent processing jobs for a matter (newest first)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    return NextResponse.json({ jobs: listJobsForMatter(id), activeJob: getActiveJob(id) });
+  } catch (error) {
+    console.error(`[API/jobs] List for ${id} exception:`, error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/matters/{id}/jobs
+ * Start a processing job. Body: { type: 'process' | 'summarize' | 'refresh' | 'analyze', modelIds?: string[] }
+ * Returns 409 with the running job if the matter already has one.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  let body: { type?: unknown; modelIds?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  try {
+    const type = body?.type as JobType;
+    const modelIds = Array.isArray(body?.modelIds) ? (body.modelIds as string[]) : undefined;
+
+    if (!JOB_TYPES.includes(type)) {
+      return NextResponse.json(
+        { error: `type must be one of: ${JOB_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if (!findMatter(id)) {
+      return NextResponse.json({ error: 'Matter not found' }, { status: 404 });
+    }
+
+    const activeJob = getActiveJob(id);
+    if (activeJob) {
+      return NextResponse.json(
+        { error: 'A job is already running for this matter', job: activeJob },
+        { status: 409 }
+      );
+    }
+
+    const job = startJob(id, type, modelIds);
+    return NextResponse.json({ job }, { status: 201 });
+  } catch (error) {
+    console.error(`[API/jobs] Start for ${id} exception:`, error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
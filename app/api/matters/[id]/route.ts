@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findMatter, upsertMatter, removeMatter } from '@/lib/db';
+import { cancelJob, getActiveJob, publishMatter } from '@/lib/job-runner';
+import { removeUploads } from '@/lib/uploads';
+import { validateMatter } from '@/lib/migrations';
+import { Matter } from '@/lib/types';
+
+/**
+ * GET /api/matters/{id}
+ * Get a single matter
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const matter = findMatter(id);
+    if (!matter) {
+      return NextResponse.json({ error: 'Matter not found' }, { status: 404 });
+    }
+    return NextResponse.json({ matter });
+  } catch (error) {
+    console.error(`[API/matters] Get ${id} exception:`, error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/matters/{id}
+ * Save a matter (insert or replace). Rejected with 409 while a processing
+ * job owns the matter, so a stale browser copy can't overwrite its progress.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  let matter: Matter;
+  try {
+    matter = (await request.json()) as Matter;
+  } catch {
+    return NextResponse.json({ error: 'Request body must be a JSON matter' }, { status: 400 });
+  }
+
+  try {
+    if (matter?.id !== id) {
+      return NextResponse.json(
+        { error: `Matter id mismatch: expected ${id}` },
+        { status: 400 }
+      );
+    }
+    const errors = validateMatter(matter);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors.join('; '), errors }, { status: 400 });
+    }
+
+    const activeJob = getActiveJob(id);
+    if (activeJob) {
+      return NextResponse.json(
+        { error: 'Matter is being processed - wait for the job to finish or cancel it', job: activeJob },
+        { status: 409 }
+      );
+    }
+
+    const saved = upsertMatter(matter);
+    publishMatter(saved);
+    return NextResponse.json({ matter: saved });
+  } catch (error) {
+    console.error(`[API/matters] Save ${id} exception:`, error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/matters/{id}
+ * Delete a matter, cancelling any running job and removing its uploaded
+ * files (vault cleanup is handled separately by the caller)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const activeJob = getActiveJob(id);
+    if (activeJob) cancelJob(activeJob.id);
+
+    const deleted = removeMatter(id);
+    removeUploads(id);
+    console.log(`[API/matters] Deleted matter ${id}: ${deleted}`);
+    return NextResponse.json({ success: true, deleted });
+  } catch (error) {
+    console.error(`[API/matters] Delete ${id} exception:`, error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listMatters } from '@/lib/db';
+import { createBundleExport, exportFilename } from '@/lib/migrations';
+
+/**
+ * GET /api/matters/export?ids=a,b
+ * Download a bundle export of the given matters (all matters without ids)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const ids = request.nextUrl.searchParams.get('ids')?.split(',').filter(Boolean);
+    const matters = ids?.length
+      ? listMatters().filter(m => ids.includes(m.id))
+      : listMatters();
+
+    if (ids?.length && matters.length === 0) {
+      return NextResponse.json({ error: 'No matching matters' }, { status: 404 });
+    }
+
+    const date = new Date().toISOString().slice(0, 10);
+    return new NextResponse(JSON.stringify(createBundleExport(matters), null, 2), {
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="${exportFilename(`matters-${date}`)}"`,
+      },
+    });
+  } catch (error) {
+    console.error('[API/matters] Export exception:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
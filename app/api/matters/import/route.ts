@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findMatter, upsertMatter } from '@/lib/db';
+import { getActiveJob, publishMatter } from '@/lib/job-runner';
+import { readMatterExport } from '@/lib/migrations';
+import { Matter, MatterStatus } from '@/lib/types';
+
+// No job comes along with an import, so a matter exported mid-run can only be resumed
+const IN_PROGRESS_STATUSES: MatterStatus[] = ['uploading', 'processing', 'summarizing', 'analyzing'];
+
+/**
+ * POST /api/matters/import?overwrite=true
+ * Import an export file (single matter or bundle, any schema version).
+ * Matters that already exist are skipped unless overwrite is set.
+ */
+export async function POST(request: NextRequest) {
+  const overwrite = request.nextUrl.searchParams.get('overwrite') === 'true';
+
+  let matters: Matter[];
+  try {
+    matters = readMatterExport(await request.json());
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? `Invalid export file: ${error.message}` : 'Invalid export file' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const imported: { id: string; name: string }[] = [];
+    const skipped: { id: string; name: string; reason: string }[] = [];
+
+    for (const matter of matters) {
+      if (findMatter(matter.id)) {
+        if (!overwrite) {
+          skipped.push({ id: matter.id, name: matter.name, reason: 'Already exists' });
+          continue;
+        }
+        if (getActiveJob(matter.id)) {
+          skipped.push({ id: matter.id, name: matter.name, reason: 'Being processed' });
+          continue;
+        }
+      }
+
+      const saved = upsertMatter(
+        IN_PROGRESS_STATUSES.includes(matter.status)
+          ? { ...matter, status: 'error', error: 'Exported while processing was still running - resume to finish' }
+          : matter
+      );
+      publishMatter(saved);
+      imported.push({ id: saved.id, name: saved.name });
+    }
+
+    console.log(`[API/matters] Imported ${imported.length} matter(s), skipped ${skipped.length}`);
+    return NextResponse.json({ imported, skipped });
+  } catch (error) {
+    console.error('[API/matters] Import exception:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
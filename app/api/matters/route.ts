@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listMatters, upsertMatter, getMatterStorageBytes } from '@/lib/db';
+import { validateMatter } from '@/lib/migrations';
+import { Matter } from '@/lib/types';
+
+// Helper to log with timestamp and color
+function log(level: 'info' | 'error' | 'warn', message: string, data?: unknown) {
+  const timestamp = new Date().toISOString();
+  const prefix = `[${timestamp}] [API/matters]`;
+  
+  if (level === 'error') {
+    console.error(`${prefix} ❌ ${message}`, data ?? '');
+  } else if (level === 'warn') {
+    console.warn(`${prefix} ⚠️ ${message}`, data ?? '');
+  } else {
+    console.log(`${prefix} ✓ ${message}`, data ?? '');
+  }
+}
+
+/**
+ * GET /api/matters
+ * List all matters (newest first) plus the total stored size
+ */
+export async function GET() {
+  try {
+    const matters = listMatters();
+    return NextResponse.json({ matters, storageBytes: getMatterStorageBytes() });
+  } catch (error) {
+    log('error', 'Matter list exception', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/matters
+ * Create a matter (or overwrite one with the same id)
+ */
+export async function POST(request: NextRequest) {
+  let matter: Matter;
+  try {
+    matter = (await request.json()) as Matter;
+  } catch {
+    return NextResponse.json({ error: 'Request body must be a JSON matter' }, { status: 400 });
+  }
+
+  try {
+    const errors = validateMatter(matter);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors.join('; '), errors }, { status: 400 });
+    }
+
+    const saved = upsertMatter(matter);
+    log('info', 'Matter saved', { id: saved.id, name: saved.name });
+    return NextResponse.json({ matter: saved }, { status: 201 });
+  } catch (error) {
+    log('error', 'Matter create exception', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
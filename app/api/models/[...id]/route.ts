@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { hasSavedModel, listModels, removeModel, upsertModel } from '@/lib/db';
+import { DEFAULT_MODELS, findModel, isDefaultModel, validateModel } from '@/lib/models';
+import { ModelConfig } from '@/lib/types';
+
+// Model ids contain a slash (provider/model), so they arrive as path segments
+type Params = { params: Promise<{ id: string[] }> };
+
+/**
+ * PUT /api/models/{provider}/{model}
+ * Re-price, rename or retire a model. Matters that already ran with it keep
+ * the copy they were created with.
+ */
+export async function PUT(request: NextRequest, { params }: Params) {
+  const modelId = (await params).id.join('/');
+
+  let body: ModelConfig;
+  try {
+    body = (await request.json()) as ModelConfig;
+  } catch {
+    return NextResponse.json({ error: 'Request body must be a JSON model config' }, { status: 400 });
+  }
+
+  try {
+    const existing = findModel(listModels(), modelId);
+    if (!existing) {
+      return NextResponse.json({ error: `Unknown model: ${modelId}` }, { status: 404 });
+    }
+
+    const model: ModelConfig = { ...body, id: modelId, isControl: existing.isControl, updatedAt: undefined };
+    const errors = validateModel(model);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors.join('; '), errors }, { status: 400 });
+    }
+
+    return NextResponse.json({ model: upsertModel(model) });
+  } catch (error) {
+    console.error(`[API/models] Save ${modelId} exception:`, error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/models/{provider}/{model}
+ * Discard edits to a built-in model (which is returned) or remove an added
+ * one (model is null)
+ */
+export async function DELETE(request: NextRequest, { params }: Params) {
+  const modelId = (await params).id.join('/');
+
+  try {
+    if (!hasSavedModel(modelId)) {
+      return NextResponse.json({ error: `No saved changes for ${modelId}` }, { status: 404 });
+    }
+
+    removeModel(modelId);
+    return NextResponse.json({
+      model: isDefaultModel(modelId) ? findModel(DEFAULT_MODELS, modelId) : null,
+    });
+  } catch (error) {
+    console.error(`[API/models] Remove ${modelId} exception:`, error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
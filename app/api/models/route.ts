@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listModels, upsertModel } from '@/lib/db';
+import { findModel, validateModel } from '@/lib/models';
+import { ModelConfig } from '@/lib/types';
+
+/**
+ * GET /api/models
+ * The model registry - every summarizer and judge, retired ones included
+ */
+export async function GET() {
+  try {
+    return NextResponse.json({ models: listModels() });
+  } catch (error) {
+    console.error('[API/models] List exception:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/models
+ * Add a model to the registry
+ */
+export async function POST(request: NextRequest) {
+  let body: ModelConfig;
+  try {
+    body = (await request.json()) as ModelConfig;
+  } catch {
+    return NextResponse.json({ error: 'Request body must be a JSON model config' }, { status: 400 });
+  }
+
+  try {
+    const model: ModelConfig = { ...body, isControl: undefined, updatedAt: undefined };
+    const errors = validateModel(model);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors.join('; '), errors }, { status: 400 });
+    }
+    if (findModel(listModels(), model.id)) {
+      return NextResponse.json({ error: `${model.id} is already in the registry` }, { status: 409 });
+    }
+
+    return NextResponse.json({ model: upsertModel(model) }, { status: 201 });
+  } catch (error) {
+    console.error('[API/models] Add exception:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
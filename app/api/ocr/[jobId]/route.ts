@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+const API_BASE_URL = process.env.CASE_API_URL || 'https://api.case.dev';
+const API_KEY = process.env.CASE_API_KEY || '';
+
+// Case.dev reports a queued job as 'queued'; callers only distinguish waiting from running
+const STATUS_MAP: Record<string, 'pending' | 'processing' | 'completed' | 'failed'> = {
+  queued: 'pending',
+  pending: 'pending',
+  processing: 'processing',
+  running: 'processing',
+  completed: 'completed',
+  succeeded: 'completed',
+  failed: 'failed',
+  error: 'failed',
+};
+
+/**
+ * GET /api/ocr/:jobId
+ * Proxy to check the status of an OCR job
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const { jobId } = await params;
+
+    if (!API_KEY) {
+      return NextResponse.json(
+        { error: 'Server configuration error: API key not set' },
+        { status: 500 }
+      );
+    }
+
+    const response = await fetch(`${API_BASE_URL}/ocr/v1/${encodeURIComponent(jobId)}`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${API_KEY}`,
+      },
+      cache: 'no-store',
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      console.error('[OCR/Status] Error:', data);
+      return NextResponse.json(
+        { error: data.message || data.error || 'Failed to get OCR status' },
+        { status: response.status }
+      );
+    }
+
+    return NextResponse.json({
+      jobId,
+      status: STATUS_MAP[data.status] || 'processing',
+      pageCount: data.page_count ?? data.pageCount,
+      error: data.error_message || data.error || undefined,
+    });
+  } catch (error) {
+    console.error('[OCR/Status] Exception:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+const API_BASE_URL = process.env.CASE_API_URL || 'https://api.case.dev';
+const API_KEY = process.env.CASE_API_KEY || '';
+
+interface OcrJsonPage {
+  page_number?: number;
+  page?: number;
+  text?: string;
+}
+
+/**
+ * GET /api/ocr/:jobId/text
+ * Proxy to get the text of a completed OCR job, page by page. The JSON
+ * result carries per-page text; the plain-text download is the fallback.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const { jobId } = await params;
+
+    if (!API_KEY) {
+      return NextResponse.json(
+        { error: 'Server configuration error: API key not set' },
+        { status: 500 }
+      );
+    }
+
+    const headers = { 'Authorization': `Bearer ${API_KEY}` };
+
+    const jsonResponse = await fetch(`${API_BASE_URL}/ocr/v1/${encodeURIComponent(jobId)}/download/json`, { headers });
+    if (jsonResponse.ok) {
+      const data = await jsonResponse.json();
+      const pages = ((data.pages || []) as OcrJsonPage[])
+        .map((p, index) => ({ page: p.page_number ?? p.page ?? index + 1, text: (p.text || '').trim() }))
+        .sort((a, b) => a.page - b.page);
+      if (pages.some(p => p.text)) {
+        return NextResponse.json({
+          text: pages.map(p => p.text).join('\n\n'),
+          pageCount: pages.length,
+          pages,
+        });
+      }
+    } else {
+      console.warn(`[OCR/Text] JSON result unavailable (${jsonResponse.status}), falling back to plain text`);
+    }
+
+    const textResponse = await fetch(`${API_BASE_URL}/ocr/v1/${encodeURIComponent(jobId)}/download/text`, { headers });
+    const text = await textResponse.text();
+
+    if (!textResponse.ok) {
+      console.error('[OCR/Text] Error:', text.substring(0, 200));
+      return NextResponse.json(
+        { error: text || 'Failed to get OCR text' },
+        { status: textResponse.status }
+      );
+    }
+
+    // Page breaks come through as form feeds in the plain-text result
+    const pages = text.split('\f').map((pageText, index) => ({ page: index + 1, text: pageText.trim() }));
+    return NextResponse.json({ text: text.replace(/\f/g, '\n\n').trim(), pageCount: pages.length, pages });
+  } catch (error) {
+    console.error('[OCR/Text] Exception:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+const API_BASE_URL = process.env.CASE_API_URL || 'https://api.case.dev';
+const API_KEY = process.env.CASE_API_KEY || '';
+
+/**
+ * POST /api/ocr
+ * Submit a document URL to the Case.dev OCR service
+ * Body: { url: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { url } = await request.json();
+
+    if (!url || typeof url !== 'string') {
+      return NextResponse.json({ error: 'A document url is required' }, { status: 400 });
+    }
+
+    if (!API_KEY) {
+      return NextResponse.json(
+        { error: 'Server configuration error: API key not set' },
+        { status: 500 }
+      );
+    }
+
+    const response = await fetch(`${API_BASE_URL}/ocr/v1/process`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${API_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ document_url: url }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      console.error('[OCR] Submit error:', data);
+      return NextResponse.json(
+        { error: data.message || data.error || 'Failed to submit OCR job' },
+        { status: response.status }
+      );
+    }
+
+    console.log(`[OCR] Job submitted: ${data.id}`);
+    return NextResponse.json({ jobId: data.id, status: !data.status || data.status === 'queued' ? 'pending' : data.status });
+  } catch (error) {
+    console.error('[OCR] Exception:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { removeRubric, upsertRubric } from '@/lib/db';
+import { defaultRubric, validateRubric } from '@/lib/rubrics';
+import { ALL_SUMMARY_TYPES, Rubric, SummaryType } from '@/lib/types';
+
+function isSummaryType(value: string): value is SummaryType {
+  return (ALL_SUMMARY_TYPES as string[]).includes(value);
+}
+
+/**
+ * PUT /api/rubrics/{summaryType}
+ * Save an edited rubric. Matters already created keep the copy they were
+ * created with until they're re-scored with the new one.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ summaryType: string }> }
+) {
+  const { summaryType } = await params;
+
+  try {
+    if (!isSummaryType(summaryType)) {
+      return NextResponse.json({ error: `Unknown summary type: ${summaryType}` }, { status: 404 });
+    }
+
+    const body = (await request.json()) as Rubric;
+    const rubric: Rubric = { summaryType, categories: body?.categories };
+    const errors = validateRubric(rubric);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors.join('; '), errors }, { status: 400 });
+    }
+
+    return NextResponse.json({ rubric: upsertRubric(rubric) });
+  } catch (error) {
+    console.error(`[API/rubrics] Save ${summaryType} exception:`, error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/rubrics/{summaryType}
+ * Discard edits and go back to the built-in rubric (which is returned)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ summaryType: string }> }
+) {
+  const { summaryType } = await params;
+
+  try {
+    if (!isSummaryType(summaryType)) {
+      return NextResponse.json({ error: `Unknown summary type: ${summaryType}` }, { status: 404 });
+    }
+
+    removeRubric(summaryType);
+    return NextResponse.json({ rubric: defaultRubric(summaryType) });
+  } catch (error) {
+    console.error(`[API/rubrics] Reset ${summaryType} exception:`, error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
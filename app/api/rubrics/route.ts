@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { listRubrics } from '@/lib/db';
+import { defaultRubric } from '@/lib/rubrics';
+import { ALL_SUMMARY_TYPES, Rubric, SummaryType } from '@/lib/types';
+
+/**
+ * GET /api/rubrics
+ * The rubric each summary type is judged with - the edited one if saved,
+ * otherwise the built-in default
+ */
+export async function GET() {
+  try {
+    const saved = new Map(listRubrics().map(r => [r.summaryType, r]));
+    const rubrics = Object.fromEntries(
+      ALL_SUMMARY_TYPES.map(type => [type, saved.get(type) || defaultRubric(type)])
+    ) as Record<SummaryType, Rubric>;
+    return NextResponse.json({ rubrics });
+  } catch (error) {
+    console.error('[API/rubrics] List exception:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -3,19 +3,20 @@ import { ThemeProvider } from '@/components/theme-provider';
 import { TooltipProvider } from '@/components/ui/tooltip';
 import { Toaster } from '@/components/toaster';
 import { DebugConsole } from '@/components/debug-console';
+import { ModelList } from '@/components/model-list';
 import Link from 'next/link';
 import {
   Scale,
   Home,
   Plus,
   BarChart3,
+  ListChecks,
+  Cpu,
   FileText,
   Github,
   ExternalLink,
-  Star,
 } from 'lucide-react';
 import { Separator } from '@/components/ui/separator';
-import { TEST_MODELS, CONTROL_MODEL } from '@/lib/types';
 import './globals.css';
 
 export const metadata: Metadata = {
@@ -97,43 +98,25 @@ export default function RootLayout({
                       <BarChart3 className="h-4 w-4" />
                       <span>Analytics</span>
                     </Link>
+                    <Link
+                      href="/rubrics"
+                      className="flex items-center gap-3 px-3 py-2.5 text-sm font-medium text-muted-foreground hover:text-foreground hover:bg-muted rounded-lg transition-colors"
+                    >
+                      <ListChecks className="h-4 w-4" />
+                      <span>Rubrics</span>
+                    </Link>
+                    <Link
+                      href="/models"
+                      className="flex items-center gap-3 px-3 py-2.5 text-sm font-medium text-muted-foreground hover:text-foreground hover:bg-muted rounded-lg transition-colors"
+                    >
+                      <Cpu className="h-4 w-4" />
+                      <span>Models</span>
+                    </Link>
                   </div>
 
                   <Separator className="my-4" />
 
-                  <div className="space-y-1">
-                    <div className="px-3 py-2 text-[10px] font-semibold text-muted-foreground uppercase tracking-wider">
-                      Models Tested ({TEST_MODELS.length})
-                    </div>
-                    <div className="px-3 py-1.5 text-xs text-muted-foreground space-y-0.5">
-                      {TEST_MODELS.map((model) => {
-                        const controlCost = CONTROL_MODEL.inputPricePer1M + CONTROL_MODEL.outputPricePer1M;
-                        const modelCost = model.inputPricePer1M + model.outputPricePer1M;
-                        const costDiff = Math.round(((modelCost - controlCost) / controlCost) * 100);
-                        
-                        return (
-                          <div key={model.id} className="flex items-center gap-2 py-0.5">
-                            {model.isControl ? (
-                              <Star className="w-2.5 h-2.5 text-amber-400 fill-amber-400" />
-                            ) : (
-                              <div 
-                                className="w-2 h-2 rounded-full" 
-                                style={{ backgroundColor: model.color }}
-                              />
-                            )}
-                            <span className={model.isControl ? 'text-amber-400 font-medium' : ''}>
-                              {model.name.replace('⭐ ', '')}
-                            </span>
-                            {!model.isControl && costDiff !== 0 && (
-                              <span className={`text-[9px] ${costDiff < 0 ? 'text-emerald-400' : 'text-red-400'}`}>
-                                {costDiff > 0 ? '+' : ''}{costDiff}%
-                              </span>
-                            )}
-                          </div>
-                        );
-                      })}
-                    </div>
-                  </div>
+                  <ModelList />
 
                   <Separator className="my-4" />
 
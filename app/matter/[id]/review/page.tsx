@@ -0,0 +1,295 @@
+'use client';
+
+import { use, useEffect, useState } from 'react';
+import Link from 'next/link';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  ArrowLeft,
+  EyeOff,
+  Save,
+  Loader2,
+  AlertCircle,
+  CheckCircle2,
+  ChevronLeft,
+  ChevronRight,
+} from 'lucide-react';
+import { Matter, SUMMARY_TYPE_INFO } from '@/lib/types';
+import { getMatter, saveMatter } from '@/lib/storage';
+import { computeOverallScore, getMatterRubric } from '@/lib/rubrics';
+import { blindSummaries, findRating, recordRating, REVIEWER_STORAGE_KEY } from '@/lib/human-review';
+import { cn } from '@/lib/utils';
+import { useToast } from '@/components/ui/use-toast';
+
+// Scores as typed - a category left blank stays blank rather than reading as 0
+type ScoreDraft = Record<string, string>;
+
+export default function BlindReviewPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = use(params);
+  const { toast } = useToast();
+  const [matter, setMatter] = useState<Matter | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [reviewer, setReviewer] = useState('');
+  const [selected, setSelected] = useState(0);
+  const [scores, setScores] = useState<ScoreDraft>({});
+  const [comment, setComment] = useState('');
+
+  // Show a summary, with the reviewer's earlier grades of it (if any) in the form
+  const openSummary = (m: Matter | null, name: string, index: number) => {
+    const summary = m && name.trim() ? blindSummaries(m, name)[index] : undefined;
+    const rating = m && summary ? findRating(m, name, summary.modelId) : undefined;
+    setSelected(index);
+    setScores(rating ? Object.fromEntries(Object.entries(rating.categoryScores).map(([k, v]) => [k, String(v)])) : {});
+    setComment(rating?.comment || '');
+  };
+
+  useEffect(() => {
+    const name = localStorage.getItem(REVIEWER_STORAGE_KEY) || '';
+    setReviewer(name);
+    getMatter(id).then(m => {
+      setMatter(m);
+      openSummary(m, name, 0);
+      setIsLoading(false);
+    });
+  }, [id]);
+
+  const summaries = matter && reviewer.trim() ? blindSummaries(matter, reviewer) : [];
+  const current = summaries[selected];
+  const rubric = matter ? getMatterRubric(matter) : null;
+  const existing = matter && current ? findRating(matter, reviewer, current.modelId) : undefined;
+  const ratedCount = matter ? summaries.filter(s => findRating(matter, reviewer, s.modelId)).length : 0;
+
+  const changeReviewer = (name: string) => {
+    setReviewer(name);
+    openSummary(matter, name, 0);
+    localStorage.setItem(REVIEWER_STORAGE_KEY, name);
+  };
+
+  const parsed = rubric
+    ? Object.fromEntries(
+        rubric.categories
+          .filter(c => scores[c.id] !== undefined && scores[c.id] !== '')
+          .map(c => [c.id, Math.max(0, Math.min(100, Math.round(Number(scores[c.id]))))])
+      )
+    : {};
+  const isComplete = !!rubric && rubric.categories.every(c => Number.isFinite(parsed[c.id]));
+  const overall = rubric && isComplete ? computeOverallScore(rubric, parsed) : null;
+
+  const submit = async () => {
+    if (!current || !isComplete) return;
+    setIsSaving(true);
+    // Start from the stored matter so a save here can't undo changes made elsewhere since loading
+    const latest = (await getMatter(id)) || matter;
+    if (!latest) {
+      setIsSaving(false);
+      return;
+    }
+    const updated: Matter = {
+      ...latest,
+      humanRatings: recordRating(latest, { modelId: current.modelId, reviewer, categoryScores: parsed, comment }),
+    };
+    const saved = await saveMatter(updated);
+    setIsSaving(false);
+    if (!saved) {
+      toast({
+        title: 'Could not save your grades',
+        description: 'Ratings can\'t be saved while the matter is processing.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    setMatter(updated);
+    toast({ title: `${current.label} graded` });
+    const next = summaries.findIndex((s, i) => i > selected && !findRating(updated, reviewer, s.modelId));
+    if (next >= 0) openSummary(updated, reviewer, next);
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      {/* Header */}
+      <div className="border-b border-border bg-gradient-to-r from-card to-card/80">
+        <div className="px-8 py-6">
+          <div className="flex items-center gap-4">
+            <Link href={`/matter/${id}`}>
+              <Button variant="ghost" size="icon">
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+            </Link>
+            <div>
+              <h1 className="text-2xl font-serif font-semibold tracking-tight flex items-center gap-2">
+                <EyeOff className="h-5 w-5" />
+                Blind Review
+              </h1>
+              <p className="text-muted-foreground mt-1">
+                {matter
+                  ? `${matter.name} • ${SUMMARY_TYPE_INFO[matter.summaryType].label} • grade each summary without knowing which model wrote it`
+                  : 'Grade each summary without knowing which model wrote it'}
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="flex-1 overflow-y-auto p-8">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-20 text-muted-foreground">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : !matter || !rubric ? (
+          <div className="flex items-center justify-center gap-2 py-20 text-muted-foreground">
+            <AlertCircle className="h-5 w-5" />
+            Matter not found
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="flex items-end gap-4">
+              <div className="space-y-1 w-64">
+                <Label className="text-xs">Reviewing as</Label>
+                <Input value={reviewer} placeholder="Your name" onChange={e => changeReviewer(e.target.value)} />
+              </div>
+              {summaries.length > 0 && (
+                <p className="text-sm text-muted-foreground pb-2">
+                  {ratedCount} of {summaries.length} summaries graded
+                </p>
+              )}
+            </div>
+
+            {!reviewer.trim() ? (
+              <p className="text-sm text-muted-foreground">
+                Enter your name to start. Each reviewer sees the summaries in their own order.
+              </p>
+            ) : summaries.length === 0 ? (
+              <p className="text-sm text-muted-foreground">This matter has no completed summaries to grade yet.</p>
+            ) : (
+              <>
+                <div className="flex flex-wrap gap-2">
+                  {summaries.map((summary, i) => {
+                    const rated = !!findRating(matter, reviewer, summary.modelId);
+                    return (
+                      <button
+                        key={summary.label}
+                        type="button"
+                        onClick={() => openSummary(matter, reviewer, i)}
+                        className={cn(
+                          'flex items-center gap-1.5 px-3 py-1.5 rounded-lg border text-sm transition-colors',
+                          i === selected ? 'border-primary bg-muted font-medium' : 'border-border text-muted-foreground hover:bg-muted/50'
+                        )}
+                      >
+                        {rated && <CheckCircle2 className="h-3.5 w-3.5 text-green-600" />}
+                        {summary.label}
+                      </button>
+                    );
+                  })}
+                </div>
+
+                <div className="grid grid-cols-[1fr_420px] gap-6 items-start">
+                  <Card>
+                    <CardHeader>
+                      <div className="flex items-center justify-between">
+                        <CardTitle className="font-serif">{current.label}</CardTitle>
+                        <div className="flex gap-1">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            disabled={selected === 0}
+                            onClick={() => openSummary(matter, reviewer, selected - 1)}
+                            title="Previous summary"
+                          >
+                            <ChevronLeft className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            disabled={selected === summaries.length - 1}
+                            onClick={() => openSummary(matter, reviewer, selected + 1)}
+                            title="Next summary"
+                          >
+                            <ChevronRight className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    </CardHeader>
+                    <CardContent>
+                      <pre className="whitespace-pre-wrap font-sans text-sm leading-relaxed">
+                        {matter.summaries[current.modelId]?.content}
+                      </pre>
+                    </CardContent>
+                  </Card>
+
+                  <Card className="sticky top-0">
+                    <CardHeader>
+                      <CardTitle className="font-serif text-base flex items-center gap-2">
+                        Your Grades
+                        {existing && <Badge variant="outline" className="text-[10px]">Graded</Badge>}
+                      </CardTitle>
+                      <CardDescription>
+                        Score each category 0-100 on the same rubric the judge uses.
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      {rubric.categories.map(category => (
+                        <div key={category.id} className="space-y-1">
+                          <div className="flex items-center justify-between gap-3">
+                            <Label className="text-sm">{category.name}</Label>
+                            <Input
+                              type="number"
+                              min={0}
+                              max={100}
+                              className="w-20 h-8"
+                              value={scores[category.id] ?? ''}
+                              onChange={e => setScores(prev => ({ ...prev, [category.id]: e.target.value }))}
+                            />
+                          </div>
+                          <p className="text-xs text-muted-foreground">{category.description}</p>
+                          {category.anchors.length > 0 && (
+                            <p className="text-[11px] text-muted-foreground">
+                              {category.anchors.map(a => `${a.score}: ${a.description}`).join(' • ')}
+                            </p>
+                          )}
+                        </div>
+                      ))}
+                      <div className="space-y-1">
+                        <Label className="text-xs">Comment</Label>
+                        <Textarea
+                          value={comment}
+                          rows={3}
+                          placeholder="Optional"
+                          onChange={e => setComment(e.target.value)}
+                        />
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm text-muted-foreground">
+                          Overall: {overall !== null ? overall : '—'}
+                        </span>
+                        <Button onClick={submit} disabled={!isComplete || isSaving}>
+                          {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                          Save Grades
+                        </Button>
+                      </div>
+                    </CardContent>
+                  </Card>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
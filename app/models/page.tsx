@@ -0,0 +1,402 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  ArrowLeft,
+  Cpu,
+  Plus,
+  Pencil,
+  Archive,
+  ArchiveRestore,
+  RotateCcw,
+  Trash2,
+  Loader2,
+  AlertCircle,
+  Star,
+} from 'lucide-react';
+import { ModelConfig, ModelRole } from '@/lib/types';
+import { getModels, resetModel, saveModel } from '@/lib/storage';
+import { isDefaultModel, MODEL_ROLE_LABELS, validateModel } from '@/lib/models';
+import { cn } from '@/lib/utils';
+import { useToast } from '@/components/ui/use-toast';
+
+const ROLE_DESCRIPTIONS: Record<ModelRole, string> = {
+  summarizer: 'Models CaseMark generates the compared summaries with',
+  judge: 'Models that score and compare the summaries',
+};
+
+const NEW_MODEL: ModelConfig = {
+  id: '',
+  name: '',
+  provider: '',
+  role: 'summarizer',
+  inputPricePer1M: 0,
+  outputPricePer1M: 0,
+  color: '#64748b',
+};
+
+function formatPrice(price: number): string {
+  return `$${price.toFixed(price < 0.1 ? 3 : 2)}`;
+}
+
+function formatTokens(tokens?: number): string {
+  if (!tokens) return '—';
+  return tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(tokens % 1_000_000 ? 2 : 0)}M` : `${Math.round(tokens / 1000)}K`;
+}
+
+export default function ModelsPage() {
+  const { toast } = useToast();
+  const [models, setModels] = useState<ModelConfig[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editing, setEditing] = useState<{ model: ModelConfig; isNew: boolean } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadModels = async () => {
+    const loaded = await getModels();
+    if (loaded) setModels(loaded);
+  };
+
+  useEffect(() => {
+    getModels().then(loaded => {
+      if (loaded) setModels(loaded);
+      setIsLoading(false);
+    });
+  }, []);
+
+  const errors = editing ? validateModel(editing.model) : [];
+
+  const updateEditing = (changes: Partial<ModelConfig>) => {
+    setEditing(prev => prev && { ...prev, model: { ...prev.model, ...changes } });
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    setIsSaving(true);
+    const result = await saveModel(editing.model, editing.isNew);
+    setIsSaving(false);
+    if (!result.model) {
+      toast({ title: 'Could not save model', description: result.error, variant: 'destructive' });
+      return;
+    }
+    toast({
+      title: editing.isNew ? 'Model added' : 'Model saved',
+      description: 'New comparisons use it - existing matters keep the pricing they ran with',
+    });
+    setEditing(null);
+    loadModels();
+  };
+
+  const toggleRetired = async (model: ModelConfig) => {
+    const result = await saveModel({ ...model, retired: !model.retired });
+    if (!result.model) {
+      toast({ title: 'Could not update model', description: result.error, variant: 'destructive' });
+      return;
+    }
+    loadModels();
+  };
+
+  const handleReset = async (model: ModelConfig) => {
+    const isDefault = isDefaultModel(model.id);
+    const question = isDefault
+      ? `Undo your changes to ${model.name}?`
+      : `Remove ${model.name} from the registry? Matters that used it keep their copy.`;
+    if (!confirm(question)) return;
+    if (!(await resetModel(model.id))) {
+      toast({ title: 'Could not reset model', variant: 'destructive' });
+      return;
+    }
+    loadModels();
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      {/* Header */}
+      <div className="border-b border-border bg-gradient-to-r from-card to-card/80">
+        <div className="px-8 py-6">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <Link href="/">
+                <Button variant="ghost" size="icon">
+                  <ArrowLeft className="h-4 w-4" />
+                </Button>
+              </Link>
+              <div>
+                <h1 className="text-2xl font-serif font-semibold tracking-tight">
+                  Model Registry
+                </h1>
+                <p className="text-muted-foreground mt-1">
+                  Which models new comparisons can use, and what they cost per 1M tokens
+                </p>
+              </div>
+            </div>
+            <Button className="gap-2" onClick={() => setEditing({ model: NEW_MODEL, isNew: true })}>
+              <Plus className="h-4 w-4" />
+              Add Model
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="flex-1 overflow-y-auto p-8 space-y-8">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-20 text-muted-foreground">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          (Object.keys(MODEL_ROLE_LABELS) as ModelRole[]).map(role => (
+            <Card key={role}>
+              <CardHeader>
+                <CardTitle className="font-serif flex items-center gap-2">
+                  <Cpu className="h-5 w-5" />
+                  {MODEL_ROLE_LABELS[role]}s
+                </CardTitle>
+                <CardDescription>{ROLE_DESCRIPTIONS[role]}</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-border text-xs text-muted-foreground">
+                      <th className="text-left font-medium py-2 px-3">Model</th>
+                      <th className="text-left font-medium py-2 px-3">Provider</th>
+                      <th className="text-right font-medium py-2 px-3">Input / 1M</th>
+                      <th className="text-right font-medium py-2 px-3">Output / 1M</th>
+                      <th className="text-right font-medium py-2 px-3">Context</th>
+                      <th className="py-2 px-3" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {models.filter(m => m.role === role).map(model => (
+                      <tr key={model.id} className={cn('border-b border-border/50', model.retired && 'opacity-50')}>
+                        <td className="py-2 px-3">
+                          <div className="flex items-center gap-2">
+                            {model.isControl ? (
+                              <Star className="w-3 h-3 text-amber-400 fill-amber-400 shrink-0" />
+                            ) : (
+                              <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: model.color }} />
+                            )}
+                            <div>
+                              <p className="font-medium flex items-center gap-2">
+                                {model.name}
+                                {model.retired && <Badge variant="outline" className="text-[10px]">Retired</Badge>}
+                                {model.updatedAt && (
+                                  <Badge variant="outline" className="text-[10px]">
+                                    {isDefaultModel(model.id) ? 'Edited' : 'Added'}
+                                  </Badge>
+                                )}
+                              </p>
+                              <p className="text-xs text-muted-foreground font-mono">{model.id}</p>
+                            </div>
+                          </div>
+                        </td>
+                        <td className="py-2 px-3 text-muted-foreground">{model.provider}</td>
+                        <td className="py-2 px-3 text-right font-mono tabular-nums">{formatPrice(model.inputPricePer1M)}</td>
+                        <td className="py-2 px-3 text-right font-mono tabular-nums">{formatPrice(model.outputPricePer1M)}</td>
+                        <td className="py-2 px-3 text-right font-mono tabular-nums text-muted-foreground">{formatTokens(model.contextWindow)}</td>
+                        <td className="py-2 px-3">
+                          <div className="flex justify-end gap-1">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Edit"
+                              onClick={() => setEditing({ model, isNew: false })}
+                            >
+                              <Pencil className="h-3.5 w-3.5" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title={model.isControl ? 'The control model can\'t be retired' : model.retired ? 'Restore' : 'Retire'}
+                              disabled={model.isControl}
+                              onClick={() => toggleRetired(model)}
+                            >
+                              {model.retired ? <ArchiveRestore className="h-3.5 w-3.5" /> : <Archive className="h-3.5 w-3.5" />}
+                            </Button>
+                            {model.updatedAt && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                title={isDefaultModel(model.id) ? 'Undo changes' : 'Remove'}
+                                onClick={() => handleReset(model)}
+                              >
+                                {isDefaultModel(model.id) ? <RotateCcw className="h-3.5 w-3.5" /> : <Trash2 className="h-3.5 w-3.5" />}
+                              </Button>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </div>
+
+      {/* Add / edit */}
+      <Dialog open={!!editing} onOpenChange={open => !open && setEditing(null)}>
+        {editing && (
+          <DialogContent className="max-w-lg">
+            <DialogHeader>
+              <DialogTitle>{editing.isNew ? 'Add Model' : `Edit ${editing.model.name}`}</DialogTitle>
+              <DialogDescription>
+                Prices are in dollars per 1M tokens. Matters already created keep the prices they ran with.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1 col-span-2">
+                  <Label className="text-xs">Model id</Label>
+                  <Input
+                    value={editing.model.id}
+                    placeholder="provider/model"
+                    className="font-mono text-xs"
+                    disabled={!editing.isNew}
+                    onChange={e => updateEditing({ id: e.target.value.trim() })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Name</Label>
+                  <Input value={editing.model.name} onChange={e => updateEditing({ name: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Provider</Label>
+                  <Input value={editing.model.provider} onChange={e => updateEditing({ provider: e.target.value })} />
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <Label className="text-xs">Role</Label>
+                <div className="flex gap-2">
+                  {(Object.keys(MODEL_ROLE_LABELS) as ModelRole[]).map(role => (
+                    <Button
+                      key={role}
+                      variant={editing.model.role === role ? 'secondary' : 'ghost'}
+                      size="sm"
+                      disabled={editing.model.isControl}
+                      onClick={() => updateEditing({ role })}
+                    >
+                      {MODEL_ROLE_LABELS[role]}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label className="text-xs">Input price / 1M</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    value={editing.model.inputPricePer1M}
+                    onChange={e => updateEditing({ inputPricePer1M: Number(e.target.value) })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Output price / 1M</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    value={editing.model.outputPricePer1M}
+                    onChange={e => updateEditing({ outputPricePer1M: Number(e.target.value) })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Context window (tokens)</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={editing.model.contextWindow ?? ''}
+                    onChange={e => updateEditing({ contextWindow: e.target.value ? Number(e.target.value) : undefined })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Max output (tokens)</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={editing.model.maxOutput ?? ''}
+                    onChange={e => updateEditing({ maxOutput: e.target.value ? Number(e.target.value) : undefined })}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <Label className="text-xs">Color</Label>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="color"
+                    value={editing.model.color}
+                    className="h-9 w-12 rounded border border-border bg-transparent"
+                    onChange={e => updateEditing({ color: e.target.value })}
+                  />
+                  <Input
+                    value={editing.model.color}
+                    className="font-mono text-xs w-28"
+                    onChange={e => updateEditing({ color: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <Label className="text-xs">Notes</Label>
+                <Textarea
+                  value={editing.model.notes || ''}
+                  rows={2}
+                  placeholder="Why this model is being tested"
+                  onChange={e => updateEditing({ notes: e.target.value || undefined })}
+                />
+              </div>
+
+              {errors.length > 0 && (
+                <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/20 space-y-1">
+                  {errors.map(error => (
+                    <p key={error} className="text-xs text-red-400 flex items-center gap-2">
+                      <AlertCircle className="h-3.5 w-3.5 shrink-0" />
+                      {error}
+                    </p>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setEditing(null)}>
+                Cancel
+              </Button>
+              <Button className="gap-2" onClick={handleSave} disabled={errors.length > 0 || isSaving}>
+                {isSaving && <Loader2 className="h-4 w-4 animate-spin" />}
+                {editing.isNew ? 'Add Model' : 'Save Model'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        )}
+      </Dialog>
+    </div>
+  );
+}
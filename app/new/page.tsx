@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import {
   Card,
@@ -27,21 +27,48 @@ import {
   Loader2,
   FileStack,
   Cpu,
+  Scale,
   Check,
   AlertCircle,
-  Info
+  AlertTriangle,
+  ChevronDown,
+  Search,
+  Info,
+  ArrowUp,
+  ArrowDown,
+  X
 } from 'lucide-react';
 import Link from 'next/link';
 import { 
   Matter, 
   SummaryType, 
-  TEST_MODELS, 
-  JUDGE_MODEL,
+  ModelConfig,
+  ScoreAggregation,
+  SCORE_AGGREGATION_INFO,
+  ChunkedJudgingMode,
+  CHUNKED_JUDGING_INFO,
+  JudgeTrialSettings,
+  DEFAULT_JUDGE_TRIALS,
+  MAX_JUDGE_TRIALS,
   SUMMARY_TYPE_INFO,
   PRIMARY_SUMMARY_TYPES,
   ALL_SUMMARY_TYPES,
+  MATTER_SCHEMA_VERSION,
+  Rubric,
 } from '@/lib/types';
-import { saveMatter, createMatterId } from '@/lib/storage';
+import { saveMatter, createMatterId, getModels, getRubrics } from '@/lib/storage';
+import { DEFAULT_AGGREGATION } from '@/lib/ensemble';
+import { defaultRubric, formatWeight } from '@/lib/rubrics';
+import {
+  activeModels,
+  DEFAULT_JUDGE_ID,
+  DEFAULT_MODELS,
+  discoveredModelConfig,
+  hasPricing,
+  snapshotModels,
+} from '@/lib/models';
+import { listModels, ModelInfo } from '@/lib/case-api';
+import { uploadMatterFile, startMatterJob } from '@/lib/jobs';
 import { cn, formatCurrency } from '@/lib/utils';
 import { useToast } from '@/components/ui/use-toast';
 
@@ -54,14 +81,28 @@ export default function NewMatterPage() {
   const [matterName, setMatterName] = useState('');
   const [summaryType, setSummaryType] = useState<SummaryType | ''>('');
   
-  // Files (just store the File objects, no processing yet)
-  const [sourceFile, setSourceFile] = useState<File | null>(null);
+  // Files (just store the File objects, no processing yet) - in the order CaseMark reads them
+  const [sourceFiles, setSourceFiles] = useState<File[]>([]);
   const [isDraggingSource, setIsDraggingSource] = useState(false);
   
   // Step 2: Model Selection
+  const [models, setModels] = useState<ModelConfig[]>(DEFAULT_MODELS);
   const [selectedModels, setSelectedModels] = useState<string[]>(
-    TEST_MODELS.map(m => m.id) // All selected by default
+    activeModels(DEFAULT_MODELS, 'summarizer').map(m => m.id) // All selected by default
   );
+  const [selectedJudges, setSelectedJudges] = useState<string[]>([DEFAULT_JUDGE_ID]);
+  const [scoreAggregation, setScoreAggregation] = useState<ScoreAggregation>(DEFAULT_AGGREGATION);
+  const [judgeTrials, setJudgeTrials] = useState<JudgeTrialSettings>(DEFAULT_JUDGE_TRIALS);
+  const [pairwiseJudging, setPairwiseJudging] = useState(false);
+  const [chunkedJudging, setChunkedJudging] = useState<ChunkedJudgingMode>('auto');
+  const [rubrics, setRubrics] = useState<Record<SummaryType, Rubric> | null>(null);
+
+  // Models the LLM gateway offers that aren't in the registry yet
+  const [showDiscovery, setShowDiscovery] = useState(false);
+  const [discovered, setDiscovered] = useState<ModelInfo[] | null>(null);
+  const [discoveryError, setDiscoveryError] = useState<string | null>(null);
+  const [discoverySearch, setDiscoverySearch] = useState('');
+  const [addedModels, setAddedModels] = useState<ModelInfo[]>([]);
   
   const [isCreating, setIsCreating] = useState(false);
 
@@ -78,26 +119,54 @@ export default function NewMatterPage() {
   };
 
   // Validation
-  const canProceedStep1 = matterName.trim() && summaryType && sourceFile;
-  const canProceedStep2 = selectedModels.length > 0;
+  const canProceedStep1 = matterName.trim() && summaryType && sourceFiles.length > 0;
+
+  // Edited rubrics from the server - the built-in default is used until they load
+  useEffect(() => {
+    getRubrics().then(setRubrics);
+  }, []);
+
+  // The model registry - retired models aren't offered, re-priced ones use their new prices
+  useEffect(() => {
+    getModels().then(loaded => {
+      if (!loaded) return;
+      const summarizerIds = activeModels(loaded, 'summarizer').map(m => m.id);
+      const judgeIds = activeModels(loaded, 'judge').map(m => m.id);
+      setModels(loaded);
+      setSelectedModels(summarizerIds);
+      setSelectedJudges(prev => {
+        const kept = prev.filter(id => judgeIds.includes(id));
+        return kept.length > 0 ? kept : judgeIds.slice(0, 1);
+      });
+    });
+  }, []);
+  const extraModels = addedModels.map(discoveredModelConfig);
+  const testModels = [...activeModels(models, 'summarizer'), ...extraModels];
+  const judgeModels = activeModels(models, 'judge');
+  const rubric = summaryType ? rubrics?.[summaryType] || defaultRubric(summaryType) : null;
+  const canProceedStep2 = selectedModels.length > 0 && selectedJudges.length > 0;
+  const unpricedModels = addedModels.filter(m => !hasPricing(m) && selectedModels.includes(m.id));
+  const isUnpriced = (modelId: string) => unpricedModels.some(m => m.id === modelId);
 
   // Estimate costs based on document type and size
-  const isSourceTextFile = sourceFile ? isTextFile(sourceFile) : false;
-  
   // For text files: ~4 characters per token (file size in bytes ≈ characters for plain text)
   // For PDFs: estimate based on file size (~50KB per page, ~2000 tokens per page)
-  const estimatedTokens = sourceFile 
-    ? isSourceTextFile 
-      ? Math.ceil(sourceFile.size / 4) // Text file: bytes ≈ chars, ~4 chars per token
-      : Math.ceil(sourceFile.size / 50000) * 2000 // PDF: ~50KB/page, ~2000 tokens/page
-    : 0;
-  
+  const estimateFileTokens = (file: File) => isTextFile(file)
+    ? Math.ceil(file.size / 4) // Text file: bytes ≈ chars, ~4 chars per token
+    : Math.ceil(file.size / 50000) * 2000; // PDF: ~50KB/page, ~2000 tokens/page
+
   // Page count only makes sense for PDFs
-  const estimatePageCount = sourceFile && !isSourceTextFile 
-    ? Math.ceil(sourceFile.size / 50000) 
+  const estimateFilePages = (file: File) => isTextFile(file) ? undefined : Math.ceil(file.size / 50000);
+
+  // CaseMark and the judge read every source document, so the estimates cover them all
+  const estimatedTokens = sourceFiles.reduce((sum, file) => sum + estimateFileTokens(file), 0);
+  const sourcePdfs = sourceFiles.filter(file => !isTextFile(file));
+  const estimatePageCount = sourcePdfs.length > 0
+    ? sourcePdfs.reduce((sum, file) => sum + estimateFilePages(file)!, 0)
     : undefined;
+  const totalSourceSize = sourceFiles.reduce((sum, file) => sum + file.size, 0);
   
-  const estimateSummaryCost = (model: typeof TEST_MODELS[0]) => {
+  const estimateSummaryCost = (model: ModelConfig) => {
     // Estimate: input tokens + output tokens (output ~20% of input)
     const outputTokens = estimatedTokens * 0.2;
     return ((estimatedTokens / 1_000_000) * model.inputPricePer1M) + 
@@ -105,35 +174,66 @@ export default function NewMatterPage() {
   };
 
   const totalEstimatedCost = selectedModels.reduce((sum, modelId) => {
-    const model = TEST_MODELS.find(m => m.id === modelId);
+    const model = testModels.find(m => m.id === modelId);
     return sum + (model ? estimateSummaryCost(model) : 0);
   }, 0);
 
-  // Analysis cost estimate
-  const analysisTokens = selectedModels.length * 10000; // ~10k tokens per analysis
-  const analysisCost = ((analysisTokens / 1_000_000) * JUDGE_MODEL.inputPricePer1M) +
-                       ((analysisTokens * 0.3 / 1_000_000) * JUDGE_MODEL.outputPricePer1M);
+  // Analysis cost estimate - every judge scores every summary, once per trial
+  const analysisTokens = selectedModels.length * judgeTrials.trials * 10000; // ~10k tokens per analysis
+  const judges = judgeModels.filter(j => selectedJudges.includes(j.id));
+  const judgeNames = judges.map(j => j.name).join(' + ');
+  // Head-to-head: the primary judge compares every pair twice (~12k tokens per comparison)
+  const pairwiseComparisons = pairwiseJudging ? selectedModels.length * (selectedModels.length - 1) : 0;
+  const pairwiseTokens = pairwiseComparisons * 12000;
+  const analysisCost = judges.reduce(
+    (sum, judge) => sum +
+      ((analysisTokens / 1_000_000) * judge.inputPricePer1M) +
+      ((analysisTokens * 0.3 / 1_000_000) * judge.outputPricePer1M),
+    0
+  ) + (judges[0]
+    ? ((pairwiseTokens / 1_000_000) * judges[0].inputPricePer1M) +
+      ((pairwiseTokens * 0.05 / 1_000_000) * judges[0].outputPricePer1M)
+    : 0);
 
-  const handleSourceDrop = (e: React.DragEvent) => {
-    e.preventDefault();
-    setIsDraggingSource(false);
-    const file = e.dataTransfer.files[0];
-    if (file && isValidSourceFile(file)) {
-      setSourceFile(file);
-      const fileType = isTextFile(file) ? 'text file (no OCR needed)' : 'PDF';
+  const addSourceFiles = (files: File[]) => {
+    const valid = files.filter(isValidSourceFile);
+    const added = valid.filter(file => !sourceFiles.some(f => f.name === file.name && f.size === file.size));
+    if (added.length > 0) {
+      setSourceFiles(prev => [...prev, ...added]);
       toast({
-        title: 'File selected',
-        description: `${file.name} - ${fileType}`,
+        title: added.length === 1 ? 'File selected' : `${added.length} files selected`,
+        description: added
+          .map(file => `${file.name} - ${isTextFile(file) ? 'text file (no OCR needed)' : 'PDF'}`)
+          .join(', '),
       });
-    } else {
+    }
+    if (valid.length < files.length) {
       toast({
         title: 'Invalid file',
-        description: 'Please upload a PDF or TXT file',
+        description: 'Please upload PDF or TXT files',
         variant: 'destructive',
       });
     }
   };
 
+  const handleSourceDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDraggingSource(false);
+    addSourceFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const moveSourceFile = (index: number, offset: number) => {
+    setSourceFiles(prev => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  const removeSourceFile = (index: number) => {
+    setSourceFiles(prev => prev.filter((_, i) => i !== index));
+  };
+
   const toggleModel = (modelId: string) => {
     setSelectedModels(prev => 
       prev.includes(modelId) 
@@ -142,53 +242,105 @@ export default function NewMatterPage() {
     );
   };
 
+  // The gateway listing is only fetched once someone asks for it
+  const toggleDiscovery = async () => {
+    setShowDiscovery(!showDiscovery);
+    if (showDiscovery || discovered) return;
+    setDiscoveryError(null);
+    const result = await listModels();
+    if (result.data) {
+      setDiscovered(result.data.models);
+    } else {
+      setDiscoveryError(result.error || 'Could not list models');
+    }
+  };
+
+  const addDiscoveredModel = (model: ModelInfo) => {
+    setAddedModels(prev => [...prev, model]);
+    setSelectedModels(prev => [...prev, model.id]);
+  };
+
+  const removeDiscoveredModel = (modelId: string) => {
+    setAddedModels(prev => prev.filter(m => m.id !== modelId));
+    setSelectedModels(prev => prev.filter(id => id !== modelId));
+  };
+
+  const query = discoverySearch.trim().toLowerCase();
+  const discoveryResults = (discovered || [])
+    .filter(m => !m.inRegistry && !addedModels.some(a => a.id === m.id))
+    .filter(m => !query || m.id.toLowerCase().includes(query) || m.name.toLowerCase().includes(query));
+
+  // Keeps the order judges are listed in - the first one is the primary judge
+  const toggleJudge = (judgeId: string) => {
+    setSelectedJudges(prev =>
+      judgeModels.map(j => j.id).filter(id => (id === judgeId ? !prev.includes(id) : prev.includes(id)))
+    );
+  };
+
   const handleCreate = async () => {
-    if (!canProceedStep1 || !canProceedStep2 || !sourceFile) return;
+    if (!canProceedStep1 || !canProceedStep2) return;
 
     setIsCreating(true);
 
     try {
       // Create the matter object
-      // Note: We're NOT processing the PDFs here - that happens on the matter detail page
+      // Note: We're NOT processing the PDFs here - that happens in a server-side job
       // Control summary is now generated automatically using default model settings
       const matter: Matter = {
         id: createMatterId(),
+        schemaVersion: MATTER_SCHEMA_VERSION,
         name: matterName.trim(),
         vaultId: null, // Will be set during processing
         summaryType: summaryType as SummaryType,
         status: 'created',
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
-        sourceDocuments: [{
-          id: `doc_${Date.now()}`,
-          filename: sourceFile.name,
+        sourceDocuments: sourceFiles.map((file, i) => ({
+          id: `doc_${Date.now()}_${i}`,
+          filename: file.name,
           objectId: '', // Will be set during processing
-          size: sourceFile.size,
-          contentType: sourceFile.type || 'application/pdf',
+          size: file.size,
+          contentType: file.type || 'application/pdf',
           content: '', // Will be extracted during processing
-        }],
+        })),
         modelsToTest: selectedModels,
+        judgeModelIds: selectedJudges,
+        models: snapshotModels(undefined, [...models, ...extraModels], [...selectedModels, ...selectedJudges]),
+        scoreAggregation,
+        judgeTrials,
+        pairwiseJudging,
+        chunkedJudging,
+        rubric: rubric || undefined,
         summaries: {},
         qualityScores: {},
+        judgeScores: {},
       };
 
-      // Store the source file in sessionStorage for retrieval on the matter page
-      const reader = new FileReader();
-      reader.onload = () => {
-        sessionStorage.setItem(`source_file_${matter.id}`, reader.result as string);
-      };
-      reader.readAsDataURL(sourceFile);
-
       // Save matter to storage
-      saveMatter(matter);
+      const saved = await saveMatter(matter);
+      if (!saved) {
+        throw new Error('Could not save the matter to the server');
+      }
+
+      // Hand the source files to the server - processing runs there, not in this tab
+      for (let i = 0; i < sourceFiles.length; i++) {
+        const uploaded = await uploadMatterFile(matter.id, matter.sourceDocuments[i].id, sourceFiles[i]);
+        if (!uploaded) {
+          throw new Error(`Could not upload ${sourceFiles[i].name} to the server`);
+        }
+      }
+
+      const { error } = await startMatterJob(matter.id, 'process');
+      if (error) {
+        throw new Error(`Could not start processing: ${error}`);
+      }
 
       toast({
         title: 'Matter created',
-        description: 'Starting document processing...',
+        description: 'Processing has started on the server - you can close this tab at any time.',
       });
 
-      // Navigate to the matter page with auto-start
-      router.push(`/matter/${matter.id}?start=true`);
+      router.push(`/matter/${matter.id}`);
     } catch (error) {
       console.error('Failed to create matter:', error);
       toast({
@@ -351,65 +503,105 @@ export default function NewMatterPage() {
                   <div>
                     <div className="flex items-center gap-2 mb-2">
                       <FileText className="h-4 w-4 text-primary" />
-                      <Label className="text-base font-medium">Source Document</Label>
+                      <Label className="text-base font-medium">Source Documents</Label>
                       <Badge variant="destructive" className="text-xs">Required</Badge>
                     </div>
                     <p className="text-sm text-muted-foreground mb-3">
-                      Upload the original transcript or medical records
+                      Upload the original transcript or medical records - several files are read in the order listed
                     </p>
-                    
-                    {sourceFile ? (
-                      <div className="p-4 rounded-xl border border-emerald-500/30 bg-emerald-500/5">
-                        <div className="flex items-center gap-3">
-                          <CheckCircle2 className="h-5 w-5 text-emerald-400" />
-                          <div className="flex-1 min-w-0">
-                            <p className="font-medium truncate">{sourceFile.name}</p>
-                            <p className="text-sm text-muted-foreground">
-                              {formatFileSize(sourceFile.size)} • ~{estimatedTokens.toLocaleString()} tokens
-                              {estimatePageCount && ` • ~${estimatePageCount} pages`}
-                            </p>
-                          </div>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => setSourceFile(null)}
+
+                    {sourceFiles.length > 0 && (
+                      <div className="space-y-2 mb-3">
+                        {sourceFiles.map((file, i) => (
+                          <div
+                            key={`${file.name}-${file.size}`}
+                            className="p-3 rounded-xl border border-emerald-500/30 bg-emerald-500/5"
                           >
-                            Change
-                          </Button>
-                        </div>
-                      </div>
-                    ) : (
-                      <div
-                        className={cn(
-                          'border-2 border-dashed rounded-xl p-8 text-center transition-colors cursor-pointer',
-                          isDraggingSource ? 'border-primary bg-primary/5' : 'border-border hover:border-primary/50'
-                        )}
-                        onDragOver={(e) => { e.preventDefault(); setIsDraggingSource(true); }}
-                        onDragLeave={() => setIsDraggingSource(false)}
-                        onDrop={handleSourceDrop}
-                        onClick={() => document.getElementById('source-file')?.click()}
-                      >
-                        <Upload className="h-8 w-8 mx-auto mb-3 text-muted-foreground" />
-                        <p className="font-medium">Drop PDF here or click to browse</p>
-                        <p className="text-sm text-muted-foreground mt-1">
-                          PDF or TXT file (TXT files skip OCR)
-                        </p>
-                        <input
-                          id="source-file"
-                          type="file"
-                          accept=".pdf,.txt,application/pdf,text/plain"
-                          className="hidden"
-                          onChange={(e) => {
-                            const file = e.target.files?.[0];
-                            if (file && isValidSourceFile(file)) {
-                              setSourceFile(file);
-                              const fileType = isTextFile(file) ? 'text file (no OCR)' : 'PDF';
-                              toast({ title: 'File selected', description: `${file.name} - ${fileType}` });
-                            }
-                          }}
-                        />
+                            <div className="flex items-center gap-3">
+                              <CheckCircle2 className="h-5 w-5 text-emerald-400" />
+                              <div className="flex-1 min-w-0">
+                                <p className="font-medium truncate">
+                                  {sourceFiles.length > 1 && <span className="text-muted-foreground mr-2">{i + 1}.</span>}
+                                  {file.name}
+                                </p>
+                                <p className="text-sm text-muted-foreground">
+                                  {formatFileSize(file.size)} • ~{estimateFileTokens(file).toLocaleString()} tokens
+                                  {estimateFilePages(file) && ` • ~${estimateFilePages(file)} pages`}
+                                </p>
+                              </div>
+                              {sourceFiles.length > 1 && (
+                                <>
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-8 w-8"
+                                    disabled={i === 0}
+                                    onClick={() => moveSourceFile(i, -1)}
+                                    title="Move up"
+                                  >
+                                    <ArrowUp className="h-4 w-4" />
+                                  </Button>
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-8 w-8"
+                                    disabled={i === sourceFiles.length - 1}
+                                    onClick={() => moveSourceFile(i, 1)}
+                                    title="Move down"
+                                  >
+                                    <ArrowDown className="h-4 w-4" />
+                                  </Button>
+                                </>
+                              )}
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8"
+                                onClick={() => removeSourceFile(i)}
+                                title="Remove"
+                              >
+                                <X className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </div>
+                        ))}
                       </div>
                     )}
+
+                    <div
+                      className={cn(
+                        'border-2 border-dashed rounded-xl text-center transition-colors cursor-pointer',
+                        sourceFiles.length > 0 ? 'p-4' : 'p-8',
+                        isDraggingSource ? 'border-primary bg-primary/5' : 'border-border hover:border-primary/50'
+                      )}
+                      onDragOver={(e) => { e.preventDefault(); setIsDraggingSource(true); }}
+                      onDragLeave={() => setIsDraggingSource(false)}
+                      onDrop={handleSourceDrop}
+                      onClick={() => document.getElementById('source-file')?.click()}
+                    >
+                      {sourceFiles.length > 0 ? (
+                        <p className="text-sm font-medium">Drop or click to add another document</p>
+                      ) : (
+                        <>
+                          <Upload className="h-8 w-8 mx-auto mb-3 text-muted-foreground" />
+                          <p className="font-medium">Drop PDFs here or click to browse</p>
+                          <p className="text-sm text-muted-foreground mt-1">
+                            PDF or TXT files (TXT files skip OCR)
+                          </p>
+                        </>
+                      )}
+                      <input
+                        id="source-file"
+                        type="file"
+                        multiple
+                        accept=".pdf,.txt,application/pdf,text/plain"
+                        className="hidden"
+                        onChange={(e) => {
+                          addSourceFiles(Array.from(e.target.files || []));
+                          e.target.value = '';
+                        }}
+                      />
+                    </div>
                   </div>
                 </div>
 
@@ -444,15 +636,16 @@ export default function NewMatterPage() {
               </CardHeader>
               <CardContent className="space-y-6">
                 {/* Info banner */}
-                {sourceFile && (
+                {sourceFiles.length > 0 && (
                   <div className="p-4 rounded-xl bg-primary/5 border border-primary/20">
                     <div className="flex items-center gap-3">
                       <Info className="h-5 w-5 text-primary" />
                       <div>
                         <p className="font-medium">Estimated document size</p>
                         <p className="text-sm text-muted-foreground">
-                          {formatFileSize(sourceFile.size)} • ~{estimatedTokens.toLocaleString()} tokens
-                          {estimatePageCount ? ` • ~${estimatePageCount} pages` : ' (text file)'}
+                          {sourceFiles.length > 1 && `${sourceFiles.length} documents • `}
+                          {formatFileSize(totalSourceSize)} • ~{estimatedTokens.toLocaleString()} tokens
+                          {estimatePageCount ? ` • ~${estimatePageCount} pages` : ' (text files)'}
                         </p>
                       </div>
                     </div>
@@ -461,9 +654,10 @@ export default function NewMatterPage() {
 
                 {/* Model Selection */}
                 <div className="space-y-3">
-                  {TEST_MODELS.map((model) => {
+                  {testModels.map((model) => {
                     const isSelected = selectedModels.includes(model.id);
                     const cost = estimateSummaryCost(model);
+                    const added = addedModels.find(m => m.id === model.id);
                     
                     return (
                       <button
@@ -490,12 +684,24 @@ export default function NewMatterPage() {
                         />
                         
                         <div className="flex-1">
-                          <p className="font-medium">{model.name}</p>
+                          <p className="font-medium flex items-center gap-2">
+                            {model.name}
+                            {added && (
+                              <Badge variant="outline" className="text-[10px]">Discovered</Badge>
+                            )}
+                          </p>
                           <p className="text-sm text-muted-foreground">{model.provider}</p>
                         </div>
                         
                         <div className="text-right">
-                          <p className="font-medium">{formatCurrency(cost)}</p>
+                          {added && !hasPricing(added) ? (
+                            <p className="text-sm font-medium text-amber-400 flex items-center gap-1">
+                              <AlertTriangle className="h-3.5 w-3.5" />
+                              No pricing
+                            </p>
+                          ) : (
+                            <p className="font-medium">{formatCurrency(cost)}</p>
+                          )}
                           <p className="text-xs text-muted-foreground">est. cost</p>
                         </div>
                       </button>
@@ -503,13 +709,264 @@ export default function NewMatterPage() {
                   })}
                 </div>
 
+                {/* Discovered models */}
+                <div className="rounded-xl border border-border">
+                  <button
+                    type="button"
+                    onClick={toggleDiscovery}
+                    className="w-full p-4 flex items-center justify-between text-left"
+                  >
+                    <div>
+                      <p className="font-medium">Discover more models</p>
+                      <p className="text-sm text-muted-foreground">
+                        Try a model the LLM gateway offers that isn&apos;t in the{' '}
+                        <Link href="/models" className="underline hover:text-foreground">model registry</Link> yet
+                      </p>
+                    </div>
+                    <ChevronDown className={cn('h-4 w-4 text-muted-foreground transition-transform', showDiscovery && 'rotate-180')} />
+                  </button>
+                  {showDiscovery && (
+                    <div className="px-4 pb-4 space-y-3">
+                      {discoveryError ? (
+                        <p className="text-sm text-red-400 flex items-center gap-2">
+                          <AlertCircle className="h-4 w-4" />
+                          {discoveryError}
+                        </p>
+                      ) : !discovered ? (
+                        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                          Loading models...
+                        </div>
+                      ) : (
+                        <>
+                          <div className="relative">
+                            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                            <Input
+                              value={discoverySearch}
+                              onChange={e => setDiscoverySearch(e.target.value)}
+                              placeholder="Search by name or id"
+                              className="pl-9"
+                            />
+                          </div>
+                          <div className="max-h-64 overflow-y-auto space-y-1">
+                            {discoveryResults.length === 0 ? (
+                              <p className="text-sm text-muted-foreground py-2">No other models found</p>
+                            ) : discoveryResults.slice(0, 50).map(model => (
+                              <button
+                                key={model.id}
+                                type="button"
+                                onClick={() => addDiscoveredModel(model)}
+                                className="w-full px-3 py-2 rounded-lg hover:bg-muted/50 flex items-center justify-between gap-4 text-left"
+                              >
+                                <div className="min-w-0">
+                                  <p className="text-sm font-medium truncate">{model.name}</p>
+                                  <p className="text-xs text-muted-foreground font-mono truncate">{model.id}</p>
+                                </div>
+                                {hasPricing(model) ? (
+                                  <span className="text-xs text-muted-foreground shrink-0">
+                                    ${model.inputPricePer1M} / ${model.outputPricePer1M} per 1M
+                                  </span>
+                                ) : (
+                                  <span className="text-xs text-amber-400 flex items-center gap-1 shrink-0">
+                                    <AlertTriangle className="h-3.5 w-3.5" />
+                                    No pricing data
+                                  </span>
+                                )}
+                              </button>
+                            ))}
+                          </div>
+                          {discoveryResults.length > 50 && (
+                            <p className="text-xs text-muted-foreground">
+                              Showing 50 of {discoveryResults.length} - search to narrow the list
+                            </p>
+                          )}
+                        </>
+                      )}
+                      {addedModels.length > 0 && (
+                        <div className="flex flex-wrap gap-2 pt-1">
+                          {addedModels.map(model => (
+                            <Badge key={model.id} variant="secondary" className="gap-1">
+                              {model.name}
+                              <button
+                                type="button"
+                                onClick={() => removeDiscoveredModel(model.id)}
+                                className="ml-1 text-muted-foreground hover:text-foreground"
+                                title="Remove"
+                              >
+                                ×
+                              </button>
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+
+                {unpricedModels.length > 0 && (
+                  <div className="p-3 rounded-lg bg-amber-500/10 border border-amber-500/20 text-sm text-amber-400 flex items-start gap-2">
+                    <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                    <span>
+                      The gateway has no pricing for {unpricedModels.map(m => m.name).join(', ')}. Cost estimates leave
+                      {unpricedModels.length > 1 ? ' them' : ' it'} out, and cost comparisons will read $0 unless the
+                      API reports a cost.
+                    </span>
+                  </div>
+                )}
+
+                {/* Judge Selection */}
+                <div className="space-y-3">
+                  <div>
+                    <p className="font-medium flex items-center gap-2">
+                      <Scale className="h-4 w-4 text-primary" />
+                      Judges
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      Every selected judge scores every summary. With more than one, rankings use the combined score.
+                    </p>
+                  </div>
+                  <div className="grid grid-cols-3 gap-2">
+                    {judgeModels.map((judge) => {
+                      const isSelected = selectedJudges.includes(judge.id);
+                      return (
+                        <button
+                          key={judge.id}
+                          type="button"
+                          onClick={() => toggleJudge(judge.id)}
+                          className={cn(
+                            'p-3 rounded-xl border-2 transition-all text-left',
+                            isSelected
+                              ? 'border-primary bg-primary/5'
+                              : 'border-border hover:border-primary/30'
+                          )}
+                        >
+                          <div className="flex items-center gap-2">
+                            <div className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: judge.color }} />
+                            <p className="font-medium text-sm">{judge.name}</p>
+                            {isSelected && <Check className="h-4 w-4 text-primary ml-auto" />}
+                          </div>
+                          <p className="text-xs text-muted-foreground mt-1">{judge.provider}</p>
+                        </button>
+                      );
+                    })}
+                  </div>
+                  {/* Repeated trials */}
+                  <div className="grid grid-cols-3 gap-3">
+                    <div className="space-y-1">
+                      <Label htmlFor="judge-trials" className="text-xs">Trials per judge</Label>
+                      <Input
+                        id="judge-trials"
+                        type="number"
+                        min={1}
+                        max={MAX_JUDGE_TRIALS}
+                        value={judgeTrials.trials}
+                        onChange={(e) => setJudgeTrials(prev => ({
+                          ...prev,
+                          trials: Math.min(MAX_JUDGE_TRIALS, Math.max(1, Number(e.target.value) || 1)),
+                        }))}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="judge-temperature" className="text-xs">Temperature</Label>
+                      <Input
+                        id="judge-temperature"
+                        type="number"
+                        min={0}
+                        max={1}
+                        step={0.1}
+                        value={judgeTrials.temperature}
+                        onChange={(e) => setJudgeTrials(prev => ({
+                          ...prev,
+                          temperature: Math.min(1, Math.max(0, Number(e.target.value) || 0)),
+                        }))}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="judge-seed" className="text-xs">Seed (optional)</Label>
+                      <Input
+                        id="judge-seed"
+                        type="number"
+                        placeholder="Random"
+                        value={judgeTrials.seed ?? ''}
+                        onChange={(e) => setJudgeTrials(prev => ({
+                          ...prev,
+                          seed: e.target.value === '' ? undefined : Math.round(Number(e.target.value)),
+                        }))}
+                      />
+                    </div>
+                  </div>
+                  {judgeTrials.trials > 1 && (
+                    <p className="text-xs text-muted-foreground">
+                      Each judge scores every summary {judgeTrials.trials} times. Rankings show 95% confidence
+                      intervals and mark models whose intervals overlap as statistically tied.
+                    </p>
+                  )}
+                  {/* Head-to-head mode */}
+                  <button
+                    type="button"
+                    onClick={() => setPairwiseJudging(!pairwiseJudging)}
+                    className={cn(
+                      'w-full p-3 rounded-xl border-2 transition-all text-left flex items-center gap-3',
+                      pairwiseJudging ? 'border-primary bg-primary/5' : 'border-border hover:border-primary/30'
+                    )}
+                  >
+                    <div className={cn(
+                      'w-5 h-5 rounded border-2 flex items-center justify-center transition-colors',
+                      pairwiseJudging ? 'border-primary bg-primary' : 'border-muted-foreground'
+                    )}>
+                      {pairwiseJudging && <Check className="h-3.5 w-3.5 text-primary-foreground" />}
+                    </div>
+                    <div className="flex-1">
+                      <p className="font-medium text-sm">Head-to-head judging</p>
+                      <p className="text-xs text-muted-foreground">
+                        {judges[0]?.name || 'The first judge'} also compares every pair of summaries in both orders
+                        {selectedModels.length > 1 && ` (${selectedModels.length * (selectedModels.length - 1)} comparisons)`} and
+                        ranks the models by head-to-head wins
+                      </p>
+                    </div>
+                  </button>
+                  {selectedJudges.length > 1 && (
+                    <div className="flex items-center gap-2 text-sm">
+                      <span className="text-muted-foreground">Combine scores by</span>
+                      {(Object.keys(SCORE_AGGREGATION_INFO) as ScoreAggregation[]).map((method) => (
+                        <Button
+                          key={method}
+                          type="button"
+                          size="sm"
+                          variant={scoreAggregation === method ? 'default' : 'outline'}
+                          onClick={() => setScoreAggregation(method)}
+                          title={SCORE_AGGREGATION_INFO[method].description}
+                        >
+                          {SCORE_AGGREGATION_INFO[method].label}
+                        </Button>
+                      ))}
+                    </div>
+                  )}
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="text-muted-foreground">Judge long sources in parts</span>
+                    {(Object.keys(CHUNKED_JUDGING_INFO) as ChunkedJudgingMode[]).map((mode) => (
+                      <Button
+                        key={mode}
+                        type="button"
+                        size="sm"
+                        variant={chunkedJudging === mode ? 'default' : 'outline'}
+                        onClick={() => setChunkedJudging(mode)}
+                        title={CHUNKED_JUDGING_INFO[mode].description}
+                      >
+                        {CHUNKED_JUDGING_INFO[mode].label}
+                      </Button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground">{CHUNKED_JUDGING_INFO[chunkedJudging].description}</p>
+                </div>
+
                 {/* Cost Summary */}
                 <div className="p-4 rounded-xl bg-muted">
                   <div className="flex justify-between items-center">
                     <div>
                       <p className="font-medium">{selectedModels.length} models selected</p>
                       <p className="text-sm text-muted-foreground">
-                        + Quality analysis with {JUDGE_MODEL.name}
+                        + Quality analysis with {judgeNames || 'no judge selected'}
                       </p>
                     </div>
                     <div className="text-right">
@@ -571,12 +1028,12 @@ export default function NewMatterPage() {
                         Models to Test
                       </h3>
                       <span className="text-sm text-muted-foreground">
-                        {selectedModels.length} of {TEST_MODELS.length}
+                        {selectedModels.length} of {testModels.length}
                       </span>
                     </div>
                     <div className="flex flex-wrap gap-2">
                       {selectedModels.map(modelId => {
-                        const model = TEST_MODELS.find(m => m.id === modelId);
+                        const model = testModels.find(m => m.id === modelId);
                         if (!model) return null;
                         return (
                           <div 
@@ -588,27 +1045,45 @@ export default function NewMatterPage() {
                               style={{ backgroundColor: model.color }}
                             />
                             <span className="text-sm font-medium">{model.name}</span>
-                            <span className="text-xs text-muted-foreground">
-                              {formatCurrency(estimateSummaryCost(model))}
-                            </span>
+                            {isUnpriced(model.id) ? (
+                              <span className="text-xs text-amber-400 flex items-center gap-1">
+                                <AlertTriangle className="h-3 w-3" />
+                                no pricing
+                              </span>
+                            ) : (
+                              <span className="text-xs text-muted-foreground">
+                                {formatCurrency(estimateSummaryCost(model))}
+                              </span>
+                            )}
                           </div>
                         );
                       })}
                     </div>
                     <p className="text-xs text-muted-foreground mt-3">
-                      Each model will generate a summary via CaseMark API, then GPT-5.2 analyzes quality
+                      Each model will generate a summary via CaseMark API, then {judgeNames} {judges.length > 1 ? 'analyze' : 'analyzes'} quality
                     </p>
+                    {unpricedModels.length > 0 && (
+                      <p className="text-xs text-amber-400 mt-2 flex items-center gap-1.5">
+                        <AlertTriangle className="h-3.5 w-3.5 shrink-0" />
+                        No pricing data for {unpricedModels.map(m => m.name).join(', ')} - the estimate below leaves{' '}
+                        {unpricedModels.length > 1 ? 'them' : 'it'} out
+                      </p>
+                    )}
                   </div>
 
                   <div className="grid grid-cols-2 gap-4">
                     <div className="p-4 rounded-xl bg-primary/5 border border-primary/20">
                       <div className="flex items-center gap-2 mb-2">
                         <FileText className="h-4 w-4 text-primary" />
-                        <p className="font-medium">Source Document</p>
+                        <p className="font-medium">{sourceFiles.length > 1 ? `Source Documents (${sourceFiles.length})` : 'Source Document'}</p>
                       </div>
-                      <p className="text-sm truncate">{sourceFile?.name}</p>
+                      {sourceFiles.map((file, i) => (
+                        <p key={`${file.name}-${file.size}`} className="text-sm truncate">
+                          {sourceFiles.length > 1 && `${i + 1}. `}{file.name}
+                        </p>
+                      ))}
                       <p className="text-xs text-muted-foreground">
-                        {sourceFile && formatFileSize(sourceFile.size)}
+                        {formatFileSize(totalSourceSize)}
                       </p>
                     </div>
 
@@ -641,9 +1116,21 @@ export default function NewMatterPage() {
                     </li>
                     <li className="flex items-center gap-2">
                       <span className="w-5 h-5 rounded-full bg-primary/20 text-primary text-xs flex items-center justify-center">3</span>
-                      <span>Analyze quality with {JUDGE_MODEL.name}</span>
+                      <span>
+                        Analyze quality with {judgeNames}
+                        {judges.length > 1 && ` (${SCORE_AGGREGATION_INFO[scoreAggregation].label.toLowerCase()} of ${judges.length} judges)`}
+                        {judgeTrials.trials > 1 && `, ${judgeTrials.trials} trials each`}
+                        {pairwiseJudging && ', plus head-to-head comparisons'}
+                      </span>
                     </li>
                   </ol>
+                  {rubric && (
+                    <p className="text-xs text-muted-foreground mt-3">
+                      Scored on {rubric.categories.map(c => `${c.name} (${formatWeight(rubric, c)})`).join(', ')}
+                      {' · '}
+                      <Link href="/rubrics" className="underline hover:text-foreground">Edit rubrics</Link>
+                    </p>
+                  )}
                   <p className="text-xs text-muted-foreground mt-3">
                     Estimated time: 5-15 minutes depending on document size
                   </p>
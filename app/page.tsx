@@ -1,6 +1,6 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import {
@@ -52,9 +52,18 @@ import {
   RefreshCw,
   CheckSquare,
   Square,
+  Download,
+  Upload,
 } from 'lucide-react';
 import { Matter, MatterStatus, SUMMARY_TYPE_INFO } from '@/lib/types';
-import { getMatters, deleteMatter } from '@/lib/storage';
+import {
+  getMattersWithStats,
+  deleteMatter,
+  migrateLocalMatters,
+  getMatterExportUrl,
+  getBundleExportUrl,
+  importMatters,
+} from '@/lib/storage';
 import { formatRelativeTime } from '@/lib/utils';
 import { deleteVault } from '@/lib/case-api';
 
@@ -85,22 +94,51 @@ export default function DashboardPage() {
   const [deletingIds, setDeletingIds] = useState<Set<string>>(new Set()); // Track which items are being deleted
   const [cleanupVaults, setCleanupVaults] = useState(true);
   const [storageSize, setStorageSize] = useState<number | null>(null); // null = not yet calculated (avoids hydration mismatch)
+  const [importing, setImporting] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
-    setMatters(getMatters());
-    setLoading(false);
-    // Calculate storage size on client only (after hydration)
-    const size = new Blob([localStorage.getItem('summary-analyzer-matters') || '']).size;
-    setStorageSize(size);
+    const load = async () => {
+      const migrated = await migrateLocalMatters();
+      if (migrated > 0) {
+        toast({ title: 'Matters migrated', description: `${migrated} comparison(s) moved from browser storage to the server.` });
+      }
+      const { matters, storageBytes } = await getMattersWithStats();
+      setMatters(matters);
+      setStorageSize(storageBytes);
+      setLoading(false);
+    };
+    load();
   }, []);
 
   // Refresh matters from storage
-  const refreshMatters = () => {
-    setMatters(getMatters());
+  const refreshMatters = async () => {
+    const { matters, storageBytes } = await getMattersWithStats();
+    setMatters(matters);
     setSelectedIds(new Set());
-    // Recalculate storage size
-    const size = new Blob([localStorage.getItem('quality-checker-matters') || '']).size;
-    setStorageSize(size);
+    setStorageSize(storageBytes);
+  };
+
+  // Import an export file (single matter or bundle)
+  const handleImport = async (file: File) => {
+    setImporting(true);
+    try {
+      const result = await importMatters(file);
+      if (result.error) {
+        toast({ title: 'Import failed', description: result.error, variant: 'destructive' });
+        return;
+      }
+
+      let description = `${result.imported.length} comparison(s) imported.`;
+      if (result.skipped.length > 0) {
+        description += ` ${result.skipped.length} skipped (${result.skipped.map(s => `${s.name}: ${s.reason}`).join(', ')}).`;
+      }
+      toast({ title: 'Import complete', description });
+      await refreshMatters();
+    } finally {
+      setImporting(false);
+      if (importInputRef.current) importInputRef.current.value = '';
+    }
   };
 
   // Delete single matter with optional vault cleanup
@@ -125,9 +163,8 @@ export default function DashboardPage() {
         }
       }
       
-      // Delete from localStorage
-      deleteMatter(deleteTarget.id);
-      refreshMatters();
+      await deleteMatter(deleteTarget.id);
+      await refreshMatters();
       toast({ title: 'Deleted', description: `"${deleteTarget.name}" has been deleted.` });
     } finally {
       setDeleting(false);
@@ -158,11 +195,10 @@ export default function DashboardPage() {
           }
         }
         
-        // Delete from localStorage
-        deleteMatter(matter.id);
+        await deleteMatter(matter.id);
       }
       
-      refreshMatters();
+      await refreshMatters();
       
       let description = `${toDelete.length} comparison(s) deleted.`;
       if (cleanupVaults) {
@@ -236,12 +272,33 @@ export default function DashboardPage() {
                 legal utility.
               </p>
             </div>
-            <Link href="/new">
-              <Button variant="gold" className="gap-2">
-                <Plus className="h-4 w-4" />
-                New Comparison
+            <div className="flex items-center gap-2">
+              <input
+                ref={importInputRef}
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleImport(file);
+                }}
+              />
+              <Button
+                variant="outline"
+                className="gap-2"
+                disabled={importing}
+                onClick={() => importInputRef.current?.click()}
+              >
+                {importing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+                Import
               </Button>
-            </Link>
+              <Link href="/new">
+                <Button variant="gold" className="gap-2">
+                  <Plus className="h-4 w-4" />
+                  New Comparison
+                </Button>
+              </Link>
+            </div>
           </div>
         </div>
       </div>
@@ -307,7 +364,7 @@ export default function DashboardPage() {
             <CardHeader className="pb-2">
               <CardTitle className="text-sm font-medium text-muted-foreground flex items-center gap-1">
                 <HardDrive className="h-3 w-3" />
-                Local Storage
+                Storage
               </CardTitle>
             </CardHeader>
             <CardContent>
@@ -329,7 +386,7 @@ export default function DashboardPage() {
               <div>
                 <CardTitle className="font-serif">Your Comparisons</CardTitle>
                 <CardDescription>
-                  {matters.length} total runs • Click to view details • Select to bulk delete
+                  {matters.length} total runs • Click to view details • Select to export or bulk delete
                 </CardDescription>
               </div>
               <div className="flex items-center gap-2">
@@ -362,6 +419,12 @@ export default function DashboardPage() {
                         </>
                       )}
                     </Button>
+                    <Button variant="ghost" size="sm" className="gap-2" asChild>
+                      <a href={getBundleExportUrl(selectedIds.size > 0 ? [...selectedIds] : undefined)} download>
+                        <Download className="h-4 w-4" />
+                        {selectedIds.size > 0 ? `Export ${selectedIds.size} Selected` : 'Export All'}
+                      </a>
+                    </Button>
                     {selectedIds.size > 0 && (
                       <Button
                         variant="destructive"
@@ -529,6 +592,12 @@ export default function DashboardPage() {
                               <Eye className="h-4 w-4 mr-2" />
                               View Details
                             </DropdownMenuItem>
+                            <DropdownMenuItem asChild onClick={(e) => e.stopPropagation()}>
+                              <a href={getMatterExportUrl(matter.id)} download>
+                                <Download className="h-4 w-4 mr-2" />
+                                Export JSON
+                              </a>
+                            </DropdownMenuItem>
                             <DropdownMenuSeparator />
                             <DropdownMenuItem
                               className="text-red-400"
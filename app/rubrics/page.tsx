@@ -0,0 +1,344 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  ArrowLeft,
+  ListChecks,
+  Plus,
+  Trash2,
+  Save,
+  RotateCcw,
+  Loader2,
+  AlertCircle,
+  ChevronDown,
+} from 'lucide-react';
+import { ALL_SUMMARY_TYPES, Rubric, RubricCategory, SummaryType, SUMMARY_TYPE_INFO } from '@/lib/types';
+import { getRubrics, resetRubric, saveRubric } from '@/lib/storage';
+import {
+  buildQualityPrompt,
+  defaultRubric,
+  formatWeight,
+  isSameRubric,
+  toCategoryId,
+  validateRubric,
+} from '@/lib/rubrics';
+import { cn } from '@/lib/utils';
+import { useToast } from '@/components/ui/use-toast';
+
+function cloneRubric(rubric: Rubric): Rubric {
+  return JSON.parse(JSON.stringify(rubric));
+}
+
+export default function RubricsPage() {
+  const { toast } = useToast();
+  const [rubrics, setRubrics] = useState<Record<SummaryType, Rubric> | null>(null);
+  const [summaryType, setSummaryType] = useState<SummaryType>(ALL_SUMMARY_TYPES[0]);
+  const [draft, setDraft] = useState<Rubric>(() => defaultRubric(ALL_SUMMARY_TYPES[0]));
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [showPrompt, setShowPrompt] = useState(false);
+
+  useEffect(() => {
+    getRubrics().then(loaded => {
+      setRubrics(loaded);
+      if (loaded) setDraft(cloneRubric(loaded[ALL_SUMMARY_TYPES[0]]));
+      setIsLoading(false);
+    });
+  }, []);
+
+  const saved = rubrics?.[summaryType] || defaultRubric(summaryType);
+  const isDirty = !isSameRubric(draft, saved);
+  const errors = validateRubric(draft);
+
+  const selectType = (type: SummaryType) => {
+    if (isDirty && !confirm('Discard your unsaved changes to this rubric?')) return;
+    setSummaryType(type);
+    setDraft(cloneRubric(rubrics?.[type] || defaultRubric(type)));
+  };
+
+  const updateCategory = (index: number, changes: Partial<RubricCategory>) => {
+    setDraft(prev => ({
+      ...prev,
+      categories: prev.categories.map((c, i) => (i === index ? { ...c, ...changes } : c)),
+    }));
+  };
+
+  // The id follows the name until it's edited by hand
+  const renameCategory = (index: number, name: string) => {
+    const category = draft.categories[index];
+    const followsName = !category.id || category.id === toCategoryId(category.name);
+    updateCategory(index, { name, ...(followsName && { id: toCategoryId(name) }) });
+  };
+
+  const addCategory = () => {
+    setDraft(prev => ({
+      ...prev,
+      categories: [...prev.categories, { id: '', name: '', description: '', weight: 10, anchors: [] }],
+    }));
+  };
+
+  const removeCategory = (index: number) => {
+    setDraft(prev => ({ ...prev, categories: prev.categories.filter((_, i) => i !== index) }));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const result = await saveRubric(draft);
+    setIsSaving(false);
+    if (!result.rubric) {
+      toast({ title: 'Could not save rubric', description: result.error, variant: 'destructive' });
+      return;
+    }
+    setRubrics(prev => prev && { ...prev, [summaryType]: result.rubric! });
+    setDraft(cloneRubric(result.rubric));
+    toast({ title: 'Rubric saved', description: `New ${SUMMARY_TYPE_INFO[summaryType].label} comparisons will use it` });
+  };
+
+  const handleReset = async () => {
+    if (!confirm('Discard your edits and go back to the built-in rubric?')) return;
+    const rubric = await resetRubric(summaryType);
+    if (!rubric) {
+      toast({ title: 'Could not reset rubric', variant: 'destructive' });
+      return;
+    }
+    setRubrics(prev => prev && { ...prev, [summaryType]: rubric });
+    setDraft(cloneRubric(rubric));
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      {/* Header */}
+      <div className="border-b border-border bg-gradient-to-r from-card to-card/80">
+        <div className="px-8 py-6">
+          <div className="flex items-center gap-4">
+            <Link href="/">
+              <Button variant="ghost" size="icon">
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+            </Link>
+            <div>
+              <h1 className="text-2xl font-serif font-semibold tracking-tight">
+                Evaluation Rubrics
+              </h1>
+              <p className="text-muted-foreground mt-1">
+                What the judge scores for each summary type, and how much each category counts
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="flex-1 overflow-y-auto p-8">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-20 text-muted-foreground">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <div className="grid grid-cols-[240px_1fr] gap-6 items-start">
+            {/* Summary types */}
+            <div className="space-y-1">
+              {ALL_SUMMARY_TYPES.map(type => (
+                <button
+                  key={type}
+                  type="button"
+                  onClick={() => selectType(type)}
+                  className={cn(
+                    'w-full flex items-center justify-between gap-2 px-3 py-2 rounded-lg text-sm text-left transition-colors',
+                    type === summaryType ? 'bg-muted text-foreground font-medium' : 'text-muted-foreground hover:bg-muted/50'
+                  )}
+                >
+                  <span className="truncate">{SUMMARY_TYPE_INFO[type].label}</span>
+                  {rubrics?.[type]?.updatedAt && (
+                    <Badge variant="outline" className="text-[10px] shrink-0">Edited</Badge>
+                  )}
+                </button>
+              ))}
+            </div>
+
+            <div className="space-y-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="font-serif flex items-center gap-2">
+                    <ListChecks className="h-5 w-5" />
+                    {SUMMARY_TYPE_INFO[summaryType].label}
+                  </CardTitle>
+                  <CardDescription>
+                    The overall score is the weighted average of the category scores. New comparisons copy this
+                    rubric; an existing matter switches to it from its Judges tab.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {draft.categories.map((category, index) => (
+                    <div key={index} className="p-4 rounded-lg border border-border space-y-3">
+                      <div className="grid grid-cols-[1fr_180px_120px_auto] gap-3 items-end">
+                        <div className="space-y-1">
+                          <Label className="text-xs">Category</Label>
+                          <Input
+                            value={category.name}
+                            placeholder="e.g. Date Accuracy"
+                            onChange={e => renameCategory(index, e.target.value)}
+                          />
+                        </div>
+                        <div className="space-y-1">
+                          <Label className="text-xs">JSON key</Label>
+                          <Input
+                            value={category.id}
+                            className="font-mono text-xs"
+                            onChange={e => updateCategory(index, { id: e.target.value })}
+                          />
+                        </div>
+                        <div className="space-y-1">
+                          <Label className="text-xs">
+                            Weight <span className="text-muted-foreground">({formatWeight(draft, category)})</span>
+                          </Label>
+                          <Input
+                            type="number"
+                            min={0}
+                            value={category.weight}
+                            onChange={e => updateCategory(index, { weight: Number(e.target.value) })}
+                          />
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => removeCategory(index)}
+                          title="Remove category"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs">What the judge should check</Label>
+                        <Textarea
+                          value={category.description}
+                          rows={2}
+                          onChange={e => updateCategory(index, { description: e.target.value })}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label className="text-xs">Scoring anchors</Label>
+                        {category.anchors.map((anchor, a) => (
+                          <div key={a} className="flex items-center gap-2">
+                            <Input
+                              type="number"
+                              min={0}
+                              max={100}
+                              value={anchor.score}
+                              className="w-20"
+                              onChange={e => updateCategory(index, {
+                                anchors: category.anchors.map((x, i) => (i === a ? { ...x, score: Number(e.target.value) } : x)),
+                              })}
+                            />
+                            <Input
+                              value={anchor.description}
+                              placeholder="What a summary at this score looks like"
+                              onChange={e => updateCategory(index, {
+                                anchors: category.anchors.map((x, i) => (i === a ? { ...x, description: e.target.value } : x)),
+                              })}
+                            />
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => updateCategory(index, { anchors: category.anchors.filter((_, i) => i !== a) })}
+                              title="Remove anchor"
+                            >
+                              <Trash2 className="h-3.5 w-3.5" />
+                            </Button>
+                          </div>
+                        ))}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="gap-1 text-xs"
+                          onClick={() => updateCategory(index, { anchors: [...category.anchors, { score: 50, description: '' }] })}
+                        >
+                          <Plus className="h-3.5 w-3.5" />
+                          Add anchor
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+
+                  <Button variant="outline" className="gap-2" onClick={addCategory}>
+                    <Plus className="h-4 w-4" />
+                    Add Category
+                  </Button>
+
+                  {errors.length > 0 && (
+                    <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/20 space-y-1">
+                      {errors.map(error => (
+                        <p key={error} className="text-xs text-red-400 flex items-center gap-2">
+                          <AlertCircle className="h-3.5 w-3.5 shrink-0" />
+                          {error}
+                        </p>
+                      ))}
+                    </div>
+                  )}
+
+                  <div className="flex items-center justify-between pt-2">
+                    <Button
+                      variant="ghost"
+                      className="gap-2"
+                      onClick={handleReset}
+                      disabled={!saved.updatedAt}
+                    >
+                      <RotateCcw className="h-4 w-4" />
+                      Reset to Default
+                    </Button>
+                    <div className="flex gap-2">
+                      <Button variant="outline" onClick={() => setDraft(cloneRubric(saved))} disabled={!isDirty}>
+                        Discard Changes
+                      </Button>
+                      <Button className="gap-2" onClick={handleSave} disabled={!isDirty || errors.length > 0 || isSaving}>
+                        {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                        Save Rubric
+                      </Button>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+
+              {/* Generated prompt */}
+              <Card>
+                <CardHeader>
+                  <button
+                    type="button"
+                    onClick={() => setShowPrompt(!showPrompt)}
+                    className="flex items-center justify-between w-full text-left"
+                  >
+                    <div>
+                      <CardTitle className="text-base">Judge Prompt</CardTitle>
+                      <CardDescription>Generated from the rubric above (shown without a control summary)</CardDescription>
+                    </div>
+                    <ChevronDown className={cn('h-4 w-4 text-muted-foreground transition-transform', showPrompt && 'rotate-180')} />
+                  </button>
+                </CardHeader>
+                {showPrompt && (
+                  <CardContent>
+                    <pre className="text-xs whitespace-pre-wrap font-mono p-4 rounded-lg bg-muted/50 max-h-[600px] overflow-y-auto">
+                      {buildQualityPrompt(draft, SUMMARY_TYPE_INFO[summaryType].label, false)}
+                    </pre>
+                  </CardContent>
+                )}
+              </Card>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Star } from 'lucide-react';
+import { ModelConfig } from '@/lib/types';
+import { activeModels, DEFAULT_MODELS } from '@/lib/models';
+import { getModels } from '@/lib/storage';
+
+// Sidebar list of the summarizers new comparisons test, priced against the control
+export function ModelList() {
+  const [models, setModels] = useState<ModelConfig[]>(DEFAULT_MODELS);
+
+  useEffect(() => {
+    getModels().then(loaded => {
+      if (loaded) setModels(loaded);
+    });
+  }, []);
+
+  const testModels = activeModels(models, 'summarizer');
+  const controlModel = testModels.find(m => m.isControl);
+  const controlCost = controlModel ? controlModel.inputPricePer1M + controlModel.outputPricePer1M : 0;
+
+  return (
+    <div className="space-y-1">
+      <div className="px-3 py-2 text-[10px] font-semibold text-muted-foreground uppercase tracking-wider">
+        Models Tested ({testModels.length})
+      </div>
+      <div className="px-3 py-1.5 text-xs text-muted-foreground space-y-0.5">
+        {testModels.map((model) => {
+          const modelCost = model.inputPricePer1M + model.outputPricePer1M;
+          const costDiff = controlCost > 0 ? Math.round(((modelCost - controlCost) / controlCost) * 100) : 0;
+
+          return (
+            <div key={model.id} className="flex items-center gap-2 py-0.5">
+              {model.isControl ? (
+                <Star className="w-2.5 h-2.5 text-amber-400 fill-amber-400" />
+              ) : (
+                <div
+                  className="w-2 h-2 rounded-full"
+                  style={{ backgroundColor: model.color }}
+                />
+              )}
+              <span className={model.isControl ? 'text-amber-400 font-medium' : ''}>
+                {model.name.replace('⭐ ', '')}
+              </span>
+              {!model.isControl && costDiff !== 0 && (
+                <span className={`text-[9px] ${costDiff < 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                  {costDiff > 0 ? '+' : ''}{costDiff}%
+                </span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
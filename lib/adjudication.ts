@@ -0,0 +1,200 @@
+/**
+ * Human Adjudication
+ *
+ * Reviewers rule on every error and missing item a judge reports: confirmed,
+ * rejected (a false positive) or downgraded to a lower severity. Rulings are
+ * keyed by the finding itself rather than its position, so a re-score that
+ * reports the same error again keeps its ruling. From them come an
+ * adjudicated score - the judge's score with the points back for findings
+ * that didn't hold up - and each judge's false-positive rate over time.
+ * Safe to use on client and server.
+ */
+
+import { FindingAdjudication, Matter, SpecificError } from './types';
+import { findJudge, getJudgeIds } from './ensemble';
+
+// Points a judge is taken to have deducted per finding, given back when a reviewer overturns it
+const SEVERITY_PENALTY: Record<SpecificError['severity'], number> = { critical: 8, major: 4, minor: 1 };
+const MISSING_ITEM_PENALTY = 2;
+
+export type Finding = { kind: 'error'; error: SpecificError } | { kind: 'missing'; item: string };
+
+export type AdjudicationDecision = Pick<FindingAdjudication, 'verdict' | 'adjustedSeverity' | 'note' | 'reviewer'>;
+
+// ============== Rulings ==============
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[“”]/g, '"').replace(/\s+/g, ' ').trim();
+}
+
+export function findingKey(modelId: string, finding: Finding): string {
+  return finding.kind === 'error'
+    ? `${modelId}|error|${finding.error.type}|${normalize(finding.error.summaryExcerpt)}`
+    : `${modelId}|missing|${normalize(finding.item)}`;
+}
+
+/**
+ * The judge whose findings a combined score shows - the primary judge, or
+ * the first configured judge that scored the summary.
+ */
+export function reportingJudge(matter: Pick<Matter, 'qualityScores' | 'judgeScores' | 'judgeModelIds'>, modelId: string): string {
+  const ensemble = matter.qualityScores[modelId]?.ensemble;
+  if (ensemble) return ensemble.judges[0];
+  const judgeIds = getJudgeIds(matter);
+  return judgeIds.find(id => matter.judgeScores?.[modelId]?.[id]) || judgeIds[0];
+}
+
+export function getAdjudication(matter: Pick<Matter, 'adjudications'>, modelId: string, finding: Finding): FindingAdjudication | undefined {
+  return matter.adjudications?.[findingKey(modelId, finding)];
+}
+
+/** A copy of the matter's rulings with this finding's set, or cleared when `decision` is null */
+export function adjudicate(
+  matter: Matter,
+  modelId: string,
+  finding: Finding,
+  decision: AdjudicationDecision | null
+): Record<string, FindingAdjudication> {
+  const key = findingKey(modelId, finding);
+  const rulings = { ...matter.adjudications };
+  delete rulings[key];
+  if (!decision) return rulings;
+
+  return {
+    ...rulings,
+    [key]: {
+      modelId,
+      judgeId: reportingJudge(matter, modelId),
+      kind: finding.kind,
+      finding: finding.kind === 'error' ? finding.error.summaryExcerpt : finding.item,
+      severity: finding.kind === 'error' ? finding.error.severity : undefined,
+      verdict: decision.verdict,
+      adjustedSeverity: decision.verdict === 'downgraded' ? decision.adjustedSeverity : undefined,
+      note: decision.note?.trim() || undefined,
+      reviewer: decision.reviewer.trim(),
+      adjudicatedAt: new Date().toISOString(),
+    },
+  };
+}
+
+// ============== Adjudicated Score ==============
+
+export interface AdjudicatedScore {
+  judgeScore: number;
+  score: number;               // The judge's score with points back for overturned findings
+  findings: number;            // Errors and missing items on the current score
+  reviewed: number;
+  confirmed: number;
+  rejected: number;
+  downgraded: number;
+}
+
+/** Points given back for one ruling */
+function refund(adjudication: FindingAdjudication): number {
+  if (adjudication.kind === 'missing') {
+    return adjudication.verdict === 'rejected' ? MISSING_ITEM_PENALTY : 0;
+  }
+  const reported = SEVERITY_PENALTY[adjudication.severity || 'minor'];
+  if (adjudication.verdict === 'rejected') return reported;
+  if (adjudication.verdict === 'downgraded' && adjudication.adjustedSeverity) {
+    return Math.max(0, reported - SEVERITY_PENALTY[adjudication.adjustedSeverity]);
+  }
+  return 0;
+}
+
+/** The adjudicated score for a summary, or null until one of its findings has been reviewed */
+export function adjudicatedScore(matter: Matter, modelId: string): AdjudicatedScore | null {
+  const score = matter.qualityScores[modelId];
+  if (!score) return null;
+
+  const findings: Finding[] = [
+    ...(score.specificErrors || []).map(error => ({ kind: 'error' as const, error })),
+    ...(score.missingItems || []).map(item => ({ kind: 'missing' as const, item })),
+  ];
+  const rulings = findings
+    .map(finding => getAdjudication(matter, modelId, finding))
+    .filter((a): a is FindingAdjudication => !!a);
+  if (rulings.length === 0) return null;
+
+  const count = (verdict: FindingAdjudication['verdict']) => rulings.filter(a => a.verdict === verdict).length;
+  const points = rulings.reduce((sum, a) => sum + refund(a), 0);
+  return {
+    judgeScore: score.overallScore,
+    score: Math.min(100, Math.round((score.overallScore + points) * 10) / 10),
+    findings: findings.length,
+    reviewed: rulings.length,
+    confirmed: count('confirmed'),
+    rejected: count('rejected'),
+    downgraded: count('downgraded'),
+  };
+}
+
+// ============== Judge Reliability ==============
+
+export interface ReliabilityPeriod {
+  period: string;              // "2026-03" - the month the rulings were made
+  reviewed: number;
+  rejected: number;
+  falsePositiveRate: number;   // 0-1
+}
+
+export interface JudgeReliability {
+  judgeId: string;
+  name: string;
+  reviewed: number;
+  confirmed: number;
+  rejected: number;
+  downgraded: number;
+  falsePositiveRate: number | null;   // Rejected / reviewed; null with nothing reviewed
+  periods: ReliabilityPeriod[];       // Oldest first
+}
+
+/**
+ * How often each judge's findings were overturned, across every ruling in
+ * these matters. Rulings on findings a later re-score dropped still count -
+ * they were the judge's findings when they were reviewed.
+ */
+export function judgeReliability(matters: Matter[]): JudgeReliability[] {
+  const judges = new Map<string, JudgeReliability>();
+  const periods = new Map<string, Map<string, ReliabilityPeriod>>();
+
+  for (const matter of matters) {
+    for (const adjudication of Object.values(matter.adjudications || {})) {
+      const { judgeId } = adjudication;
+      let judge = judges.get(judgeId);
+      if (!judge) {
+        judge = {
+          judgeId,
+          name: findJudge(matter, judgeId)?.name || judgeId,
+          reviewed: 0,
+          confirmed: 0,
+          rejected: 0,
+          downgraded: 0,
+          falsePositiveRate: null,
+          periods: [],
+        };
+        judges.set(judgeId, judge);
+        periods.set(judgeId, new Map());
+      }
+      judge.reviewed++;
+      judge[adjudication.verdict]++;
+
+      const month = adjudication.adjudicatedAt.slice(0, 7);
+      const byMonth = periods.get(judgeId)!;
+      const period = byMonth.get(month) || { period: month, reviewed: 0, rejected: 0, falsePositiveRate: 0 };
+      period.reviewed++;
+      if (adjudication.verdict === 'rejected') period.rejected++;
+      byMonth.set(month, period);
+    }
+  }
+
+  return [...judges.values()]
+    .map(judge => ({
+      ...judge,
+      falsePositiveRate: judge.reviewed > 0 ? judge.rejected / judge.reviewed : null,
+      periods: [...periods.get(judge.judgeId)!.values()]
+        .map(p => ({ ...p, falsePositiveRate: p.rejected / p.reviewed }))
+        .sort((a, b) => a.period.localeCompare(b.period)),
+    }))
+    .sort((a, b) => b.reviewed - a.reviewed);
+}
@@ -0,0 +1,208 @@
+/**
+ * Analytics Export
+ *
+ * Spreadsheet downloads of an analytics report: a CSV with one row per
+ * model per matter (or of per-model totals), and an XLSX with the same rows split into one sheet per
+ * summary type plus a sheet of per-model totals. The XLSX is written
+ * directly as Office Open XML with JSZip - inline strings, no styles.
+ * Safe to use on client and server.
+ */
+
+import JSZip from 'jszip';
+import { AnalyticsReport, MatterReportRow, ModelReportRow } from './analytics';
+import { SUMMARY_TYPE_INFO } from './types';
+
+type Cell = string | number | boolean | null;
+
+// ============== Rows ==============
+
+function matterTable(report: AnalyticsReport, rows: MatterReportRow[]): Cell[][] {
+  return [
+    [
+      'Matter ID', 'Matter', 'Summary Type', 'Created', 'Model ID', 'Model', 'Baseline', 'Rank',
+      'Overall Score', 'Score vs Baseline',
+      ...report.categories.map((c) => c.name),
+      'Cost (USD)', 'Input Tokens', 'Output Tokens', 'Total Tokens', 'Latency (s)', 'Stats Estimated',
+    ],
+    ...rows.map((row) => [
+      row.matterId,
+      row.matterName,
+      SUMMARY_TYPE_INFO[row.summaryType]?.label || row.summaryType,
+      row.createdAt,
+      row.modelId,
+      row.modelName,
+      row.isBaseline,
+      row.rank,
+      row.overallScore,
+      row.scoreVsBaseline,
+      ...report.categories.map((c) => row.categoryScores[c.id] ?? null),
+      row.costUsd,
+      row.inputTokens,
+      row.outputTokens,
+      row.totalTokens,
+      Math.round(row.elapsedMs / 100) / 10,
+      row.statsEstimated,
+    ]),
+  ];
+}
+
+function modelTable(report: AnalyticsReport): Cell[][] {
+  const row = (type: string, model: ModelReportRow): Cell[] => [
+    type,
+    model.modelId,
+    model.name,
+    model.runs,
+    model.avgScore,
+    model.avgRank,
+    model.wins,
+    model.podiums,
+    ...report.categories.map((c) => model.categoryScores[c.id] ?? null),
+    model.avgCostUsd,
+    model.totalCostUsd,
+    model.inputTokens,
+    model.outputTokens,
+    model.totalTokens,
+    model.qualityPerDollar,
+    model.vsBaseline?.pairs ?? null,
+    model.vsBaseline?.scoreDiff ?? null,
+    model.vsBaseline?.ci?.lower ?? null,
+    model.vsBaseline?.ci?.upper ?? null,
+    model.vsBaseline?.costSavingsPercent ?? null,
+    model.vsBaseline?.signTestP ?? null,
+  ];
+  return [
+    [
+      'Summary Type', 'Model ID', 'Model', 'Runs', 'Avg Score', 'Avg Rank', 'Wins', 'Podiums',
+      ...report.categories.map((c) => `Avg ${c.name}`),
+      'Avg Cost (USD)', 'Total Cost (USD)', 'Input Tokens', 'Output Tokens', 'Total Tokens', 'Score per $',
+      'Paired Matters', 'Score vs Baseline', `CI Lower (${Math.round(report.confidence * 100)}%)`,
+      `CI Upper (${Math.round(report.confidence * 100)}%)`, 'Cost Savings vs Baseline (%)', 'Sign Test p',
+    ],
+    ...report.models.map((model) => row('All', model)),
+    ...report.byType.flatMap((type) => type.models.map((model) => row(type.label, model))),
+  ];
+}
+
+// ============== CSV ==============
+
+function csvCell(value: Cell): string {
+  if (value === null) return '';
+  // Text that a spreadsheet would run as a formula (a matter named "=HYPERLINK(...)") is kept as text
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export type CsvTable = 'matters' | 'models';
+
+/**
+ * 'matters': one row per model per matter, every summary type together.
+ * 'models': the per-model totals of the XLSX "Models" sheet.
+ */
+export function analyticsCsv(report: AnalyticsReport, table: CsvTable = 'matters'): string {
+  const rows = table === 'models' ? modelTable(report) : matterTable(report, report.matters);
+  return rows.map((row) => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+// ============== XLSX ==============
+
+function xmlEscape(text: string): string {
+  return text
+    // Control characters aren't allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/** A1-style column letters: 0 -> A, 26 -> AA */
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function sheetXml(rows: Cell[][]): string {
+  const body = rows
+    .map((row, r) => {
+      const cells = row
+        .map((value, c) => {
+          const ref = `${columnName(c)}${r + 1}`;
+          if (value === null) return '';
+          if (typeof value === 'number') return Number.isFinite(value) ? `<c r="${ref}"><v>${value}</v></c>` : '';
+          if (typeof value === 'boolean') return `<c r="${ref}" t="b"><v>${value ? 1 : 0}</v></c>`;
+          return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${xmlEscape(value)}</t></is></c>`;
+        })
+        .join('');
+      return `<row r="${r + 1}">${cells}</row>`;
+    })
+    .join('');
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${body}</sheetData></worksheet>`;
+}
+
+/** Excel sheet names: at most 31 characters, none of []:*?/\, unique */
+function sheetNames(names: string[]): string[] {
+  const used = new Set<string>();
+  return names.map((name) => {
+    const base = name.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || 'Sheet';
+    let unique = base;
+    for (let i = 2; used.has(unique.toLowerCase()); i++) {
+      unique = `${base.slice(0, 31 - String(i).length - 1)} ${i}`;
+    }
+    used.add(unique.toLowerCase());
+    return unique;
+  });
+}
+
+/** A "Models" sheet of per-model totals, then one sheet per summary type with its matter rows */
+export async function analyticsXlsx(report: AnalyticsReport): Promise<Uint8Array> {
+  const sheets: { name: string; rows: Cell[][] }[] = [
+    { name: 'Models', rows: modelTable(report) },
+    ...report.byType.map((type) => ({
+      name: type.label,
+      rows: matterTable(report, report.matters.filter((m) => m.summaryType === type.summaryType)),
+    })),
+  ];
+  const names = sheetNames(sheets.map((s) => s.name));
+
+  const zip = new JSZip();
+  // Spreadsheet apps expect only file entries, no folder records
+  const file = (path: string, content: string) => zip.file(path, content, { createFolders: false });
+  file(
+    '[Content_Types].xml',
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+${sheets.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('\n')}
+</Types>`
+  );
+  file(
+    '_rels/.rels',
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`
+  );
+  file(
+    'xl/workbook.xml',
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>
+${names.map((name, i) => `<sheet name="${xmlEscape(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('\n')}
+</sheets></workbook>`
+  );
+  file(
+    'xl/_rels/workbook.xml.rels',
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+${sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('\n')}
+</Relationships>`
+  );
+  sheets.forEach((sheet, i) => file(`xl/worksheets/sheet${i + 1}.xml`, sheetXml(sheet.rows)));
+
+  return zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+}
@@ -0,0 +1,573 @@
+/**
+ * Cross-Run Analytics
+ *
+ * Aggregates completed matters into per-model stats, overall and per summary
+ * type: average and category scores, cost, wins and ranks, and paired
+ * comparisons against a baseline - either one model, or each matter's own
+ * control model. The analytics page renders this; /api/analytics serves it
+ * as a versioned report with one row per model and per matter summary.
+ * Safe to use on client and server.
+ */
+
+import { Matter, ModelConfig, SummaryType, SUMMARY_TYPE_INFO } from './types';
+import { getMatterModels, matterTestModels } from './models';
+import { getMatterRubric } from './rubrics';
+import { judgeReliability, JudgeReliability } from './adjudication';
+import { humanJudgeAgreement, HumanJudgeAgreement } from './human-review';
+import {
+  additionalMattersNeeded,
+  compareWithBaseline,
+  ConfidenceInterval,
+  ConfidenceLevel,
+  formatConfidence,
+  formatInterval,
+  NON_INFERIORITY_MARGIN,
+  pairedDifferences,
+  PairedComparison,
+} from './significance';
+
+export interface ModelStats {
+  model: ModelConfig;
+  runCount: number;
+  avgScore: number;
+  avgScoreVsBaseline: number;
+  totalCost: number;
+  avgCost: number;
+  avgCostVsBaseline: number;
+  winCount: number;
+  podiumCount: number;
+  avgRank: number;
+  scores: number[];
+  qualityCostRatio: number;
+  // New: Store individual run details for reasoning
+  bestScore: number;
+  worstScore: number;
+  avgFactualAccuracy: number;
+  avgCitationAccuracy: number;
+  avgRelevance: number;
+  avgComprehensiveness: number;
+  avgLegalUtility: number;
+  categoryCounts: Record<string, number>;  // Runs whose rubric had each category
+  vsBaseline: PairedComparison | null;      // Paired test against the baseline; null for the baseline itself
+}
+
+export interface Recommendation {
+  bestQuality: string | null;
+  bestValue: string | null;
+  recommendedSwitch: string | null;
+  reasoning: string;
+}
+
+export interface SummaryTypeAnalytics {
+  summaryType: SummaryType;
+  label: string;
+  runCount: number;
+  modelStats: Record<string, ModelStats>;
+  recommendation: Recommendation;
+  // Blind human grades against the judge's, pooled over this type's matters
+  humanAgreement: HumanJudgeAgreement | null;
+}
+
+export interface AggregateAnalytics {
+  totalRuns: number;
+  completedRuns: number;
+  totalDocuments: number;
+  // Overall stats (all types combined)
+  overallStats: {
+    modelStats: Record<string, ModelStats>;
+    recommendation: Recommendation;
+  };
+  // Per-summary-type stats
+  byType: Record<string, SummaryTypeAnalytics>;
+  baseline: string;                 // A model id or CONTROL_BASELINE
+  baselineAvgScore: number | null;  // Mean overall score of the baseline across matters
+  // How often reviewers overturned each judge's findings
+  judgeReliability: JudgeReliability[];
+}
+
+// Compare against each matter's own control model - the same baseline the matter page uses
+export const CONTROL_BASELINE = 'control';
+
+// The model a matter is compared against
+export function matterBaseline(matter: Matter, baseline: string): string | undefined {
+  return baseline === CONTROL_BASELINE ? getMatterModels(matter).find((m) => m.isControl)?.id : baseline;
+}
+
+export function isBaselineModel(model: ModelConfig, baseline: string): boolean {
+  return baseline === CONTROL_BASELINE ? !!model.isControl : model.id === baseline;
+}
+
+function initializeModelStats(model: ModelConfig): ModelStats {
+  return {
+    model,
+    runCount: 0,
+    avgScore: 0,
+    avgScoreVsBaseline: 0,
+    totalCost: 0,
+    avgCost: 0,
+    avgCostVsBaseline: 0,
+    winCount: 0,
+    podiumCount: 0,
+    avgRank: 0,
+    scores: [],
+    qualityCostRatio: 0,
+    bestScore: 0,
+    worstScore: 100,
+    avgFactualAccuracy: 0,
+    avgCitationAccuracy: 0,
+    avgRelevance: 0,
+    avgComprehensiveness: 0,
+    avgLegalUtility: 0,
+    categoryCounts: {},
+    vsBaseline: null,
+  };
+}
+
+function aggregateModelStats(
+  modelStats: Record<string, ModelStats>,
+  matter: Matter
+): void {
+  const scores = Object.values(matter.qualityScores);
+  const ranked = [...scores].sort((a, b) => b.overallScore - a.overallScore);
+
+  scores.forEach((score) => {
+    const stats = modelStats[score.model];
+    if (!stats) return;
+
+    const summary = matter.summaries[score.model];
+    const rank = ranked.findIndex((r) => r.model === score.model) + 1;
+
+    stats.runCount++;
+    stats.scores.push(score.overallScore);
+    stats.totalCost += summary?.costUsd || 0;
+    stats.avgRank = (stats.avgRank * (stats.runCount - 1) + rank) / stats.runCount;
+
+    // Track best/worst
+    if (score.overallScore > stats.bestScore) stats.bestScore = score.overallScore;
+    if (score.overallScore < stats.worstScore) stats.worstScore = score.overallScore;
+
+    // Track category averages - a category the matter's rubric doesn't have is left out
+    const categoryAverage = (id: string, avg: number) => {
+      const value = score.categoryScores[id]?.score;
+      if (value === undefined) return avg;
+      const count = (stats.categoryCounts[id] = (stats.categoryCounts[id] || 0) + 1);
+      return avg + (value - avg) / count;
+    };
+    stats.avgFactualAccuracy = categoryAverage('factual_accuracy', stats.avgFactualAccuracy);
+    stats.avgCitationAccuracy = categoryAverage('page_line_accuracy', stats.avgCitationAccuracy);
+    stats.avgRelevance = categoryAverage('relevance', stats.avgRelevance);
+    stats.avgComprehensiveness = categoryAverage('comprehensiveness', stats.avgComprehensiveness);
+    stats.avgLegalUtility = categoryAverage('legal_utility', stats.avgLegalUtility);
+
+    if (rank === 1) stats.winCount++;
+    if (rank <= 3) stats.podiumCount++;
+  });
+}
+
+// Pair each model with the baseline matter by matter - score difference and
+// cost savings vs baseline only count matters that ran both
+function compareModels(
+  modelStats: Record<string, ModelStats>,
+  matters: Matter[],
+  baseline: string,
+  confidence: ConfidenceLevel
+): void {
+  const baselineOf = (matter: Matter) => matterBaseline(matter, baseline);
+  Object.values(modelStats).forEach((stats) => {
+    if (stats.runCount === 0 || isBaselineModel(stats.model, baseline)) return;
+    const differences = pairedDifferences(matters, stats.model.id, baselineOf);
+    if (differences.length === 0) return;
+    stats.vsBaseline = compareWithBaseline(differences, stats.model.id, baseline, confidence);
+    stats.avgScoreVsBaseline = stats.vsBaseline.meanDiff;
+
+    let modelCost = 0;
+    let baselineCost = 0;
+    matters.forEach((matter) => {
+      const baselineId = baselineOf(matter);
+      if (!baselineId || !matter.qualityScores[stats.model.id] || !matter.qualityScores[baselineId]) return;
+      modelCost += matter.summaries[stats.model.id]?.costUsd || 0;
+      baselineCost += matter.summaries[baselineId]?.costUsd || 0;
+    });
+    if (baselineCost > 0) stats.avgCostVsBaseline = ((baselineCost - modelCost) / baselineCost) * 100;
+  });
+}
+
+function finalizeModelStats(modelStats: Record<string, ModelStats>): void {
+  Object.values(modelStats).forEach((stats) => {
+    if (stats.runCount > 0) {
+      stats.avgScore = stats.scores.reduce((a, b) => a + b, 0) / stats.scores.length;
+      stats.avgCost = stats.totalCost / stats.runCount;
+      stats.qualityCostRatio = stats.avgCost > 0 ? stats.avgScore / stats.avgCost : 0;
+    }
+  });
+}
+
+function generateRecommendation(
+  modelStats: Record<string, ModelStats>,
+  confidence: ConfidenceLevel
+): Recommendation {
+  const validStats = Object.values(modelStats).filter((s) => s.runCount > 0);
+  const level = formatConfidence(confidence);
+
+  let bestQuality: string | null = null;
+  let bestValue: string | null = null;
+  let recommendedSwitch: string | null = null;
+  let reasoning = '';
+
+  // "+1.2 points (95% CI -0.8 to +3.1) over 6 paired matters"
+  const difference = (c: PairedComparison) =>
+    `${c.meanDiff >= 0 ? '+' : ''}${c.meanDiff.toFixed(1)} points` +
+    (c.ci ? ` (${level} CI ${formatInterval(c.ci)})` : '') +
+    ` over ${c.pairs} paired matter${c.pairs === 1 ? '' : 's'}`;
+  const moreMatters = (c: PairedComparison, goal: 'better' | 'nonInferior') => {
+    const needed = additionalMattersNeeded(c, goal);
+    return needed === null
+      ? 'More matters are unlikely to change this at the current difference.'
+      : `About ${Math.max(1, needed)} more matter${Math.max(1, needed) === 1 ? '' : 's'} would be needed if the current difference holds.`;
+  };
+
+  if (validStats.length > 0) {
+    const byQuality = [...validStats].sort((a, b) => b.avgScore - a.avgScore);
+    bestQuality = byQuality[0]?.model.id || null;
+
+    const byValue = [...validStats].sort((a, b) => b.qualityCostRatio - a.qualityCostRatio);
+    bestValue = byValue[0]?.model.id || null;
+
+    if (validStats.some((s) => s.vsBaseline)) {
+      // Cheaper models whose quality drop isn't ruled out yet are still worth mentioning
+      const cheaper = validStats
+        .filter(
+          (s) =>
+            s.vsBaseline &&
+            s.avgCostVsBaseline > 10 &&
+            s.vsBaseline.meanDiff > -NON_INFERIORITY_MARGIN
+        )
+        .sort((a, b) => b.avgCostVsBaseline - a.avgCostVsBaseline);
+      const supported = cheaper.filter((s) => s.vsBaseline!.nonInferior);
+
+      if (supported.length > 0) {
+        const switchStats = supported[0];
+        recommendedSwitch = switchStats.model.id;
+        reasoning = `${switchStats.model.name} offers ${switchStats.avgCostVsBaseline.toFixed(0)}% cost savings at ${difference(switchStats.vsBaseline!)} vs baseline. A switch is supported at ${level} confidence: a quality drop of more than ${NON_INFERIORITY_MARGIN} points is ruled out.`;
+      } else if (cheaper.length > 0) {
+        const candidate = cheaper[0];
+        reasoning = `${candidate.model.name} would save ${candidate.avgCostVsBaseline.toFixed(0)}% at ${difference(candidate.vsBaseline!)} vs baseline, but a switch is not yet supported at ${level} confidence - a quality drop of more than ${NON_INFERIORITY_MARGIN} points can't be ruled out. ${moreMatters(candidate.vsBaseline!, 'nonInferior')}`;
+      } else {
+        const betterModels = validStats
+          .filter((s) => s.vsBaseline && s.vsBaseline.meanDiff > 0)
+          .sort((a, b) => b.vsBaseline!.meanDiff - a.vsBaseline!.meanDiff);
+        const best = betterModels.find((s) => s.vsBaseline!.better) || betterModels[0];
+        if (best) {
+          const c = best.vsBaseline!;
+          const record = `beats the baseline in ${c.wins} of ${c.pairs} matters${c.signTestP !== null ? ` (sign test p = ${c.signTestP.toFixed(3)})` : ''}`;
+          reasoning = c.better
+            ? `${best.model.name} scores ${difference(c)} and ${record}. The improvement is significant at ${level} confidence; consider upgrading despite ${best.avgCostVsBaseline > 0 ? 'similar' : 'higher'} cost.`
+            : `${best.model.name} scores ${difference(c)} and ${record}, which is not significant at ${level} confidence. ${moreMatters(c, 'better')}`;
+        } else {
+          reasoning = 'Current baseline remains competitive - no model scores above it across paired matters.';
+        }
+      }
+    }
+  }
+
+  return { bestQuality, bestValue, recommendedSwitch, reasoning };
+}
+
+// Every model the matters compared - each matter's own copy, so a model
+// since retired from the registry still shows up with its history
+export function testedModels(matters: Matter[]): ModelConfig[] {
+  const models = new Map<string, ModelConfig>();
+  matters.forEach((matter) => {
+    matterTestModels(matter).forEach((model) => {
+      if (!models.has(model.id)) models.set(model.id, model);
+    });
+  });
+  return [...models.values()];
+}
+
+// Only matters that finished and were scored count toward analytics
+function isAnalyzed(matter: Matter): boolean {
+  return matter.status === 'completed' && Object.keys(matter.qualityScores).length > 0;
+}
+
+export function calculateAnalytics(matters: Matter[], baseline: string, confidence: ConfidenceLevel): AggregateAnalytics {
+  const completedMatters = matters.filter(isAnalyzed);
+  const models = testedModels(completedMatters);
+
+  // Initialize overall stats
+  const overallModelStats: Record<string, ModelStats> = {};
+  models.forEach((model) => {
+    overallModelStats[model.id] = initializeModelStats(model);
+  });
+
+  // Initialize per-type stats
+  const byType: Record<string, SummaryTypeAnalytics> = {};
+
+  // Process each completed matter
+  completedMatters.forEach((matter) => {
+    const summaryType = matter.summaryType;
+    
+    // Initialize type analytics if not exists
+    if (!byType[summaryType]) {
+      const typeModelStats: Record<string, ModelStats> = {};
+      models.forEach((model) => {
+        typeModelStats[model.id] = initializeModelStats(model);
+      });
+      
+      byType[summaryType] = {
+        summaryType,
+        label: SUMMARY_TYPE_INFO[summaryType]?.label || summaryType,
+        runCount: 0,
+        modelStats: typeModelStats,
+        recommendation: { bestQuality: null, bestValue: null, recommendedSwitch: null, reasoning: '' },
+        humanAgreement: null,
+      };
+    }
+    
+    byType[summaryType].runCount++;
+    
+    // Aggregate to overall stats
+    aggregateModelStats(overallModelStats, matter);
+    
+    // Aggregate to type-specific stats
+    aggregateModelStats(byType[summaryType].modelStats, matter);
+  });
+
+  // Finalize overall stats
+  finalizeModelStats(overallModelStats);
+  compareModels(overallModelStats, completedMatters, baseline, confidence);
+  
+  // Finalize per-type stats
+  Object.values(byType).forEach((typeStats) => {
+    const typeMatters = completedMatters.filter((m) => m.summaryType === typeStats.summaryType);
+    finalizeModelStats(typeStats.modelStats);
+    compareModels(typeStats.modelStats, typeMatters, baseline, confidence);
+    typeStats.recommendation = generateRecommendation(typeStats.modelStats, confidence);
+    typeStats.humanAgreement = humanJudgeAgreement(typeMatters);
+  });
+
+  const baselineScores = completedMatters.flatMap((matter) => {
+    const baselineId = matterBaseline(matter, baseline);
+    const score = baselineId ? matter.qualityScores[baselineId] : undefined;
+    return score ? [score.overallScore] : [];
+  });
+
+  return {
+    totalRuns: matters.length,
+    completedRuns: completedMatters.length,
+    totalDocuments: matters.reduce((sum, m) => sum + m.sourceDocuments.length, 0),
+    overallStats: {
+      modelStats: overallModelStats,
+      recommendation: generateRecommendation(overallModelStats, confidence),
+    },
+    byType,
+    baseline,
+    baselineAvgScore: baselineScores.length > 0 ? baselineScores.reduce((a, b) => a + b, 0) / baselineScores.length : null,
+    judgeReliability: judgeReliability(matters),
+  };
+}
+
+// ============== Report ==============
+
+// Bump when a field is renamed or removed - adding fields keeps the version
+export const ANALYTICS_REPORT_VERSION = 1;
+
+export interface ModelReportRow {
+  modelId: string;
+  name: string;
+  provider: string;
+  runs: number;
+  avgScore: number;
+  bestScore: number;
+  worstScore: number;
+  avgRank: number;
+  wins: number;                     // Matters where it ranked first
+  podiums: number;                  // Matters where it ranked in the top 3
+  avgCostUsd: number;
+  totalCostUsd: number;
+  inputTokens: number;              // Totals over the same runs as the cost
+  outputTokens: number;
+  totalTokens: number;
+  qualityPerDollar: number;         // Average score per dollar of average cost
+  categoryScores: Record<string, number>;  // Rubric category id -> average score
+  vsBaseline: {
+    pairs: number;                  // Matters that ran both
+    scoreDiff: number;              // Mean model - baseline, in points
+    ci: ConfidenceInterval | null;
+    costSavingsPercent: number;     // Positive = cheaper than the baseline on the same matters
+    wins: number;
+    losses: number;
+    ties: number;
+    signTestP: number | null;
+    better: boolean;
+    nonInferior: boolean;
+  } | null;
+}
+
+export interface MatterReportRow {
+  matterId: string;
+  matterName: string;
+  summaryType: SummaryType;
+  createdAt: string;
+  modelId: string;
+  modelName: string;
+  isBaseline: boolean;
+  rank: number;                     // 1 = best overall score on the matter
+  overallScore: number;
+  scoreVsBaseline: number | null;
+  categoryScores: Record<string, number>;
+  costUsd: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  elapsedMs: number;
+  statsEstimated: boolean;          // Tokens and cost were estimated, not reported by the API
+}
+
+export interface TypeReport {
+  summaryType: SummaryType;
+  label: string;
+  runs: number;
+  recommendation: Recommendation;
+  models: ModelReportRow[];
+}
+
+export interface AnalyticsReport {
+  version: number;
+  generatedAt: string;
+  baseline: string;                 // A model id or CONTROL_BASELINE
+  confidence: ConfidenceLevel;
+  completedMatters: number;
+  categories: { id: string; name: string }[];   // Every rubric category the matters use
+  recommendation: Recommendation;
+  models: ModelReportRow[];         // All summary types together
+  byType: TypeReport[];
+  matters: MatterReportRow[];
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Costs keep micro-dollar precision - a cheap model's summary can cost a fraction of a cent
+function round6(value: number): number {
+  return Math.round(value * 1_000_000) / 1_000_000;
+}
+
+function modelRows(modelStats: Record<string, ModelStats>, matters: Matter[]): ModelReportRow[] {
+  return Object.values(modelStats)
+    .filter((stats) => stats.runCount > 0)
+    .sort((a, b) => b.avgScore - a.avgScore)
+    .map((stats) => {
+      // Category averages over every category, not just the five the page breaks out
+      const sums: Record<string, { total: number; count: number }> = {};
+      const tokens = { input: 0, output: 0, total: 0 };
+      matters.forEach((matter) => {
+        const score = matter.qualityScores[stats.model.id];
+        const summary = score && matter.summaries[stats.model.id];
+        if (summary) {
+          tokens.input += summary.inputTokens || 0;
+          tokens.output += summary.outputTokens || 0;
+          tokens.total += summary.totalTokens || 0;
+        }
+        Object.entries(score?.categoryScores || {}).forEach(([id, category]) => {
+          sums[id] = { total: (sums[id]?.total || 0) + category.score, count: (sums[id]?.count || 0) + 1 };
+        });
+      });
+      const c = stats.vsBaseline;
+      return {
+        modelId: stats.model.id,
+        name: stats.model.name,
+        provider: stats.model.provider,
+        runs: stats.runCount,
+        avgScore: round2(stats.avgScore),
+        bestScore: stats.bestScore,
+        worstScore: stats.worstScore,
+        avgRank: round2(stats.avgRank),
+        wins: stats.winCount,
+        podiums: stats.podiumCount,
+        avgCostUsd: round6(stats.avgCost),
+        totalCostUsd: round6(stats.totalCost),
+        inputTokens: tokens.input,
+        outputTokens: tokens.output,
+        totalTokens: tokens.total,
+        qualityPerDollar: round2(stats.qualityCostRatio),
+        categoryScores: Object.fromEntries(Object.entries(sums).map(([id, { total, count }]) => [id, round2(total / count)])),
+        vsBaseline: c && {
+          pairs: c.pairs,
+          scoreDiff: c.meanDiff,
+          ci: c.ci,
+          costSavingsPercent: round2(stats.avgCostVsBaseline),
+          wins: c.wins,
+          losses: c.losses,
+          ties: c.ties,
+          signTestP: c.signTestP,
+          better: c.better,
+          nonInferior: c.nonInferior,
+        },
+      };
+    });
+}
+
+function matterRows(matters: Matter[], baseline: string): MatterReportRow[] {
+  return matters.flatMap((matter) => {
+    const models = getMatterModels(matter);
+    const baselineId = matterBaseline(matter, baseline);
+    const baselineScore = baselineId ? matter.qualityScores[baselineId]?.overallScore : undefined;
+    const ranked = Object.values(matter.qualityScores).sort((a, b) => b.overallScore - a.overallScore);
+    return ranked.map((score, index) => {
+      const summary = matter.summaries[score.model];
+      return {
+        matterId: matter.id,
+        matterName: matter.name,
+        summaryType: matter.summaryType,
+        createdAt: matter.createdAt,
+        modelId: score.model,
+        modelName: models.find((m) => m.id === score.model)?.name || score.model,
+        isBaseline: score.model === baselineId,
+        rank: index + 1,
+        overallScore: score.overallScore,
+        scoreVsBaseline: baselineScore !== undefined && score.model !== baselineId
+          ? round2(score.overallScore - baselineScore)
+          : null,
+        categoryScores: Object.fromEntries(Object.entries(score.categoryScores).map(([id, c]) => [id, c.score])),
+        costUsd: summary?.costUsd || 0,
+        inputTokens: summary?.inputTokens || 0,
+        outputTokens: summary?.outputTokens || 0,
+        totalTokens: summary?.totalTokens || 0,
+        elapsedMs: summary?.elapsedTimeMs || 0,
+        statsEstimated: !!summary?.statsEstimated,
+      };
+    });
+  });
+}
+
+/** The analytics as a stable, versioned report - what /api/analytics returns and the exports are built from */
+export function analyticsReport(matters: Matter[], baseline: string, confidence: ConfidenceLevel): AnalyticsReport {
+  const analytics = calculateAnalytics(matters, baseline, confidence);
+  const completed = matters.filter(isAnalyzed);
+
+  const categories = new Map<string, string>();
+  completed.forEach((matter) => {
+    getMatterRubric(matter).categories.forEach((c) => categories.has(c.id) || categories.set(c.id, c.name));
+  });
+
+  return {
+    version: ANALYTICS_REPORT_VERSION,
+    generatedAt: new Date().toISOString(),
+    baseline,
+    confidence,
+    completedMatters: analytics.completedRuns,
+    categories: [...categories].map(([id, name]) => ({ id, name })),
+    recommendation: analytics.overallStats.recommendation,
+    models: modelRows(analytics.overallStats.modelStats, completed),
+    byType: Object.values(analytics.byType).map((type) => ({
+      summaryType: type.summaryType,
+      label: type.label,
+      runs: type.runCount,
+      recommendation: type.recommendation,
+      models: modelRows(type.modelStats, completed.filter((m) => m.summaryType === type.summaryType)),
+    })),
+    matters: matterRows(completed, baseline),
+  };
+}
@@ -6,109 +6,30 @@
  */
 
 import { debugLogger } from './debug-logger';
+import type { ModelRole } from './types';
+import { extractPdfPages, hasTextLayer, pagesToText } from './pdf-text';
 
-/**
- * FAST TEXT EXTRACTION from digital PDFs
- * 
- * CaseMark generates digital PDFs with embedded text streams.
- * This extracts text directly from PDF binary without any API calls.
- * Takes milliseconds instead of minutes.
- * 
- * Only works for digital PDFs - scanned/image PDFs need OCR.
- */
-function extractTextFromPdfBuffer(pdfBuffer: ArrayBuffer): string | null {
-  try {
-    const bytes = new Uint8Array(pdfBuffer);
-    const pdfString = new TextDecoder('latin1').decode(bytes);
-    
-    // Extract text from PDF text streams
-    // PDF text is typically in BT...ET blocks with Tj or TJ operators
-    const textChunks: string[] = [];
-    
-    // Method 1: Look for text in parentheses after Tj operator
-    // Pattern: (Hello World) Tj
-    const tjMatches = pdfString.matchAll(/\(([^)]*)\)\s*Tj/g);
-    for (const match of tjMatches) {
-      const text = decodePdfString(match[1]);
-      if (text.trim()) {
-        textChunks.push(text);
-      }
-    }
-    
-    // Method 2: Look for TJ arrays with text
-    // Pattern: [(Hello) -20 (World)] TJ
-    const tjArrayMatches = pdfString.matchAll(/\[([^\]]+)\]\s*TJ/gi);
-    for (const match of tjArrayMatches) {
-      const arrayContent = match[1];
-      const textParts = arrayContent.matchAll(/\(([^)]*)\)/g);
-      for (const part of textParts) {
-        const text = decodePdfString(part[1]);
-        if (text.trim()) {
-          textChunks.push(text);
-        }
-      }
-    }
-    
-    // Method 3: Look for stream content that might be text
-    // Some PDFs encode text in streams with FlateDecode
-    // We can't easily decode those, but simple streams work
-    const streamMatches = pdfString.matchAll(/stream\r?\n([\s\S]*?)\r?\nendstream/g);
-    for (const match of streamMatches) {
-      const streamContent = match[1];
-      // Check if it looks like text content (has BT/ET markers)
-      if (streamContent.includes('BT') && streamContent.includes('ET')) {
-        // Extract text from this stream
-        const innerTj = streamContent.matchAll(/\(([^)]*)\)\s*Tj/g);
-        for (const tjMatch of innerTj) {
-          const text = decodePdfString(tjMatch[1]);
-          if (text.trim()) {
-            textChunks.push(text);
-          }
-        }
-      }
-    }
-    
-    // Join and clean up
-    let result = textChunks.join(' ');
-    
-    // Clean up common PDF encoding artifacts
-    result = result
-      .replace(/\\n/g, '\n')
-      .replace(/\\r/g, '\r')
-      .replace(/\\t/g, '\t')
-      .replace(/\\\(/g, '(')
-      .replace(/\\\)/g, ')')
-      .replace(/\\\\/g, '\\')
-      .replace(/\s+/g, ' ')
-      .trim();
-    
-    return result.length > 0 ? result : null;
-  } catch (error) {
-    console.error('[FastPDFExtract] Error:', error);
-    return null;
-  }
+interface ApiResponse<T> {
+  data?: T;
+  error?: string;
 }
 
-/**
- * Decode PDF string escapes
- */
-function decodePdfString(str: string): string {
-  return str
-    .replace(/\\n/g, '\n')
-    .replace(/\\r/g, '\r')
-    .replace(/\\t/g, '\t')
-    .replace(/\\\(/g, '(')
-    .replace(/\\\)/g, ')')
-    .replace(/\\\\/g, '\\')
-    // Handle octal escapes like \101 = 'A'
-    .replace(/\\([0-7]{1,3})/g, (_, octal) => 
-      String.fromCharCode(parseInt(octal, 8))
-    );
+// Background jobs call these helpers from the server, where relative /api URLs need an origin.
+// It comes from config only - never from a request - since server calls carry the site password.
+function serverApiOrigin(): string {
+  return (process.env.INTERNAL_API_URL || `http://localhost:${process.env.PORT || 3000}`).replace(/\/$/, '');
 }
 
-interface ApiResponse<T> {
-  data?: T;
-  error?: string;
+function apiUrl(endpoint: string): string {
+  if (typeof window !== 'undefined' || !endpoint.startsWith('/')) return endpoint;
+  return `${serverApiOrigin()}${endpoint}`;
+}
+
+// Server-side calls don't carry the browser's cookie, so pass the site password ourselves
+function serverAuthHeaders(): Record<string, string> {
+  if (typeof window !== 'undefined' || !process.env.SITE_PASSWORD) return {};
+  // Encoded the way the cookie store writes it, so the middleware reads back the same value
+  return { Cookie: `site_password=${encodeURIComponent(process.env.SITE_PASSWORD)}` };
 }
 
 async function localApiRequest<T>(
@@ -129,10 +50,11 @@ async function localApiRequest<T>(
   for (let attempt = 0; attempt < maxRetries; attempt++) {
     try {
       const startTime = Date.now();
-      const response = await fetch(endpoint, {
+      const response = await fetch(apiUrl(endpoint), {
         ...options,
         headers: {
           'Content-Type': 'application/json',
+          ...serverAuthHeaders(),
           ...options.headers,
         },
       });
@@ -260,8 +182,9 @@ export async function uploadToVault(
 
   try {
     const startTime = Date.now();
-    const response = await fetch(endpoint, {
+    const response = await fetch(apiUrl(endpoint), {
       method: 'POST',
+      headers: serverAuthHeaders(),
       body: formData,
     });
 
@@ -427,26 +350,31 @@ export async function downloadVaultObjectRaw(
  * Extract text from a vault object using Gemini Vision
  * Downloads the PDF and uses Gemini's vision capabilities for accurate extraction
  * 
- * This is the preferred method for source documents where accuracy is critical.
+ * This is the preferred method for scanned source documents where accuracy is critical.
+ * If Gemini fails it falls back to the OCR service, then to Vault ingestion.
+ * Pass the PDF if it's already been downloaded to skip downloading it again.
  */
 export async function extractVaultObjectWithGemini(
   vaultId: string,
   objectId: string,
-  onProgress?: (status: string) => void
+  onProgress?: (status: string) => void,
+  downloaded?: ArrayBuffer
 ): Promise<ApiResponse<ExtractedTextData>> {
   const logSource = 'gemini-vault-extract';
   
   debugLogger.info(`🔍 Starting Gemini Vision extraction from vault`, { vaultId, objectId }, logSource);
-  onProgress?.('Downloading PDF from vault...');
   
   try {
     // Step 1: Download raw PDF
-    const downloadResult = await downloadVaultObjectRaw(vaultId, objectId);
-    if (downloadResult.error || !downloadResult.data) {
-      return { error: `Failed to download PDF: ${downloadResult.error}` };
+    let pdfBuffer = downloaded;
+    if (!pdfBuffer) {
+      onProgress?.('Downloading PDF from vault...');
+      const downloadResult = await downloadVaultObjectRaw(vaultId, objectId);
+      if (downloadResult.error || !downloadResult.data) {
+        return { error: `Failed to download PDF: ${downloadResult.error}` };
+      }
+      pdfBuffer = downloadResult.data;
     }
-    
-    const pdfBuffer = downloadResult.data;
     const fileSizeKB = Math.round(pdfBuffer.byteLength / 1024);
     onProgress?.(`PDF downloaded (${fileSizeKB} KB), sending to Gemini Vision...`);
     
@@ -458,10 +386,15 @@ export async function extractVaultObjectWithGemini(
     );
     
     if (extractResult.error || !extractResult.data) {
-      // Fallback to traditional Vault OCR if Gemini fails
-      debugLogger.warn(`Gemini Vision failed, falling back to Vault OCR...`, { error: extractResult.error }, logSource);
-      onProgress?.('Gemini Vision failed, trying traditional OCR...');
+      // Fall back to the OCR service (best for scanned transcripts), then to Vault ingestion
+      debugLogger.warn(`Gemini Vision failed, falling back to OCR...`, { error: extractResult.error }, logSource);
+      onProgress?.('Gemini Vision failed, trying OCR...');
       
+      const ocrResult = await extractVaultObjectWithOcr(vaultId, objectId, onProgress);
+      if (ocrResult.data) return ocrResult;
+
+      debugLogger.warn(`OCR failed, falling back to Vault ingestion...`, { error: ocrResult.error }, logSource);
+      onProgress?.('OCR failed, trying Vault text extraction...');
       return await extractTextFromVaultObject(vaultId, objectId, onProgress);
     }
     
@@ -475,6 +408,7 @@ export async function extractVaultObjectWithGemini(
         content: extractResult.data.content,
         pageCount: extractResult.data.pageCount,
         tokenEstimate: Math.ceil(extractResult.data.content.length / 4),
+        method: 'gemini',
       }
     };
   } catch (error) {
@@ -484,6 +418,51 @@ export async function extractVaultObjectWithGemini(
   }
 }
 
+/**
+ * Extract a source document's text for quality analysis
+ * Digital PDFs are read locally from their text layer - milliseconds, with
+ * real page and line breaks. Scans have no text layer and go to Gemini
+ * Vision (then OCR, then Vault ingestion).
+ */
+export async function extractSourceDocument(
+  vaultId: string,
+  objectId: string,
+  onProgress?: (status: string) => void
+): Promise<ApiResponse<ExtractedTextData>> {
+  const logSource = 'source-extract';
+
+  onProgress?.('Downloading PDF from vault...');
+  const downloadResult = await downloadVaultObjectRaw(vaultId, objectId);
+  if (downloadResult.error || !downloadResult.data) {
+    return { error: `Failed to download PDF: ${downloadResult.error}` };
+  }
+
+  onProgress?.('Reading PDF text layer...');
+  const startTime = Date.now();
+  const pages = await extractPdfPages(downloadResult.data);
+  if (pages && hasTextLayer(pages)) {
+    const content = pagesToText(pages);
+    debugLogger.info(`✅ Read PDF text layer`, {
+      pageCount: pages.length,
+      contentLength: content.length,
+      elapsedMs: Date.now() - startTime,
+    }, logSource);
+    return {
+      data: {
+        content,
+        pageCount: pages.length,
+        tokenEstimate: Math.ceil(content.length / 4),
+        pages,
+        method: 'pdf',
+      }
+    };
+  }
+
+  debugLogger.info(`No usable text layer - treating as a scan`, { pageCount: pages?.length }, logSource);
+  onProgress?.('No text layer found (scanned PDF), sending to Gemini Vision...');
+  return extractVaultObjectWithGemini(vaultId, objectId, onProgress, downloadResult.data);
+}
+
 // ============================================================================
 // PDF UPLOAD (NO EXTRACTION) - For CaseMark summary generation
 // ============================================================================
@@ -557,10 +536,21 @@ export async function uploadPdfToVault(
 // TEXT EXTRACTION - For quality analysis (CRITICAL - source of truth)
 // ============================================================================
 
+export type ExtractionMethod = 'pdf' | 'gemini' | 'ocr' | 'vault';
+
+export const EXTRACTION_METHOD_LABELS: Record<ExtractionMethod, string> = {
+  pdf: 'PDF text layer',
+  gemini: 'Gemini Vision',
+  ocr: 'OCR',
+  vault: 'Vault text extraction',
+};
+
 export interface ExtractedTextData {
   content: string;
   pageCount?: number;
   tokenEstimate?: number;
+  pages?: OcrPage[];               // Per-page text, when the extractor reports it
+  method?: ExtractionMethod;
 }
 
 /**
@@ -583,16 +573,24 @@ export async function extractTextFromVaultObject(
     onProgress?.('Initializing OCR engine...');
     await new Promise(r => setTimeout(r, 1000));
 
-    // Trigger ingestion (OCR/text extraction)
-    onProgress?.('Starting OCR & text extraction...');
-    const ingestResult = await ingestDocument(vaultId, objectId);
-    
-    if (ingestResult.error) {
-      debugLogger.error(`Failed to start OCR`, { error: ingestResult.error }, logSource);
-      return { error: `Failed to start extraction: ${ingestResult.error}` };
+    // A resumed job may find the object already ingested (or still
+    // ingesting) from an earlier attempt - only trigger OCR once
+    const existing = await getVaultObject(vaultId, objectId);
+    const existingStatus = existing.data?.ingestionStatus;
+    if (existingStatus === 'completed' || existingStatus === 'processing') {
+      debugLogger.info(`OCR already ${existingStatus} - skipping ingestion`, { vaultId, objectId }, logSource);
+    } else {
+      // Trigger ingestion (OCR/text extraction)
+      onProgress?.('Starting OCR & text extraction...');
+      const ingestResult = await ingestDocument(vaultId, objectId);
+
+      if (ingestResult.error) {
+        debugLogger.error(`Failed to start OCR`, { error: ingestResult.error }, logSource);
+        return { error: `Failed to start extraction: ${ingestResult.error}` };
+      }
+
+      debugLogger.info(`OCR ingestion started`, { workflowId: ingestResult.data?.workflowId }, logSource);
     }
-    
-    debugLogger.info(`OCR ingestion started`, { workflowId: ingestResult.data?.workflowId }, logSource);
 
     // Poll for completion (max 10 minutes)
     const MAX_WAIT_MS = 10 * 60 * 1000;
@@ -673,7 +671,8 @@ export async function extractTextFromVaultObject(
       data: { 
         content, 
         pageCount, 
-        tokenEstimate 
+        tokenEstimate,
+        method: 'vault',
       } 
     };
   } catch (error) {
@@ -683,6 +682,96 @@ export async function extractTextFromVaultObject(
   }
 }
 
+/**
+ * Extract text from a vault object with the Case.dev OCR service
+ * Built for scanned and image-only PDFs, and returns the text page by page
+ */
+export async function extractVaultObjectWithOcr(
+  vaultId: string,
+  objectId: string,
+  onProgress?: (status: string) => void
+): Promise<ApiResponse<ExtractedTextData>> {
+  const logSource = 'ocr-extract';
+
+  debugLogger.info(`🔍 Starting OCR extraction from vault`, { vaultId, objectId }, logSource);
+
+  try {
+    const urlResult = await getVaultPresignedUrl(vaultId, objectId);
+    if (urlResult.error || !urlResult.data) {
+      return { error: `Failed to get download URL: ${urlResult.error}` };
+    }
+
+    onProgress?.('Submitting document to OCR...');
+    const jobResult = await submitOcrJob(urlResult.data.url);
+    if (jobResult.error || !jobResult.data) {
+      debugLogger.error(`Failed to submit OCR job`, { error: jobResult.error }, logSource);
+      return { error: `Failed to start OCR: ${jobResult.error}` };
+    }
+    const { jobId } = jobResult.data;
+    debugLogger.info(`OCR job submitted`, { jobId }, logSource);
+
+    // Poll for completion (max 15 minutes - scanned transcripts run long)
+    const MAX_WAIT_MS = 15 * 60 * 1000;
+    const startTime = Date.now();
+    let pollInterval = 3000;
+
+    while (true) {
+      if (Date.now() - startTime > MAX_WAIT_MS) {
+        return { error: `OCR timed out after 15 minutes` };
+      }
+
+      await new Promise(r => setTimeout(r, pollInterval));
+      pollInterval = Math.min(pollInterval * 1.5, 15000);
+
+      const statusResult = await getOcrStatus(jobId);
+      if (statusResult.error || !statusResult.data) {
+        debugLogger.warn(`OCR status check failed, retrying...`, { error: statusResult.error }, logSource);
+        continue;
+      }
+
+      const { status, pageCount, error } = statusResult.data;
+      if (status === 'completed') {
+        debugLogger.info(`OCR completed`, { jobId, pageCount }, logSource);
+        break;
+      }
+      if (status === 'failed') {
+        debugLogger.error(`OCR failed`, { jobId, error }, logSource);
+        return { error: `OCR failed: ${error || 'unknown error'}` };
+      }
+
+      const elapsed = Math.round((Date.now() - startTime) / 1000);
+      onProgress?.(status === 'pending'
+        ? `Waiting for OCR to start (${elapsed}s)...`
+        : `Running OCR${pageCount ? ` on ${pageCount} pages` : ''} (${elapsed}s)...`);
+    }
+
+    onProgress?.('Retrieving OCR text...');
+    const textResult = await getOcrText(jobId);
+    if (textResult.error || !textResult.data?.text) {
+      debugLogger.error(`Failed to get OCR text`, { error: textResult.error }, logSource);
+      return { error: `Failed to retrieve OCR text: ${textResult.error || 'No text found'}` };
+    }
+
+    const { text: content, pageCount, pages } = textResult.data;
+    debugLogger.info(`✅ OCR extraction complete`, { pageCount, contentLength: content.length }, logSource);
+    onProgress?.('OCR complete');
+
+    return {
+      data: {
+        content,
+        pageCount,
+        tokenEstimate: Math.ceil(content.length / 4),
+        pages,
+        method: 'ocr',
+      }
+    };
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+    debugLogger.error(`OCR extraction exception`, { error: errorMsg }, logSource);
+    return { error: `OCR error: ${errorMsg}` };
+  }
+}
+
 // ============================================================================
 // LEGACY: Combined upload + extraction (for backward compatibility)
 // ============================================================================
@@ -927,6 +1016,7 @@ export async function createChatCompletion(
   options: {
     maxTokens?: number;
     temperature?: number;
+    seed?: number;          // Passed through for providers that support reproducible sampling
   } = {}
 ): Promise<ApiResponse<ChatCompletionResponse>> {
   return localApiRequest<ChatCompletionResponse>('/api/llm', {
@@ -935,7 +1025,8 @@ export async function createChatCompletion(
       model,
       messages,
       max_tokens: options.maxTokens || 16000,
-      temperature: options.temperature || 0.3,
+      temperature: options.temperature ?? 0.3,
+      ...(options.seed !== undefined && { seed: options.seed }),
     }),
   });
 }
@@ -1213,11 +1304,18 @@ Do not summarize or interpret - extract the complete text from start to finish:`
   }
 }
 
+// A model the LLM gateway lists, merged with what the registry knows about it
 export interface ModelInfo {
   id: string;
   name: string;
   provider: string;
-  contextLength: number;
+  contextLength: number;                      // 0 when the gateway doesn't say
+  inputPricePer1M?: number;                   // Missing when neither the registry nor the gateway has a price
+  outputPricePer1M?: number;
+  pricingSource?: 'registry' | 'gateway';
+  inRegistry: boolean;
+  role?: ModelRole;                           // Registry role, for registered models
+  retired?: boolean;
 }
 
 export async function listModels(): Promise<ApiResponse<{ models: ModelInfo[] }>> {
@@ -1250,18 +1348,24 @@ export interface OcrStatusResponse {
 export async function getOcrStatus(
   jobId: string
 ): Promise<ApiResponse<OcrStatusResponse>> {
-  return localApiRequest<OcrStatusResponse>(`/api/ocr/${jobId}`);
+  return localApiRequest<OcrStatusResponse>(`/api/ocr/${encodeURIComponent(jobId)}`);
+}
+
+export interface OcrPage {
+  page: number;                    // 1-based page of the PDF
+  text: string;
 }
 
 export interface OcrTextResponse {
   text: string;
   pageCount: number;
+  pages?: OcrPage[];
 }
 
 export async function getOcrText(
   jobId: string
 ): Promise<ApiResponse<OcrTextResponse>> {
-  return localApiRequest<OcrTextResponse>(`/api/ocr/${jobId}/text`);
+  return localApiRequest<OcrTextResponse>(`/api/ocr/${encodeURIComponent(jobId)}/text`);
 }
 
 // ============== Utility Functions ==============
@@ -1525,7 +1629,8 @@ export async function downloadCaseMarkResult(
       // FAST PATH: CaseMark PDFs are digital with embedded text - try direct extraction first
       // This is much faster than Gemini Vision (milliseconds vs minutes)
       const startTime = Date.now();
-      const fastExtractedText = extractTextFromPdfBuffer(pdfBuffer);
+      const pages = await extractPdfPages(pdfBuffer);
+      const fastExtractedText = pages ? pagesToText(pages) : null;
       const elapsed = Date.now() - startTime;
       
       console.log(`[FAST-PDF] Extracted ${fastExtractedText?.length || 0} chars in ${elapsed}ms`);
@@ -1538,9 +1643,9 @@ export async function downloadCaseMarkResult(
       }
       
       // FAST PATH FAILED - use a lightweight fallback
-      // CaseMark PDFs use compressed streams that simple extraction can't read
+      // The PDF has no readable text layer (image-only or encrypted)
       // Instead of slow Gemini/Vault OCR, just return a placeholder with the PDF size
-      // The quality analysis can still work with partial content or we can add better extraction later
+      // The quality analysis can still work with partial content
       console.log(`[FAST-PDF] ❌ Failed (${fastExtractedText?.length || 0} chars)`);
       debugLogger.warn(`Fast extraction got only ${fastExtractedText?.length || 0} chars`, { workflowId }, 'casemark');
       
@@ -0,0 +1,350 @@
+/**
+ * Chunked Judging
+ *
+ * A source too long for the judge's context window is judged map-reduce
+ * style. It's split into page ranges and the judge checks the summary's
+ * claims against each range (map). The findings are then merged and given
+ * to the usual rubric prompt in place of the source (reduce). The final
+ * score's errors, missing items and citation counts are the merged totals,
+ * not the reduce call's retelling of them.
+ * Safe to use on client and server.
+ */
+
+import {
+  ChunkFindings,
+  ChunkedJudgement,
+  ChunkedJudgingMode,
+  Matter,
+  ModelConfig,
+  QualityScore,
+  SpecificError,
+  Transcript,
+  CHUNK_VERIFICATION_PROMPT,
+} from './types';
+
+const CHARS_PER_TOKEN = 4;                // Same rough estimate as SourceDocument.tokenEstimate
+const DEFAULT_CONTEXT_WINDOW = 128_000;   // Judges whose window isn't in the registry
+const RESERVED_OUTPUT_TOKENS = 16_000;    // Room left for the judge's reply
+const CONTEXT_SAFETY = 0.8;               // Dense legal text runs over 4 chars/token - keep headroom
+const ALWAYS_CHUNK_TOKENS = 60_000;       // Chunk size in 'always' mode when the source would fit anyway
+const MIN_CHUNK_TOKENS = 4_000;           // Less room than this and chunking can't help
+
+export function getChunkedJudging(matter: Pick<Matter, 'chunkedJudging'>): ChunkedJudgingMode {
+  return matter.chunkedJudging || 'auto';
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+// ============== Planning ==============
+
+/** Prompt tokens a judge can take with room left for its reply */
+export function promptBudget(judge: ModelConfig): number {
+  const window = judge.contextWindow || DEFAULT_CONTEXT_WINDOW;
+  const output = Math.min(judge.maxOutput || RESERVED_OUTPUT_TOKENS, RESERVED_OUTPUT_TOKENS);
+  return Math.floor((window - output) * CONTEXT_SAFETY);
+}
+
+export type ChunkPlan =
+  | { chunked: false; fits: boolean; budget: number }
+  | { chunked: true; chunkTokens: number; budget: number };
+
+/**
+ * Whether to judge in chunks, and how big each chunk's share of the source
+ * can be. `otherTokens` is everything in the single prompt besides the
+ * source - instructions, the test summary and the control. `fits: false`
+ * means the prompt is too big but chunking is off or can't make room.
+ */
+export function planChunking(
+  mode: ChunkedJudgingMode,
+  judge: ModelConfig,
+  sourceTokens: number,
+  otherTokens: number
+): ChunkPlan {
+  const budget = promptBudget(judge);
+  const fits = sourceTokens + otherTokens <= budget;
+  const available = budget - otherTokens;
+  if (mode === 'off' || (mode === 'auto' && fits) || available < MIN_CHUNK_TOKENS) {
+    return { chunked: false, fits, budget };
+  }
+  return { chunked: true, chunkTokens: fits ? Math.min(available, ALWAYS_CHUNK_TOKENS) : available, budget };
+}
+
+// ============== Splitting ==============
+
+export interface SourceChunk {
+  label: string;        // "Pages 81-160", "records.pdf pages 3-40", or "Part 2 of 4" without page numbers
+  startPage?: number;   // Set when the chunk is within one document
+  endPage?: number;
+  content: string;
+  tokens: number;
+}
+
+// One source document as the splitter sees it
+export interface ChunkableDocument {
+  name?: string;        // Labels the chunks when there are several documents
+  content: string;
+  transcript?: Transcript;
+  pageOffsets?: number[];
+}
+
+interface SourceUnit {
+  document?: string;
+  page?: number;
+  text: string;
+}
+
+// Transcript pages keep their line numbers so the judge can check page:line citations
+function transcriptUnits(transcript: Transcript): SourceUnit[] {
+  const units: SourceUnit[] = [];
+  for (const line of transcript.lines) {
+    const last = units[units.length - 1];
+    const text = `${String(line.line).padStart(2)}  ${line.text}`;
+    if (last?.page === line.page) last.text += `\n${text}`;
+    else units.push({ page: line.page, text: `Page ${line.page}\n${text}` });
+  }
+  return units;
+}
+
+function offsetUnits(content: string, offsets: number[]): SourceUnit[] {
+  return offsets.map((start, i) => ({
+    page: i + 1,
+    text: `Page ${i + 1}\n${content.slice(start, offsets[i + 1] ?? content.length).trim()}`,
+  }));
+}
+
+function paragraphUnits(content: string): SourceUnit[] {
+  return content.split(/\n\s*\n/).filter(p => p.trim()).map(text => ({ text }));
+}
+
+// A page too big for a chunk on its own is cut at line breaks
+function splitUnit(unit: SourceUnit, maxChars: number): SourceUnit[] {
+  if (unit.text.length <= maxChars) return [unit];
+  const pieces: SourceUnit[] = [];
+  let rest = unit.text;
+  while (rest.length > maxChars) {
+    const cut = rest.lastIndexOf('\n', maxChars);
+    const at = cut > maxChars / 2 ? cut : maxChars;
+    pieces.push({ ...unit, text: rest.slice(0, at) });
+    rest = rest.slice(at).replace(/^\n/, '');
+  }
+  if (rest.trim()) pieces.push({ ...unit, text: rest });
+  return pieces;
+}
+
+function documentUnits(doc: ChunkableDocument, named: boolean): SourceUnit[] {
+  const units = doc.transcript?.lines.length ? transcriptUnits(doc.transcript)
+    : doc.pageOffsets && doc.pageOffsets.length > 1 ? offsetUnits(doc.content, doc.pageOffsets)
+    : paragraphUnits(doc.content);
+  if (!named || units.length === 0) return units;
+  units[0] = { ...units[0], text: `=== ${doc.name} ===\n${units[0].text}` };
+  return units.map(unit => ({ ...unit, document: doc.name }));
+}
+
+function chunkLabel(group: SourceUnit[], index: number, total: number): string {
+  const first = group[0];
+  const last = group[group.length - 1];
+  const pages = (from?: number, to?: number) =>
+    from === undefined || to === undefined ? '' : from === to ? `page ${from}` : `pages ${from}-${to}`;
+
+  if (first.document === undefined) {
+    const range = pages(first.page, last.page);
+    return range ? range.charAt(0).toUpperCase() + range.slice(1) : `Part ${index + 1} of ${total}`;
+  }
+  if (first.document === last.document) {
+    return [first.document, pages(first.page, last.page)].filter(Boolean).join(' ');
+  }
+  const end = (unit: SourceUnit) => [unit.document, unit.page !== undefined && `p. ${unit.page}`].filter(Boolean).join(' ');
+  return `${end(first)} to ${end(last)}`;
+}
+
+/**
+ * Split the source documents into chunks of at most `maxTokens`, whole
+ * pages at a time and in document order. Pages come from the parsed
+ * transcript, then the extractor's page offsets; without either a
+ * document is split between paragraphs.
+ */
+export function splitSource(documents: ChunkableDocument[], maxTokens: number): SourceChunk[] {
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  const named = documents.length > 1;
+  const units = documents
+    .flatMap(doc => documentUnits(doc, named))
+    .flatMap(unit => splitUnit(unit, maxChars));
+
+  const groups: SourceUnit[][] = [];
+  let size = 0;
+  for (const unit of units) {
+    const last = groups[groups.length - 1];
+    if (last && size + unit.text.length + 2 <= maxChars) {
+      last.push(unit);
+      size += unit.text.length + 2;
+    } else {
+      groups.push([unit]);
+      size = unit.text.length;
+    }
+  }
+
+  return groups.map((group, i) => {
+    const text = group.map(u => u.text).join('\n\n');
+    const sameDocument = group[0].document === group[group.length - 1].document;
+    return {
+      label: chunkLabel(group, i, groups.length),
+      startPage: sameDocument ? group[0].page : undefined,
+      endPage: sameDocument ? group[group.length - 1].page : undefined,
+      content: text,
+      tokens: estimateTokens(text),
+    };
+  });
+}
+
+/**
+ * Where each extracted page starts in the joined source text - lets a PDF
+ * or OCR source be chunked by page. Undefined when the pages can't be found.
+ */
+export function pageOffsetsFor(content: string, pages: { text: string }[]): number[] | undefined {
+  if (pages.length < 2) return undefined;
+  const offsets: (number | null)[] = [];
+  let cursor = 0;
+  for (const page of pages) {
+    const probe = page.text.trim().slice(0, 200);
+    if (!probe) {
+      offsets.push(null);   // Blank page - starts where the next one does
+      continue;
+    }
+    const at = content.indexOf(probe, cursor);
+    if (at === -1) return undefined;
+    offsets.push(at);
+    cursor = at + probe.length;
+  }
+
+  let next = content.length;
+  for (let i = offsets.length - 1; i >= 0; i--) {
+    offsets[i] ??= next;
+    next = offsets[i]!;
+  }
+  return offsets as number[];
+}
+
+// ============== Prompts ==============
+
+/** The judge's system prompt for checking a summary against one chunk */
+export function buildChunkPrompt(summaryTypeName: string, chunk: SourceChunk, index: number, total: number): string {
+  return CHUNK_VERIFICATION_PROMPT
+    .replace('{chunk_label}', `${chunk.label.toUpperCase()} (part ${index + 1} of ${total})`)
+    .replace('{summary_type_name}', summaryTypeName);
+}
+
+// ============== Merging ==============
+
+const SEVERITY_RANK: Record<SpecificError['severity'], number> = { critical: 0, major: 1, minor: 2 };
+
+function errorKey(error: SpecificError): string | null {
+  const excerpt = error.summaryExcerpt.toLowerCase().replace(/\s+/g, ' ').trim();
+  return excerpt ? `${error.type}|${excerpt}` : null;
+}
+
+export type MergedFindings = Pick<QualityScore, 'specificErrors' | 'missingItems' | 'citationVerification'> & {
+  chunking: ChunkedJudgement;
+};
+
+/**
+ * Combine every chunk's findings. An error reported from two chunks
+ * (same type, same summary text) counts once at its worst severity, and
+ * citation counts add up since each chunk only counts citations into its pages.
+ */
+export function mergeChunkFindings(findings: ChunkFindings[], sourceTokens: number): MergedFindings {
+  const specificErrors: SpecificError[] = [];
+  const seenErrors = new Map<string, number>();
+  for (const error of findings.flatMap(f => f.specificErrors)) {
+    const key = errorKey(error);
+    const existing = key === null ? undefined : seenErrors.get(key);
+    if (existing === undefined) {
+      if (key !== null) seenErrors.set(key, specificErrors.length);
+      specificErrors.push(error);
+    } else if (SEVERITY_RANK[error.severity] < SEVERITY_RANK[specificErrors[existing].severity]) {
+      specificErrors[existing] = error;
+    }
+  }
+
+  const seenItems = new Set<string>();
+  const missingItems = findings.flatMap(f => f.missingItems).filter(item => {
+    const key = item.toLowerCase().trim();
+    if (seenItems.has(key)) return false;
+    seenItems.add(key);
+    return true;
+  });
+
+  const cited = findings.map(f => f.citationVerification).filter(c => c !== undefined);
+  const citationVerification = cited.length > 0
+    ? {
+        totalCitationsChecked: cited.reduce((sum, c) => sum + c.totalCitationsChecked, 0),
+        correctCitations: cited.reduce((sum, c) => sum + c.correctCitations, 0),
+        incorrectCitations: cited.reduce((sum, c) => sum + c.incorrectCitations, 0),
+        unverifiableCitations: cited.reduce((sum, c) => sum + c.unverifiableCitations, 0),
+        citationErrors: cited.flatMap(c => c.citationErrors),
+      }
+    : undefined;
+
+  return {
+    specificErrors,
+    missingItems,
+    citationVerification,
+    chunking: {
+      chunks: findings.map(f => ({
+        label: f.label,
+        startPage: f.startPage,
+        endPage: f.endPage,
+        claimsChecked: f.claimsChecked,
+        claimsSupported: f.claimsSupported,
+        errorCount: f.specificErrors.length,
+        notes: f.notes,
+      })),
+      claimsChecked: findings.reduce((sum, f) => sum + f.claimsChecked, 0),
+      claimsSupported: findings.reduce((sum, f) => sum + f.claimsSupported, 0),
+      sourceTokens,
+    },
+  };
+}
+
+/**
+ * The merged findings as the reduce prompt presents them, in place of the
+ * source. `preamble` (e.g. the transcript index) goes first.
+ */
+export function formatChunkFindings(merged: MergedFindings, preamble?: string): string {
+  const { chunking, specificErrors, missingItems, citationVerification } = merged;
+  const parts = preamble ? [preamble, ''] : [];
+
+  parts.push(
+    `The source (~${chunking.sourceTokens.toLocaleString()} tokens) was checked against the TEST SUMMARY in ${chunking.chunks.length} parts.`,
+    `Overall: ${chunking.claimsSupported} of ${chunking.claimsChecked} claims supported by the source.`,
+    '',
+    'PER PART:'
+  );
+  for (const chunk of chunking.chunks) {
+    parts.push(`- ${chunk.label}: ${chunk.claimsSupported}/${chunk.claimsChecked} claims supported, ${chunk.errorCount} error(s)${chunk.notes ? ` - ${chunk.notes}` : ''}`);
+  }
+
+  parts.push('', `ERRORS FOUND (${specificErrors.length}):`);
+  if (specificErrors.length === 0) parts.push('- None');
+  for (const error of specificErrors) {
+    const where = error.sourceReference ? ` (${error.sourceReference})` : '';
+    parts.push(`- [${error.severity} ${error.type}] "${error.summaryExcerpt}"${where}: ${error.explanation}`);
+  }
+
+  parts.push('', `MISSING FROM THE SUMMARY (${missingItems.length}):`);
+  parts.push(...(missingItems.length > 0 ? missingItems.map(item => `- ${item}`) : ['- None']));
+
+  if (citationVerification) {
+    parts.push(
+      '',
+      `CITATIONS: ${citationVerification.correctCitations} of ${citationVerification.totalCitationsChecked} correct, ${citationVerification.incorrectCitations} incorrect, ${citationVerification.unverifiableCitations} unverifiable`
+    );
+  }
+
+  parts.push(
+    '',
+    'These errors, missing items and citation counts are recorded as they are - reply with empty lists for specific_errors and missing_items, omit citation_verification, and base your category scores, strengths, weaknesses and notes on them.'
+  );
+  return parts.join('\n');
+}
@@ -0,0 +1,230 @@
+/**
+ * Page:Line Citation Verifier
+ *
+ * Checks a summary's page/line citations against the extracted source
+ * transcript without asking an LLM. The transcript's pages and lines come
+ * from the transcript model (./transcript), every citation in the summary is parsed ("Page 5, Lines 12-15",
+ * "5:12-15", "(5:12-6:3)"), and the text the citation supports is matched
+ * against the cited lines and a few lines either side.
+ */
+
+import { CitationCheck, CitationVerificationResult, Transcript, TranscriptLine } from './types';
+import { findLine, linesBetween, MAX_LINES_PER_PAGE } from './transcript';
+
+const NEARBY_LINES = 3;          // How far outside the cited range a match still counts
+const MIN_WORD_OVERLAP = 0.35;   // Share of the claim's key words that must appear nearby
+const MIN_SHARED_WORDS = 2;
+const MAX_CLAIM_CHARS = 240;
+const MAX_EXCERPT_CHARS = 400;
+const MAX_CITED_LINES = 12;      // Lines shown for a judge's source reference
+
+// ============== Citation Parsing ==============
+
+export interface ParsedCitation {
+  text: string;        // As written in the summary
+  index: number;       // Offset in the summary
+  page: number;
+  line: number;
+  endPage: number;
+  endLine: number;
+}
+
+// "Page 5, Lines 12-15", "p. 5, ll. 12-15", "Pg 5 Line 3"
+const LONG_FORM = /\b(?:page|pg\.?|p\.)\s*(\d{1,4})\s*,?\s*(?:lines?|ll?\.)\s*(\d{1,2})(?:\s*(?:-|–|—|to|through)\s*(\d{1,2}))?/gi;
+// "5:12", "5:12-15", "5:12-6:3" - not times like "9:15 a.m." or ratios inside longer numbers
+const SHORT_FORM = /(?<![\d:.$/])(\d{1,4}):(\d{1,2})(?:\s*(?:-|–|—)\s*(?:(\d{1,4}):)?(\d{1,2}))?(?![\d:])(?!\s*[ap]\.?m\b)/gi;
+
+/** Find every page/line citation in a summary, in order of appearance */
+export function parseCitations(summary: string): ParsedCitation[] {
+  const citations: ParsedCitation[] = [];
+  const taken: [number, number][] = [];
+
+  for (const match of summary.matchAll(LONG_FORM)) {
+    const page = Number(match[1]);
+    const line = Number(match[2]);
+    const endLine = match[3] ? Number(match[3]) : line;
+    citations.push({ text: match[0], index: match.index!, page, line, endPage: page, endLine });
+    taken.push([match.index!, match.index! + match[0].length]);
+  }
+
+  for (const match of summary.matchAll(SHORT_FORM)) {
+    const start = match.index!;
+    if (taken.some(([from, to]) => start >= from && start < to)) continue;
+
+    const page = Number(match[1]);
+    const line = Number(match[2]);
+    const endPage = match[3] ? Number(match[3]) : page;
+    const endLine = match[4] ? Number(match[4]) : line;
+    if (line < 1 || line > MAX_LINES_PER_PAGE || endLine < 1 || endLine > MAX_LINES_PER_PAGE) continue;
+    citations.push({ text: match[0], index: start, page, line, endPage, endLine });
+  }
+
+  return citations
+    .filter(c => c.page > 0 && (c.endPage > c.page || (c.endPage === c.page && c.endLine >= c.line)))
+    .sort((a, b) => a.index - b.index);
+}
+
+/**
+ * The transcript lines a reference such as a judge's "Page 5, Lines 12-15"
+ * points at, capped at MAX_CITED_LINES. Empty when nothing in it resolves.
+ */
+export function citedLines(transcript: Transcript, reference: string): TranscriptLine[] {
+  const lines: TranscriptLine[] = [];
+  for (const citation of parseCitations(reference)) {
+    const cited = linesBetween(
+      transcript,
+      { page: citation.page, line: citation.line },
+      { page: citation.endPage, line: citation.endLine }
+    );
+    lines.push(...cited.filter(l => !lines.includes(l)));
+  }
+  return lines.slice(0, MAX_CITED_LINES);
+}
+
+/** The sentence a citation supports, minus the citations themselves */
+function claimFor(summary: string, citation: ParsedCitation): string {
+  const lineStart = summary.lastIndexOf('\n', citation.index) + 1;
+  const lineEnd = summary.indexOf('\n', citation.index);
+  const line = summary.slice(lineStart, lineEnd === -1 ? undefined : lineEnd);
+  const offset = citation.index - lineStart;
+
+  const strip = (text: string) =>
+    text
+      .replace(LONG_FORM, ' ')
+      .replace(SHORT_FORM, ' ')
+      .replace(/[()[\]]/g, ' ')
+      .replace(/\s+([.,;:])/g, '$1')
+      .replace(/([.!?])[.,;:]+/g, '$1')
+      .replace(/^[\s.,;:*•-]+/, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+
+  // Narrow to the sentence containing the citation. A citation trailing
+  // after the full stop ("... Main Street. (5:12)") supports the sentence before.
+  const sentences = line.split(/(?<=[.!?])\s+(?=[A-Z"“(])/);
+  let position = 0;
+  for (let i = 0; i < sentences.length; i++) {
+    const start = line.indexOf(sentences[i], position);
+    position = start + sentences[i].length;
+    if (offset < start || offset > position) continue;
+
+    const claim = strip(sentences[i]);
+    if (claim) return claim.slice(0, MAX_CLAIM_CHARS);
+    if (i > 0) return strip(sentences[i - 1]).slice(0, MAX_CLAIM_CHARS);
+    break;
+  }
+  return strip(line).slice(0, MAX_CLAIM_CHARS);
+}
+
+// ============== Matching ==============
+
+const STOPWORDS = new Set([
+  'the', 'and', 'that', 'with', 'for', 'was', 'were', 'are', 'his', 'her', 'she', 'him', 'they', 'them',
+  'this', 'from', 'had', 'has', 'have', 'not', 'but', 'who', 'what', 'when', 'where', 'which', 'would',
+  'could', 'said', 'says', 'testified', 'testifies', 'stated', 'states', 'witness', 'deponent', 'about',
+  'into', 'there', 'their', 'been', 'being', 'did', 'does', 'one', 'also', 'page', 'line', 'lines',
+]);
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[“”]/g, '"').replace(/[‘’]/g, "'").replace(/\s+/g, ' ').trim();
+}
+
+function stem(word: string): string {
+  if (word.length > 5 && word.endsWith('ing')) return word.slice(0, -3);
+  if (word.length > 4 && word.endsWith('ed')) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+/** A text's content words, lowercased and lightly stemmed, without stopwords */
+export function keyWords(text: string): Set<string> {
+  const words = normalize(text).match(/[a-z0-9']+/g) || [];
+  return new Set(
+    words
+      .map(w => w.replace(/'s$/, ''))
+      .filter(w => (w.length >= 3 || /^\d+$/.test(w)) && !STOPWORDS.has(w))
+      .map(stem)
+  );
+}
+
+function checkCitation(transcript: Transcript, summary: string, citation: ParsedCitation): CitationCheck {
+  const claim = claimFor(summary, citation);
+  const base = {
+    citation: citation.text.trim(),
+    page: citation.page,
+    line: citation.line,
+    endPage: citation.endPage,
+    endLine: citation.endLine,
+    claim,
+  };
+
+  const start = findLine(transcript, citation.page, citation.line);
+  const end = findLine(transcript, citation.endPage, citation.endLine);
+  if (start === -1 || end === -1) {
+    return { ...base, status: 'not_found', matchScore: 0 };
+  }
+
+  const cited = transcript.lines.slice(start, end + 1).map(l => l.text).join(' ');
+  const nearby = transcript.lines
+    .slice(Math.max(0, start - NEARBY_LINES), end + 1 + NEARBY_LINES)
+    .map(l => l.text)
+    .join(' ');
+  const sourceExcerpt = cited.slice(0, MAX_EXCERPT_CHARS);
+
+  // Quotes have to appear word for word
+  const quotes = [...claim.matchAll(/["“]([^"”]{8,})["”]/g)].map(m => normalize(m[1]));
+  if (quotes.length > 0) {
+    const haystack = normalize(nearby);
+    const found = quotes.filter(q => haystack.includes(q)).length;
+    return {
+      ...base,
+      status: found > 0 ? 'verified' : 'mismatch',
+      matchScore: found / quotes.length,
+      sourceExcerpt,
+    };
+  }
+
+  // Paraphrases need enough of the claim's key words near the cited lines
+  const claimWords = keyWords(claim);
+  if (claimWords.size < MIN_SHARED_WORDS) {
+    return { ...base, status: 'unverifiable', matchScore: 0, sourceExcerpt };
+  }
+  const sourceWords = keyWords(nearby);
+  const shared = [...claimWords].filter(w => sourceWords.has(w)).length;
+  const matchScore = shared / claimWords.size;
+
+  return {
+    ...base,
+    status: matchScore >= MIN_WORD_OVERLAP && shared >= MIN_SHARED_WORDS ? 'verified' : 'mismatch',
+    matchScore: Math.round(matchScore * 100) / 100,
+    sourceExcerpt,
+  };
+}
+
+// ============== Entry Point ==============
+
+/**
+ * Verify every page:line citation in a summary against the source
+ * transcript. Accuracy is verified / (citations that could be checked),
+ * or null when the source isn't a page:line transcript or nothing was cited.
+ */
+export function verifyCitations(summary: string, transcript: Transcript): CitationVerificationResult {
+  const citations = parseCitations(summary);
+  const checks = transcript.pageCount > 0 ? citations.map(c => checkCitation(transcript, summary, c)) : [];
+
+  const count = (status: CitationCheck['status']) => checks.filter(c => c.status === status).length;
+  const verified = count('verified');
+  const checkable = checks.length - count('unverifiable');
+
+  return {
+    checkedAt: new Date().toISOString(),
+    transcriptPages: transcript.pageCount,
+    totalCitations: citations.length,
+    verified,
+    mismatched: count('mismatch'),
+    notFound: count('not_found'),
+    unverifiable: count('unverifiable'),
+    accuracy: checkable > 0 ? Math.round((verified / checkable) * 100) : null,
+    checks,
+  };
+}
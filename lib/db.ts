@@ -0,0 +1,253 @@
+/**
+ * Server-side Matter Store
+ *
+ * Persists matters to a local SQLite file so comparisons can be shared across
+ * browsers and aren't limited by the ~5MB localStorage quota. Also records the
+ * state of server-side processing jobs (see job-runner.ts), the edited
+ * evaluation rubric for each summary type (see rubrics.ts) and edits to the
+ * model registry (see models.ts).
+ * Only import this from API routes / server code.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { Matter, ModelConfig, ProcessingJob, JobStatus, Rubric, SummaryType } from './types';
+import { migrateMatter } from './migrations';
+import { mergeModels } from './models';
+
+const DB_PATH = process.env.MATTERS_DB_PATH || path.join(process.cwd(), 'data', 'summary-analyzer.db');
+
+// Reuse the connection across hot reloads in dev
+const globalForDb = globalThis as unknown as { summaryAnalyzerDb?: Database.Database };
+
+export function getDb(): Database.Database {
+  if (globalForDb.summaryAnalyzerDb) return globalForDb.summaryAnalyzerDb;
+
+  fs.mkdirSync(path.dirname(DB_PATH), { recursive: true });
+  const db = new Database(DB_PATH);
+  db.pragma('journal_mode = WAL');
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS matters (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      summary_type TEXT NOT NULL,
+      status TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      data TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_matters_created_at ON matters (created_at DESC);
+
+    CREATE TABLE IF NOT EXISTS jobs (
+      id TEXT PRIMARY KEY,
+      matter_id TEXT NOT NULL,
+      type TEXT NOT NULL,
+      status TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      data TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_jobs_matter ON jobs (matter_id, created_at DESC);
+
+    CREATE TABLE IF NOT EXISTS rubrics (
+      summary_type TEXT PRIMARY KEY,
+      updated_at TEXT NOT NULL,
+      data TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS models (
+      id TEXT PRIMARY KEY,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      data TEXT NOT NULL
+    );
+  `);
+
+  globalForDb.summaryAnalyzerDb = db;
+  return db;
+}
+
+// ============== Matter Operations ==============
+
+// Rows written by older versions of the app are upgraded as they're read
+function parseMatter(data: string): Matter {
+  return migrateMatter(JSON.parse(data));
+}
+
+export function listMatters(): Matter[] {
+  const rows = getDb()
+    .prepare('SELECT data FROM matters ORDER BY created_at DESC')
+    .all() as { data: string }[];
+  return rows.map(row => parseMatter(row.data));
+}
+
+export function findMatter(id: string): Matter | null {
+  const row = getDb()
+    .prepare('SELECT data FROM matters WHERE id = ?')
+    .get(id) as { data: string } | undefined;
+  return row ? parseMatter(row.data) : null;
+}
+
+/** Save a matter, upgrading it to the current schema first */
+export function upsertMatter(input: Matter): Matter {
+  const matter = migrateMatter(input);
+  getDb()
+    .prepare(`
+      INSERT INTO matters (id, name, summary_type, status, created_at, updated_at, data)
+      VALUES (@id, @name, @summaryType, @status, @createdAt, @updatedAt, @data)
+      ON CONFLICT(id) DO UPDATE SET
+        name = excluded.name,
+        summary_type = excluded.summary_type,
+        status = excluded.status,
+        updated_at = excluded.updated_at,
+        data = excluded.data
+    `)
+    .run({
+      id: matter.id,
+      name: matter.name,
+      summaryType: matter.summaryType,
+      status: matter.status,
+      createdAt: matter.createdAt,
+      updatedAt: matter.updatedAt,
+      data: JSON.stringify(matter),
+    });
+  return matter;
+}
+
+export function removeMatter(id: string): boolean {
+  const db = getDb();
+  db.prepare('DELETE FROM jobs WHERE matter_id = ?').run(id);
+  const result = db.prepare('DELETE FROM matters WHERE id = ?').run(id);
+  return result.changes > 0;
+}
+
+/** Size of the stored matter JSON in bytes (what the dashboard shows as storage used) */
+export function getMatterStorageBytes(): number {
+  const row = getDb()
+    .prepare('SELECT COALESCE(SUM(LENGTH(CAST(data AS BLOB))), 0) AS bytes FROM matters')
+    .get() as { bytes: number };
+  return row.bytes;
+}
+
+// ============== Job Operations ==============
+
+const ACTIVE_JOB_STATUSES: JobStatus[] = ['queued', 'running'];
+
+export function upsertJob(job: ProcessingJob): ProcessingJob {
+  getDb()
+    .prepare(`
+      INSERT INTO jobs (id, matter_id, type, status, created_at, updated_at, data)
+      VALUES (@id, @matterId, @type, @status, @createdAt, @updatedAt, @data)
+      ON CONFLICT(id) DO UPDATE SET
+        status = excluded.status,
+        updated_at = excluded.updated_at,
+        data = excluded.data
+    `)
+    .run({
+      id: job.id,
+      matterId: job.matterId,
+      type: job.type,
+      status: job.status,
+      createdAt: job.createdAt,
+      updatedAt: job.updatedAt,
+      data: JSON.stringify(job),
+    });
+  return job;
+}
+
+export function findJob(id: string): ProcessingJob | null {
+  const row = getDb()
+    .prepare('SELECT data FROM jobs WHERE id = ?')
+    .get(id) as { data: string } | undefined;
+  return row ? (JSON.parse(row.data) as ProcessingJob) : null;
+}
+
+export function listJobsForMatter(matterId: string, limit = 20): ProcessingJob[] {
+  const rows = getDb()
+    .prepare('SELECT data FROM jobs WHERE matter_id = ? ORDER BY created_at DESC LIMIT ?')
+    .all(matterId, limit) as { data: string }[];
+  return rows.map(row => JSON.parse(row.data) as ProcessingJob);
+}
+
+/** Jobs the database still thinks are queued or running (across all matters) */
+export function listActiveJobs(): ProcessingJob[] {
+  const placeholders = ACTIVE_JOB_STATUSES.map(() => '?').join(', ');
+  const rows = getDb()
+    .prepare(`SELECT data FROM jobs WHERE status IN (${placeholders})`)
+    .all(...ACTIVE_JOB_STATUSES) as { data: string }[];
+  return rows.map(row => JSON.parse(row.data) as ProcessingJob);
+}
+
+// ============== Rubric Operations ==============
+
+// Only edited rubrics are stored - a summary type without a row uses its default
+
+export function listRubrics(): Rubric[] {
+  const rows = getDb()
+    .prepare('SELECT data FROM rubrics')
+    .all() as { data: string }[];
+  return rows.map(row => JSON.parse(row.data) as Rubric);
+}
+
+export function findRubric(summaryType: SummaryType): Rubric | null {
+  const row = getDb()
+    .prepare('SELECT data FROM rubrics WHERE summary_type = ?')
+    .get(summaryType) as { data: string } | undefined;
+  return row ? (JSON.parse(row.data) as Rubric) : null;
+}
+
+export function upsertRubric(rubric: Rubric): Rubric {
+  const saved = { ...rubric, updatedAt: new Date().toISOString() };
+  getDb()
+    .prepare(`
+      INSERT INTO rubrics (summary_type, updated_at, data)
+      VALUES (@summaryType, @updatedAt, @data)
+      ON CONFLICT(summary_type) DO UPDATE SET
+        updated_at = excluded.updated_at,
+        data = excluded.data
+    `)
+    .run({ summaryType: saved.summaryType, updatedAt: saved.updatedAt, data: JSON.stringify(saved) });
+  return saved;
+}
+
+export function removeRubric(summaryType: SummaryType): boolean {
+  const result = getDb().prepare('DELETE FROM rubrics WHERE summary_type = ?').run(summaryType);
+  return result.changes > 0;
+}
+
+// ============== Model Operations ==============
+
+// Only added or edited models are stored - the rest of the registry is the defaults
+
+/** The full registry: defaults with saved edits applied, then added models */
+export function listModels(): ModelConfig[] {
+  const rows = getDb()
+    .prepare('SELECT data FROM models ORDER BY created_at ASC')
+    .all() as { data: string }[];
+  return mergeModels(rows.map(row => JSON.parse(row.data) as ModelConfig));
+}
+
+export function hasSavedModel(modelId: string): boolean {
+  return !!getDb().prepare('SELECT 1 FROM models WHERE id = ?').get(modelId);
+}
+
+export function upsertModel(model: ModelConfig): ModelConfig {
+  const saved = { ...model, updatedAt: new Date().toISOString() };
+  getDb()
+    .prepare(`
+      INSERT INTO models (id, created_at, updated_at, data)
+      VALUES (@id, @updatedAt, @updatedAt, @data)
+      ON CONFLICT(id) DO UPDATE SET
+        updated_at = excluded.updated_at,
+        data = excluded.data
+    `)
+    .run({ id: saved.id, updatedAt: saved.updatedAt, data: JSON.stringify(saved) });
+  return saved;
+}
+
+export function removeModel(modelId: string): boolean {
+  const result = getDb().prepare('DELETE FROM models WHERE id = ?').run(modelId);
+  return result.changes > 0;
+}
@@ -1,5 +1,3 @@
-'use client';
-
 // Debug logger that stores logs in memory and can be displayed in UI
 
 export interface LogEntry {
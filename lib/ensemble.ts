@@ -0,0 +1,280 @@
+/**
+ * Judge Ensembles
+ *
+ * A matter can have its summaries scored by several judge models. Each
+ * judge's QualityScore is kept in matter.judgeScores; the combined score in
+ * matter.qualityScores is what rankings and comparisons use. A judge asked
+ * to score a summary several times has its trials combined the same way.
+ * Also measures how much the judges agree, so a contested ranking is visible.
+ * Safe to use on client and server.
+ */
+
+import {
+  Matter,
+  ModelConfig,
+  QualityScore,
+  CategoryScore,
+  ScoreAggregation,
+} from './types';
+import { pooledUncertainty, scoreUncertainty } from './trials';
+import { categoryValues } from './rubrics';
+import { DEFAULT_JUDGE_ID, getMatterModels } from './models';
+
+export const DEFAULT_AGGREGATION: ScoreAggregation = 'mean';
+
+const CONTESTED_SPREAD = 15;           // Judges this many points apart disagree on a summary
+const LOW_RANK_CORRELATION = 0.5;      // Below this, judges order the models differently
+const MIN_MODELS_FOR_CORRELATION = 3;
+
+// ============== Configuration ==============
+
+/** The judge model ids a matter is scored by, primary first */
+export function getJudgeIds(matter: Pick<Matter, 'judgeModelIds'>): string[] {
+  return matter.judgeModelIds?.length ? matter.judgeModelIds : [DEFAULT_JUDGE_ID];
+}
+
+export function getAggregation(matter: Pick<Matter, 'scoreAggregation'>): ScoreAggregation {
+  return matter.scoreAggregation || DEFAULT_AGGREGATION;
+}
+
+/** A judge's config from the matter's copy of its models */
+export function findJudge(matter: Pick<Matter, 'models'>, judgeId: string): ModelConfig | undefined {
+  return getMatterModels(matter).find(m => m.id === judgeId && m.role === 'judge');
+}
+
+export function judgeName(matter: Pick<Matter, 'models'>, judgeId: string): string {
+  return findJudge(matter, judgeId)?.name || judgeId;
+}
+
+// ============== Aggregation ==============
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/** Combine judge scores with the given method */
+export function combineScores(values: number[], method: ScoreAggregation): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+
+  switch (method) {
+    case 'median': {
+      const mid = Math.floor(sorted.length / 2);
+      return round1(sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2);
+    }
+    case 'trimmed_mean': {
+      // Drop the highest and lowest judge (20% each side with 5+ judges)
+      const trim = sorted.length >= 3 ? Math.max(1, Math.floor(sorted.length * 0.2)) : 0;
+      const kept = sorted.slice(trim, sorted.length - trim);
+      return round1(kept.reduce((sum, v) => sum + v, 0) / kept.length);
+    }
+    case 'mean':
+      return round1(sorted.reduce((sum, v) => sum + v, 0) / sorted.length);
+  }
+}
+
+function combineCategories(scores: QualityScore[], method: ScoreAggregation): Record<string, CategoryScore> {
+  return Object.fromEntries(
+    Object.entries(scores[0].categoryScores).map(([id, primary]) => {
+      const values = scores.map(s => s.categoryScores[id]).filter((c): c is CategoryScore => !!c).map(c => c.score);
+      return [id, { ...primary, score: combineScores(values, method) }];
+    })
+  );
+}
+
+/**
+ * Combine several scores for the same summary. Numbers are aggregated and
+ * costs added up; rationale, strengths, errors and other text come from the
+ * first score.
+ */
+function mergeScores(scores: QualityScore[], method: ScoreAggregation): QualityScore {
+  const primary = scores[0];
+  return {
+    ...primary,
+    categoryScores: combineCategories(scores, method),
+    overallScore: combineScores(scores.map(s => s.overallScore), method),
+    costUsd: scores.reduce((sum, s) => sum + (s.costUsd || 0), 0),
+  };
+}
+
+/**
+ * Combine one judge's repeated trials for a summary into that judge's score:
+ * the mean of every number, with the trial-to-trial spread as its uncertainty.
+ * Each trial's category scores are kept so a reweighted rubric can redo the spread.
+ */
+export function combineTrials(trials: QualityScore[]): QualityScore {
+  if (trials.length === 1) return trials[0];
+  const merged = mergeScores(trials, 'mean');
+  const uncertainty = scoreUncertainty(trials.map(t => t.overallScore), merged.overallScore);
+  return {
+    ...merged,
+    uncertainty: uncertainty && { ...uncertainty, trialCategoryScores: trials.map(categoryValues) },
+  };
+}
+
+/**
+ * Combine one summary's per-judge scores into a single QualityScore, text
+ * coming from the primary judge (the first one configured that returned a
+ * score). Judges that ran repeated trials give the combined score an
+ * uncertainty from their pooled trial-to-trial spread; with one trial each
+ * it has none, as judges disagreeing isn't noise in one judge's score.
+ * Returns null when no judge has scored the summary.
+ */
+export function aggregateJudgeScores(
+  byJudge: Record<string, QualityScore> | undefined,
+  judgeIds: string[],
+  method: ScoreAggregation
+): QualityScore | null {
+  const judges = judgeIds.filter(id => byJudge?.[id]);
+  if (!byJudge || judges.length === 0) return null;
+
+  const scores = judges.map(id => byJudge[id]);
+  if (scores.length === 1) {
+    return { ...scores[0], ensemble: undefined };
+  }
+
+  const merged = mergeScores(scores, method);
+  const overallByJudge = Object.fromEntries(judges.map(id => [id, byJudge[id].overallScore]));
+  const overalls = Object.values(overallByJudge);
+  const trials = scores.map(s => s.uncertainty?.scores || [s.overallScore]);
+
+  return {
+    ...merged,
+    ensemble: {
+      aggregation: method,
+      judges,
+      overallByJudge,
+      spread: Math.max(...overalls) - Math.min(...overalls),
+    },
+    uncertainty: pooledUncertainty(trials, merged.overallScore),
+  };
+}
+
+// ============== Agreement ==============
+
+export interface ModelAgreement {
+  modelId: string;
+  scores: Record<string, number>;   // Judge id -> overall score
+  spread: number;
+  stdDev: number;
+  contested: boolean;
+}
+
+export interface RankCorrelation {
+  judgeA: string;
+  judgeB: string;
+  rho: number;       // Spearman's rank correlation, -1 to 1
+  models: number;    // Summaries both judges scored
+}
+
+export interface JudgeAgreement {
+  judgeIds: string[];
+  models: ModelAgreement[];
+  correlations: RankCorrelation[];
+  meanRankCorrelation: number | null;   // null with too few models to rank
+  topPicks: Record<string, string>;     // Judge id -> model it scored highest
+  contested: boolean;                   // Judges disagree on the winner or the order
+}
+
+/** Ranks (1 = highest), averaging ties */
+function ranks(values: number[]): number[] {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => b.value - a.value);
+  const result = new Array<number>(values.length);
+  for (let i = 0; i < order.length; ) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1].value === order[i].value) j++;
+    const rank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) result[order[k].index] = rank;
+    i = j + 1;
+  }
+  return result;
+}
+
+/** Spearman's rho - Pearson correlation of the ranks. Null when either side has no variation. */
+export function spearman(a: number[], b: number[]): number | null {
+  if (a.length !== b.length || a.length < 2) return null;
+  const ra = ranks(a);
+  const rb = ranks(b);
+  const mean = (ra.length + 1) / 2;
+
+  let cov = 0;
+  let varA = 0;
+  let varB = 0;
+  for (let i = 0; i < ra.length; i++) {
+    cov += (ra[i] - mean) * (rb[i] - mean);
+    varA += (ra[i] - mean) ** 2;
+    varB += (rb[i] - mean) ** 2;
+  }
+  if (varA === 0 || varB === 0) return null;
+  return Math.round((cov / Math.sqrt(varA * varB)) * 100) / 100;
+}
+
+/**
+ * How closely a matter's judges agree: the spread of their scores for each
+ * summary and how similarly they rank the models. Null with fewer than two judges.
+ */
+export function judgeAgreement(matter: Matter): JudgeAgreement | null {
+  const judgeIds = getJudgeIds(matter).filter(id =>
+    Object.values(matter.judgeScores || {}).some(byJudge => byJudge[id])
+  );
+  if (judgeIds.length < 2) return null;
+
+  const models: ModelAgreement[] = [];
+  for (const [modelId, byJudge] of Object.entries(matter.judgeScores || {})) {
+    const scores = Object.fromEntries(
+      judgeIds.filter(id => byJudge[id]).map(id => [id, byJudge[id].overallScore])
+    );
+    const values = Object.values(scores);
+    if (values.length < 2) continue;
+
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    const spread = Math.max(...values) - Math.min(...values);
+    models.push({
+      modelId,
+      scores,
+      spread,
+      stdDev: round1(Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length)),
+      contested: spread >= CONTESTED_SPREAD,
+    });
+  }
+
+  const correlations: RankCorrelation[] = [];
+  for (let i = 0; i < judgeIds.length; i++) {
+    for (let j = i + 1; j < judgeIds.length; j++) {
+      const shared = models.filter(m => judgeIds[i] in m.scores && judgeIds[j] in m.scores);
+      if (shared.length < MIN_MODELS_FOR_CORRELATION) continue;
+      const rho = spearman(shared.map(m => m.scores[judgeIds[i]]), shared.map(m => m.scores[judgeIds[j]]));
+      if (rho !== null) {
+        correlations.push({ judgeA: judgeIds[i], judgeB: judgeIds[j], rho, models: shared.length });
+      }
+    }
+  }
+  const meanRankCorrelation = correlations.length > 0
+    ? Math.round((correlations.reduce((sum, c) => sum + c.rho, 0) / correlations.length) * 100) / 100
+    : null;
+
+  // Judges agree on the winner when one model is (jointly) top for all of them
+  const topPicks: Record<string, string> = {};
+  const topScores: Record<string, number> = {};
+  for (const judgeId of judgeIds) {
+    const best = models
+      .filter(m => judgeId in m.scores)
+      .sort((a, b) => b.scores[judgeId] - a.scores[judgeId])[0];
+    if (best) {
+      topPicks[judgeId] = best.modelId;
+      topScores[judgeId] = best.scores[judgeId];
+    }
+  }
+  const agreedWinner = models.some(m =>
+    Object.keys(topScores).every(judgeId => m.scores[judgeId] === topScores[judgeId])
+  );
+
+  return {
+    judgeIds,
+    models,
+    correlations,
+    meanRankCorrelation,
+    topPicks,
+    contested: !agreedWinner || (meanRankCorrelation !== null && meanRankCorrelation < LOW_RANK_CORRELATION),
+  };
+}
@@ -0,0 +1,162 @@
+/**
+ * Error Locations
+ *
+ * Finds where a judge's specific error sits on both sides: the span of the
+ * summary its excerpt quotes, and the source page (and lines, for a
+ * transcript) its source reference points at. Judges trim quotes with "..."
+ * and sometimes paraphrase, so an excerpt that isn't in the summary word for
+ * word falls back to the summary line sharing most of its key words.
+ * Safe to use on client and server.
+ */
+
+import { Matter, SourceDocument, TranscriptLine } from './types';
+import { keyWords, parseCitations } from './citations';
+import { matterTranscript } from './transcript';
+
+const MIN_FRAGMENT_CHARS = 8;    // Shorter pieces between "..." match too much to anchor on
+const MIN_LINE_MATCH = 0.6;      // Share of the excerpt's key words a summary line must contain
+
+export interface TextSpan {
+  start: number;
+  end: number;
+  exact: boolean;                // False when matched by key words rather than verbatim
+}
+
+export interface SourceReference {
+  page: number;
+  endPage: number;
+  line?: number;                 // Only for page:line references
+  endLine?: number;
+}
+
+export interface SourcePage {
+  page: number;
+  pageCount: number;
+  lines?: TranscriptLine[];      // Transcript sources
+  text?: string;                 // Other sources whose extractor reported page boundaries
+  document?: string;             // Filename, when the matter has more than one source document
+}
+
+// ============== Summary Side ==============
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** A fragment as a pattern that tolerates different whitespace and quote marks */
+function fragmentPattern(fragment: string): RegExp {
+  const pattern = escapeRegExp(fragment)
+    .replace(/\s+/g, '\\s+')
+    .replace(/["“”]/g, '["“”]')
+    .replace(/['‘’]/g, "['‘’]");
+  return new RegExp(pattern, 'i');
+}
+
+/** Where in the summary an error's excerpt is, or null when nothing resembles it */
+export function locateExcerpt(summary: string, excerpt: string): TextSpan | null {
+  const fragments = excerpt
+    .replace(/^\s*["“]|["”]\s*$/g, '')
+    .split(/\.{3}|…/)
+    .map(f => f.replace(/\*\*|__/g, '').trim())
+    .filter(f => f.length >= MIN_FRAGMENT_CHARS);
+
+  // The excerpt runs from its first fragment to the last one found after it
+  let span: TextSpan | null = null;
+  for (const fragment of fragments) {
+    const from: number = span ? span.end : 0;
+    const match = summary.slice(from).match(fragmentPattern(fragment));
+    if (!match) continue;
+    const start: number = from + match.index!;
+    span = { start: span ? span.start : start, end: start + match[0].length, exact: true };
+  }
+  if (span) return span;
+
+  const words = keyWords(excerpt);
+  if (words.size === 0) return null;
+  let best: TextSpan | null = null;
+  let bestScore = MIN_LINE_MATCH;
+  let offset = 0;
+  for (const line of summary.split('\n')) {
+    const lineWords = keyWords(line);
+    const score = [...words].filter(w => lineWords.has(w)).length / words.size;
+    if (score >= bestScore && line.trim()) {
+      best = { start: offset, end: offset + line.length, exact: false };
+      bestScore = score;
+    }
+    offset += line.length + 1;
+  }
+  return best;
+}
+
+// ============== Source Side ==============
+
+// "Page 5", "p. 5", "pp. 5-7" - for sources without numbered lines
+const PAGE_REFERENCE = /\b(?:pages?|pp?\.|pg\.?)\s*(\d{1,4})(?:\s*(?:-|–|—|to|through)\s*(\d{1,4}))?/i;
+
+/** The page (and lines) a judge's source reference points at */
+export function parseSourceReference(reference: string): SourceReference | null {
+  const [citation] = parseCitations(reference);
+  if (citation) {
+    return { page: citation.page, endPage: citation.endPage, line: citation.line, endLine: citation.endLine };
+  }
+  const match = reference.match(PAGE_REFERENCE);
+  if (!match) return null;
+  const page = Number(match[1]);
+  const endPage = match[2] ? Number(match[2]) : page;
+  return page > 0 ? { page, endPage: Math.max(page, endPage) } : null;
+}
+
+// "Document 2", "Source Doc #2" - the judge sees each document headed "SOURCE DOCUMENT 2 of 3: <filename>"
+const DOCUMENT_REFERENCE = /\b(?:document|doc\.?)\s*#?\s*(\d{1,3})\b/i;
+
+/**
+ * The source document a judge's reference cites: the only one, or the one
+ * it names by filename (with or without the extension) or by number.
+ * Undefined when a multi-document matter's reference names none of them.
+ */
+export function citedDocument(matter: Pick<Matter, 'sourceDocuments'>, reference: string): SourceDocument | undefined {
+  const docs = matter.sourceDocuments;
+  if (docs.length <= 1) return docs[0];
+
+  const text = reference.toLowerCase();
+  // Longest name first, so "exhibit 10.pdf" isn't taken for "exhibit 1.pdf"
+  const named = docs
+    .flatMap(doc => [doc.filename, doc.filename.replace(/\.[^.]+$/, '')].map(name => ({ doc, name: name.toLowerCase() })))
+    .filter(({ name }) => name.length > 0 && text.includes(name))
+    .sort((a, b) => b.name.length - a.name.length)[0];
+  if (named) return named.doc;
+
+  const match = reference.match(DOCUMENT_REFERENCE);
+  return match ? docs[Number(match[1]) - 1] : undefined;
+}
+
+/**
+ * One page of the source: its numbered lines for a transcript, its text for
+ * a document the extractor split into pages. Pages of non-transcript sources
+ * are looked up in the cited document, so a multi-document matter needs a
+ * reference that names one. Null when the page isn't there.
+ */
+export function sourcePage(matter: Pick<Matter, 'sourceDocuments'>, page: number, reference = ''): SourcePage | null {
+  const transcript = matterTranscript(matter);
+  if (transcript) {
+    const lines = transcript.lines.filter(l => l.page === page);
+    return lines.length > 0 ? { page, pageCount: transcript.pageCount, lines } : null;
+  }
+
+  const doc = citedDocument(matter, reference);
+  if (!doc?.content || !doc.pageOffsets || page < 1 || page > doc.pageOffsets.length) return null;
+  const offsets = doc.pageOffsets;
+  return {
+    page,
+    pageCount: offsets.length,
+    text: doc.content.slice(offsets[page - 1], offsets[page] ?? doc.content.length).trim(),
+    document: matter.sourceDocuments.length > 1 ? doc.filename : undefined,
+  };
+}
+
+/** Whether a transcript line falls inside the reference's page:line range */
+export function isReferencedLine(reference: SourceReference, line: TranscriptLine): boolean {
+  if (reference.line === undefined || reference.endLine === undefined) return false;
+  const position = line.page * 1000 + line.line;
+  return position >= reference.page * 1000 + reference.line && position <= reference.endPage * 1000 + reference.endLine;
+}
@@ -0,0 +1,262 @@
+/**
+ * Human Review
+ *
+ * Reviewers grade summaries blind - labelled "Summary A", "Summary B" in an
+ * order of their own, without model names or judge scores - on the same
+ * rubric categories the judge uses. Comparing those grades with the judge's
+ * shows whether the judge can be trusted for a summary type: correlation
+ * says whether it orders summaries the way people do, the mean difference
+ * and bias whether its numbers sit where theirs do.
+ * Safe to use on client and server.
+ */
+
+import { HumanRating, Matter } from './types';
+import { computeOverallScore, getMatterRubric } from './rubrics';
+import { spearman } from './ensemble';
+
+// Local storage key for the reviewer's name - shared by adjudication and blind review
+export const REVIEWER_STORAGE_KEY = 'summary-analyzer:reviewer';
+
+export const OVERALL_CATEGORY = 'overall';
+
+const MIN_TRUST_PAIRS = 8;          // Rated summaries needed before calling the judge trusted or not
+const TRUSTED_CORRELATION = 0.7;
+const TRUSTED_MEAN_DIFF = 10;       // Points
+const UNTRUSTED_CORRELATION = 0.4;
+const UNTRUSTED_MEAN_DIFF = 20;
+
+// ============== Blind Review ==============
+
+export interface BlindSummary {
+  label: string;                    // "Summary A"
+  modelId: string;
+}
+
+/**
+ * FNV-1a with a final avalanche - a stable per-reviewer shuffle without
+ * storing the order. Plain FNV barely mixes the last character, so keys
+ * differing only in the model id would keep their alphabetical order.
+ */
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+/**
+ * The summaries a reviewer grades, in an order of their own so position
+ * doesn't line up with the rankings. The control is in the list like any other.
+ */
+export function blindSummaries(matter: Pick<Matter, 'id' | 'summaries'>, reviewer: string): BlindSummary[] {
+  const key = reviewer.trim().toLowerCase();
+  return Object.values(matter.summaries)
+    .filter(summary => summary.status === 'completed' && summary.content)
+    .map(summary => summary.model)
+    .sort((a, b) => hash(`${matter.id}:${key}:${a}`) - hash(`${matter.id}:${key}:${b}`))
+    .map((modelId, i) => ({ label: `Summary ${String.fromCharCode(65 + (i % 26))}${i >= 26 ? Math.floor(i / 26) + 1 : ''}`, modelId }));
+}
+
+function sameReviewer(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+export function findRating(matter: Pick<Matter, 'humanRatings'>, reviewer: string, modelId: string): HumanRating | undefined {
+  return matter.humanRatings?.find(r => r.modelId === modelId && sameReviewer(r.reviewer, reviewer));
+}
+
+/** A copy of the matter's ratings with this reviewer's grade of the summary added or replaced */
+export function recordRating(
+  matter: Matter,
+  rating: Pick<HumanRating, 'modelId' | 'reviewer' | 'categoryScores' | 'comment'>
+): HumanRating[] {
+  const others = (matter.humanRatings || []).filter(
+    r => !(r.modelId === rating.modelId && sameReviewer(r.reviewer, rating.reviewer))
+  );
+  return [
+    ...others,
+    {
+      ...rating,
+      reviewer: rating.reviewer.trim(),
+      comment: rating.comment?.trim() || undefined,
+      overallScore: computeOverallScore(getMatterRubric(matter), rating.categoryScores),
+      ratedAt: new Date().toISOString(),
+    },
+  ];
+}
+
+// ============== Agreement ==============
+
+export interface CategoryAgreement {
+  categoryId: string;               // A rubric category id, or OVERALL_CATEGORY
+  name: string;
+  pairs: number;                    // Summaries with both a human and a judge score
+  pearson: number | null;           // Do the scores move together (-1 to 1)
+  spearman: number | null;          // Do they order the summaries the same way
+  meanAbsDiff: number | null;       // Mean |judge - human|, in points
+  bias: number | null;              // Mean judge - human: positive means the judge is more generous
+}
+
+export interface InterRaterAgreement {
+  pairs: number;                    // Pairs of reviewers grading the same summary
+  pearson: number | null;
+  meanAbsDiff: number | null;
+}
+
+export type JudgeTrust = 'trusted' | 'untrusted' | 'insufficient';
+
+export const JUDGE_TRUST_INFO: Record<JudgeTrust, { label: string; description: string }> = {
+  trusted: {
+    label: 'Judge trusted',
+    description: `Overall scores correlate at r ≥ ${TRUSTED_CORRELATION} with reviewers and sit within ${TRUSTED_MEAN_DIFF} points of theirs`,
+  },
+  untrusted: {
+    label: 'Judge not trusted',
+    description: `Overall scores correlate below r = ${UNTRUSTED_CORRELATION} with reviewers or differ from theirs by more than ${UNTRUSTED_MEAN_DIFF} points`,
+  },
+  insufficient: {
+    label: 'Not enough reviews',
+    description: `Needs at least ${MIN_TRUST_PAIRS} human-graded summaries, with a clear result either way`,
+  },
+};
+
+export interface HumanJudgeAgreement {
+  reviewers: string[];
+  ratings: number;
+  categories: CategoryAgreement[];  // Rubric categories, then overall
+  interRater: InterRaterAgreement | null;  // Null until two reviewers grade the same summary
+  trust: JudgeTrust;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+/** Pearson correlation. Null with fewer than three pairs or no variation on a side. */
+export function pearson(a: number[], b: number[]): number | null {
+  if (a.length !== b.length || a.length < 3) return null;
+  const meanA = mean(a);
+  const meanB = mean(b);
+  let cov = 0;
+  let varA = 0;
+  let varB = 0;
+  for (let i = 0; i < a.length; i++) {
+    cov += (a[i] - meanA) * (b[i] - meanB);
+    varA += (a[i] - meanA) ** 2;
+    varB += (b[i] - meanB) ** 2;
+  }
+  if (varA === 0 || varB === 0) return null;
+  return round2(cov / Math.sqrt(varA * varB));
+}
+
+function compare(categoryId: string, name: string, judge: number[], human: number[]): CategoryAgreement {
+  const diffs = judge.map((value, i) => value - human[i]);
+  return {
+    categoryId,
+    name,
+    pairs: judge.length,
+    pearson: pearson(judge, human),
+    spearman: judge.length >= 3 ? spearman(judge, human) : null,
+    meanAbsDiff: diffs.length > 0 ? round1(mean(diffs.map(Math.abs))) : null,
+    bias: diffs.length > 0 ? round1(mean(diffs)) : null,
+  };
+}
+
+/** Whether the judge's overall scores track the reviewers' closely enough to rely on */
+export function judgeTrust(overall: CategoryAgreement | undefined): JudgeTrust {
+  if (!overall || overall.pairs < MIN_TRUST_PAIRS || overall.pearson === null || overall.meanAbsDiff === null) {
+    return 'insufficient';
+  }
+  if (overall.pearson >= TRUSTED_CORRELATION && overall.meanAbsDiff <= TRUSTED_MEAN_DIFF) return 'trusted';
+  if (overall.pearson < UNTRUSTED_CORRELATION || overall.meanAbsDiff > UNTRUSTED_MEAN_DIFF) return 'untrusted';
+  return 'insufficient';
+}
+
+/**
+ * Human grades against the judge's combined scores, pooled over the given
+ * matters (one matter, or every matter of a summary type). Each summary
+ * counts once, with its reviewers' grades averaged. Null when nobody has
+ * graded a summary the judge scored.
+ */
+export function humanJudgeAgreement(matters: Matter[]): HumanJudgeAgreement | null {
+  const names = new Map<string, string>();
+  const judge = new Map<string, number[]>();
+  const human = new Map<string, number[]>();
+  const reviewers = new Map<string, string>();   // Lowercased name -> name as first written
+  const raterPairs: [number, number][] = [];
+  let ratings = 0;
+
+  const add = (categoryId: string, judgeScore: number, humanScore: number) => {
+    if (!judge.has(categoryId)) {
+      judge.set(categoryId, []);
+      human.set(categoryId, []);
+    }
+    judge.get(categoryId)!.push(judgeScore);
+    human.get(categoryId)!.push(humanScore);
+  };
+
+  for (const matter of matters) {
+    const rubric = getMatterRubric(matter);
+    rubric.categories.forEach(c => names.has(c.id) || names.set(c.id, c.name));
+
+    const byModel = new Map<string, HumanRating[]>();
+    for (const rating of matter.humanRatings || []) {
+      byModel.set(rating.modelId, [...(byModel.get(rating.modelId) || []), rating]);
+    }
+
+    for (const [modelId, modelRatings] of byModel) {
+      modelRatings.forEach(r => reviewers.has(r.reviewer.toLowerCase()) || reviewers.set(r.reviewer.toLowerCase(), r.reviewer));
+      ratings += modelRatings.length;
+      for (let i = 0; i < modelRatings.length; i++) {
+        for (let j = i + 1; j < modelRatings.length; j++) {
+          raterPairs.push([modelRatings[i].overallScore, modelRatings[j].overallScore]);
+        }
+      }
+
+      const score = matter.qualityScores[modelId];
+      if (!score) continue;
+      for (const category of rubric.categories) {
+        const judged = score.categoryScores[category.id]?.score;
+        const graded = modelRatings.map(r => r.categoryScores[category.id]).filter((v): v is number => v !== undefined);
+        if (judged !== undefined && graded.length > 0) add(category.id, judged, mean(graded));
+      }
+      add(OVERALL_CATEGORY, score.overallScore, mean(modelRatings.map(r => r.overallScore)));
+    }
+  }
+
+  if (!judge.has(OVERALL_CATEGORY)) return null;
+
+  const categories = [...judge.keys()]
+    .filter(id => id !== OVERALL_CATEGORY)
+    .map(id => compare(id, names.get(id) || id, judge.get(id)!, human.get(id)!));
+  const overall = compare(OVERALL_CATEGORY, 'Overall', judge.get(OVERALL_CATEGORY)!, human.get(OVERALL_CATEGORY)!);
+
+  return {
+    reviewers: [...reviewers.values()].sort(),
+    ratings,
+    categories: [...categories, overall],
+    interRater: raterPairs.length > 0
+      ? {
+          pairs: raterPairs.length,
+          pearson: pearson(raterPairs.map(p => p[0]), raterPairs.map(p => p[1])),
+          meanAbsDiff: round1(mean(raterPairs.map(([a, b]) => Math.abs(a - b)))),
+        }
+      : null,
+    trust: judgeTrust(overall),
+  };
+}
@@ -0,0 +1,313 @@
+/**
+ * Processing Job Runner
+ *
+ * Runs the comparison pipeline (pipeline.ts) on the server so a run keeps
+ * going when the browser tab is closed or refreshed. Job state is stored in
+ * SQLite and every change is broadcast per matter, which is what
+ * /api/matters/[id]/events streams to the matter page.
+ * Only import this from API routes / server code.
+ */
+
+import { EventEmitter } from 'events';
+import { findMatter, upsertMatter, upsertJob, listActiveJobs } from './db';
+import { runPipeline } from './pipeline';
+import {
+  Matter,
+  MatterEvent,
+  ProcessingJob,
+  ProcessingLogEntry,
+  JobType,
+  JobStep,
+  DocProcessingStatus,
+} from './types';
+
+// Keep only the most recent log entries on the matter
+const MAX_LOG_ENTRIES = 200;
+
+interface RunnerState {
+  events: EventEmitter;
+  jobs: Map<string, ProcessingJob>;   // Active jobs by matter id
+  cancelRequested: Set<string>;       // Job ids
+  recovered: boolean;
+}
+
+// Survive hot reloads in dev - jobs keep running in the old module instance
+const globalForJobs = globalThis as unknown as { summaryAnalyzerJobs?: RunnerState };
+
+function getState(): RunnerState {
+  if (!globalForJobs.summaryAnalyzerJobs) {
+    const events = new EventEmitter();
+    events.setMaxListeners(0);
+    globalForJobs.summaryAnalyzerJobs = {
+      events,
+      jobs: new Map(),
+      cancelRequested: new Set(),
+      recovered: false,
+    };
+  }
+
+  const state = globalForJobs.summaryAnalyzerJobs;
+  if (!state.recovered) {
+    state.recovered = true;
+    recoverInterruptedJobs(state);
+  }
+  return state;
+}
+
+function channel(matterId: string): string {
+  return `matter:${matterId}`;
+}
+
+function emit(matterId: string, event: MatterEvent) {
+  getState().events.emit(channel(matterId), event);
+}
+
+function createLogEntry(type: ProcessingLogEntry['type'], message: string, detail?: string): ProcessingLogEntry {
+  return { timestamp: new Date().toISOString(), type, message, detail };
+}
+
+/**
+ * Jobs the database still lists as running belong to a previous server
+ * process. Mark them interrupted and flag the matter so the page offers a retry.
+ */
+function recoverInterruptedJobs(state: RunnerState) {
+  for (const job of listActiveJobs()) {
+    if (state.jobs.get(job.matterId)?.id === job.id) continue;
+
+    const now = new Date().toISOString();
+    upsertJob({
+      ...job,
+      status: 'interrupted',
+      error: 'Server restarted while the job was running',
+      updatedAt: now,
+      finishedAt: now,
+    });
+
+    const matter = findMatter(job.matterId);
+    if (matter && matter.status !== 'completed') {
+      const message = 'Processing was interrupted because the server restarted';
+      upsertMatter({
+        ...matter,
+        status: 'error',
+        error: message,
+        processingLog: [
+          ...(matter.processingLog || []),
+          createLogEntry('error', message),
+        ].slice(-MAX_LOG_ENTRIES),
+        updatedAt: now,
+      });
+    }
+    console.warn(`[JobRunner] Marked job ${job.id} (${job.type}) for matter ${job.matterId} as interrupted`);
+  }
+}
+
+// ============== Job Context ==============
+
+/**
+ * What a running pipeline can see and change. Every update is persisted and
+ * pushed to subscribers straight away.
+ */
+export interface JobContext {
+  readonly job: ProcessingJob;
+  isCancelled(): boolean;
+  /** Sleep that wakes early when the job is cancelled */
+  sleep(ms: number): Promise<void>;
+  log(type: ProcessingLogEntry['type'], message: string, detail?: string): void;
+  updateJob(updates: Partial<ProcessingJob>): void;
+  updateStep(stepId: string, updates: Partial<JobStep>): void;
+  /** Update a source document's status by its id, or the control's with 'control' */
+  updateDocument(id: string, updates: Partial<DocProcessingStatus>): void;
+  getMatter(): Matter;
+  updateMatter(updates: Partial<Matter> | ((matter: Matter) => Partial<Matter>)): Matter;
+}
+
+function createJobContext(job: ProcessingJob): JobContext {
+  const state = getState();
+
+  const updateJob = (updates: Partial<ProcessingJob>) => {
+    Object.assign(job, updates, { updatedAt: new Date().toISOString() });
+    upsertJob(job);
+    emit(job.matterId, { type: 'job', job: { ...job } });
+  };
+
+  const getMatter = (): Matter => {
+    const matter = findMatter(job.matterId);
+    if (!matter) throw new Error('Matter was deleted');
+    return matter;
+  };
+
+  // Read-modify-write so updates never clobber each other's fields
+  const updateMatter = (updates: Partial<Matter> | ((matter: Matter) => Partial<Matter>)): Matter => {
+    const current = getMatter();
+    const changes = typeof updates === 'function' ? updates(current) : updates;
+    const updated = { ...current, ...changes, updatedAt: new Date().toISOString() };
+    upsertMatter(updated);
+    emit(job.matterId, { type: 'matter', matter: updated });
+    return updated;
+  };
+
+  const isCancelled = () => state.cancelRequested.has(job.id);
+
+  return {
+    job,
+    isCancelled,
+    sleep: async (ms: number) => {
+      const until = Date.now() + ms;
+      while (Date.now() < until && !isCancelled()) {
+        await new Promise(resolve => setTimeout(resolve, Math.min(1000, until - Date.now())));
+      }
+    },
+    log: (type, message, detail) => {
+      const entry = createLogEntry(type, message, detail);
+      const matter = findMatter(job.matterId);
+      if (matter) {
+        upsertMatter({
+          ...matter,
+          processingLog: [...(matter.processingLog || []), entry].slice(-MAX_LOG_ENTRIES),
+        });
+      }
+      emit(job.matterId, { type: 'log', entry });
+      if (type !== 'error') {
+        updateJob({ currentActivity: message });
+      }
+    },
+    updateJob,
+    updateStep: (stepId, updates) => {
+      updateJob({ steps: job.steps.map(s => (s.id === stepId ? { ...s, ...updates } : s)) });
+    },
+    updateDocument: (id, updates) => {
+      updateJob({
+        documents: job.documents.map(d => ((d.type === 'control' ? 'control' : d.id) === id ? { ...d, ...updates } : d)),
+      });
+    },
+    getMatter,
+    updateMatter,
+  };
+}
+
+// ============== Job Lifecycle ==============
+
+function createJobId(): string {
+  return `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+async function executeJob(job: ProcessingJob) {
+  const state = getState();
+  const ctx = createJobContext(job);
+
+  const finish = (updates: Partial<ProcessingJob>) => {
+    ctx.updateJob({
+      ...updates,
+      currentModelId: undefined,
+      analyzingModelId: undefined,
+      phaseStartedAt: undefined,
+      progress: undefined,
+      finishedAt: new Date().toISOString(),
+    });
+  };
+
+  try {
+    ctx.updateJob({ status: 'running' });
+    await runPipeline(ctx);
+
+    if (ctx.isCancelled()) {
+      ctx.updateMatter({ status: 'cancelled', error: 'Processing cancelled by user' });
+      ctx.log('warning', 'Processing cancelled');
+      finish({ status: 'cancelled', currentActivity: '' });
+    } else {
+      finish({ status: 'completed', currentActivity: '' });
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`[JobRunner] Job ${job.id} failed:`, error);
+
+    try {
+      ctx.log('error', `Processing failed: ${message}`);
+      ctx.updateMatter({ status: 'error', error: message });
+    } catch {
+      // Matter was deleted mid-run - nothing left to flag
+    }
+    finish({
+      status: 'failed',
+      error: message,
+      steps: job.steps.map(s => (s.status === 'running' ? { ...s, status: 'error' as const, detail: message } : s)),
+      documents: job.documents.map(d =>
+        d.status === 'completed' || d.status === 'pending' ? d : { ...d, status: 'error' as const, detail: message }
+      ),
+    });
+  } finally {
+    state.jobs.delete(job.matterId);
+    state.cancelRequested.delete(job.id);
+  }
+}
+
+/** The queued or running job for a matter, if any */
+export function getActiveJob(matterId: string): ProcessingJob | null {
+  const job = getState().jobs.get(matterId);
+  return job ? { ...job } : null;
+}
+
+/**
+ * Start a job for a matter. Callers should check getActiveJob first -
+ * a matter only ever runs one job at a time.
+ */
+export function startJob(matterId: string, type: JobType, modelIds?: string[]): ProcessingJob {
+  const state = getState();
+  if (state.jobs.has(matterId)) {
+    throw new Error('A job is already running for this matter');
+  }
+
+  const now = new Date().toISOString();
+  const job: ProcessingJob = {
+    id: createJobId(),
+    matterId,
+    type,
+    status: 'queued',
+    modelIds: modelIds?.length ? modelIds : undefined,
+    steps: [],
+    documents: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  state.jobs.set(matterId, job);
+  upsertJob(job);
+  emit(matterId, { type: 'job', job: { ...job } });
+  console.log(`[JobRunner] Started ${type} job ${job.id} for matter ${matterId}`);
+
+  // Run detached - progress is reported through events, not the return value
+  void executeJob(job);
+
+  return { ...job };
+}
+
+/**
+ * Ask a running job to stop. It finishes its current request (in-flight
+ * CaseMark workflows keep running on their end) and then exits.
+ */
+export function cancelJob(jobId: string): ProcessingJob | null {
+  const state = getState();
+  const job = [...state.jobs.values()].find(j => j.id === jobId);
+  if (!job) return null;
+
+  state.cancelRequested.add(jobId);
+  job.currentActivity = 'Cancelling...';
+  job.updatedAt = new Date().toISOString();
+  upsertJob(job);
+  emit(job.matterId, { type: 'job', job: { ...job } });
+  return { ...job };
+}
+
+/** Listen for changes to a matter and its jobs. Returns an unsubscribe function. */
+export function subscribe(matterId: string, listener: (event: MatterEvent) => void): () => void {
+  const { events } = getState();
+  events.on(channel(matterId), listener);
+  return () => {
+    events.off(channel(matterId), listener);
+  };
+}
+
+/** Let subscribers know about a matter saved outside of a job (e.g. via PUT) */
+export function publishMatter(matter: Matter) {
+  emit(matter.id, { type: 'matter', matter });
+}
@@ -0,0 +1,95 @@
+/**
+ * Processing Jobs (client)
+ *
+ * Browser side of the server job runner: upload the wizard's files, start and
+ * cancel jobs, and follow a matter's progress over server-sent events.
+ */
+
+import { JobType, MatterEvent, ProcessingJob } from './types';
+import { readError } from './storage';
+import { debugLogger } from './debug-logger';
+
+export async function uploadMatterFile(matterId: string, documentId: string, file: File): Promise<boolean> {
+  const formData = new FormData();
+  formData.append('file', file);
+  formData.append('documentId', documentId);
+
+  try {
+    const response = await fetch(`/api/matters/${encodeURIComponent(matterId)}/files`, {
+      method: 'POST',
+      body: formData,
+    });
+    if (!response.ok) {
+      debugLogger.error(`❌ Failed to upload ${file.name}`, { error: await readError(response) }, 'jobs');
+      return false;
+    }
+    return true;
+  } catch (error) {
+    debugLogger.error(`❌ Failed to upload ${file.name}`, { error }, 'jobs');
+    return false;
+  }
+}
+
+/**
+ * Start a job for a matter. If one is already running the server answers
+ * 409 - that job is returned alongside the error so the caller can follow it.
+ */
+export async function startMatterJob(
+  matterId: string,
+  type: JobType,
+  modelIds?: string[]
+): Promise<{ job?: ProcessingJob; error?: string }> {
+  try {
+    const response = await fetch(`/api/matters/${encodeURIComponent(matterId)}/jobs`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ type, modelIds }),
+    });
+    const data = await response.json().catch(() => ({}));
+
+    if (response.status === 409 && data.job) {
+      return { job: data.job as ProcessingJob, error: data.error };
+    }
+    if (!response.ok) {
+      const error = data.error || `HTTP ${response.status}`;
+      debugLogger.error(`❌ Failed to start ${type} job`, { matterId, error }, 'jobs');
+      return { error };
+    }
+    return { job: data.job as ProcessingJob };
+  } catch (error) {
+    debugLogger.error(`❌ Failed to start ${type} job`, { matterId, error }, 'jobs');
+    return { error: error instanceof Error ? error.message : 'Network error' };
+  }
+}
+
+export async function cancelMatterJob(jobId: string): Promise<boolean> {
+  try {
+    const response = await fetch(`/api/jobs/${encodeURIComponent(jobId)}`, { method: 'DELETE' });
+    if (!response.ok) {
+      debugLogger.error(`❌ Failed to cancel job ${jobId}`, { error: await readError(response) }, 'jobs');
+      return false;
+    }
+    return true;
+  } catch (error) {
+    debugLogger.error(`❌ Failed to cancel job ${jobId}`, { error }, 'jobs');
+    return false;
+  }
+}
+
+/**
+ * Follow a matter's changes. EventSource reconnects on its own and each
+ * reconnect starts with a fresh snapshot. Returns a function that closes the stream.
+ */
+export function subscribeToMatter(matterId: string, onEvent: (event: MatterEvent) => void): () => void {
+  const source = new EventSource(`/api/matters/${encodeURIComponent(matterId)}/events`);
+
+  source.onmessage = (message) => {
+    try {
+      onEvent(JSON.parse(message.data) as MatterEvent);
+    } catch (error) {
+      debugLogger.warn('Ignoring malformed matter event', { error }, 'jobs');
+    }
+  };
+
+  return () => source.close();
+}
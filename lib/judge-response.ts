@@ -0,0 +1,419 @@
+/**
+ * Judge Response Parsing
+ *
+ * Validates the judge model's JSON reply with zod and turns it into a
+ * QualityScore (or, in head-to-head mode, a set of verdicts; for chunked
+ * judging, one page range's findings). The categories
+ * expected come from the matter's rubric. Small deviations - a score on the old 0-10 scale, a bare
+ * number where a category object was expected, a numeric string - are fixed
+ * up and reported. Missing or unusable required fields fail validation so
+ * the caller can ask the judge to repair its reply.
+ */
+
+import { z } from 'zod';
+import {
+  CategoryScore,
+  ChunkFindings,
+  ControlComparison,
+  JudgeParseIssue,
+  PairwiseCategory,
+  PairwiseComparison,
+  PairwiseVerdict,
+  QualityScore,
+  Rubric,
+  SpecificError,
+} from './types';
+import { computeOverallScore } from './rubrics';
+
+// ============== Schema ==============
+
+const NUMERIC = /^\s*-?\d+(\.\d+)?\s*$/;
+
+const NumberValue = z.union([z.number(), z.string().regex(NUMERIC, 'Expected a number')]);
+const StringList = z.array(z.string());
+
+const CategorySchema = z.union([
+  NumberValue,
+  z.object({
+    score: NumberValue,
+    rationale: z.string().nullish(),
+    examples: StringList.nullish(),
+  }),
+]);
+
+const SpecificErrorSchema = z.object({
+  type: z.string().nullish(),
+  severity: z.string().nullish(),
+  summary_excerpt: z.string().nullish(),
+  source_reference: z.string().nullish(),
+  explanation: z.string().nullish(),
+  correction: z.string().nullish(),
+});
+
+const CitationVerificationSchema = z.object({
+  total_citations_checked: NumberValue,
+  correct_citations: NumberValue,
+  incorrect_citations: NumberValue,
+  unverifiable_citations: NumberValue.nullish(),
+  citation_errors: StringList.nullish(),
+});
+
+const ControlComparisonSchema = z.union([
+  z.string(),
+  z.object({
+    summary: z.string().nullish(),
+    test_better_than_control: StringList.nullish(),
+    test_worse_than_control: StringList.nullish(),
+    test_includes_control_missing: StringList.nullish(),
+    control_includes_test_missing: StringList.nullish(),
+    transcript_comparison: z.string().nullish(),
+  }),
+]);
+
+// Everything in the reply besides the rubric's categories
+const BaseResponseSchema = z.object({
+  strengths: StringList.nullish(),
+  weaknesses: StringList.nullish(),
+  specific_errors: z.array(SpecificErrorSchema).nullish(),
+  citation_verification: CitationVerificationSchema.nullish(),
+  missing_items: StringList.nullish(),
+  control_comparison: ControlComparisonSchema.nullish(),
+  analysis_notes: z.string().nullish(),
+  recommendation: z.string().nullish(),
+});
+
+type CategoryValue = z.infer<typeof CategorySchema>;
+type JudgeResponse = z.infer<typeof BaseResponseSchema> & { [categoryId: string]: unknown };
+
+/** The JSON shape QUALITY_ANALYSIS_PROMPT(_NO_CONTROL) asks for - the shared fields plus one entry per rubric category */
+function judgeResponseSchema(rubric: Rubric): z.ZodType<JudgeResponse> {
+  const categories = Object.fromEntries(rubric.categories.map(c => [c.id, CategorySchema]));
+  return BaseResponseSchema.extend(categories) as unknown as z.ZodType<JudgeResponse>;
+}
+
+const ERROR_TYPES: SpecificError['type'][] = [
+  'factual',
+  'citation',
+  'omission',
+  'hallucination',
+  'misinterpretation',
+  'transcript_error',
+];
+const SEVERITIES: SpecificError['severity'][] = ['critical', 'major', 'minor'];
+
+// ============== Parsing ==============
+
+export type JudgeParseResult =
+  | { success: true; score: QualityScore; issues: JudgeParseIssue[] }
+  | { success: false; issues: JudgeParseIssue[] };
+
+/** Issues that make a reply unusable (as opposed to ones we fixed up) */
+export function isFatalIssue(issue: JudgeParseIssue): boolean {
+  return issue.kind === 'missing' || issue.kind === 'invalid';
+}
+
+export function formatIssues(issues: JudgeParseIssue[]): string {
+  return issues.map(i => `${i.path}: ${i.message}`).join('; ');
+}
+
+/** Pull the JSON object out of a reply that may wrap it in a code block or prose */
+function extractJson(response: string): string {
+  const codeBlockMatch = response.match(/```(?:json)?\s*([\s\S]*?)```/);
+  if (codeBlockMatch) return codeBlockMatch[1];
+  const jsonMatch = response.match(/\{[\s\S]*\}/);
+  return jsonMatch ? jsonMatch[0] : response;
+}
+
+function valueAt(data: unknown, path: PropertyKey[]): unknown {
+  let current = data;
+  for (const key of path) {
+    if (typeof current !== 'object' || current === null) return undefined;
+    current = (current as Record<PropertyKey, unknown>)[key];
+  }
+  return current;
+}
+
+/** Parse the reply's JSON and validate it, reporting problems as parse issues */
+function validate<T>(
+  schema: z.ZodType<T>,
+  response: string
+): { success: true; data: T } | { success: false; issues: JudgeParseIssue[] } {
+  let data: unknown;
+  try {
+    data = JSON.parse(extractJson(response));
+  } catch (error) {
+    return {
+      success: false,
+      issues: [{
+        path: '(root)',
+        kind: 'invalid',
+        message: `Reply is not valid JSON (${error instanceof Error ? error.message : 'parse error'})`,
+      }],
+    };
+  }
+
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    return {
+      success: false,
+      issues: result.error.issues.map(issue => {
+        const path = issue.path.map(String).join('.') || '(root)';
+        return valueAt(data, issue.path) === undefined
+          ? { path, kind: 'missing' as const, message: 'Required field is missing' }
+          : { path, kind: 'invalid' as const, message: issue.message };
+      }),
+    };
+  }
+  return { success: true, data: result.data };
+}
+
+/**
+ * Parse the judge's reply for a model's summary, computing the overall
+ * score from the rubric. `costUsd` and the cost-effectiveness figures are
+ * left for the caller to fill in.
+ */
+export function parseJudgeResponse(modelId: string, response: string, rubric: Rubric): JudgeParseResult {
+  const result = validate(judgeResponseSchema(rubric), response);
+  if (!result.success) return result;
+
+  const issues: JudgeParseIssue[] = [];
+  return { success: true, score: toQualityScore(modelId, result.data, rubric, issues), issues };
+}
+
+// ============== Conversion ==============
+
+function readNumber(path: string, value: z.infer<typeof NumberValue>, issues: JudgeParseIssue[]): number {
+  if (typeof value === 'number') return value;
+  issues.push({ path, kind: 'coerced', message: `Numeric string "${value}" read as a number` });
+  return Number(value);
+}
+
+function toSpecificErrors(
+  errors: z.infer<typeof SpecificErrorSchema>[],
+  issues: JudgeParseIssue[]
+): SpecificError[] {
+  const coerced = (path: string, message: string) => issues.push({ path, kind: 'coerced', message });
+  return errors.map((e, i): SpecificError => {
+    let type = e.type as SpecificError['type'];
+    if (!ERROR_TYPES.includes(type)) {
+      coerced(`specific_errors.${i}.type`, `Unknown error type "${e.type ?? ''}" recorded as factual`);
+      type = 'factual';
+    }
+    let severity = e.severity as SpecificError['severity'];
+    if (!SEVERITIES.includes(severity)) {
+      coerced(`specific_errors.${i}.severity`, `Unknown severity "${e.severity ?? ''}" recorded as minor`);
+      severity = 'minor';
+    }
+    return {
+      type,
+      severity,
+      summaryExcerpt: e.summary_excerpt || '',
+      sourceReference: e.source_reference || '',
+      explanation: e.explanation || '',
+      correction: e.correction || '',
+    };
+  });
+}
+
+function toCitationVerification(
+  citations: z.infer<typeof CitationVerificationSchema>,
+  issues: JudgeParseIssue[]
+): NonNullable<QualityScore['citationVerification']> {
+  const number = (key: string, value: z.infer<typeof NumberValue>) =>
+    readNumber(`citation_verification.${key}`, value, issues);
+  return {
+    totalCitationsChecked: number('total_citations_checked', citations.total_citations_checked),
+    correctCitations: number('correct_citations', citations.correct_citations),
+    incorrectCitations: number('incorrect_citations', citations.incorrect_citations),
+    unverifiableCitations: citations.unverifiable_citations != null
+      ? number('unverifiable_citations', citations.unverifiable_citations)
+      : 0,
+    citationErrors: citations.citation_errors || [],
+  };
+}
+
+function toQualityScore(modelId: string, data: JudgeResponse, rubric: Rubric, issues: JudgeParseIssue[]): QualityScore {
+  const coerced = (path: string, message: string) => issues.push({ path, kind: 'coerced', message });
+  const number = (path: string, value: z.infer<typeof NumberValue>) => readNumber(path, value, issues);
+
+  // Older prompts used a 0-10 scale. Treat the reply as 0-10 only when every
+  // category score fits that scale, so a genuinely low 0-100 score isn't inflated
+  const values = rubric.categories.map(c => data[c.id] as CategoryValue);
+  const tenPointScale = values.every(v => Number(typeof v === 'object' ? v.score : v) <= 10);
+
+  // Anything outside 0-100 is clamped
+  const score = (path: string, value: z.infer<typeof NumberValue>): number => {
+    const raw = number(path, value);
+    if (tenPointScale && raw > 0) {
+      coerced(path, `${raw} treated as a 0-10 score and rescaled to ${raw * 10}`);
+      return raw * 10;
+    }
+    if (raw < 0 || raw > 100) {
+      coerced(path, `${raw} clamped to 0-100`);
+      return Math.min(100, Math.max(0, raw));
+    }
+    return raw;
+  };
+
+  const category = (key: string, value: CategoryValue): CategoryScore => {
+    if (typeof value !== 'object') {
+      coerced(key, 'Bare score with no rationale');
+      return { score: score(key, value), rationale: '', examples: [] };
+    }
+    return {
+      score: score(`${key}.score`, value.score),
+      rationale: value.rationale || '',
+      examples: value.examples || [],
+    };
+  };
+
+  // Optional fields the prompt asks for - default them, but say so
+  const defaulted = <T>(key: string, value: T | null | undefined, fallback: T): T => {
+    if (value !== undefined && value !== null) return value;
+    issues.push({ path: key, kind: 'defaulted', message: 'Missing - left empty' });
+    return fallback;
+  };
+
+  const specificErrors = toSpecificErrors(defaulted('specific_errors', data.specific_errors, []), issues);
+
+  let controlComparison: ControlComparison | undefined;
+  const comparison = data.control_comparison;
+  if (typeof comparison === 'string') {
+    if (comparison.trim()) {
+      coerced('control_comparison', 'Plain text comparison stored as the summary');
+      controlComparison = {
+        summary: comparison,
+        testBetterThanControl: [],
+        testWorseThanControl: [],
+        testIncludesControlMissing: [],
+        controlIncludesTestMissing: [],
+      };
+    }
+  } else if (comparison) {
+    controlComparison = {
+      summary: comparison.summary || '',
+      testBetterThanControl: comparison.test_better_than_control || [],
+      testWorseThanControl: comparison.test_worse_than_control || [],
+      testIncludesControlMissing: comparison.test_includes_control_missing || [],
+      controlIncludesTestMissing: comparison.control_includes_test_missing || [],
+      ...(comparison.transcript_comparison && { transcriptComparison: comparison.transcript_comparison }),
+    };
+  }
+
+  const citations = data.citation_verification;
+  const categoryScores = Object.fromEntries(
+    rubric.categories.map((c, i) => [c.id, category(c.id, values[i])])
+  );
+
+  return {
+    model: modelId,
+    categoryScores,
+    overallScore: computeOverallScore(rubric, Object.fromEntries(
+      Object.entries(categoryScores).map(([id, c]) => [id, c.score])
+    )),
+    strengths: defaulted('strengths', data.strengths, []),
+    weaknesses: defaulted('weaknesses', data.weaknesses, []),
+    specificErrors,
+    ...(citations && { citationVerification: toCitationVerification(citations, issues) }),
+    missingItems: defaulted('missing_items', data.missing_items, []),
+    controlComparison,
+    analysisNotes: defaulted('analysis_notes', data.analysis_notes, ''),
+    recommendation: defaulted('recommendation', data.recommendation, ''),
+    ...(issues.length > 0 && { parseIssues: issues }),
+    costUsd: 0,
+    costEffectiveness: 0,
+  };
+}
+
+// ============== Chunks ==============
+
+// The JSON shape CHUNK_VERIFICATION_PROMPT asks for
+const ChunkResponseSchema = z.object({
+  claims_checked: NumberValue,
+  claims_supported: NumberValue,
+  specific_errors: z.array(SpecificErrorSchema).nullish(),
+  citation_verification: CitationVerificationSchema.nullish(),
+  missing_items: StringList.nullish(),
+  notes: z.string().nullish(),
+});
+
+export type ChunkParseResult =
+  | { success: true; findings: ChunkFindings; issues: JudgeParseIssue[] }
+  | { success: false; issues: JudgeParseIssue[] };
+
+/** Parse the judge's findings for one page range of the source */
+export function parseChunkResponse(response: string, chunk: Pick<ChunkFindings, 'label' | 'startPage' | 'endPage'>): ChunkParseResult {
+  const result = validate(ChunkResponseSchema, response);
+  if (!result.success) return result;
+
+  const data = result.data;
+  const issues: JudgeParseIssue[] = [];
+  const claimsChecked = Math.max(0, readNumber('claims_checked', data.claims_checked, issues));
+  let claimsSupported = Math.max(0, readNumber('claims_supported', data.claims_supported, issues));
+  if (claimsSupported > claimsChecked) {
+    issues.push({ path: 'claims_supported', kind: 'coerced', message: `${claimsSupported} capped at the ${claimsChecked} claims checked` });
+    claimsSupported = claimsChecked;
+  }
+
+  return {
+    success: true,
+    findings: {
+      ...chunk,
+      claimsChecked,
+      claimsSupported,
+      specificErrors: toSpecificErrors(data.specific_errors || [], issues),
+      ...(data.citation_verification && { citationVerification: toCitationVerification(data.citation_verification, issues) }),
+      missingItems: data.missing_items || [],
+      notes: data.notes || '',
+    },
+    issues,
+  };
+}
+
+// ============== Pairwise ==============
+
+// "A", "b", "Summary A", "TIE" all count
+const WinnerSchema = z
+  .string()
+  .transform(value => value.trim().toLowerCase().replace(/^summary\s+/, ''))
+  .pipe(z.enum(['a', 'b', 'tie']));
+
+const VerdictSchema = z.object({
+  winner: WinnerSchema,
+  reason: z.string().nullish(),
+});
+
+/** The JSON shape PAIRWISE_ANALYSIS_PROMPT asks for - a verdict per category */
+function pairwiseResponseSchema(categories: PairwiseCategory[]) {
+  return z.object(Object.fromEntries(categories.map(category => [category, VerdictSchema])));
+}
+
+export type PairwiseParseResult =
+  | { success: true; verdicts: PairwiseComparison['verdicts'] }
+  | { success: false; issues: JudgeParseIssue[] };
+
+/** Parse a head-to-head reply into a verdict for each of `categories` */
+export function parsePairwiseResponse(response: string, categories: PairwiseCategory[]): PairwiseParseResult {
+  const result = validate(pairwiseResponseSchema(categories), response);
+  if (!result.success) return result;
+
+  const verdicts = Object.fromEntries(
+    categories.map(category => {
+      const { winner, reason } = result.data[category];
+      const verdict: PairwiseVerdict = winner === 'tie' ? 'tie' : winner === 'a' ? 'A' : 'B';
+      return [category, { winner: verdict, reason: reason || '' }];
+    })
+  ) as PairwiseComparison['verdicts'];
+  return { success: true, verdicts };
+}
+
+// ============== Repair ==============
+
+/** Follow-up message asking the judge to fix a reply that failed validation */
+export function buildRepairPrompt(issues: JudgeParseIssue[]): string {
+  const problems = issues.filter(isFatalIssue).map(i => `- ${i.path}: ${i.message}`).join('\n');
+  return `Your previous reply could not be used because it does not match the required JSON format:
+${problems}
+
+Reply again with ONLY the complete, corrected JSON object in exactly the format requested - no commentary or markdown. Keep your assessment the same; just fix the format.`;
+}
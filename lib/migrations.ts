@@ -0,0 +1,406 @@
+/**
+ * Matter Schema Migrations
+ *
+ * Every stored or exported matter records the schema version it was written
+ * with. Older records are upgraded one version at a time when they're loaded,
+ * so the rest of the app only ever sees the current Matter shape.
+ * Also reads and writes the JSON export format. Safe to use on client and server.
+ */
+
+import { z } from 'zod';
+import {
+  Matter,
+  MatterExport,
+  MatterStatus,
+  ControlComparison,
+  SummaryType,
+  MATTER_SCHEMA_VERSION,
+  MATTER_EXPORT_FORMAT,
+  SUMMARY_TYPE_INFO,
+} from './types';
+import { DEFAULT_JUDGE_ID, DEFAULT_MODELS, snapshotModels } from './models';
+import { sourceTranscript } from './transcript';
+
+// Records saved before matters carried a schemaVersion
+const UNVERSIONED = 1;
+
+// A record whose shape isn't known yet
+type RawRecord = Record<string, unknown>;
+
+/**
+ * Migrations keyed by the version they upgrade from - each returns the record
+ * at the next version. Never change one that has shipped; add a new one.
+ */
+const MIGRATIONS: Record<number, (matter: RawRecord) => RawRecord> = {
+  1: migrateV1ToV2,
+  2: migrateV2ToV3,
+  3: migrateV3ToV4,
+  4: migrateV4ToV5,
+  5: migrateV5ToV6,
+};
+
+// ============== v1 -> v2 ==============
+
+const CATEGORY_KEYS = [
+  'factualAccuracy',
+  'pageLineAccuracy',
+  'appendedTranscriptAccuracy',
+  'relevance',
+  'comprehensiveness',
+  'legalUtility',
+] as const;
+
+function rawScore(value: unknown): number {
+  if (typeof value === 'number') return value;
+  const score = (value as RawRecord | null)?.score;
+  return typeof score === 'number' ? score : 0;
+}
+
+/**
+ * v1 -> v2: one shape for quality scores.
+ * - Scores from the first judge prompt (0-10) are rescaled to 0-100
+ * - Category scores stored as bare numbers become { score, rationale, examples }
+ * - A plain-string controlComparison becomes the structured object, and the
+ *   deprecated missingFromTest / extraInTest lists are folded into it
+ */
+function migrateV1ToV2(matter: RawRecord): RawRecord {
+  const qualityScores: Record<string, RawRecord> = {};
+  for (const [modelId, score] of Object.entries((matter.qualityScores || {}) as Record<string, RawRecord>)) {
+    qualityScores[modelId] = migrateScoreV1(score);
+  }
+  return { ...matter, qualityScores };
+}
+
+function migrateScoreV1(score: RawRecord): RawRecord {
+  const categories = CATEGORY_KEYS.filter(key => score[key] !== undefined && score[key] !== null);
+
+  // Treat the record as 0-10 only when every score fits that scale, so a
+  // genuinely low 0-100 category score isn't inflated
+  const tenPointScale = [score.overallScore, ...categories.map(key => score[key])]
+    .every(value => rawScore(value) <= 10);
+  const rescale = (value: number) => (tenPointScale ? value * 10 : value);
+
+  const migrated: RawRecord = { ...score, overallScore: rescale(rawScore(score.overallScore)) };
+  for (const key of categories) {
+    const value = score[key];
+    migrated[key] = typeof value === 'number'
+      ? { score: rescale(value), rationale: '', examples: [] }
+      : { ...(value as RawRecord), score: rescale(rawScore(value)) };
+  }
+
+  const comparison = score.controlComparison;
+  const missingFromTest = Array.isArray(score.missingFromTest) ? (score.missingFromTest as string[]) : [];
+  const extraInTest = Array.isArray(score.extraInTest) ? (score.extraInTest as string[]) : [];
+  delete migrated.missingFromTest;
+  delete migrated.extraInTest;
+
+  const structured: ControlComparison | undefined =
+    typeof comparison === 'object' && comparison !== null
+      ? (comparison as ControlComparison)
+      : typeof comparison === 'string' && comparison.trim()
+        ? {
+            summary: comparison,
+            testBetterThanControl: [],
+            testWorseThanControl: [],
+            testIncludesControlMissing: [],
+            controlIncludesTestMissing: [],
+          }
+        : undefined;
+
+  if (structured || missingFromTest.length > 0 || extraInTest.length > 0) {
+    migrated.controlComparison = {
+      summary: structured?.summary || '',
+      testBetterThanControl: structured?.testBetterThanControl || [],
+      testWorseThanControl: structured?.testWorseThanControl || [],
+      // missingFromTest was control content the test left out; extraInTest the reverse
+      testIncludesControlMissing: [...(structured?.testIncludesControlMissing || []), ...extraInTest],
+      controlIncludesTestMissing: [...(structured?.controlIncludesTestMissing || []), ...missingFromTest],
+      ...(structured?.transcriptComparison && { transcriptComparison: structured.transcriptComparison }),
+    };
+  } else {
+    delete migrated.controlComparison;
+  }
+
+  return migrated;
+}
+
+// ============== v2 -> v3 ==============
+
+// The only judge before ensembles - spelled out so the migration never changes
+const V2_JUDGE_MODEL_ID = 'openai/gpt-5.2';
+
+/**
+ * v2 -> v3: judge ensembles. Existing scores all came from the single judge,
+ * so they become that judge's entries in judgeScores.
+ */
+function migrateV2ToV3(matter: RawRecord): RawRecord {
+  const judgeScores: Record<string, Record<string, RawRecord>> = {};
+  for (const [modelId, score] of Object.entries((matter.qualityScores || {}) as Record<string, RawRecord>)) {
+    judgeScores[modelId] = { [V2_JUDGE_MODEL_ID]: score };
+  }
+  return { ...matter, judgeScores };
+}
+
+// ============== v3 -> v4 ==============
+
+// Category fields before rubrics, with their JSON key (now the category id) and
+// the weights the old prompts gave them - spelled out so the migration never changes
+const V3_CATEGORIES = [
+  { key: 'factualAccuracy', id: 'factual_accuracy', name: 'Factual Accuracy', weight: 25, description: 'Are all stated facts accurate according to the source? Any hallucinations? Are quotes accurate?' },
+  { key: 'pageLineAccuracy', id: 'page_line_accuracy', name: 'Citation Accuracy', weight: 20, description: 'Are page and line citations correct, consistently formatted and verifiable?' },
+  { key: 'appendedTranscriptAccuracy', id: 'appended_transcript_accuracy', name: 'Appended Transcript', weight: 10, description: 'Is the appended transcript complete, with page and line numbers preserved?' },
+  { key: 'relevance', id: 'relevance', name: 'Relevance', weight: 15, description: 'Does the summary focus on legally significant information?' },
+  { key: 'comprehensiveness', id: 'comprehensiveness', name: 'Comprehensiveness', weight: 15, description: 'Does it cover all major topics, admissions and findings from the source?' },
+  { key: 'legalUtility', id: 'legal_utility', name: 'Legal Utility', weight: 15, description: 'Would this be useful to a legal professional, and is it organized for practical use?' },
+] as const;
+
+// The prompt used without a control summary had no appended transcript category
+const V3_NO_CONTROL_WEIGHTS: Record<string, number> = {
+  factual_accuracy: 25,
+  page_line_accuracy: 20,
+  relevance: 20,
+  comprehensiveness: 15,
+  legal_utility: 20,
+};
+
+function migrateScoreV3(score: RawRecord): RawRecord {
+  const migrated: RawRecord = { ...score };
+  const categoryScores: RawRecord = {};
+  for (const { key, id } of V3_CATEGORIES) {
+    if (score[key]) categoryScores[id] = score[key];
+    delete migrated[key];
+  }
+  return { ...migrated, categoryScores };
+}
+
+/**
+ * v3 -> v4: rubrics. Category scores move from named fields into
+ * categoryScores keyed by category id, and the matter gets a rubric matching
+ * the prompt it was judged with. The judge's own overall scores are kept
+ * until the matter is next analyzed, which recomputes them from the weights.
+ */
+function migrateV3ToV4(matter: RawRecord): RawRecord {
+  const qualityScores: Record<string, RawRecord> = {};
+  for (const [modelId, score] of Object.entries((matter.qualityScores || {}) as Record<string, RawRecord>)) {
+    qualityScores[modelId] = migrateScoreV3(score);
+  }
+  const judgeScores: Record<string, Record<string, RawRecord>> = {};
+  for (const [modelId, byJudge] of Object.entries((matter.judgeScores || {}) as Record<string, Record<string, RawRecord>>)) {
+    judgeScores[modelId] = Object.fromEntries(
+      Object.entries(byJudge).map(([judgeId, score]) => [judgeId, migrateScoreV3(score)])
+    );
+  }
+
+  const hadControl = !!(matter.controlSummary as RawRecord | undefined)?.content;
+  const categories = V3_CATEGORIES
+    .filter(c => hadControl || c.id in V3_NO_CONTROL_WEIGHTS)
+    .map(c => ({
+      id: c.id,
+      name: c.name,
+      description: c.description,
+      weight: hadControl ? c.weight : V3_NO_CONTROL_WEIGHTS[c.id],
+      anchors: [],
+    }));
+
+  return {
+    ...matter,
+    qualityScores,
+    judgeScores,
+    rubric: { summaryType: matter.summaryType, categories },
+  };
+}
+
+// ============== v4 -> v5 ==============
+
+/**
+ * v4 -> v5: model registry. Matters ran with the hard-coded model list
+ * (now DEFAULT_MODELS), so that's the pricing they get a copy of.
+ */
+function migrateV4ToV5(matter: RawRecord): RawRecord {
+  const modelsToTest = matter.modelsToTest as string[] | undefined;
+  const judgeModelIds = matter.judgeModelIds as string[] | undefined;
+  const modelIds = [
+    ...(modelsToTest || DEFAULT_MODELS.filter(m => m.role === 'summarizer').map(m => m.id)),
+    ...Object.keys((matter.summaries || {}) as RawRecord),
+    ...(judgeModelIds?.length ? judgeModelIds : [DEFAULT_JUDGE_ID]),
+  ];
+  return { ...matter, models: snapshotModels(undefined, DEFAULT_MODELS, modelIds) };
+}
+
+// ============== v5 -> v6 ==============
+
+/**
+ * v5 -> v6: transcript model. Source text that was already extracted for a
+ * transcript summary type is parsed into pages, lines, turns and exhibits.
+ */
+function migrateV5ToV6(matter: RawRecord): RawRecord {
+  const sourceDocuments = ((matter.sourceDocuments || []) as RawRecord[]).map(doc => {
+    const transcript = sourceTranscript(matter.summaryType as SummaryType, doc.content as string | undefined);
+    return transcript ? { ...doc, transcript } : doc;
+  });
+  return { ...matter, sourceDocuments };
+}
+
+// ============== Shape ==============
+
+const MATTER_STATUSES: MatterStatus[] = [
+  'created', 'uploading', 'processing', 'summarizing', 'analyzing', 'completed', 'cancelled', 'error',
+];
+
+const StringList = z.array(z.string());
+
+/**
+ * What the app reads from a current-schema matter without checking. Missing
+ * collections are filled in empty; fields the app doesn't rely on pass through.
+ */
+const MatterShape = z.looseObject({
+  id: z.string().min(1, 'Required'),
+  name: z.string().min(1, 'Required'),
+  summaryType: z.enum(Object.keys(SUMMARY_TYPE_INFO) as SummaryType[]),
+  status: z.enum(MATTER_STATUSES).default('created'),
+  vaultId: z.string().nullable().default(null),
+  createdAt: z.string().default(() => new Date().toISOString()),
+  updatedAt: z.string().default(() => new Date().toISOString()),
+  sourceDocuments: z.array(z.looseObject({
+    id: z.string(),
+    filename: z.string(),
+    content: z.string().optional(),
+    pageOffsets: z.array(z.number()).optional(),
+  })).default([]),
+  modelsToTest: StringList.optional(),
+  models: z.array(z.looseObject({ id: z.string(), role: z.string() })).optional(),
+  summaries: z.record(z.string(), z.looseObject({
+    status: z.string(),
+    content: z.string().optional(),
+    costUsd: z.number().optional(),
+    inputTokens: z.number().optional(),
+    outputTokens: z.number().optional(),
+    totalTokens: z.number().optional(),
+    elapsedTimeMs: z.number().optional(),
+  })).default({}),
+  qualityScores: z.record(z.string(), z.looseObject({
+    overallScore: z.number(),
+    categoryScores: z.record(z.string(), z.looseObject({ score: z.number() })).default({}),
+  })).default({}),
+  judgeModelIds: StringList.optional(),
+  judgeScores: z.record(z.string(), z.record(z.string(), z.looseObject({ overallScore: z.number() }))).optional(),
+  pairwiseComparisons: z.array(z.looseObject({})).optional(),
+  adjudications: z.record(z.string(), z.looseObject({})).optional(),
+  humanRatings: z.array(z.looseObject({ modelId: z.string(), reviewer: z.string(), overallScore: z.number() })).optional(),
+  processingLog: z.array(z.looseObject({})).optional(),
+  checkpoints: z.record(z.string(), z.looseObject({})).optional(),
+});
+
+function shapeIssues(error: z.ZodError): string[] {
+  return error.issues.map(issue => `${issue.path.map(String).join('.') || '(root)'}: ${issue.message}`);
+}
+
+// ============== Loading ==============
+
+function upgrade(record: unknown, fallbackVersion: number): { matter: RawRecord; version: number } {
+  if (typeof record !== 'object' || record === null || Array.isArray(record)) {
+    throw new Error('Matter record is not an object');
+  }
+
+  let matter = record as RawRecord;
+  let version = typeof matter.schemaVersion === 'number' ? matter.schemaVersion : fallbackVersion;
+
+  if (version > MATTER_SCHEMA_VERSION) {
+    throw new Error(
+      `Matter ${String(matter.id)} uses schema v${version} but this app supports up to v${MATTER_SCHEMA_VERSION} - update the app first`
+    );
+  }
+
+  while (version < MATTER_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`No migration from matter schema v${version}`);
+    }
+    matter = migrate(matter);
+    version++;
+  }
+  return { matter, version };
+}
+
+/**
+ * Upgrade a stored or imported matter to the current schema. Records without
+ * a schemaVersion are treated as `fallbackVersion` (v1 unless an export file
+ * says otherwise). Throws for records written by a newer app and for ones
+ * that don't have the Matter shape.
+ */
+export function migrateMatter(record: unknown, fallbackVersion = UNVERSIONED): Matter {
+  const { matter, version } = upgrade(record, fallbackVersion);
+  const result = MatterShape.safeParse(matter);
+  if (!result.success) {
+    throw new Error(`Invalid matter ${String(matter.id ?? '')}: ${shapeIssues(result.error).join('; ')}`);
+  }
+  return { ...result.data, schemaVersion: version } as unknown as Matter;
+}
+
+/** Why a matter sent to the API can't be saved - empty when it can */
+export function validateMatter(record: unknown): string[] {
+  try {
+    const result = MatterShape.safeParse(upgrade(record, UNVERSIONED).matter);
+    return result.success ? [] : shapeIssues(result.error);
+  } catch (error) {
+    return [error instanceof Error ? error.message : 'Invalid matter'];
+  }
+}
+
+// ============== Export Files ==============
+
+export function createMatterExport(matter: Matter): MatterExport {
+  return {
+    format: MATTER_EXPORT_FORMAT,
+    schemaVersion: MATTER_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    kind: 'matter',
+    matter,
+  };
+}
+
+export function createBundleExport(matters: Matter[]): MatterExport {
+  return {
+    format: MATTER_EXPORT_FORMAT,
+    schemaVersion: MATTER_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    kind: 'bundle',
+    matters,
+  };
+}
+
+/**
+ * Read an export file of any version into current-schema matters. A bare
+ * matter or array of matters (e.g. an old localStorage dump) is accepted too.
+ */
+export function readMatterExport(data: unknown): Matter[] {
+  if (Array.isArray(data)) {
+    return data.map(record => migrateMatter(record));
+  }
+  if (typeof data !== 'object' || data === null) {
+    throw new Error('Not a matter export file');
+  }
+
+  const file = data as RawRecord;
+  if (file.format === undefined) {
+    return [migrateMatter(file)];
+  }
+  if (file.format !== MATTER_EXPORT_FORMAT) {
+    throw new Error(`Unknown export format: ${String(file.format)}`);
+  }
+
+  const fileVersion = typeof file.schemaVersion === 'number' ? file.schemaVersion : UNVERSIONED;
+  if (file.kind === 'matter') {
+    return [migrateMatter(file.matter, fileVersion)];
+  }
+  if (file.kind === 'bundle' && Array.isArray(file.matters)) {
+    return file.matters.map(record => migrateMatter(record, fileVersion));
+  }
+  throw new Error('Export file contains no matters');
+}
+
+/** Download filename for an export, e.g. `deposition-smith.summary-analyzer.json` */
+export function exportFilename(label: string): string {
+  const slug = label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60);
+  return `${slug || 'matters'}.summary-analyzer.json`;
+}
@@ -0,0 +1,331 @@
+/**
+ * Model Registry
+ *
+ * The models a comparison can summarize or judge with, and what they cost.
+ * The defaults below can be re-priced, retired or joined by new models from
+ * the Models page - edits are saved in SQLite (see db.ts) and laid over the
+ * defaults. A matter copies the configs it runs with, so changing a price
+ * later doesn't rewrite what earlier comparisons cost. Models the LLM gateway
+ * lists but the registry doesn't have can be discovered and tried too.
+ * Safe to use on client and server.
+ */
+
+import { Matter, ModelConfig, ModelRole } from './types';
+import type { ModelInfo } from './case-api';
+
+export const CONTROL_MODEL_ID = 'casemark/default';
+export const DEFAULT_JUDGE_ID = 'openai/gpt-5.2';
+
+export const MODEL_ROLE_LABELS: Record<ModelRole, string> = {
+  summarizer: 'Summarizer',
+  judge: 'Judge',
+};
+
+// ============== Defaults ==============
+
+// Pricing sourced from Vercel AI Gateway: https://vercel.com/ai-gateway/models
+// Matters saved before the registry existed are priced from these (see migrations.ts),
+// so re-price models from the Models page rather than here
+const SUMMARIZER_MODELS: ModelConfig[] = [
+  // === CONTROL BASELINE ===
+  {
+    id: 'casemark/default',
+    name: '⭐ Control (Production)',
+    provider: 'CaseMark',
+    role: 'summarizer',
+    inputPricePer1M: 0.60,
+    outputPricePer1M: 5.00,
+    color: '#fbbf24', // amber/gold - special control color
+    contextWindow: 1000000,
+    maxOutput: 64000,
+    notes: 'BASELINE: Current production output - all other models compared against this',
+    isControl: true,
+  },
+
+  // === GOOGLE GEMINI MODELS ===
+  {
+    id: 'google/gemini-2.5-flash',
+    name: 'Gemini 2.5 Flash',
+    provider: 'Google',
+    role: 'summarizer',
+    inputPricePer1M: 0.60,
+    outputPricePer1M: 5.00,
+    color: '#3b82f6', // blue
+    contextWindow: 1000000,
+    maxOutput: 64000,
+    notes: 'High-quality multimodal with 1M context',
+  },
+  {
+    id: 'google/gemini-2.5-flash-lite',
+    name: 'Gemini 2.5 Flash Lite',
+    provider: 'Google',
+    role: 'summarizer',
+    inputPricePer1M: 0.20,
+    outputPricePer1M: 0.80,
+    color: '#06b6d4', // cyan
+    contextWindow: 1048576,
+    maxOutput: 65536,
+    notes: '~85% cheaper than 2.5 Flash - best value candidate',
+  },
+  {
+    id: 'google/gemini-3-flash',
+    name: 'Gemini 3 Flash',
+    provider: 'Google',
+    role: 'summarizer',
+    inputPricePer1M: 1.00,
+    outputPricePer1M: 6.00,
+    color: '#a855f7', // purple
+    contextWindow: 1000000,
+    maxOutput: 64000,
+    notes: 'Newest Gemini - more expensive but highly efficient',
+  },
+
+  // === OPENAI GPT MODELS ===
+  {
+    id: 'openai/gpt-4.1-nano',
+    name: 'GPT-4.1 Nano',
+    provider: 'OpenAI',
+    role: 'summarizer',
+    inputPricePer1M: 0.20,
+    outputPricePer1M: 0.80,
+    color: '#84cc16', // lime
+    contextWindow: 1047576,
+    maxOutput: 32768,
+    notes: 'Ultra-cheap OpenAI with 1M context',
+  },
+  {
+    id: 'openai/gpt-4.1-mini',
+    name: 'GPT-4.1 Mini',
+    provider: 'OpenAI',
+    role: 'summarizer',
+    inputPricePer1M: 0.80,
+    outputPricePer1M: 3.20,
+    color: '#65a30d', // darker lime
+    contextWindow: 1047576,
+    maxOutput: 32768,
+    notes: 'Balanced OpenAI option with 1M context',
+  },
+  {
+    id: 'openai/gpt-5-nano',
+    name: 'GPT-5 Nano',
+    provider: 'OpenAI',
+    role: 'summarizer',
+    inputPricePer1M: 0.10,
+    outputPricePer1M: 0.80,
+    color: '#f97316', // orange
+    contextWindow: 400000,
+    maxOutput: 128000,
+    notes: 'Cheapest GPT-5 - excellent value with 400K context',
+  },
+  {
+    id: 'openai/gpt-5-mini',
+    name: 'GPT-5 Mini',
+    provider: 'OpenAI',
+    role: 'summarizer',
+    inputPricePer1M: 0.50,
+    outputPricePer1M: 4.00,
+    color: '#ea580c', // darker orange
+    contextWindow: 400000,
+    maxOutput: 128000,
+    notes: 'Mid-tier GPT-5 with great quality/cost ratio',
+  },
+];
+
+// Scoring with judges from different providers keeps one model family's
+// biases from deciding the ranking on its own
+const JUDGE_MODELS: ModelConfig[] = [
+  {
+    id: 'openai/gpt-5.2',
+    name: 'GPT-5.2',
+    provider: 'OpenAI',
+    role: 'judge',
+    inputPricePer1M: 3.50,
+    outputPricePer1M: 19.00,
+    color: '#ef4444', // red
+    contextWindow: 400000,
+    maxOutput: 128000,
+    notes: 'Premium judge model for quality analysis',
+  },
+  {
+    id: 'anthropic/claude-sonnet-4.5',
+    name: 'Claude Sonnet 4.5',
+    provider: 'Anthropic',
+    role: 'judge',
+    inputPricePer1M: 3.00,
+    outputPricePer1M: 15.00,
+    color: '#d97706', // amber
+    contextWindow: 200000,
+    maxOutput: 64000,
+    notes: 'Second opinion from a different model family',
+  },
+  {
+    id: 'google/gemini-2.5-pro',
+    name: 'Gemini 2.5 Pro',
+    provider: 'Google',
+    role: 'judge',
+    inputPricePer1M: 1.25,
+    outputPricePer1M: 10.00,
+    color: '#0ea5e9', // sky
+    contextWindow: 1048576,
+    maxOutput: 65536,
+    notes: 'Long-context judge for large transcripts',
+  },
+];
+
+export const DEFAULT_MODELS: ModelConfig[] = [...SUMMARIZER_MODELS, ...JUDGE_MODELS];
+
+// ============== Registry ==============
+
+export function isDefaultModel(modelId: string): boolean {
+  return DEFAULT_MODELS.some(m => m.id === modelId);
+}
+
+/** The defaults with saved edits applied, followed by models added by hand */
+export function mergeModels(saved: ModelConfig[]): ModelConfig[] {
+  const savedById = new Map(saved.map(m => [m.id, m]));
+  const defaults = DEFAULT_MODELS.map(m => {
+    const edited = savedById.get(m.id);
+    return edited ? { ...edited, isControl: m.isControl } : m;
+  });
+  return [...defaults, ...saved.filter(m => !isDefaultModel(m.id))];
+}
+
+/** Models in a role that new comparisons can use - retired ones are left out */
+export function activeModels(models: ModelConfig[], role: ModelRole): ModelConfig[] {
+  return models.filter(m => m.role === role && !m.retired);
+}
+
+export function findModel(models: ModelConfig[], modelId: string): ModelConfig | undefined {
+  return models.find(m => m.id === modelId);
+}
+
+export function modelName(models: ModelConfig[], modelId: string): string {
+  return findModel(models, modelId)?.name || modelId;
+}
+
+// Gateway-style ids: provider/model
+const MODEL_ID_PATTERN = /^[a-z0-9][a-z0-9._-]*\/[a-z0-9][a-z0-9._:-]*$/i;
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+/**
+ * Problems that would stop the model being saved - empty when it's valid.
+ * Checks types too, since the config may come straight from a request body.
+ */
+export function validateModel(model: ModelConfig): string[] {
+  const errors: string[] = [];
+  if (typeof model.id !== 'string' || !MODEL_ID_PATTERN.test(model.id)) {
+    errors.push('Model id must look like provider/model, e.g. openai/gpt-5-mini');
+  }
+  if (typeof model.name !== 'string' || !model.name.trim()) errors.push('Name is required');
+  if (typeof model.provider !== 'string' || !model.provider.trim()) errors.push('Provider is required');
+  if (!(model.role in MODEL_ROLE_LABELS)) errors.push(`Role must be one of: ${Object.keys(MODEL_ROLE_LABELS).join(', ')}`);
+  for (const [label, price] of [['Input price', model.inputPricePer1M], ['Output price', model.outputPricePer1M]] as const) {
+    if (typeof price !== 'number' || !Number.isFinite(price) || price < 0) {
+      errors.push(`${label} must be a number of dollars per 1M tokens, 0 or more`);
+    }
+  }
+  if (typeof model.color !== 'string' || !COLOR_PATTERN.test(model.color)) errors.push('Color must be a hex color like #3b82f6');
+  for (const [label, tokens] of [['Context window', model.contextWindow], ['Max output', model.maxOutput]] as const) {
+    if (tokens !== undefined && (!Number.isInteger(tokens) || tokens <= 0)) {
+      errors.push(`${label} must be a whole number of tokens`);
+    }
+  }
+  if (model.notes !== undefined && typeof model.notes !== 'string') errors.push('Notes must be text');
+  if (model.retired !== undefined && typeof model.retired !== 'boolean') errors.push('Retired must be true or false');
+  return errors;
+}
+
+// ============== Matter Snapshots ==============
+
+/** The model configs a matter runs with - its own copy once it has one */
+export function getMatterModels(matter: Pick<Matter, 'models'>): ModelConfig[] {
+  return matter.models?.length ? matter.models : DEFAULT_MODELS;
+}
+
+/** The summarizers a matter compares */
+export function matterTestModels(matter: Pick<Matter, 'models' | 'modelsToTest'>): ModelConfig[] {
+  const summarizers = getMatterModels(matter).filter(m => m.role === 'summarizer');
+  return matter.modelsToTest ? summarizers.filter(m => matter.modelsToTest!.includes(m.id)) : summarizers;
+}
+
+/**
+ * Add registry configs for `modelIds` to a matter's copy. Models already in
+ * the copy keep the pricing they were copied with; unknown ids are skipped.
+ */
+export function snapshotModels(
+  snapshot: ModelConfig[] | undefined,
+  registry: ModelConfig[],
+  modelIds: string[]
+): ModelConfig[] {
+  const models = [...(snapshot || [])];
+  for (const modelId of modelIds) {
+    const model = findModel(registry, modelId);
+    if (model && !findModel(models, modelId)) models.push(model);
+  }
+  return models;
+}
+
+// ============== Discovery ==============
+
+// One entry of the gateway's model listing, before it's merged with the registry
+export interface DiscoveredModel {
+  id: string;
+  name?: string;
+  provider?: string;
+  contextLength?: number;
+  inputPricePer1M?: number;
+  outputPricePer1M?: number;
+}
+
+// Colors for discovered models, picked by id so a model keeps its color
+const DISCOVERED_COLORS = ['#14b8a6', '#8b5cf6', '#ec4899', '#f43f5e', '#22c55e', '#eab308', '#6366f1', '#0891b2'];
+
+/**
+ * The gateway's listing with registry metadata laid over it - a registered
+ * model takes its name, role and prices from the registry. Registry models
+ * the gateway doesn't list (like the CaseMark control) are kept at the end.
+ */
+export function mergeDiscoveredModels(discovered: DiscoveredModel[], registry: ModelConfig[]): ModelInfo[] {
+  const listed = new Set(discovered.map(m => m.id));
+  const unlisted = registry.filter(m => !listed.has(m.id)).map(m => ({ id: m.id }));
+  return [...discovered, ...unlisted].map((model: DiscoveredModel) => {
+    const registered = findModel(registry, model.id);
+    const fromGateway = model.inputPricePer1M !== undefined && model.outputPricePer1M !== undefined;
+    return {
+      id: model.id,
+      name: registered?.name || model.name || model.id.split('/').pop() || model.id,
+      provider: registered?.provider || model.provider || model.id.split('/')[0],
+      contextLength: registered?.contextWindow || model.contextLength || 0,
+      inputPricePer1M: registered ? registered.inputPricePer1M : model.inputPricePer1M,
+      outputPricePer1M: registered ? registered.outputPricePer1M : model.outputPricePer1M,
+      pricingSource: registered ? 'registry' : fromGateway ? 'gateway' : undefined,
+      inRegistry: !!registered,
+      role: registered?.role,
+      retired: registered?.retired,
+    };
+  });
+}
+
+export function hasPricing(model: ModelInfo): boolean {
+  return model.inputPricePer1M !== undefined && model.outputPricePer1M !== undefined;
+}
+
+/**
+ * A summarizer config for a discovered model so a matter can run with it.
+ * Without gateway pricing it's priced at zero - costs then only show when
+ * CaseMark reports them.
+ */
+export function discoveredModelConfig(model: ModelInfo): ModelConfig {
+  const hash = [...model.id].reduce((sum, char) => (sum * 31 + char.charCodeAt(0)) >>> 0, 0);
+  return {
+    id: model.id,
+    name: model.name,
+    provider: model.provider,
+    role: 'summarizer',
+    inputPricePer1M: model.inputPricePer1M ?? 0,
+    outputPricePer1M: model.outputPricePer1M ?? 0,
+    color: DISCOVERED_COLORS[hash % DISCOVERED_COLORS.length],
+    contextWindow: model.contextLength || undefined,
+    notes: hasPricing(model) ? 'Discovered from the LLM gateway' : 'Discovered from the LLM gateway - no pricing data',
+  };
+}
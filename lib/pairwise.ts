@@ -0,0 +1,204 @@
+/**
+ * Head-to-Head Rankings
+ *
+ * In pairwise mode the judge sees two summaries and the source and picks a
+ * winner per rubric category, so scores can't drift between runs the way an
+ * absolute 0-100 scale does. Every pair is judged twice with the order
+ * swapped; the two verdicts are averaged, which cancels position bias. The
+ * results are fitted to a Bradley-Terry model and reported on an Elo-style
+ * scale next to the absolute scores.
+ * Safe to use on client and server.
+ */
+
+import { Matter, PairwiseCategory, PairwiseComparison, Rubric } from './types';
+
+const BASE_RATING = 1500;        // Rating of an average model
+const SMOOTHING = 0.5;           // Virtual tie per pair so an unbeaten model's strength stays finite
+const MAX_ITERATIONS = 200;
+const TOLERANCE = 1e-6;
+
+// ============== Planning ==============
+
+/** What the judge picks a winner for: each rubric category, then overall */
+export function pairwiseCategories(rubric: Rubric): { id: PairwiseCategory; name: string; description: string }[] {
+  return [
+    ...rubric.categories.map(c => ({ id: c.id, name: c.name, description: c.description })),
+    { id: 'overall', name: 'Overall', description: 'Which summary you would rather hand to an attorney' },
+  ];
+}
+
+/** Every ordered pair of models - (A, B) and the swapped (B, A) */
+export function orderedPairs(modelIds: string[]): [string, string][] {
+  const pairs: [string, string][] = [];
+  for (let i = 0; i < modelIds.length; i++) {
+    for (let j = i + 1; j < modelIds.length; j++) {
+      pairs.push([modelIds[i], modelIds[j]], [modelIds[j], modelIds[i]]);
+    }
+  }
+  return pairs;
+}
+
+export function hasComparison(
+  comparisons: PairwiseComparison[] | undefined,
+  judge: string,
+  first: string,
+  second: string
+): boolean {
+  return !!comparisons?.some(c => c.judge === judge && c.first === first && c.second === second);
+}
+
+// ============== Outcomes ==============
+
+interface PairOutcome {
+  a: string;
+  b: string;
+  winsA: number;     // Fractional - a tie is half a win each
+  games: number;
+}
+
+/** Points the verdict gives to `modelId` (1 = win, 0.5 = tie, 0 = loss) */
+function pointsFor(comparison: PairwiseComparison, category: PairwiseCategory, modelId: string): number {
+  const { winner } = comparison.verdicts[category];
+  if (winner === 'tie') return 0.5;
+  const winnerId = winner === 'A' ? comparison.first : comparison.second;
+  return winnerId === modelId ? 1 : 0;
+}
+
+function pairKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+function outcomes(comparisons: PairwiseComparison[], category: PairwiseCategory): PairOutcome[] {
+  const byPair = new Map<string, PairOutcome>();
+  for (const comparison of comparisons) {
+    const [a, b] = [comparison.first, comparison.second].sort();
+    const key = pairKey(a, b);
+    const outcome = byPair.get(key) || { a, b, winsA: 0, games: 0 };
+    outcome.winsA += pointsFor(comparison, category, a);
+    outcome.games += 1;
+    byPair.set(key, outcome);
+  }
+  return [...byPair.values()];
+}
+
+/**
+ * Share of swapped pairs where the judge gave the same verdict both ways
+ * round. Low consistency means the judge favours a position, not a summary.
+ */
+export function positionConsistency(comparisons: PairwiseComparison[], category: PairwiseCategory): number | null {
+  let checked = 0;
+  let consistent = 0;
+  for (const comparison of comparisons) {
+    if (comparison.first > comparison.second) continue;  // Count each swapped pair once
+    const swapped = comparisons.find(
+      c => c.judge === comparison.judge && c.first === comparison.second && c.second === comparison.first
+    );
+    if (!swapped) continue;
+    checked++;
+    if (pointsFor(comparison, category, comparison.first) === pointsFor(swapped, category, comparison.first)) {
+      consistent++;
+    }
+  }
+  return checked > 0 ? Math.round((consistent / checked) * 100) / 100 : null;
+}
+
+// ============== Bradley-Terry ==============
+
+/**
+ * Fit Bradley-Terry strengths with the MM algorithm (Hunter, 2004):
+ * P(i beats j) = p_i / (p_i + p_j). Returns strengths with geometric mean 1.
+ */
+export function bradleyTerry(modelIds: string[], pairs: PairOutcome[]): Record<string, number> {
+  const strength: Record<string, number> = Object.fromEntries(modelIds.map(id => [id, 1]));
+  const wins: Record<string, number> = Object.fromEntries(modelIds.map(id => [id, 0]));
+  const smoothed = pairs.map(p => ({
+    ...p,
+    winsA: p.winsA + SMOOTHING / 2,
+    games: p.games + SMOOTHING,
+  }));
+  for (const p of smoothed) {
+    wins[p.a] += p.winsA;
+    wins[p.b] += p.games - p.winsA;
+  }
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const next: Record<string, number> = {};
+    for (const id of modelIds) {
+      let denominator = 0;
+      for (const p of smoothed) {
+        if (p.a === id || p.b === id) {
+          denominator += p.games / (strength[p.a] + strength[p.b]);
+        }
+      }
+      next[id] = denominator > 0 ? wins[id] / denominator : strength[id];
+    }
+
+    // Normalise to geometric mean 1 so the fit can't drift
+    const logMean = modelIds.reduce((sum, id) => sum + Math.log(next[id]), 0) / modelIds.length;
+    let change = 0;
+    for (const id of modelIds) {
+      const normalised = next[id] / Math.exp(logMean);
+      change = Math.max(change, Math.abs(normalised - strength[id]));
+      strength[id] = normalised;
+    }
+    if (change < TOLERANCE) break;
+  }
+  return strength;
+}
+
+// ============== Ranking ==============
+
+export interface PairwiseStanding {
+  modelId: string;
+  rank: number;
+  rating: number;          // Elo scale: +400 = 10x the odds of winning
+  strength: number;        // Bradley-Terry strength (geometric mean 1)
+  wins: number;            // Fractional - ties count half
+  games: number;
+  winRate: number;         // 0-1
+}
+
+export interface PairwiseRanking {
+  category: PairwiseCategory;
+  standings: PairwiseStanding[];
+  comparisons: number;
+  positionConsistency: number | null;
+}
+
+/**
+ * Bradley-Terry ranking for one category of a matter's head-to-head
+ * verdicts. Comparisons made before the category was in the rubric are skipped.
+ */
+export function pairwiseRanking(matter: Matter, category: PairwiseCategory = 'overall'): PairwiseRanking | null {
+  const comparisons = (matter.pairwiseComparisons || []).filter(c => c.verdicts[category]);
+  if (comparisons.length === 0) return null;
+
+  const pairs = outcomes(comparisons, category);
+  const modelIds = [...new Set(pairs.flatMap(p => [p.a, p.b]))];
+  const strength = bradleyTerry(modelIds, pairs);
+
+  const standings = modelIds
+    .map(modelId => {
+      const played = pairs.filter(p => p.a === modelId || p.b === modelId);
+      const wins = played.reduce((sum, p) => sum + (p.a === modelId ? p.winsA : p.games - p.winsA), 0);
+      const games = played.reduce((sum, p) => sum + p.games, 0);
+      return {
+        modelId,
+        rank: 0,
+        rating: Math.round(BASE_RATING + 400 * Math.log10(strength[modelId])),
+        strength: Math.round(strength[modelId] * 100) / 100,
+        wins,
+        games,
+        winRate: games > 0 ? Math.round((wins / games) * 100) / 100 : 0,
+      };
+    })
+    .sort((a, b) => b.strength - a.strength)
+    .map((standing, index) => ({ ...standing, rank: index + 1 }));
+
+  return {
+    category,
+    standings,
+    comparisons: comparisons.length,
+    positionConsistency: positionConsistency(comparisons, category),
+  };
+}
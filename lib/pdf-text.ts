@@ -0,0 +1,873 @@
+/**
+ * PDF Text Extraction
+ *
+ * Reads the text layer of a digital PDF locally, page by page. Compressed
+ * streams (including object streams) are inflated, fonts are decoded through
+ * their ToUnicode maps or base encodings, and glyph positions decide where
+ * lines break and words are spaced - so a transcript keeps its page and line
+ * layout. Scanned PDFs have no text layer and come back (nearly) empty; those
+ * need Gemini Vision or OCR.
+ * Safe to use on client and server.
+ */
+
+export interface PdfPage {
+  page: number;          // 1-based, in page-tree order
+  text: string;          // Lines separated by \n
+}
+
+const MAX_FORM_DEPTH = 5;          // Nested form XObjects to follow
+const LINE_TOLERANCE = 0.5;        // Vertical move, in font sizes, that starts a new line
+const WORD_GAP = 0.2;              // Horizontal gap, in font sizes, that reads as a space
+const MIN_CHARS_PER_PAGE = 200;    // Below this on average a PDF is treated as scanned
+
+// ============== PDF Values ==============
+
+class Name {
+  constructor(readonly name: string) {}
+}
+
+class Ref {
+  constructor(readonly num: number) {}
+}
+
+type PdfValue = number | boolean | null | Name | Ref | Uint8Array | PdfValue[] | PdfDict;
+type PdfDict = Map<string, PdfValue>;
+
+function isDict(value: PdfValue | undefined): value is PdfDict {
+  return value instanceof Map;
+}
+
+function nameOf(value: PdfValue | undefined): string | undefined {
+  return value instanceof Name ? value.name : undefined;
+}
+
+// ============== Lexer ==============
+
+type Token =
+  | { type: 'num'; value: number }
+  | { type: 'name'; value: string }
+  | { type: 'str'; value: Uint8Array }
+  | { type: 'punct'; value: string }
+  | { type: 'kw'; value: string }
+  | { type: 'eof' };
+
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20]);
+const DELIMITERS = new Set('()<>[]{}/%'.split('').map(c => c.charCodeAt(0)));
+const NUMBER = /^[+-]?(\d+\.?\d*|\.\d+)$/;
+
+const ESCAPES: Record<string, number> = { n: 10, r: 13, t: 9, b: 8, f: 12 };
+
+/** Tokenizer over a latin1 string, where each char code is one byte of the PDF */
+class Lexer {
+  pos = 0;
+
+  constructor(readonly src: string) {}
+
+  private isRegular(code: number): boolean {
+    return !WHITESPACE.has(code) && !DELIMITERS.has(code);
+  }
+
+  private skipWhitespace() {
+    const { src } = this;
+    while (this.pos < src.length) {
+      const code = src.charCodeAt(this.pos);
+      if (WHITESPACE.has(code)) {
+        this.pos++;
+      } else if (code === 0x25) {  // % comment
+        while (this.pos < src.length && src[this.pos] !== '\n' && src[this.pos] !== '\r') this.pos++;
+      } else {
+        break;
+      }
+    }
+  }
+
+  next(): Token {
+    this.skipWhitespace();
+    const { src } = this;
+    if (this.pos >= src.length) return { type: 'eof' };
+
+    const char = src[this.pos];
+    if (char === '(') return { type: 'str', value: this.readLiteralString() };
+    if (char === '<') {
+      if (src[this.pos + 1] === '<') {
+        this.pos += 2;
+        return { type: 'punct', value: '<<' };
+      }
+      return { type: 'str', value: this.readHexString() };
+    }
+    if (char === '>' && src[this.pos + 1] === '>') {
+      this.pos += 2;
+      return { type: 'punct', value: '>>' };
+    }
+    if ('[]{}>)'.includes(char)) {
+      this.pos++;
+      return { type: 'punct', value: char };
+    }
+    if (char === '/') {
+      this.pos++;
+      const start = this.pos;
+      while (this.pos < src.length && this.isRegular(src.charCodeAt(this.pos))) this.pos++;
+      const raw = src.slice(start, this.pos);
+      return { type: 'name', value: raw.replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))) };
+    }
+
+    const start = this.pos;
+    while (this.pos < src.length && this.isRegular(src.charCodeAt(this.pos))) this.pos++;
+    if (this.pos === start) this.pos++;  // Stray delimiter - skip it
+    const word = src.slice(start, this.pos);
+    return NUMBER.test(word) ? { type: 'num', value: parseFloat(word) } : { type: 'kw', value: word };
+  }
+
+  private readLiteralString(): Uint8Array {
+    const { src } = this;
+    const bytes: number[] = [];
+    let depth = 1;
+    this.pos++;
+    while (this.pos < src.length) {
+      const char = src[this.pos++];
+      if (char === '\\') {
+        const escaped = src[this.pos++];
+        if (escaped === undefined) break;
+        if (escaped in ESCAPES) {
+          bytes.push(ESCAPES[escaped]);
+        } else if (escaped >= '0' && escaped <= '7') {
+          let octal = escaped;
+          while (octal.length < 3 && src[this.pos] >= '0' && src[this.pos] <= '7') octal += src[this.pos++];
+          bytes.push(parseInt(octal, 8) & 0xff);
+        } else if (escaped === '\r') {
+          if (src[this.pos] === '\n') this.pos++;  // Line continuation
+        } else if (escaped !== '\n') {
+          bytes.push(escaped.charCodeAt(0));
+        }
+      } else if (char === '(') {
+        depth++;
+        bytes.push(0x28);
+      } else if (char === ')') {
+        if (--depth === 0) break;
+        bytes.push(0x29);
+      } else {
+        bytes.push(char.charCodeAt(0));
+      }
+    }
+    return Uint8Array.from(bytes);
+  }
+
+  private readHexString(): Uint8Array {
+    const end = this.src.indexOf('>', this.pos);
+    const close = end === -1 ? this.src.length : end;
+    let hex = this.src.slice(this.pos + 1, close).replace(/[^0-9a-fA-F]/g, '');
+    this.pos = close + 1;
+    if (hex.length % 2) hex += '0';
+    const bytes = new Uint8Array(hex.length / 2);
+    for (let i = 0; i < bytes.length; i++) bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+    return bytes;
+  }
+
+  /** Skip an inline image's data, which starts after its ID operator */
+  skipInlineImage() {
+    const end = this.src.slice(this.pos).search(/\sEI(?=[\s]|$)/);
+    this.pos = end === -1 ? this.src.length : this.pos + end + 3;
+  }
+}
+
+/**
+ * Read one value. In object definitions `num gen R` is a reference; content
+ * streams never contain references, so they skip the lookahead.
+ */
+function readValue(lexer: Lexer, token: Token, allowRefs: boolean): PdfValue | undefined {
+  switch (token.type) {
+    case 'num': {
+      if (!allowRefs) return token.value;
+      const saved = lexer.pos;
+      const gen = lexer.next();
+      if (gen.type === 'num') {
+        const r = lexer.next();
+        if (r.type === 'kw' && r.value === 'R') return new Ref(token.value);
+      }
+      lexer.pos = saved;
+      return token.value;
+    }
+    case 'name':
+      return new Name(token.value);
+    case 'str':
+      return token.value;
+    case 'kw':
+      if (token.value === 'true') return true;
+      if (token.value === 'false') return false;
+      if (token.value === 'null') return null;
+      return undefined;
+    case 'punct':
+      if (token.value === '[') {
+        const items: PdfValue[] = [];
+        for (let next = lexer.next(); next.type !== 'eof'; next = lexer.next()) {
+          if (next.type === 'punct' && next.value === ']') break;
+          const item = readValue(lexer, next, allowRefs);
+          if (item !== undefined) items.push(item);
+        }
+        return items;
+      }
+      if (token.value === '<<') {
+        const dict: PdfDict = new Map();
+        for (let key = lexer.next(); key.type !== 'eof'; key = lexer.next()) {
+          if (key.type === 'punct' && key.value === '>>') break;
+          if (key.type !== 'name') continue;
+          const value = readValue(lexer, lexer.next(), allowRefs);
+          if (value !== undefined) dict.set(key.value, value);
+        }
+        return dict;
+      }
+      return undefined;
+    default:
+      return undefined;
+  }
+}
+
+function parseValue(src: string): PdfValue | undefined {
+  const lexer = new Lexer(src);
+  return readValue(lexer, lexer.next(), true);
+}
+
+// ============== Streams ==============
+
+function bytesToLatin1(bytes: Uint8Array): string {
+  // TextDecoder('latin1') is really windows-1252, which remaps 0x80-0x9F
+  let result = '';
+  for (let i = 0; i < bytes.length; i += 8192) {
+    result += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + 8192)));
+  }
+  return result;
+}
+
+function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(chunks.reduce((sum, c) => sum + c.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+async function decompress(data: Uint8Array, format: 'deflate' | 'deflate-raw'): Promise<Uint8Array> {
+  const reader = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream(format)).getReader();
+  const chunks: Uint8Array[] = [];
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+    }
+  } catch {
+    // Streams with trailing garbage or a bad checksum still inflate up to the error
+  }
+  return concatBytes(chunks);
+}
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const inflated = await decompress(data, 'deflate');
+  return inflated.length > 0 ? inflated : decompress(data, 'deflate-raw');
+}
+
+function decodeAscii85(data: Uint8Array): Uint8Array {
+  const text = bytesToLatin1(data).replace(/\s/g, '').replace(/^<~/, '').replace(/~>.*$/, '');
+  const bytes: number[] = [];
+  let group: number[] = [];
+  const flush = (count: number) => {
+    let value = 0;
+    for (let i = 0; i < 5; i++) value = value * 85 + (i < group.length ? group[i] : 84);
+    for (let i = 0; i < count; i++) bytes.push((value >>> (24 - i * 8)) & 0xff);
+    group = [];
+  };
+  for (const char of text) {
+    if (char === 'z' && group.length === 0) {
+      bytes.push(0, 0, 0, 0);
+      continue;
+    }
+    group.push(char.charCodeAt(0) - 33);
+    if (group.length === 5) flush(4);
+  }
+  if (group.length > 1) flush(group.length - 1);
+  return Uint8Array.from(bytes);
+}
+
+function decodeAsciiHex(data: Uint8Array): Uint8Array {
+  let hex = bytesToLatin1(data).replace(/>.*$/, '').replace(/[^0-9a-fA-F]/g, '');
+  if (hex.length % 2) hex += '0';
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  return bytes;
+}
+
+// ============== Document ==============
+
+interface RawObject {
+  body: string;              // Object source up to its stream, if any
+  stream?: Uint8Array;       // Raw (still encoded) stream data
+}
+
+class PdfDocument {
+  private raw = new Map<number, RawObject>();
+  private parsed = new Map<number, PdfValue | undefined>();
+  private decoded = new Map<number, Promise<Uint8Array | null>>();
+
+  constructor(private bytes: Uint8Array, private src: string) {
+    this.scanObjects();
+  }
+
+  /** Find every `n g obj ... endobj`; later definitions (incremental updates) win */
+  private scanObjects() {
+    const { src } = this;
+    const header = /(\d+)\s+\d+\s+obj\b/g;
+    let match: RegExpExecArray | null;
+    while ((match = header.exec(src))) {
+      const num = Number(match[1]);
+      const bodyStart = match.index + match[0].length;
+      const endobj = src.indexOf('endobj', bodyStart);
+      const streamAt = src.indexOf('stream', bodyStart);
+
+      if (streamAt !== -1 && (endobj === -1 || streamAt < endobj) && src.slice(bodyStart, streamAt).trimEnd().endsWith('>>')) {
+        const body = src.slice(bodyStart, streamAt);
+        let dataStart = streamAt + 6;
+        if (src[dataStart] === '\r') dataStart++;
+        if (src[dataStart] === '\n') dataStart++;
+
+        // Trust a direct /Length when endstream follows it; otherwise search
+        const length = body.match(/\/Length\s+(\d+)(?!\s+\d+\s+R)/);
+        let dataEnd = length ? dataStart + Number(length[1]) : -1;
+        if (dataEnd < 0 || !src.slice(dataEnd, dataEnd + 20).includes('endstream')) {
+          dataEnd = src.indexOf('endstream', dataStart);
+          if (dataEnd === -1) break;
+          while (dataEnd > dataStart && (src[dataEnd - 1] === '\n' || src[dataEnd - 1] === '\r')) dataEnd--;
+        }
+        this.raw.set(num, { body, stream: this.bytes.subarray(dataStart, dataEnd) });
+        header.lastIndex = src.indexOf('endstream', dataEnd) + 9;
+      } else {
+        if (endobj === -1) break;
+        this.raw.set(num, { body: src.slice(bodyStart, endobj) });
+        header.lastIndex = endobj + 6;
+      }
+    }
+  }
+
+  /** Unpack compressed object streams (PDF 1.5+), which hold most dictionaries in modern files */
+  async loadObjectStreams() {
+    for (const num of [...this.raw.keys()]) {
+      const dict = this.get(num);
+      if (!isDict(dict) || nameOf(dict.get('Type')) !== 'ObjStm') continue;
+      const data = await this.streamData(num);
+      const first = dict.get('First');
+      if (!data || typeof first !== 'number') continue;
+
+      const content = bytesToLatin1(data);
+      const offsets = content.slice(0, first).trim().split(/\s+/).map(Number);
+      for (let i = 0; i + 1 < offsets.length; i += 2) {
+        const objectNum = offsets[i];
+        if (this.raw.has(objectNum)) continue;
+        const start = first + offsets[i + 1];
+        const end = i + 3 < offsets.length ? first + offsets[i + 3] : content.length;
+        this.raw.set(objectNum, { body: content.slice(start, end) });
+      }
+    }
+  }
+
+  get(num: number): PdfValue | undefined {
+    if (!this.parsed.has(num)) {
+      const object = this.raw.get(num);
+      this.parsed.set(num, object ? parseValue(object.body) : undefined);
+    }
+    return this.parsed.get(num);
+  }
+
+  resolve(value: PdfValue | undefined): PdfValue | undefined {
+    for (let hops = 0; value instanceof Ref && hops < 10; hops++) value = this.get(value.num);
+    return value;
+  }
+
+  dict(value: PdfValue | undefined): PdfDict | undefined {
+    const resolved = this.resolve(value);
+    return isDict(resolved) ? resolved : undefined;
+  }
+
+  /** Decoded stream bytes, or null for filters this reader doesn't support (images, mostly) */
+  streamData(num: number): Promise<Uint8Array | null> {
+    if (!this.decoded.has(num)) this.decoded.set(num, this.decodeStream(num));
+    return this.decoded.get(num)!;
+  }
+
+  async streamOf(value: PdfValue | undefined): Promise<Uint8Array | null> {
+    return value instanceof Ref ? this.streamData(value.num) : null;
+  }
+
+  private async decodeStream(num: number): Promise<Uint8Array | null> {
+    const object = this.raw.get(num);
+    const dict = this.get(num);
+    if (!object?.stream || !isDict(dict)) return null;
+
+    const filter = this.resolve(dict.get('Filter'));
+    const filters = (Array.isArray(filter) ? filter : filter ? [filter] : []).map(f => nameOf(this.resolve(f)));
+    let data: Uint8Array = object.stream;
+    for (const name of filters) {
+      if (name === 'FlateDecode' || name === 'Fl') data = await inflate(data);
+      else if (name === 'ASCII85Decode' || name === 'A85') data = decodeAscii85(data);
+      else if (name === 'ASCIIHexDecode' || name === 'AHx') data = decodeAsciiHex(data);
+      else return null;
+    }
+    return data;
+  }
+
+  /** Pages in reading order, each with the resources it inherits from the page tree */
+  pages(): { dict: PdfDict; resources?: PdfDict }[] {
+    const catalog = [...this.raw.keys()]
+      .map(num => this.get(num))
+      .find((value): value is PdfDict => isDict(value) && nameOf(value.get('Type')) === 'Catalog');
+    const root = this.dict(catalog?.get('Pages'));
+
+    const pages: { dict: PdfDict; resources?: PdfDict }[] = [];
+    const visited = new Set<PdfDict>();
+    const walk = (node: PdfDict, inherited?: PdfDict) => {
+      if (visited.has(node)) return;
+      visited.add(node);
+      const resources = this.dict(node.get('Resources')) || inherited;
+      const kids = this.resolve(node.get('Kids'));
+      if (Array.isArray(kids)) {
+        for (const kid of kids) {
+          const child = this.dict(kid);
+          if (child) walk(child, resources);
+        }
+      } else if (nameOf(node.get('Type')) !== 'Pages') {
+        pages.push({ dict: node, resources });
+      }
+    };
+    if (root) walk(root);
+
+    // No usable page tree - fall back to page objects in file order
+    if (pages.length === 0) {
+      for (const num of [...this.raw.keys()].sort((a, b) => a - b)) {
+        const value = this.get(num);
+        if (isDict(value) && nameOf(value.get('Type')) === 'Page') {
+          pages.push({ dict: value, resources: this.dict(value.get('Resources')) });
+        }
+      }
+    }
+    return pages;
+  }
+}
+
+// ============== Fonts ==============
+
+interface PdfFont {
+  bytesPerCode: 1 | 2;
+  toUnicode?: Map<number, string>;
+  encoding?: string[];               // Code -> text, for simple fonts
+  widths: Map<number, number>;       // Glyph widths in 1/1000 of the font size
+  defaultWidth: number;
+}
+
+const WIN_ANSI_HIGH = '€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008DŽ\u008F\u0090‘’“”•–—˜™š›œ\u009DžŸ';
+const MAC_ROMAN_HIGH =
+  'ÄÅÇÉÑÖÜáàâäãåçéèêëíìîïñóòôöõúùûü†°¢£§•¶ß®©™´¨≠ÆØ∞±≤≥¥µ∂∑∏π∫ªºΩæø' +
+  '¿¡¬√ƒ≈∆«»…\u00A0ÀÃÕŒœ–—“”‘’÷◊ÿŸ⁄€‹›ﬁﬂ‡·‚„‰ÂÊÁËÈÍÎÏÌÓÔ\uF8FFÒÚÛÙıˆ˜¯˘˙˚¸˝˛ˇ';
+
+function baseEncoding(name: string | undefined): string[] {
+  const table: string[] = [];
+  for (let code = 0; code < 256; code++) {
+    if (name === 'MacRomanEncoding' && code >= 0x80) {
+      table.push(MAC_ROMAN_HIGH[code - 0x80]);
+    } else if (code >= 0x80 && code <= 0x9f) {
+      table.push(WIN_ANSI_HIGH[code - 0x80]);
+    } else {
+      table.push(String.fromCharCode(code));
+    }
+  }
+  if (name !== 'WinAnsiEncoding' && name !== 'MacRomanEncoding') {
+    // StandardEncoding's curly quotes
+    table[0x27] = '’';
+    table[0x60] = '‘';
+  }
+  return table;
+}
+
+// Glyph names a /Differences array is likely to use for text
+const GLYPH_NAMES: Record<string, string> = {
+  space: ' ', exclam: '!', quotedbl: '"', numbersign: '#', dollar: '$', percent: '%', ampersand: '&',
+  quotesingle: "'", parenleft: '(', parenright: ')', asterisk: '*', plus: '+', comma: ',', hyphen: '-',
+  period: '.', slash: '/', zero: '0', one: '1', two: '2', three: '3', four: '4', five: '5', six: '6',
+  seven: '7', eight: '8', nine: '9', colon: ':', semicolon: ';', less: '<', equal: '=', greater: '>',
+  question: '?', at: '@', bracketleft: '[', backslash: '\\', bracketright: ']', asciicircum: '^',
+  underscore: '_', grave: '`', braceleft: '{', bar: '|', braceright: '}', asciitilde: '~',
+  quoteleft: '‘', quoteright: '’', quotedblleft: '“', quotedblright: '”', quotesinglbase: '‚',
+  quotedblbase: '„', endash: '–', emdash: '—', bullet: '•', ellipsis: '…', section: '§', paragraph: '¶',
+  copyright: '©', registered: '®', trademark: '™', degree: '°', dagger: '†', daggerdbl: '‡',
+  periodcentered: '·', minus: '−', nbspace: ' ', nonbreakingspace: ' ', fi: 'fi', fl: 'fl',
+  ff: 'ff', ffi: 'ffi', ffl: 'ffl', cent: '¢', sterling: '£', yen: '¥', euro: '€',
+};
+
+function glyphToText(name: string): string | undefined {
+  if (GLYPH_NAMES[name]) return GLYPH_NAMES[name];
+  if (/^[A-Za-z]$/.test(name)) return name;
+  const unicode = name.match(/^uni([0-9A-Fa-f]{4})$/) || name.match(/^u([0-9A-Fa-f]{4,6})$/);
+  if (unicode) return String.fromCodePoint(parseInt(unicode[1], 16));
+  return undefined;
+}
+
+function bytesToCode(bytes: Uint8Array): number {
+  return bytes.reduce((code, byte) => code * 256 + byte, 0);
+}
+
+function utf16be(bytes: Uint8Array): string {
+  let text = '';
+  for (let i = 0; i + 1 < bytes.length; i += 2) text += String.fromCharCode((bytes[i] << 8) | bytes[i + 1]);
+  return text;
+}
+
+/** Parse a ToUnicode CMap's bfchar and bfrange sections */
+function parseToUnicode(data: Uint8Array): { map: Map<number, string>; bytesPerCode?: 1 | 2 } {
+  const lexer = new Lexer(bytesToLatin1(data));
+  const map = new Map<number, string>();
+  let bytesPerCode: 1 | 2 | undefined;
+  // Strings, and the arrays a bfrange can map a range to
+  const operands: (Uint8Array | Uint8Array[])[] = [];
+
+  for (let token = lexer.next(); token.type !== 'eof'; token = lexer.next()) {
+    if (token.type === 'str') {
+      operands.push(token.value);
+      continue;
+    }
+    if (token.type === 'punct' && token.value === '[') {
+      const items = readValue(lexer, token, false);
+      if (Array.isArray(items)) operands.push(items.filter((i): i is Uint8Array => i instanceof Uint8Array));
+      continue;
+    }
+    if (token.type !== 'kw') continue;
+
+    if (token.value === 'endcodespacerange' && operands[0] instanceof Uint8Array && !bytesPerCode) {
+      bytesPerCode = operands[0].length >= 2 ? 2 : 1;
+    } else if (token.value === 'endbfchar') {
+      for (let i = 0; i + 1 < operands.length; i += 2) {
+        const [code, dest] = [operands[i], operands[i + 1]];
+        if (code instanceof Uint8Array && dest instanceof Uint8Array) map.set(bytesToCode(code), utf16be(dest));
+      }
+    } else if (token.value === 'endbfrange') {
+      for (let i = 0; i + 2 < operands.length; i += 3) {
+        const [lo, hi, dest] = operands.slice(i, i + 3);
+        if (!(lo instanceof Uint8Array) || !(hi instanceof Uint8Array)) continue;
+        const start = bytesToCode(lo);
+        const end = Math.min(bytesToCode(hi), start + 0xffff);
+        if (dest instanceof Uint8Array) {
+          // Consecutive codes map to consecutive characters
+          const base = utf16be(dest);
+          const last = base.charCodeAt(base.length - 1);
+          for (let code = start; code <= end; code++) {
+            map.set(code, base.slice(0, -1) + String.fromCharCode(last + code - start));
+          }
+        } else {
+          dest.forEach((item, offset) => map.set(start + offset, utf16be(item)));
+        }
+      }
+    }
+    operands.length = 0;
+  }
+  return { map, bytesPerCode };
+}
+
+async function loadFont(doc: PdfDocument, ref: PdfValue | undefined): Promise<PdfFont> {
+  const font = doc.dict(ref) || new Map();
+  const isType0 = nameOf(font.get('Subtype')) === 'Type0';
+  const widths = new Map<number, number>();
+  let defaultWidth = 500;
+  let bytesPerCode: 1 | 2 = isType0 ? 2 : 1;
+
+  let toUnicode: Map<number, string> | undefined;
+  const cmapData = await doc.streamOf(font.get('ToUnicode'));
+  if (cmapData) {
+    const cmap = parseToUnicode(cmapData);
+    toUnicode = cmap.map;
+    if (isType0 && cmap.bytesPerCode) bytesPerCode = cmap.bytesPerCode;
+  }
+
+  let encoding: string[] | undefined;
+  if (isType0) {
+    const descendants = doc.resolve(font.get('DescendantFonts'));
+    const cidFont = Array.isArray(descendants) ? doc.dict(descendants[0]) : undefined;
+    const dw = doc.resolve(cidFont?.get('DW'));
+    defaultWidth = typeof dw === 'number' ? dw : 1000;
+    const w = doc.resolve(cidFont?.get('W'));
+    if (Array.isArray(w)) {
+      for (let i = 0; i < w.length; ) {
+        const first = doc.resolve(w[i]);
+        const next = doc.resolve(w[i + 1]);
+        if (typeof first !== 'number') break;
+        if (Array.isArray(next)) {
+          next.forEach((width, offset) => {
+            const value = doc.resolve(width);
+            if (typeof value === 'number') widths.set(first + offset, value);
+          });
+          i += 2;
+        } else {
+          const width = doc.resolve(w[i + 2]);
+          if (typeof next === 'number' && typeof width === 'number') {
+            for (let code = first; code <= next && code - first < 0xffff; code++) widths.set(code, width);
+          }
+          i += 3;
+        }
+      }
+    }
+  } else {
+    const encodingValue = doc.resolve(font.get('Encoding'));
+    const encodingDict = isDict(encodingValue) ? encodingValue : undefined;
+    encoding = baseEncoding(nameOf(encodingValue) || nameOf(encodingDict?.get('BaseEncoding')));
+    const differences = doc.resolve(encodingDict?.get('Differences'));
+    if (Array.isArray(differences)) {
+      let code = 0;
+      for (const item of differences) {
+        if (typeof item === 'number') {
+          code = item;
+        } else if (item instanceof Name) {
+          const text = glyphToText(item.name);
+          if (text !== undefined && code < 256) encoding[code] = text;
+          code++;
+        }
+      }
+    }
+
+    const firstChar = doc.resolve(font.get('FirstChar'));
+    const widthList = doc.resolve(font.get('Widths'));
+    if (typeof firstChar === 'number' && Array.isArray(widthList)) {
+      widthList.forEach((width, offset) => {
+        const value = doc.resolve(width);
+        if (typeof value === 'number') widths.set(firstChar + offset, value);
+      });
+    }
+    const missing = doc.resolve(doc.dict(font.get('FontDescriptor'))?.get('MissingWidth'));
+    if (typeof missing === 'number' && missing > 0) defaultWidth = missing;
+  }
+
+  return { bytesPerCode, toUnicode, encoding, widths, defaultWidth };
+}
+
+// ============== Text Layout ==============
+
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[1] * n[2],
+    m[0] * n[1] + m[1] * n[3],
+    m[2] * n[0] + m[3] * n[2],
+    m[2] * n[1] + m[3] * n[3],
+    m[4] * n[0] + m[5] * n[2] + n[4],
+    m[4] * n[1] + m[5] * n[3] + n[5],
+  ];
+}
+
+function translate(m: Matrix, tx: number, ty: number): Matrix {
+  return multiply([1, 0, 0, 1, tx, ty], m);
+}
+
+/** Builds lines from positioned glyphs: a vertical move breaks the line, a horizontal gap adds a space */
+class TextCollector {
+  private lines: string[] = [];
+  private line = '';
+  private lastY: number | null = null;
+  private expectedX = 0;
+
+  add(text: string, x: number, y: number, endX: number, fontSize: number) {
+    const size = Math.max(Math.abs(fontSize), 1);
+    if (this.lastY !== null) {
+      if (Math.abs(y - this.lastY) > size * LINE_TOLERANCE) {
+        this.lines.push(this.line);
+        this.line = '';
+      } else if (Math.abs(x - this.expectedX) > size * WORD_GAP && !this.line.endsWith(' ') && !text.startsWith(' ')) {
+        this.line += ' ';
+      }
+    }
+    this.line += text;
+    this.lastY = y;
+    this.expectedX = endX;
+  }
+
+  text(): string {
+    return [...this.lines, this.line]
+      .map(line => line.replace(/\s+$/, ''))
+      .join('\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+}
+
+interface TextState {
+  font?: PdfFont;
+  fontSize: number;
+  charSpacing: number;
+  wordSpacing: number;
+  scale: number;
+  leading: number;
+}
+
+async function runContent(
+  doc: PdfDocument,
+  content: string,
+  resources: PdfDict | undefined,
+  ctm: Matrix,
+  collector: TextCollector,
+  fontCache: Map<PdfValue, PdfFont>,
+  depth: number
+) {
+  const fonts = doc.dict(resources?.get('Font'));
+  const xObjects = doc.dict(resources?.get('XObject'));
+  const lexer = new Lexer(content);
+  const operands: PdfValue[] = [];
+  const stack: Matrix[] = [];
+  const state: TextState = { fontSize: 0, charSpacing: 0, wordSpacing: 0, scale: 1, leading: 0 };
+  let tm: Matrix = IDENTITY;
+  let tlm: Matrix = IDENTITY;
+
+  const num = (i: number) => (typeof operands[i] === 'number' ? (operands[i] as number) : 0);
+
+  const show = (bytes: Uint8Array) => {
+    const font = state.font;
+    if (!font) return;
+    for (let i = 0; i + font.bytesPerCode <= bytes.length; i += font.bytesPerCode) {
+      const code = font.bytesPerCode === 2 ? (bytes[i] << 8) | bytes[i + 1] : bytes[i];
+      const text = font.toUnicode?.get(code) ?? font.encoding?.[code] ?? '';
+      const start = multiply(tm, ctm);
+      const width = (font.widths.get(code) ?? font.defaultWidth) / 1000;
+      const spacing = state.charSpacing + (font.bytesPerCode === 1 && code === 32 ? state.wordSpacing : 0);
+      tm = translate(tm, (width * state.fontSize + spacing) * state.scale, 0);
+      const end = multiply(tm, ctm);
+      if (text && text !== '\u0000') {
+        collector.add(text, start[4], start[5], end[4], state.fontSize * Math.hypot(start[2], start[3]));
+      }
+    }
+  };
+
+  const nextLine = () => {
+    tlm = translate(tlm, 0, -state.leading);
+    tm = tlm;
+  };
+
+  for (let token = lexer.next(); token.type !== 'eof'; token = lexer.next()) {
+    if (token.type !== 'kw') {
+      const value = readValue(lexer, token, false);
+      if (value !== undefined) operands.push(value);
+      continue;
+    }
+
+    switch (token.value) {
+      case 'q': stack.push(ctm); break;
+      case 'Q': ctm = stack.pop() || ctm; break;
+      case 'cm': ctm = multiply([num(0), num(1), num(2), num(3), num(4), num(5)], ctm); break;
+      case 'BT': tm = tlm = IDENTITY; break;
+      case 'Tc': state.charSpacing = num(0); break;
+      case 'Tw': state.wordSpacing = num(0); break;
+      case 'Tz': state.scale = num(0) / 100; break;
+      case 'TL': state.leading = num(0); break;
+      case 'Tf': {
+        const fontRef = fonts?.get(nameOf(operands[0]) || '');
+        if (fontRef !== undefined) {
+          if (!fontCache.has(fontRef)) fontCache.set(fontRef, await loadFont(doc, fontRef));
+          state.font = fontCache.get(fontRef);
+        }
+        state.fontSize = num(1);
+        break;
+      }
+      case 'Td': tm = tlm = translate(tlm, num(0), num(1)); break;
+      case 'TD':
+        state.leading = -num(1);
+        tm = tlm = translate(tlm, num(0), num(1));
+        break;
+      case 'Tm': tm = tlm = [num(0), num(1), num(2), num(3), num(4), num(5)]; break;
+      case 'T*': nextLine(); break;
+      case 'Tj':
+        if (operands[0] instanceof Uint8Array) show(operands[0]);
+        break;
+      case "'":
+        nextLine();
+        if (operands[0] instanceof Uint8Array) show(operands[0]);
+        break;
+      case '"':
+        state.wordSpacing = num(0);
+        state.charSpacing = num(1);
+        nextLine();
+        if (operands[2] instanceof Uint8Array) show(operands[2]);
+        break;
+      case 'TJ':
+        if (Array.isArray(operands[0])) {
+          for (const item of operands[0]) {
+            if (item instanceof Uint8Array) show(item);
+            else if (typeof item === 'number') tm = translate(tm, (-item / 1000) * state.fontSize * state.scale, 0);
+          }
+        }
+        break;
+      case 'ID':
+        lexer.skipInlineImage();
+        break;
+      case 'Do': {
+        const ref = xObjects?.get(nameOf(operands[0]) || '');
+        const form = doc.dict(ref);
+        if (depth < MAX_FORM_DEPTH && form && nameOf(form.get('Subtype')) === 'Form') {
+          const data = await doc.streamOf(ref);
+          const matrix = doc.resolve(form.get('Matrix'));
+          const formCtm = Array.isArray(matrix) && matrix.length === 6
+            ? multiply(matrix.map(v => (typeof v === 'number' ? v : 0)) as Matrix, ctm)
+            : ctm;
+          if (data) {
+            await runContent(doc, bytesToLatin1(data), doc.dict(form.get('Resources')) || resources, formCtm, collector, fontCache, depth + 1);
+          }
+        }
+        break;
+      }
+    }
+    operands.length = 0;
+  }
+}
+
+// ============== Extraction ==============
+
+/**
+ * Extract the text of a digital PDF page by page. Returns null when the
+ * file can't be read (not a PDF, encrypted, or broken).
+ */
+export async function extractPdfPages(buffer: ArrayBuffer): Promise<PdfPage[] | null> {
+  try {
+    const bytes = new Uint8Array(buffer);
+    const src = bytesToLatin1(bytes);
+    if (!src.startsWith('%PDF')) return null;
+    if (/\/Encrypt[\s<\d]/.test(src)) return null;  // Encrypted streams can't be read without the key
+
+    const doc = new PdfDocument(bytes, src);
+    await doc.loadObjectStreams();
+
+    const fontCache = new Map<PdfValue, PdfFont>();
+    const pages: PdfPage[] = [];
+    for (const { dict, resources } of doc.pages()) {
+      const contents = doc.resolve(dict.get('Contents'));
+      const parts = Array.isArray(contents) ? contents : [dict.get('Contents')];
+      const streams = await Promise.all(parts.map(part => doc.streamOf(part)));
+      // Content streams split across parts can break mid-token, so they're joined first
+      const content = streams.map(s => (s ? bytesToLatin1(s) : '')).join('\n');
+
+      const collector = new TextCollector();
+      await runContent(doc, content, resources, IDENTITY, collector, fontCache, 0);
+      pages.push({ page: pages.length + 1, text: collector.text() });
+    }
+    return pages;
+  } catch (error) {
+    console.error('[PdfText] Error:', error);
+    return null;
+  }
+}
+
+/** Whether a PDF has a real text layer, or is a scan that needs OCR */
+export function hasTextLayer(pages: PdfPage[]): boolean {
+  if (pages.length === 0) return false;
+  const chars = pages.reduce((sum, p) => sum + p.text.replace(/\s/g, '').length, 0);
+  return chars / pages.length >= MIN_CHARS_PER_PAGE;
+}
+
+/** The pages as one document - blank lines between pages, line breaks kept */
+export function pagesToText(pages: PdfPage[]): string {
+  return pages.map(p => p.text).filter(Boolean).join('\n\n');
+}
@@ -0,0 +1,1544 @@
+/**
+ * Comparison Pipeline
+ *
+ * The work a processing job does for a matter: push the source document to
+ * the vault, generate each model's summary through CaseMark, extract the
+ * source text and have the judge model score every summary.
+ * Each step records a checkpoint on the matter when it finishes, so running
+ * the job again picks up where the last attempt stopped.
+ * Runs inside job-runner.ts - only import this from server code.
+ */
+
+import {
+  createVault,
+  uploadToVault,
+  getVaultPresignedUrl,
+  extractSourceDocument,
+  EXTRACTION_METHOD_LABELS,
+  submitCaseMarkWorkflow,
+  getCaseMarkWorkflowStatus,
+  downloadCaseMarkResult,
+  createChatCompletion,
+  calculateCost,
+  ChatMessage,
+} from './case-api';
+import { parseJudgeResponse, parsePairwiseResponse, parseChunkResponse, buildRepairPrompt, formatIssues } from './judge-response';
+import { verifyCitations } from './citations';
+import { formatTranscriptIndex, matterTranscript, parseTranscript, sourceTranscript } from './transcript';
+import {
+  buildChunkPrompt,
+  estimateTokens,
+  formatChunkFindings,
+  getChunkedJudging,
+  mergeChunkFindings,
+  pageOffsetsFor,
+  planChunking,
+  SourceChunk,
+  splitSource,
+} from './chunking';
+import { aggregateJudgeScores, combineTrials, findJudge, getAggregation, getJudgeIds } from './ensemble';
+import { getTrialSettings, trialCount, trialSeed } from './trials';
+import { hasComparison, orderedPairs, pairwiseCategories, pairwiseRanking } from './pairwise';
+import { applyRubric, buildPairwisePrompt, buildQualityPrompt, coversRubric, getMatterRubric } from './rubrics';
+import { readUpload } from './uploads';
+import { debugLogger } from './debug-logger';
+import type { JobContext } from './job-runner';
+import {
+  Matter,
+  ModelConfig,
+  Rubric,
+  ChunkFindings,
+  SummaryResult,
+  SourceDocument,
+  QualityScore,
+  JobStep,
+  DocProcessingStatus,
+  CheckpointStep,
+  ProcessingCheckpoint,
+  JudgeParseIssue,
+  PairwiseComparison,
+  Transcript,
+  SUMMARY_TYPE_INFO,
+} from './types';
+import { CONTROL_MODEL_ID, findModel, getMatterModels, snapshotModels } from './models';
+import { listModels } from './db';
+
+const INITIAL_WAIT_SECONDS = 45;            // Wait before the first CaseMark status check
+const POLL_INTERVAL_MS = 3000;              // Poll every 3s after that
+const MAX_POLL_TIME_MS = 10 * 60 * 1000;    // 10 min max per model
+const DOWNLOAD_TIMEOUT_MS = 5 * 60 * 1000;  // 5 min max per result download
+const MAX_JUDGE_REPAIRS = 2;                // Re-prompts for a judge reply that fails validation
+
+// Placeholder content stored when CaseMark finished but the download was skipped
+const CONTENT_NOT_EXTRACTED = '[CONTENT_NOT_EXTRACTED]';
+
+const SEPARATOR = '═══════════════════════════════════════';
+
+// ============== Helpers ==============
+
+// Models come from the matter's own copy, so a job prices calls the way the matter always has
+function getModelsToRun(matter: Matter, modelIds?: string[]): ModelConfig[] {
+  const ids = modelIds?.length ? modelIds : matter.modelsToTest;
+  const summarizers = getMatterModels(matter).filter(m => m.role === 'summarizer');
+  return ids ? summarizers.filter(m => ids.includes(m.id)) : summarizers;
+}
+
+function modelName(matter: Matter, modelId: string): string {
+  return findModel(getMatterModels(matter), modelId)?.name || modelId;
+}
+
+function hasSummaryContent(summary?: SummaryResult): boolean {
+  return !!summary?.content && summary.content.length > 100 && summary.content !== CONTENT_NOT_EXTRACTED;
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  return Promise.race([
+    promise,
+    new Promise<T>((_, reject) => setTimeout(() => reject(new Error(message)), ms)),
+  ]);
+}
+
+function emptySummary(modelId: string): SummaryResult {
+  return {
+    model: modelId,
+    content: '',
+    inputTokens: 0,
+    outputTokens: 0,
+    totalTokens: 0,
+    elapsedTimeMs: 0,
+    costUsd: 0,
+    createdAt: new Date().toISOString(),
+    status: 'pending',
+  };
+}
+
+function saveSummary(ctx: JobContext, modelId: string, summary: Partial<SummaryResult>) {
+  ctx.updateMatter(m => ({
+    summaries: {
+      ...m.summaries,
+      [modelId]: { ...(m.summaries[modelId] || emptySummary(modelId)), ...summary },
+    },
+  }));
+}
+
+/** Save a downloaded summary and checkpoint it so later runs skip the model */
+function saveDownloadedSummary(ctx: JobContext, modelId: string, summary: Partial<SummaryResult> & { content: string }) {
+  ctx.updateMatter(m => ({
+    summaries: {
+      ...m.summaries,
+      [modelId]: { ...(m.summaries[modelId] || emptySummary(modelId)), ...summary },
+    },
+    checkpoints: addCheckpoint(m.checkpoints, 'download', { chars: summary.content.length }, modelId),
+  }));
+}
+
+/** A failed workflow is dropped from the checkpoints so the next run submits a new one */
+function saveFailedWorkflow(ctx: JobContext, modelId: string, error: string, casemarkStatus: SummaryResult['casemarkStatus']) {
+  ctx.updateMatter(m => ({
+    summaries: {
+      ...m.summaries,
+      [modelId]: { ...(m.summaries[modelId] || emptySummary(modelId)), status: 'error', error, casemarkStatus },
+    },
+    checkpoints: removeCheckpoint(m.checkpoints, 'workflow', modelId),
+  }));
+}
+
+/**
+ * Token and cost figures for downloaded content. CaseMark doesn't always
+ * report usage, so fall back to ~4 chars per token priced at the model's rate.
+ */
+function summaryStats(
+  ctx: JobContext,
+  content: string,
+  modelId: string,
+  actual?: { inputTokens?: number; outputTokens?: number; totalTokens?: number; costUsd?: number }
+): Pick<SummaryResult, 'inputTokens' | 'outputTokens' | 'totalTokens' | 'costUsd' | 'statsEstimated'> {
+  const model = findModel(getMatterModels(ctx.getMatter()), modelId);
+  const estimatedTokens = Math.ceil(content.length / 4);
+  const estimatedCost = model
+    ? calculateCost(estimatedTokens, estimatedTokens, model.inputPricePer1M, model.outputPricePer1M)
+    : 0;
+
+  return {
+    inputTokens: actual?.inputTokens || estimatedTokens,
+    outputTokens: actual?.outputTokens || estimatedTokens,
+    totalTokens: actual?.totalTokens || estimatedTokens * 2,
+    costUsd: actual?.costUsd || estimatedCost,
+    statsEstimated: !actual?.costUsd,
+  };
+}
+
+function initialDocuments(matter: Matter): DocProcessingStatus[] {
+  const documents: DocProcessingStatus[] = matter.sourceDocuments.map(doc => ({
+    id: doc.id,
+    filename: doc.filename,
+    type: 'source',
+    status: 'pending',
+    size: doc.size,
+  }));
+  if (matter.controlSummary) {
+    documents.push({
+      filename: matter.controlSummary.filename || 'control.pdf',
+      type: 'control',
+      status: matter.controlSummary.content ? 'completed' : 'pending',
+      detail: matter.controlSummary.content ? 'Already processed' : undefined,
+      size: matter.controlSummary.fileSize,
+      pageCount: matter.controlSummary.pageCount,
+      charCount: matter.controlSummary.content?.length,
+    });
+  }
+  return documents;
+}
+
+// ============== Checkpoints ==============
+
+function checkpointKey(step: CheckpointStep, modelId?: string, documentId?: string): string {
+  const scope = modelId || documentId;
+  return scope ? `${step}:${scope}` : step;
+}
+
+/** A copy of the matter's checkpoints with this step recorded as finished */
+function addCheckpoint(
+  checkpoints: Matter['checkpoints'],
+  step: CheckpointStep,
+  output?: ProcessingCheckpoint['output'],
+  modelId?: string,
+  documentId?: string
+): Record<string, ProcessingCheckpoint> {
+  return {
+    ...checkpoints,
+    [checkpointKey(step, modelId, documentId)]: { step, modelId, documentId, completedAt: new Date().toISOString(), output },
+  };
+}
+
+function removeCheckpoint(
+  checkpoints: Matter['checkpoints'],
+  step: CheckpointStep,
+  modelId?: string
+): Record<string, ProcessingCheckpoint> {
+  const remaining = { ...checkpoints };
+  delete remaining[checkpointKey(step, modelId)];
+  return remaining;
+}
+
+/**
+ * Whether a step's output is already on the matter. The saved output is
+ * what counts, so matters from before checkpoints existed resume too - the
+ * checkpoint itself only decides whether a submitted workflow is still live.
+ */
+function isStepDone(matter: Matter, step: CheckpointStep, modelId?: string): boolean {
+  const docs = matter.sourceDocuments;
+  const summary = modelId ? matter.summaries[modelId] : undefined;
+
+  switch (step) {
+    case 'vault':
+      return !!matter.vaultId;
+    case 'upload':
+      return !!matter.vaultId && docs.length > 0 && docs.every(doc => doc.objectId);
+    case 'extract':
+      return docs.length > 0 && docs.every(doc => doc.content);
+    case 'workflow':
+      return !!summary?.casemarkWorkflowId &&
+        (!!matter.checkpoints?.[checkpointKey('workflow', modelId)] || summary.status !== 'error');
+    case 'download':
+      return summary?.status === 'completed' && hasSummaryContent(summary);
+    case 'judge':
+      return !!modelId && getJudgeIds(matter).every(judgeId => isJudged(matter, modelId, judgeId));
+  }
+}
+
+/** Whether a judge has scored a summary on every rubric category, as many times as the matter asks */
+function isJudged(matter: Matter, modelId: string, judgeId: string): boolean {
+  const score = matter.judgeScores?.[modelId]?.[judgeId];
+  return !!score &&
+    coversRubric(score, getMatterRubric(matter)) &&
+    trialCount(score) >= getTrialSettings(matter).trials;
+}
+
+// ============== Step 1: Documents ==============
+
+async function processDocuments(ctx: JobContext) {
+  const matter = ctx.getMatter();
+
+  ctx.log('info', SEPARATOR);
+  ctx.log('info', '📄 STEP 1: Process Documents');
+  ctx.log('info', SEPARATOR);
+  ctx.updateJob({ currentPhase: 'process' });
+  ctx.updateStep('process', { status: 'running', progress: 0, detail: 'Preparing documents...' });
+  ctx.updateMatter({ status: 'processing', error: undefined });
+
+  if (matter.sourceDocuments.length === 0) {
+    throw new Error('Matter has no source document');
+  }
+
+  const pending = matter.sourceDocuments.filter(doc => !(matter.vaultId && doc.objectId));
+  for (const doc of matter.sourceDocuments.filter(doc => !pending.includes(doc))) {
+    ctx.updateDocument(doc.id, {
+      status: 'completed',
+      detail: 'Already processed',
+      charCount: doc.content?.length || undefined,
+      pageCount: doc.pageCount,
+    });
+  }
+  if (pending.length === 0) {
+    ctx.log('info', `⏭️ ${documentCount(matter)} already uploaded - reusing vault objects`);
+  } else {
+    // Check every file is still on the server before creating anything
+    const files = pending.map(doc => {
+      const data = readUpload(matter.id, doc.id);
+      if (!data) {
+        ctx.updateDocument(doc.id, { status: 'error', detail: 'Uploaded file not found' });
+        throw new Error(`Source file ${doc.filename} not found on the server - create the comparison again to re-upload it`);
+      }
+      return { doc, data };
+    });
+
+    // A retry after a failed upload reuses the vault instead of creating another
+    let vaultId = matter.vaultId;
+    if (vaultId && isStepDone(matter, 'vault')) {
+      ctx.log('info', `⏭️ Reusing vault ${vaultId}`);
+    } else {
+      ctx.updateDocument(pending[0].id, { status: 'uploading', detail: 'Preparing vault...', startTime: Date.now() });
+      const vaultResult = await createVault(`matter-${matter.id}`, `Vault for ${matter.name}`);
+      if (vaultResult.error || !vaultResult.data) {
+        ctx.updateDocument(pending[0].id, { status: 'error', detail: vaultResult.error || 'Vault creation failed' });
+        throw new Error(`Failed to create vault: ${vaultResult.error}`);
+      }
+      const newVaultId = vaultResult.data.id;
+      vaultId = newVaultId;
+      ctx.updateMatter(m => ({ vaultId: newVaultId, checkpoints: addCheckpoint(m.checkpoints, 'vault', { vaultId: newVaultId }) }));
+      ctx.log('success', `Vault created: ${newVaultId}`);
+    }
+
+    for (let i = 0; i < files.length; i++) {
+      if (ctx.isCancelled()) return;
+      await uploadSourceDocument(ctx, vaultId, files[i].doc, files[i].data, `[${i + 1}/${files.length}]`);
+      ctx.updateStep('process', { progress: Math.round(((i + 1) / files.length) * 100) });
+    }
+  }
+
+  ctx.updateStep('process', { status: 'completed', progress: 100, detail: undefined });
+  ctx.log('success', 'Document processing complete');
+}
+
+/**
+ * Push one source file to the vault. PDFs go as-is - CaseMark reads them
+ * directly and their text is extracted separately for quality analysis.
+ * A text file is its own extracted text.
+ */
+async function uploadSourceDocument(ctx: JobContext, vaultId: string, doc: SourceDocument, data: Buffer, position: string) {
+  const file = new File([new Uint8Array(data)], doc.filename, {
+    type: doc.contentType || 'application/pdf',
+  });
+  const isText = doc.filename.toLowerCase().endsWith('.txt');
+  ctx.log('info', `${position} Processing source: ${doc.filename}`);
+  ctx.updateDocument(doc.id, { status: 'uploading', detail: 'Uploading to vault...', startTime: Date.now() });
+  ctx.updateStep('process', { detail: `${position} Uploading ${doc.filename}...` });
+  ctx.log('info', isText
+    ? 'Text file detected - skipping OCR, uploading for CaseMark'
+    : 'Uploading PDF to vault (CaseMark will process directly)');
+
+  const uploadResult = await uploadToVault(vaultId, file);
+  if (uploadResult.error || !uploadResult.data) {
+    ctx.updateDocument(doc.id, { status: 'error', detail: uploadResult.error || 'Upload failed' });
+    throw new Error(`Failed to upload source document ${doc.filename}: ${uploadResult.error}`);
+  }
+  const objectId = uploadResult.data.objectId;
+
+  if (isText) {
+    const content = data.toString('utf-8');
+    const transcript = sourceTranscript(ctx.getMatter().summaryType, content);
+    ctx.updateMatter(m => ({
+      sourceDocuments: updateSourceDocument(m, doc.id, {
+        objectId,
+        content,
+        tokenEstimate: Math.ceil(content.length / 4),
+        transcript,
+      }),
+      checkpoints: addCheckpoint(
+        addCheckpoint(m.checkpoints, 'upload', { objectId }, undefined, doc.id),
+        'extract',
+        { chars: content.length },
+        undefined,
+        doc.id
+      ),
+    }));
+    ctx.updateDocument(doc.id, { status: 'completed', detail: 'Ready (text file - no OCR)', charCount: content.length });
+    ctx.log('success', `Source document ready: ${content.length.toLocaleString()} characters`);
+    logTranscript(ctx, transcript);
+  } else {
+    ctx.updateMatter(m => ({
+      sourceDocuments: updateSourceDocument(m, doc.id, { objectId }),
+      checkpoints: addCheckpoint(m.checkpoints, 'upload', { objectId }, undefined, doc.id),
+    }));
+    ctx.updateDocument(doc.id, { status: 'completed', detail: 'Uploaded (ready for CaseMark)' });
+    ctx.log('success', 'Source PDF uploaded - ready for CaseMark summary');
+  }
+}
+
+// ============== Source Text ==============
+
+function updateSourceDocument(matter: Matter, documentId: string, updates: Partial<SourceDocument>): SourceDocument[] {
+  return matter.sourceDocuments.map(doc => (doc.id === documentId ? { ...doc, ...updates } : doc));
+}
+
+function documentCount(matter: Matter): string {
+  const count = matter.sourceDocuments.length;
+  return count === 1 ? 'Source document' : `All ${count} source documents`;
+}
+
+function logTranscript(ctx: JobContext, transcript: Transcript | undefined) {
+  if (!transcript) return;
+  ctx.log('info', `   └─ Transcript: ${transcript.pageCount} pages, ${transcript.lines.length.toLocaleString()} lines, ${transcript.turns.length.toLocaleString()} speaker turns, ${transcript.exhibits.length} exhibits`);
+}
+
+/**
+ * The extracted source text, once every document has some. Several
+ * documents are joined in order, each under a header naming it.
+ */
+function combinedSourceText(matter: Matter): string | null {
+  const docs = matter.sourceDocuments;
+  if (docs.length === 0 || docs.some(doc => !doc.content)) return null;
+  if (docs.length === 1) return docs[0].content!;
+  return docs
+    .map((doc, i) => `=== SOURCE DOCUMENT ${i + 1} of ${docs.length}: ${doc.filename} ===\n${doc.content}`)
+    .join('\n\n');
+}
+
+/** Each source document's transcript, parsing any extracted before transcripts were stored */
+function sourceTranscripts(matter: Matter): { name: string; transcript: Transcript }[] {
+  return matter.sourceDocuments.flatMap(doc => {
+    const transcript = doc.transcript ?? sourceTranscript(matter.summaryType, doc.content);
+    return transcript ? [{ name: doc.filename, transcript }] : [];
+  });
+}
+
+/** Transcript indexes for the judge, one per transcript document */
+function transcriptIndexes(matter: Matter): string | undefined {
+  const transcripts = sourceTranscripts(matter);
+  if (transcripts.length === 0) return undefined;
+  const named = matter.sourceDocuments.length > 1;
+  return transcripts.map(t => formatTranscriptIndex(t.transcript, named ? t.name : undefined)).join('\n\n');
+}
+
+/**
+ * The source text as the judges see it: transcripts lead with an index of
+ * pages, examinations and exhibits so page:line citations can be checked.
+ */
+function judgeSourceContent(matter: Matter, documentContent: string): string {
+  const indexes = transcriptIndexes(matter);
+  return indexes ? `${indexes}\n\n${documentContent}` : documentContent;
+}
+
+// In-flight extractions per matter, so the background extraction started
+// during summarizing is reused by the analysis step instead of repeated
+const sourceExtractions = new Map<string, Promise<string | null>>();
+
+/**
+ * Get the source text the judge verifies against, extracting each document
+ * from the vault (and saving it) the first time. Digital PDFs are read from
+ * their text layer; scans go to Gemini Vision, then OCR, then Vault ingestion.
+ * Null when any document couldn't be extracted.
+ */
+function extractSourceText(ctx: JobContext): Promise<string | null> {
+  const matter = ctx.getMatter();
+  if (isStepDone(matter, 'extract')) return Promise.resolve(combinedSourceText(matter));
+  if (!matter.vaultId || !isStepDone(matter, 'upload')) return Promise.resolve(null);
+
+  const inFlight = sourceExtractions.get(matter.id);
+  if (inFlight) return inFlight;
+
+  const extract = async (): Promise<string | null> => {
+    // Yield first so the map holds this extraction before any path below can settle it
+    await Promise.resolve();
+    const pending = matter.sourceDocuments.filter(doc => !doc.content);
+    ctx.log('info', `📄 Extracting source text${pending.length > 1 ? ` from ${pending.length} documents` : ''} (this is the source of truth for quality analysis)`);
+    ctx.updateStep('extract', { status: 'running', detail: 'Downloading source PDF...' });
+
+    try {
+      for (let i = 0; i < pending.length; i++) {
+        if (ctx.isCancelled()) return null;
+        const position = pending.length > 1 ? `[${i + 1}/${pending.length}] ` : '';
+        if (!(await extractDocument(ctx, matter.vaultId!, pending[i], position))) return null;
+      }
+
+      const latest = ctx.getMatter();
+      const content = combinedSourceText(latest);
+      const chars = content?.length || 0;
+      ctx.updateStep('extract', {
+        status: 'completed',
+        detail: `${chars.toLocaleString()} chars from ${latest.sourceDocuments.length} document${latest.sourceDocuments.length === 1 ? '' : 's'}`,
+      });
+      return content;
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      ctx.log('error', `Source extraction exception: ${errorMsg}`);
+      ctx.updateStep('extract', { status: 'error', detail: errorMsg });
+      return null;
+    } finally {
+      if (sourceExtractions.get(matter.id) === extraction) sourceExtractions.delete(matter.id);
+    }
+  };
+
+  const extraction = extract();
+  sourceExtractions.set(matter.id, extraction);
+  return extraction;
+}
+
+/** Extract and save one source document's text. False (having logged why) when it failed. */
+async function extractDocument(ctx: JobContext, vaultId: string, doc: SourceDocument, position: string): Promise<boolean> {
+  ctx.updateDocument(doc.id, { status: 'extracting', detail: 'Extracting text...' });
+  ctx.updateStep('extract', { detail: `${position}Downloading ${doc.filename}...` });
+
+  const result = await extractSourceDocument(vaultId, doc.objectId, status => {
+    ctx.updateDocument(doc.id, { status: 'extracting', detail: status });
+    ctx.updateStep('extract', { detail: `${position}${status}` });
+  });
+
+  if (result.error || !result.data) {
+    ctx.log('error', `${position}Source extraction failed for ${doc.filename}: ${result.error}`);
+    ctx.updateDocument(doc.id, { status: 'error', detail: result.error || 'Extraction failed' });
+    ctx.updateStep('extract', { status: 'error', detail: result.error });
+    return false;
+  }
+
+  const { content, pageCount, tokenEstimate } = result.data;
+  const method = EXTRACTION_METHOD_LABELS[result.data.method || 'pdf'];
+  const transcript = sourceTranscript(ctx.getMatter().summaryType, content);
+  const pageOffsets = result.data.pages && pageOffsetsFor(content, result.data.pages);
+  ctx.updateMatter(m => ({
+    sourceDocuments: updateSourceDocument(m, doc.id, { content, pageCount, tokenEstimate, transcript, pageOffsets }),
+    checkpoints: addCheckpoint(m.checkpoints, 'extract', { chars: content.length, method }, undefined, doc.id),
+  }));
+  ctx.updateDocument(doc.id, { status: 'completed', detail: `Text extracted via ${method}`, charCount: content.length, pageCount });
+  ctx.log('success', `✅ ${position}${method} extracted ${doc.filename}: ${content.length.toLocaleString()} chars, ${pageCount || '?'} pages`);
+  logTranscript(ctx, transcript);
+  return true;
+}
+
+// ============== Step 2: Summaries ==============
+
+/**
+ * Generate summaries one model at a time: submit to CaseMark, wait, poll
+ * until the workflow finishes, then download. Models that already have a
+ * completed summary are skipped, and a workflow submitted by an earlier
+ * attempt is polled again rather than submitted twice.
+ */
+async function generateSummaries(ctx: JobContext, models: ModelConfig[]) {
+  const matter = ctx.getMatter();
+
+  ctx.log('info', SEPARATOR);
+  ctx.log('info', '🤖 STEP 2: Generate Summaries');
+  ctx.log('info', SEPARATOR);
+  ctx.updateJob({ currentPhase: 'summarize' });
+  ctx.updateStep('summarize', { status: 'running', progress: 0 });
+  ctx.updateMatter({ status: 'summarizing', error: undefined });
+
+  if (!matter.vaultId || !isStepDone(matter, 'upload')) {
+    throw new Error('No source document or vault ID - cannot call CaseMark API');
+  }
+  const { vaultId } = matter;
+  const objectIds = matter.sourceDocuments.map(doc => doc.objectId!);
+
+  // Only needed for new submissions, so fetched on first use - in source order
+  let documentUrls: string[] | undefined;
+  const getDocumentUrls = async (): Promise<string[]> => {
+    if (documentUrls) return documentUrls;
+    ctx.log('info', `Getting presigned URL${objectIds.length === 1 ? '' : 's'} for CaseMark API`);
+    const urls: string[] = [];
+    for (const objectId of objectIds) {
+      const urlResult = await getVaultPresignedUrl(vaultId, objectId);
+      if (urlResult.error || !urlResult.data?.url) {
+        throw new Error(`Failed to get presigned URL: ${urlResult.error || 'unknown'}`);
+      }
+      urls.push(urlResult.data.url);
+    }
+    ctx.log('success', `Got ${urls.length} presigned document URL${urls.length === 1 ? '' : 's'} for CaseMark`);
+    documentUrls = urls;
+    return urls;
+  };
+
+  // Pull the source text while CaseMark works - the judge needs it later
+  if (!isStepDone(matter, 'extract')) {
+    ctx.log('info', '📄 Starting source text extraction in background (for quality analysis)');
+    void extractSourceText(ctx);
+  }
+
+  const totalModels = models.length;
+  ctx.log('info', `📡 CaseMark API: ${matter.summaryType}`);
+  ctx.log('info', `🚀 Processing ${totalModels} models SEQUENTIALLY`, models.map(m => m.name).join(', '));
+
+  let completedCount = 0;
+
+  for (let i = 0; i < models.length; i++) {
+    const model = models[i];
+    if (ctx.isCancelled()) break;
+
+    const current = ctx.getMatter();
+    if (isStepDone(current, 'download', model.id)) {
+      const existing = current.summaries[model.id]!;
+      ctx.log('info', `⏭️ [${i + 1}/${totalModels}] ${model.name} - ALREADY COMPLETE`, `${existing.content.length.toLocaleString()} chars from previous run`);
+      completedCount++;
+      continue;
+    }
+
+    ctx.log('info', SEPARATOR);
+    ctx.log('info', `📤 [${i + 1}/${totalModels}] ${model.name}`);
+    ctx.updateJob({ currentModelId: model.id, phaseStartedAt: Date.now() });
+    ctx.updateStep('summarize', {
+      progress: Math.round((i / totalModels) * 100),
+      detail: `[${i + 1}/${totalModels}] Submitting ${model.name}...`,
+    });
+
+    const completed = await generateSummary(ctx, model, getDocumentUrls, `[${i + 1}/${totalModels}]`);
+    if (completed) completedCount++;
+  }
+
+  ctx.updateJob({ currentModelId: undefined, phaseStartedAt: undefined });
+  ctx.log('info', `✓ ${completedCount}/${totalModels} summaries generated`);
+  ctx.updateStep('summarize', { status: 'completed', progress: 100, detail: undefined });
+}
+
+/**
+ * Submit a model's workflow to CaseMark, or pick up the one an earlier
+ * attempt already submitted. Returns the workflow id and when it started.
+ */
+async function ensureWorkflow(
+  ctx: JobContext,
+  model: ModelConfig,
+  getDocumentUrls: () => Promise<string[]>
+): Promise<{ workflowId: string; startedAt: number } | null> {
+  const matter = ctx.getMatter();
+  const existing = matter.summaries[model.id];
+
+  if (existing?.casemarkWorkflowId && isStepDone(matter, 'workflow', model.id)) {
+    ctx.log('info', `   ⏭️ Already submitted - resuming workflow ${existing.casemarkWorkflowId}`);
+    saveSummary(ctx, model.id, { status: 'generating', error: undefined });
+    return {
+      workflowId: existing.casemarkWorkflowId,
+      startedAt: existing.casemarkStartedAt ? Date.parse(existing.casemarkStartedAt) : Date.now(),
+    };
+  }
+
+  try {
+    const documentUrls = await getDocumentUrls();
+    ctx.log('info', '   📤 Submitting to CaseMark...');
+    const result = await submitCaseMarkWorkflow(
+      matter.summaryType,
+      documentUrls,
+      model.id,
+      `${matter.name} - ${model.name}`,
+      status => ctx.log('info', `      └─ ${status}`)
+    );
+    if (result.error || !result.data?.workflowId) {
+      throw new Error(result.error || 'Submit failed');
+    }
+
+    const workflowId = result.data.workflowId;
+    const startedAt = new Date().toISOString();
+    ctx.log('success', `   ✓ Queued: ${workflowId}`);
+    ctx.updateMatter(m => ({
+      summaries: {
+        ...m.summaries,
+        [model.id]: {
+          ...emptySummary(model.id),
+          createdAt: startedAt,
+          status: 'generating',
+          casemarkWorkflowId: workflowId,
+          casemarkStartedAt: startedAt,
+        },
+      },
+      checkpoints: addCheckpoint(m.checkpoints, 'workflow', { workflowId }, model.id),
+    }));
+    return { workflowId, startedAt: Date.parse(startedAt) };
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+    ctx.log('error', `   ❌ Submit failed: ${errorMsg}`);
+    saveSummary(ctx, model.id, {
+      content: '',
+      createdAt: new Date().toISOString(),
+      status: 'error',
+      error: errorMsg,
+      casemarkWorkflowId: undefined,
+    });
+    return null;
+  }
+}
+
+async function generateSummary(
+  ctx: JobContext,
+  model: ModelConfig,
+  getDocumentUrls: () => Promise<string[]>,
+  position: string
+): Promise<boolean> {
+  const workflow = await ensureWorkflow(ctx, model, getDocumentUrls);
+  if (!workflow) return false;
+  const { workflowId, startedAt } = workflow;
+
+  // Wait before the first status check - CaseMark never finishes sooner.
+  // A resumed workflow only waits out whatever is left of that window.
+  const waitSeconds = Math.max(0, INITIAL_WAIT_SECONDS - Math.floor((Date.now() - startedAt) / 1000));
+  if (waitSeconds > 0) {
+    ctx.log('info', `   ⏳ Waiting ${waitSeconds}s before first status check...`);
+  }
+  for (let remaining = waitSeconds; remaining > 0 && !ctx.isCancelled(); remaining -= 5) {
+    ctx.updateStep('summarize', { detail: `${position} ${model.name}: Waiting ${remaining}s...` });
+    await ctx.sleep(Math.min(5000, remaining * 1000));
+  }
+
+  // Poll until done
+  ctx.log('info', `   🔍 Polling every ${POLL_INTERVAL_MS / 1000}s...`);
+  const pollStartTime = Date.now();
+
+  while (Date.now() - pollStartTime < MAX_POLL_TIME_MS) {
+    if (ctx.isCancelled()) return false;
+
+    try {
+      const statusResult = await getCaseMarkWorkflowStatus(workflowId);
+      const status = statusResult.data?.status;
+
+      if (statusResult.error) {
+        // Might be transient - keep polling
+        ctx.log('warning', `      └─ Status check error: ${statusResult.error}`);
+      } else if (status === 'COMPLETED') {
+        ctx.log('success', '   ✅ CaseMark COMPLETED!');
+        ctx.log('info', '   📥 Downloading result...');
+        ctx.updateStep('summarize', { detail: `${position} ${model.name}: Downloading...` });
+
+        const downloadResult = await withTimeout(
+          downloadCaseMarkResult(workflowId, 'PDF'),
+          DOWNLOAD_TIMEOUT_MS,
+          'Download timed out after 5 minutes'
+        ).catch((error: unknown) => ({ data: undefined, error: error instanceof Error ? error.message : 'Download failed' }));
+        const content = downloadResult.data || '';
+        if (downloadResult.error || !content) {
+          // The workflow checkpoint stays, so a resume downloads without resubmitting
+          const errorMsg = downloadResult.error || 'Empty download';
+          ctx.log('error', `   ❌ Download failed: ${errorMsg}`);
+          saveSummary(ctx, model.id, { status: 'error', error: errorMsg, casemarkStatus: 'COMPLETED' });
+          return false;
+        }
+
+        const totalElapsedMs = Date.now() - startedAt;
+        saveDownloadedSummary(ctx, model.id, {
+          content,
+          ...summaryStats(ctx, content, model.id, {
+            ...statusResult.data?.usage,
+            costUsd: statusResult.data?.cost,
+          }),
+          elapsedTimeMs: statusResult.data?.durationMs || totalElapsedMs,
+          status: 'completed',
+          casemarkStatus: 'COMPLETED',
+        });
+        ctx.log('success', `   ✓ ${model.name} complete: ${content.length.toLocaleString()} chars in ${Math.round(totalElapsedMs / 1000)}s`);
+        return true;
+      } else if (status === 'FAILED' || status === 'CANCELLED') {
+        ctx.log('error', `   ❌ CaseMark ${status}`);
+        saveFailedWorkflow(ctx, model.id, `CaseMark ${status}`, status);
+        return false;
+      } else {
+        const elapsed = Math.round((Date.now() - startedAt) / 1000);
+        ctx.updateStep('summarize', { detail: `${position} ${model.name}: ${status || 'Processing'}... (${elapsed}s)` });
+      }
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      ctx.log('warning', `      └─ Poll exception: ${errorMsg}`);
+    }
+
+    await ctx.sleep(POLL_INTERVAL_MS);
+  }
+
+  // The workflow may still finish - keep its checkpoint so a resume polls it again
+  ctx.log('error', `   ❌ Timed out after ${MAX_POLL_TIME_MS / 60000} minutes`);
+  saveSummary(ctx, model.id, { status: 'error', error: 'Timeout waiting for CaseMark', casemarkStatus: 'TIMEOUT' });
+  return false;
+}
+
+// ============== Refresh ==============
+
+/**
+ * Check CaseMark for summaries whose workflow was submitted but never
+ * downloaded (e.g. a timeout on our side) and pull in the finished ones.
+ */
+async function refreshWorkflows(ctx: JobContext, models: ModelConfig[]) {
+  const matter = ctx.getMatter();
+  const toCheck = models.filter(m => {
+    const summary = matter.summaries[m.id];
+    return summary?.casemarkWorkflowId && !hasSummaryContent(summary);
+  });
+
+  ctx.updateStep('refresh', { status: 'running', progress: 0 });
+  ctx.log('info', SEPARATOR);
+  ctx.log('info', `🔄 Checking ${toCheck.length} CaseMark workflow(s)`);
+
+  let downloaded = 0;
+  let stillRunning = 0;
+  let failed = 0;
+
+  for (let i = 0; i < toCheck.length; i++) {
+    const model = toCheck[i];
+    if (ctx.isCancelled()) break;
+
+    const workflowId = ctx.getMatter().summaries[model.id]!.casemarkWorkflowId!;
+    ctx.updateJob({
+      currentModelId: model.id,
+      progress: { current: i + 1, total: toCheck.length, label: model.name },
+    });
+    ctx.updateStep('refresh', {
+      progress: Math.round((i / toCheck.length) * 100),
+      detail: `Checking ${model.name} (${i + 1}/${toCheck.length})`,
+    });
+
+    const statusResult = await getCaseMarkWorkflowStatus(workflowId);
+    const status = statusResult.data?.status;
+
+    if (statusResult.error) {
+      ctx.log('warning', `   └─ ${model.name}: Status check failed: ${statusResult.error}`);
+    } else if (status === 'COMPLETED') {
+      ctx.log('info', `   📥 ${model.name}: CaseMark done, downloading...`);
+      try {
+        const downloadResult = await withTimeout(
+          downloadCaseMarkResult(workflowId, 'PDF'),
+          DOWNLOAD_TIMEOUT_MS,
+          'Download timed out after 5 minutes'
+        );
+        const content = downloadResult.data || '';
+        if (downloadResult.error || content.length <= 100) {
+          throw new Error(downloadResult.error || 'Download returned empty content');
+        }
+
+        saveDownloadedSummary(ctx, model.id, {
+          content,
+          ...summaryStats(ctx, content, model.id, {
+            ...statusResult.data?.usage,
+            costUsd: statusResult.data?.cost,
+          }),
+          elapsedTimeMs: statusResult.data?.durationMs || 0,
+          status: 'completed',
+          error: undefined,
+          casemarkStatus: 'COMPLETED',
+        });
+        ctx.log('success', `   └─ ${model.name}: Downloaded ${content.length.toLocaleString()} chars`);
+        downloaded++;
+      } catch (error) {
+        // CaseMark has the result - record that so the summary can be analyzed later
+        const errorMsg = error instanceof Error ? error.message : 'Download failed';
+        saveSummary(ctx, model.id, {
+          content: CONTENT_NOT_EXTRACTED,
+          status: 'completed_no_download',
+          error: undefined,
+          casemarkStatus: 'COMPLETED',
+        });
+        ctx.log('warning', `   └─ ${model.name}: CaseMark completed but download failed: ${errorMsg}`);
+      }
+    } else if (status === 'FAILED' || status === 'CANCELLED') {
+      saveFailedWorkflow(ctx, model.id, 'CaseMark workflow failed', status);
+      ctx.log('error', `   └─ ${model.name}: CaseMark ${status}`);
+      failed++;
+    } else {
+      ctx.log('info', `   └─ ${model.name}: Still ${status || 'processing'}`);
+      stillRunning++;
+    }
+  }
+
+  ctx.updateJob({ currentModelId: undefined, progress: undefined });
+  ctx.updateStep('refresh', { status: 'completed', progress: 100, detail: undefined });
+  ctx.log('info', `✓ Refresh complete: ${downloaded} downloaded, ${stillRunning} still running, ${failed} failed`);
+}
+
+// ============== Step 3: Quality Analysis ==============
+
+/**
+ * The judge prompt for one summary. With `findings` (chunked judging) the
+ * merged page-range findings stand in for the source.
+ */
+function buildJudgeMessages(matter: Matter, modelId: string, content: string, documentContent: string, findings?: string) {
+  const hasControl = !!matter.controlSummary?.content;
+  const summaryTypeName = SUMMARY_TYPE_INFO[matter.summaryType]?.label || matter.summaryType;
+  const source = findings
+    ? `=== SOURCE VERIFICATION FINDINGS (the source was too long for one prompt - these findings from checking it part by part are your evidence about the SOURCE) ===
+${findings}`
+    : hasControl
+      ? `=== ORIGINAL SOURCE DOCUMENT (THIS IS THE GOLD STANDARD - verify all facts against this) ===
+${judgeSourceContent(matter, documentContent)}`
+      : `ORIGINAL DOCUMENT:\n${judgeSourceContent(matter, documentContent)}`;
+
+  // SOURCE is the gold standard for accuracy, CONTROL is just for reference comparison
+  const userContent = hasControl
+    ? `${source}
+
+=== TEST SUMMARY TO EVALUATE (Score this based on accuracy to SOURCE above) ===
+Model: ${modelName(matter, modelId)}
+${content}
+
+=== CONTROL SUMMARY (Current production output - FOR REFERENCE ONLY, may have its own errors) ===
+${matter.controlSummary!.content}`
+    : `${source}\n\nSUMMARY TO EVALUATE:\n${content}`;
+
+  return [
+    { role: 'system' as const, content: buildQualityPrompt(getMatterRubric(matter), summaryTypeName, hasControl) },
+    { role: 'user' as const, content: userContent },
+  ];
+}
+
+type JudgeReply<T> =
+  | { success: true; value: T; issues: JudgeParseIssue[] }
+  | { success: false; issues: JudgeParseIssue[] };
+
+/**
+ * Send a prompt to a judge and parse the reply. A reply that fails
+ * validation gets sent back with the problems listed (up to
+ * MAX_JUDGE_REPAIRS times). Returns null, having logged why, when nothing
+ * usable came back. `name` labels the call in the log.
+ */
+async function askJudge<T>(
+  ctx: JobContext,
+  judge: ModelConfig,
+  messages: ChatMessage[],
+  name: string,
+  sampling: { temperature: number; seed?: number },
+  parse: (response: string) => JudgeReply<T>
+): Promise<{ value: T; costUsd: number } | null> {
+  let conversation = messages;
+  let costUsd = 0;
+
+  for (let attempt = 0; attempt <= MAX_JUDGE_REPAIRS; attempt++) {
+    const result = await createChatCompletion(judge.id, conversation, sampling);
+    const response = result.data?.choices[0]?.message.content;
+    if (!response) {
+      ctx.log('warning', `No response data for ${name}`, result.error);
+      return null;
+    }
+
+    costUsd += calculateCost(
+      result.data?.usage?.prompt_tokens || 0,
+      result.data?.usage?.completion_tokens || 0,
+      judge.inputPricePer1M,
+      judge.outputPricePer1M
+    );
+
+    const parsed = parse(response);
+    if (parsed.success) {
+      if (parsed.issues.length > 0) {
+        ctx.log('warning', `   └─ ${name}: ${parsed.issues.length} judge field(s) defaulted or coerced`, formatIssues(parsed.issues));
+      }
+      return { value: parsed.value, costUsd };
+    }
+
+    debugLogger.error(`Judge reply failed validation for ${name}`, { judge: judge.id, issues: parsed.issues, raw: response.substring(0, 500) }, 'analysis');
+    if (attempt === MAX_JUDGE_REPAIRS) {
+      ctx.log('error', `Judge reply for ${name} failed validation after ${attempt + 1} attempt(s)`, formatIssues(parsed.issues));
+      return null;
+    }
+
+    ctx.log('warning', `   └─ ${name}: judge reply failed validation - asking for a repair`, formatIssues(parsed.issues));
+    conversation = [
+      ...conversation,
+      { role: 'assistant', content: response },
+      { role: 'user', content: buildRepairPrompt(parsed.issues) },
+    ];
+  }
+  return null;
+}
+
+/** Ask a judge to score one summary 0-100 on each rubric category */
+async function judgeSummary(
+  ctx: JobContext,
+  judge: ModelConfig,
+  modelId: string,
+  rubric: Rubric,
+  messages: ChatMessage[],
+  name: string,
+  sampling: { temperature: number; seed?: number }
+): Promise<QualityScore | null> {
+  const reply = await askJudge(ctx, judge, messages, name, sampling, response => {
+    const parsed = parseJudgeResponse(modelId, response, rubric);
+    return parsed.success ? { success: true, value: parsed.score, issues: parsed.issues } : parsed;
+  });
+  return reply && { ...reply.value, costUsd: reply.costUsd };
+}
+
+function buildChunkMessages(matter: Matter, chunk: SourceChunk, index: number, total: number, content: string): ChatMessage[] {
+  const summaryTypeName = SUMMARY_TYPE_INFO[matter.summaryType]?.label || matter.summaryType;
+  return [
+    { role: 'system', content: buildChunkPrompt(summaryTypeName, chunk, index, total) },
+    {
+      role: 'user',
+      content: `=== ORIGINAL SOURCE DOCUMENT - ${chunk.label.toUpperCase()} ONLY ===
+${chunk.content}
+
+=== TEST SUMMARY TO CHECK ===
+${content}`,
+    },
+  ];
+}
+
+/**
+ * Judge a summary against a source too long for one prompt: check it
+ * against each chunk, then score it from the merged findings. Returns null
+ * when any chunk (or the final scoring) gets no usable reply, so the
+ * totals are never based on part of the source.
+ */
+async function judgeSummaryChunked(
+  ctx: JobContext,
+  judge: ModelConfig,
+  modelId: string,
+  rubric: Rubric,
+  chunks: SourceChunk[],
+  content: string,
+  documentContent: string,
+  name: string,
+  sampling: { temperature: number; seed?: number }
+): Promise<QualityScore | null> {
+  const matter = ctx.getMatter();
+  const findings: ChunkFindings[] = [];
+  let costUsd = 0;
+
+  for (let i = 0; i < chunks.length; i++) {
+    if (ctx.isCancelled()) return null;
+    const chunk = chunks[i];
+    const reply = await askJudge(ctx, judge, buildChunkMessages(matter, chunk, i, chunks.length, content), `${name} ${chunk.label}`, sampling, response => {
+      const parsed = parseChunkResponse(response, chunk);
+      return parsed.success ? { success: true, value: parsed.findings, issues: parsed.issues } : parsed;
+    });
+    if (!reply) {
+      ctx.log('error', `   └─ ${name}: no findings for ${chunk.label} - not scored`);
+      return null;
+    }
+    findings.push(reply.value);
+    costUsd += reply.costUsd;
+    ctx.log('info', `   └─ ${name} ${chunk.label} (${i + 1}/${chunks.length}): ${reply.value.claimsSupported}/${reply.value.claimsChecked} claims supported, ${reply.value.specificErrors.length} error(s)`);
+  }
+
+  const merged = mergeChunkFindings(findings, estimateTokens(documentContent));
+  const messages = buildJudgeMessages(
+    matter,
+    modelId,
+    content,
+    documentContent,
+    formatChunkFindings(merged, transcriptIndexes(matter))
+  );
+  const score = await judgeSummary(ctx, judge, modelId, rubric, messages, `${name} (merged findings)`, sampling);
+  return score && { ...score, ...merged, costUsd: score.costUsd + costUsd };
+}
+
+/**
+ * Download a summary CaseMark finished but we never fetched.
+ * Returns the content, or null (and logs why) when it isn't available.
+ */
+async function downloadMissingContent(ctx: JobContext, summary: SummaryResult): Promise<string | null> {
+  const name = modelName(ctx.getMatter(), summary.model);
+  if (!summary.casemarkWorkflowId) {
+    ctx.log('error', `   └─ ${name}: No workflow ID - cannot download`);
+    return null;
+  }
+
+  ctx.log('info', `📥 Downloading ${name} content...`);
+  try {
+    const downloadResult = await withTimeout(
+      downloadCaseMarkResult(summary.casemarkWorkflowId, 'PDF'),
+      DOWNLOAD_TIMEOUT_MS,
+      'Download timed out after 5 minutes'
+    );
+    const content = downloadResult.data || '';
+    if (downloadResult.error || content.length <= 100) {
+      ctx.log('error', `   └─ ${name}: ${downloadResult.error || 'Download returned empty content'}`);
+      return null;
+    }
+
+    // Keep stats CaseMark reported; estimate the rest
+    const hasActualStats = summary.inputTokens > 0 && summary.costUsd > 0;
+    saveDownloadedSummary(ctx, summary.model, {
+      content,
+      status: 'completed',
+      ...(hasActualStats ? { statsEstimated: false } : summaryStats(ctx, content, summary.model)),
+    });
+    ctx.log('success', `   └─ ${name}: Downloaded ${content.length.toLocaleString()} chars${hasActualStats ? '' : ' (stats estimated)'}`);
+    return content;
+  } catch (error) {
+    ctx.log('error', `   └─ ${name}: Download failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    return null;
+  }
+}
+
+/**
+ * The chunks to judge a summary in with this judge, or null to send the
+ * whole source in one prompt (logging when that prompt is likely too big).
+ */
+function planSourceChunks(
+  ctx: JobContext,
+  judge: ModelConfig,
+  label: string,
+  sourceTokens: number,
+  otherTokens: number,
+  documentContent: string
+): SourceChunk[] | null {
+  const matter = ctx.getMatter();
+  const plan = planChunking(getChunkedJudging(matter), judge, sourceTokens, otherTokens);
+  if (!plan.chunked) {
+    if (!plan.fits) {
+      ctx.log('warning', `⚠️ ${label}: prompt is ~${(sourceTokens + otherTokens).toLocaleString()} tokens, over ${judge.name}'s budget of ~${plan.budget.toLocaleString()}${getChunkedJudging(matter) === 'off' ? ' (chunked judging is off)' : ' - the summary leaves too little room to chunk the source'}`);
+    }
+    return null;
+  }
+
+  // Without extracted text (the placeholder) the source is split as one unnamed document
+  const documents = isStepDone(matter, 'extract')
+    ? matter.sourceDocuments.map(doc => ({
+        name: doc.filename,
+        content: doc.content!,
+        transcript: doc.transcript,
+        pageOffsets: doc.pageOffsets,
+      }))
+    : [{ content: documentContent }];
+  const chunks = splitSource(documents, plan.chunkTokens);
+  ctx.log('info', `🧩 ${label}: source is ~${sourceTokens.toLocaleString()} tokens - judging in ${chunks.length} part(s): ${chunks.map(c => c.label).join(', ')}`);
+  return chunks;
+}
+
+/**
+ * Score each finished summary with every judge that hasn't scored it yet,
+ * then combine the judges' scores into the matter's quality scores
+ */
+async function analyzeSummaries(ctx: JobContext, models: ModelConfig[]) {
+  const judgeIds = getJudgeIds(ctx.getMatter());
+  const judges = judgeIds
+    .map(id => findJudge(ctx.getMatter(), id))
+    .filter((j): j is ModelConfig => !!j);
+  for (const id of judgeIds.filter(id => !findJudge(ctx.getMatter(), id))) {
+    ctx.log('warning', `⚠️ Unknown judge model ${id} - skipped`);
+  }
+  if (judges.length === 0) {
+    throw new Error('No known judge models configured for this matter');
+  }
+
+  ctx.log('info', SEPARATOR);
+  ctx.log('info', `🔬 STEP 3: Quality Analysis with ${judges.map(j => j.name).join(', ')}`);
+  ctx.log('info', SEPARATOR);
+  const trials = getTrialSettings(ctx.getMatter());
+  if (trials.trials > 1) {
+    ctx.log('info', `🎲 ${trials.trials} trials per judge at temperature ${trials.temperature}${trials.seed !== undefined ? `, seeds from ${trials.seed}` : ''}`);
+  }
+  ctx.updateJob({ currentPhase: 'analyze' });
+  ctx.updateMatter({ status: 'analyzing' });
+
+  // CRITICAL: the extracted source text is the source of truth for scoring
+  const matter = ctx.getMatter();
+  let documentContent = await extractSourceText(ctx);
+  if (!documentContent) {
+    if (matter.vaultId && matter.sourceDocuments.some(doc => doc.objectId)) {
+      throw new Error('Failed to extract source text for quality analysis');
+    }
+    ctx.log('warning', '⚠️ No source content available - using placeholder');
+    documentContent = `
+Source document for ${matter.name}.
+Summary Type: ${matter.summaryType}
+(Original transcript/records content for verification)
+    `.trim();
+  }
+  ctx.updateStep('extract', { status: 'completed' });
+
+  const current = ctx.getMatter();
+  const { summaries } = current;
+  const pending = models
+    .map(m => summaries[m.id])
+    .filter((s): s is SummaryResult =>
+      !!s &&
+      (s.status === 'completed' || s.status === 'completed_no_download') &&
+      !isStepDone(current, 'judge', s.model)
+    );
+
+  ctx.updateStep('analyze', { status: 'running', progress: 0 });
+  if (pending.length === 0) {
+    ctx.log('info', 'No summaries waiting for analysis');
+  }
+
+  let scored = 0;
+  for (let i = 0; i < pending.length; i++) {
+    if (ctx.isCancelled()) break;
+
+    const summary = pending[i];
+    const name = modelName(ctx.getMatter(), summary.model);
+    ctx.updateJob({
+      analyzingModelId: summary.model,
+      phaseStartedAt: Date.now(),
+      progress: { current: i + 1, total: pending.length, label: name },
+    });
+    ctx.updateStep('analyze', {
+      progress: Math.round((i / pending.length) * 100),
+      detail: `Analyzing ${name} (${i + 1}/${pending.length})`,
+    });
+    ctx.log('info', `🔍 Analyzing ${name} (${i + 1}/${pending.length})...`);
+
+    const content = hasSummaryContent(summary) ? summary.content : await downloadMissingContent(ctx, summary);
+    if (!content) continue;
+
+    // Judges that already scored this summary (enough times) are kept
+    const remaining = judges.filter(j => !isJudged(ctx.getMatter(), summary.model, j.id));
+    const rubric = getMatterRubric(ctx.getMatter());
+    const messages = buildJudgeMessages(ctx.getMatter(), summary.model, content, documentContent);
+    const promptTokens = estimateTokens(messages.map(m => m.content).join('\n'));
+    const sourceTokens = estimateTokens(documentContent);
+    for (const judge of remaining) {
+      if (ctx.isCancelled()) break;
+      const label = judges.length > 1 ? `${name} (${judge.name})` : name;
+      const chunks = planSourceChunks(ctx, judge, label, sourceTokens, promptTokens - sourceTokens, documentContent);
+
+      try {
+        const results: QualityScore[] = [];
+        for (let trial = 0; trial < trials.trials && !ctx.isCancelled(); trial++) {
+          const trialLabel = trials.trials > 1 ? `${label} trial ${trial + 1}/${trials.trials}` : label;
+          const sampling = { temperature: trials.temperature, seed: trialSeed(trials, trial) };
+          const result = chunks
+            ? await judgeSummaryChunked(ctx, judge, summary.model, rubric, chunks, content, documentContent, trialLabel, sampling)
+            : await judgeSummary(ctx, judge, summary.model, rubric, messages, trialLabel, sampling);
+          if (result) results.push(result);
+        }
+        if (results.length === 0) continue;
+        if (results.length < trials.trials) {
+          ctx.log('warning', `   └─ ${label}: only ${results.length}/${trials.trials} trials returned a score`);
+        }
+
+        const score = combineTrials(results);
+        ctx.updateMatter(m => ({
+          judgeScores: {
+            ...m.judgeScores,
+            [summary.model]: { ...m.judgeScores?.[summary.model], [judge.id]: score },
+          },
+        }));
+        const spread = score.uncertainty
+          ? ` ± ${score.uncertainty.stdDev} (95% CI ${score.uncertainty.ciLow}-${score.uncertainty.ciHigh})`
+          : '';
+        ctx.log('success', `   └─ ✅ ${label}: Score ${score.overallScore}/100${spread} (analysis cost: $${score.costUsd.toFixed(4)})`);
+      } catch (error) {
+        ctx.log('error', `API error analyzing ${label}`, error instanceof Error ? error.message : undefined);
+      }
+    }
+
+    const combined = combinedScore(ctx.getMatter(), summary.model);
+    if (!combined) continue;
+    const allJudged = isStepDone(ctx.getMatter(), 'judge', summary.model);
+    ctx.updateMatter(m => ({
+      qualityScores: { ...m.qualityScores, [summary.model]: combined },
+      ...(allJudged && {
+        checkpoints: addCheckpoint(m.checkpoints, 'judge', { overallScore: combined.overallScore, judges: judges.length }, summary.model),
+      }),
+    }));
+    if (judges.length > 1) {
+      ctx.log('info', `   └─ ${name}: Combined ${combined.overallScore}/100 from ${combined.ensemble?.judges.length ?? 1} judge(s)${combined.ensemble ? ` (spread ${combined.ensemble.spread})` : ''}`);
+    }
+    scored++;
+  }
+
+  ctx.updateJob({ analyzingModelId: undefined, phaseStartedAt: undefined, progress: undefined });
+  recombineScores(ctx);
+  verifySummaryCitations(ctx, models, documentContent);
+  compareWithControl(ctx);
+  ctx.updateStep('analyze', { status: 'completed', progress: 100, detail: undefined });
+  ctx.log('success', `✅ Quality analysis complete: ${scored} summaries scored`);
+
+  if (ctx.getMatter().pairwiseJudging && !ctx.isCancelled()) {
+    await judgeHeadToHead(ctx, documentContent);
+  }
+}
+
+/**
+ * A summary's quality score rebuilt from its judges' scores with the
+ * matter's rubric weights and aggregation method. The local citation check carries over.
+ */
+function combinedScore(matter: Matter, modelId: string): QualityScore | null {
+  const rubric = getMatterRubric(matter);
+  const byJudge = Object.fromEntries(
+    Object.entries(matter.judgeScores?.[modelId] || {}).map(([judgeId, score]) => [judgeId, applyRubric(score, rubric)])
+  );
+  const combined = aggregateJudgeScores(byJudge, getJudgeIds(matter), getAggregation(matter));
+  if (!combined) return null;
+
+  const summaryCost = matter.summaries[modelId]?.costUsd || 0;
+  return {
+    ...combined,
+    citationCheck: matter.qualityScores[modelId]?.citationCheck,
+    costEffectiveness: summaryCost > 0 ? combined.overallScore / summaryCost : 0,
+  };
+}
+
+/** Recombine every judged summary - the judges, rubric weights or aggregation method may have changed since the last run */
+function recombineScores(ctx: JobContext) {
+  const matter = ctx.getMatter();
+  const qualityScores = { ...matter.qualityScores };
+  for (const modelId of Object.keys(matter.judgeScores || {})) {
+    const score = combinedScore(matter, modelId);
+    if (score) qualityScores[modelId] = score;
+  }
+  ctx.updateMatter({ qualityScores });
+}
+
+/**
+ * Check each scored summary's page:line citations against the source transcript.
+ * Runs locally, so it also covers summaries scored before it existed.
+ */
+function verifySummaryCitations(ctx: JobContext, models: ModelConfig[], documentContent: string) {
+  const matter = ctx.getMatter();
+  const toCheck = models.filter(m => {
+    const score = matter.qualityScores[m.id];
+    return score && !score.citationCheck && hasSummaryContent(matter.summaries[m.id]);
+  });
+  if (toCheck.length === 0) return;
+
+  ctx.log('info', `📑 Verifying page:line citations for ${toCheck.length} summaries`);
+  const transcript = matterTranscript(matter) ?? parseTranscript(documentContent);
+  const updates: Record<string, QualityScore> = {};
+  for (const model of toCheck) {
+    const score = matter.qualityScores[model.id];
+    const check = verifyCitations(matter.summaries[model.id].content, transcript);
+    const judged = score.categoryScores.page_line_accuracy;
+    updates[model.id] = { ...score, citationCheck: check };
+    ctx.log('info', check.accuracy === null
+      ? `   └─ ${model.name}: ${check.totalCitations} citation(s), none checkable against the source`
+      : `   └─ ${model.name}: ${check.verified}/${check.totalCitations - check.unverifiable} verified (${check.accuracy}%)${judged ? ` - judge said ${judged.score}` : ''}`);
+  }
+  ctx.updateMatter(m => ({ qualityScores: { ...m.qualityScores, ...updates } }));
+}
+
+/**
+ * Fill in each score's comparison to the control model: score delta, cost
+ * savings and a value score that rewards matching quality at lower cost.
+ */
+function compareWithControl(ctx: JobContext) {
+  const matter = ctx.getMatter();
+  const controlScore = matter.qualityScores[CONTROL_MODEL_ID];
+  if (!controlScore) return;
+
+  ctx.log('info', '📊 Calculating comparison scores vs Control...');
+  const controlCost = matter.summaries[CONTROL_MODEL_ID]?.costUsd || 0;
+  const qualityScores: Record<string, QualityScore> = {};
+
+  for (const [modelId, score] of Object.entries(matter.qualityScores)) {
+    const summaryCost = matter.summaries[modelId]?.costUsd || 0;
+    const vsControlScore = score.overallScore - controlScore.overallScore;
+    const costSavingsPercent = controlCost > 0
+      ? Math.round(((controlCost - summaryCost) / controlCost) * 100)
+      : 0;
+    // (quality / 100) * (1 + half the cost savings) - same quality at 80% off is a great value
+    const valueScore = Math.round((score.overallScore / 100) * (1 + (Math.max(0, costSavingsPercent) / 100) * 0.5) * 100);
+
+    qualityScores[modelId] = { ...score, vsControlScore, costSavingsPercent, valueScore };
+    if (modelId !== CONTROL_MODEL_ID) {
+      ctx.log('info', `   └─ ${modelName(matter, modelId)}: ${vsControlScore >= 0 ? '+' : ''}${vsControlScore} vs Control, ${costSavingsPercent}% cost savings, Value: ${valueScore}`);
+    }
+  }
+
+  ctx.updateMatter({ qualityScores });
+}
+
+// ============== Step 4: Head-to-Head ==============
+
+function buildPairwiseMessages(
+  matter: Matter,
+  contentA: string,
+  contentB: string,
+  documentContent: string
+): ChatMessage[] {
+  const summaryTypeName = SUMMARY_TYPE_INFO[matter.summaryType]?.label || matter.summaryType;
+  // Model names stay out of the prompt so the judge compares the text alone
+  return [
+    { role: 'system', content: buildPairwisePrompt(getMatterRubric(matter), summaryTypeName) },
+    {
+      role: 'user',
+      content: `=== ORIGINAL SOURCE DOCUMENT (THIS IS THE GOLD STANDARD) ===
+${judgeSourceContent(matter, documentContent)}
+
+=== SUMMARY A ===
+${contentA}
+
+=== SUMMARY B ===
+${contentB}`,
+    },
+  ];
+}
+
+/**
+ * Have the primary judge compare every pair of summaries, each pair twice
+ * with the order swapped. Pairs already compared are skipped.
+ */
+async function judgeHeadToHead(ctx: JobContext, documentContent: string) {
+  const matter = ctx.getMatter();
+  const judge = getJudgeIds(matter).map(id => findJudge(matter, id)).find((j): j is ModelConfig => !!j);
+  const modelIds = getModelsToRun(matter)
+    .map(m => m.id)
+    .filter(id => hasSummaryContent(matter.summaries[id]));
+
+  ctx.log('info', SEPARATOR);
+  ctx.log('info', `🥊 STEP 4: Head-to-Head Judging${judge ? ` with ${judge.name}` : ''}`);
+  ctx.log('info', SEPARATOR);
+  ctx.updateStep('pairwise', { status: 'running', progress: 0 });
+
+  if (!judge || modelIds.length < 2) {
+    ctx.log('info', 'Head-to-head judging needs a judge and at least two downloaded summaries');
+    ctx.updateStep('pairwise', { status: 'completed', progress: 100 });
+    return;
+  }
+
+  // Verdicts from before the rubric gained a category are redone
+  const categories = pairwiseCategories(getMatterRubric(matter)).map(c => c.id);
+  const current = (matter.pairwiseComparisons || []).filter(c => categories.every(id => c.verdicts[id]));
+  const stale = (matter.pairwiseComparisons?.length || 0) - current.length;
+  if (stale > 0) {
+    ctx.log('info', `${stale} comparison(s) predate the rubric's categories - comparing again`);
+    ctx.updateMatter({ pairwiseComparisons: current });
+  }
+
+  const pairs = orderedPairs(modelIds).filter(
+    ([first, second]) => !hasComparison(current, judge.id, first, second)
+  );
+  if (pairs.length === 0) {
+    ctx.log('info', 'Every pair has already been compared');
+  } else {
+    ctx.log('info', `${pairs.length} comparison(s) to run (${modelIds.length} summaries, both orders)`);
+  }
+
+  const { temperature, seed } = getTrialSettings(matter);
+  for (let i = 0; i < pairs.length; i++) {
+    if (ctx.isCancelled()) return;
+
+    const [first, second] = pairs[i];
+    const label = `${modelName(matter, first)} vs ${modelName(matter, second)}`;
+    ctx.updateJob({ progress: { current: i + 1, total: pairs.length, label } });
+    ctx.updateStep('pairwise', {
+      progress: Math.round((i / pairs.length) * 100),
+      detail: `${label} (${i + 1}/${pairs.length})`,
+    });
+
+    try {
+      const latest = ctx.getMatter();
+      const reply = await askJudge(
+        ctx,
+        judge,
+        buildPairwiseMessages(latest, latest.summaries[first].content, latest.summaries[second].content, documentContent),
+        label,
+        { temperature, seed },
+        response => {
+          const parsed = parsePairwiseResponse(response, categories);
+          return parsed.success ? { success: true, value: parsed.verdicts, issues: [] } : parsed;
+        }
+      );
+      if (!reply) continue;
+
+      const comparison: PairwiseComparison = {
+        judge: judge.id,
+        first,
+        second,
+        verdicts: reply.value,
+        costUsd: reply.costUsd,
+        comparedAt: new Date().toISOString(),
+      };
+      ctx.updateMatter(m => ({ pairwiseComparisons: [...(m.pairwiseComparisons || []), comparison] }));
+
+      const { winner } = reply.value.overall;
+      const result = winner === 'tie' ? 'tie' : `${modelName(matter, winner === 'A' ? first : second)} wins`;
+      ctx.log('success', `   └─ ${label}: ${result} ($${reply.costUsd.toFixed(4)})`);
+    } catch (error) {
+      ctx.log('error', `API error comparing ${label}`, error instanceof Error ? error.message : undefined);
+    }
+  }
+
+  ctx.updateJob({ progress: undefined });
+  const ranking = pairwiseRanking(ctx.getMatter());
+  if (ranking) {
+    ctx.log('info', '📊 Head-to-head ranking (Bradley-Terry):');
+    for (const standing of ranking.standings) {
+      ctx.log('info', `   ${standing.rank}. ${modelName(matter, standing.modelId)}: ${standing.rating} (${Math.round(standing.winRate * 100)}% wins)`);
+    }
+    if (ranking.positionConsistency !== null) {
+      ctx.log('info', `   Same verdict with the order swapped: ${Math.round(ranking.positionConsistency * 100)}% of pairs`);
+    }
+  }
+  ctx.updateStep('pairwise', { status: 'completed', progress: 100, detail: undefined });
+}
+
+// ============== Entry Point ==============
+
+/**
+ * Copy registry configs for models the matter uses but has no copy of yet,
+ * such as a judge added after it was created. Copies it already has keep
+ * their pricing.
+ */
+function snapshotMissingModels(ctx: JobContext) {
+  const matter = ctx.getMatter();
+  const current = getMatterModels(matter);
+  const modelIds = [...(ctx.job.modelIds || []), ...(matter.modelsToTest || []), ...getJudgeIds(matter)];
+  const missing = modelIds.filter(id => !findModel(current, id));
+  if (missing.length === 0) return;
+
+  const models = snapshotModels(current, listModels(), missing);
+  const added = models.slice(current.length);
+  if (added.length > 0) {
+    ctx.updateMatter({ models });
+    ctx.log('info', `📌 Using current registry pricing for ${added.map(m => m.name).join(', ')}`);
+  }
+}
+
+function stepsFor(ctx: JobContext, models: ModelConfig[]): JobStep[] {
+  const summarize: JobStep = { id: 'summarize', label: `Generate Summaries (${models.length} models)`, status: 'pending' };
+  const analyze: JobStep = { id: 'analyze', label: 'Quality Analysis', status: 'pending' };
+  const judging: JobStep[] = ctx.getMatter().pairwiseJudging
+    ? [analyze, { id: 'pairwise', label: 'Head-to-Head Judging', status: 'pending' }]
+    : [analyze];
+
+  switch (ctx.job.type) {
+    case 'process':
+      return [{ id: 'process', label: 'Process Documents', status: 'pending' }, summarize, ...judging];
+    case 'summarize':
+      return [summarize, ...judging];
+    case 'refresh':
+      return [{ id: 'refresh', label: 'Check CaseMark Workflows', status: 'pending' }, ...judging];
+    case 'analyze':
+      return [{ id: 'extract', label: 'Extract Source Text', status: 'pending' }, ...judging];
+  }
+}
+
+/** Run a job's steps in order; the runner handles cancellation and failures */
+export async function runPipeline(ctx: JobContext) {
+  snapshotMissingModels(ctx);
+  const matter = ctx.getMatter();
+  const models = getModelsToRun(matter, ctx.job.modelIds);
+
+  ctx.updateJob({ steps: stepsFor(ctx, models), documents: initialDocuments(matter) });
+  ctx.log('info', SEPARATOR);
+  ctx.log('info', `🚀 Starting ${ctx.job.type} job`, `Matter: ${matter.name}`);
+  ctx.log('info', `📊 ${models.length} model(s)`, models.map(m => m.name).join(', '));
+  debugLogger.info(`🚀 Starting ${ctx.job.type} job`, { matterId: matter.id, jobId: ctx.job.id }, 'processing');
+
+  const finishedSteps = Object.keys(matter.checkpoints || {}).length;
+  if (finishedSteps > 0) {
+    ctx.log('info', `⏭️ Resuming - ${finishedSteps} finished step(s) from earlier runs will be skipped`);
+  }
+
+  switch (ctx.job.type) {
+    case 'process':
+      await processDocuments(ctx);
+      if (ctx.isCancelled()) return;
+      await generateSummaries(ctx, models);
+      break;
+    case 'summarize':
+      await generateSummaries(ctx, models);
+      break;
+    case 'refresh':
+      await refreshWorkflows(ctx, models);
+      break;
+    case 'analyze':
+      break;
+  }
+  if (ctx.isCancelled()) return;
+
+  await analyzeSummaries(ctx, models);
+  if (ctx.isCancelled()) return;
+
+  const finalMatter = ctx.getMatter();
+  const summaries = models.map(m => finalMatter.summaries[m.id]).filter(Boolean);
+  ctx.updateMatter({ status: 'completed', error: undefined });
+  ctx.log('info', SEPARATOR);
+  ctx.log('success', '🎉 All processing complete!');
+  ctx.log('info', `   Summaries: ${summaries.filter(s => s.status === 'completed').length} completed, ${summaries.filter(s => s.status === 'error').length} failed`);
+  ctx.log('info', `   Analyses: ${Object.keys(finalMatter.qualityScores).length} scored`);
+}
@@ -0,0 +1,349 @@
+/**
+ * Evaluation Rubrics
+ *
+ * Each summary type has a rubric: the categories the judge scores, what each
+ * one means, how much it weighs and what given scores look like. The judge
+ * prompts are generated from it, and a summary's overall score is the
+ * weighted sum of its category scores - computed here, not by the judge -
+ * so changing a weight re-ranks the models without another judge call.
+ * Safe to use on client and server.
+ */
+
+import {
+  Matter,
+  QualityScore,
+  Rubric,
+  RubricCategory,
+  SummaryType,
+  QUALITY_ANALYSIS_PROMPT,
+  QUALITY_ANALYSIS_PROMPT_NO_CONTROL,
+  PAIRWISE_ANALYSIS_PROMPT,
+} from './types';
+import { scoreUncertainty } from './trials';
+import { pairwiseCategories } from './pairwise';
+
+// ============== Defaults ==============
+
+// Transcripts - depositions, hearings, trials, arbitrations, exhibits
+const TRANSCRIPT_CATEGORIES: RubricCategory[] = [
+  {
+    id: 'factual_accuracy',
+    name: 'Factual Accuracy',
+    description: 'Are all stated facts accurate according to the SOURCE? Is anything hallucinated or fabricated? Are quotes word for word?',
+    weight: 25,
+    anchors: [
+      { score: 95, description: 'Every fact and quote checked matches the source' },
+      { score: 80, description: 'A few minor slips that do not change the meaning' },
+      { score: 60, description: 'Several errors, or one that would mislead an attorney' },
+      { score: 30, description: 'Frequent errors or fabricated testimony' },
+    ],
+  },
+  {
+    id: 'page_line_accuracy',
+    name: 'Citation Accuracy',
+    description: 'Does each page:line citation point to the lines that contain the cited testimony? Are citations formatted consistently (e.g. "Page 5, Lines 12-15" or "5:12-15")?',
+    weight: 20,
+    anchors: [
+      { score: 95, description: 'Citations land on the cited testimony' },
+      { score: 80, description: 'Mostly right - some off by a line or two' },
+      { score: 60, description: 'Many citations point to the wrong lines' },
+      { score: 30, description: 'Citations missing or mostly wrong' },
+    ],
+  },
+  {
+    id: 'appended_transcript_accuracy',
+    name: 'Appended Transcript',
+    description: 'The source transcript is appended after the summary so citations can be checked. Is it complete, with page and line numbers preserved, and readable?',
+    weight: 10,
+    anchors: [
+      { score: 95, description: 'Complete, page and line numbers intact' },
+      { score: 70, description: 'Minor gaps or numbering drift' },
+      { score: 40, description: 'Pages missing or numbering unusable for citations' },
+      { score: 0, description: 'No transcript appended' },
+    ],
+  },
+  {
+    id: 'relevance',
+    name: 'Relevance',
+    description: 'Does the summary focus on legally significant information from the SOURCE and keep irrelevant detail out?',
+    weight: 15,
+    anchors: [
+      { score: 90, description: 'Everything included matters to the case' },
+      { score: 70, description: 'Some filler or low-value detail' },
+      { score: 40, description: 'Key points buried among irrelevant ones' },
+    ],
+  },
+  {
+    id: 'comprehensiveness',
+    name: 'Comprehensiveness',
+    description: 'Does it cover every major topic, admission and finding in the SOURCE without being redundant?',
+    weight: 15,
+    anchors: [
+      { score: 90, description: 'All major topics and admissions captured' },
+      { score: 70, description: 'One notable topic or admission missed' },
+      { score: 40, description: 'Several major topics missing' },
+    ],
+  },
+  {
+    id: 'legal_utility',
+    name: 'Legal Utility',
+    description: 'Would an attorney find it useful? Does it highlight impeachment opportunities, inconsistencies and key points, and is it organized for practical use?',
+    weight: 15,
+    anchors: [
+      { score: 90, description: 'Ready to use for depo prep or motion practice' },
+      { score: 70, description: 'Useful but needs reorganizing or more analysis' },
+      { score: 40, description: 'A restatement with little practical value' },
+    ],
+  },
+];
+
+// Medical records - dates and who said what matter more than page:line citations
+const MEDICAL_CATEGORIES: RubricCategory[] = [
+  {
+    id: 'factual_accuracy',
+    name: 'Factual Accuracy',
+    description: 'Are diagnoses, findings, medications, dosages and test results stated as the records state them? Is anything fabricated?',
+    weight: 25,
+    anchors: [
+      { score: 95, description: 'Every clinical fact checked matches the records' },
+      { score: 80, description: 'Minor slips that do not change the clinical picture' },
+      { score: 60, description: 'A wrong diagnosis, medication or result' },
+      { score: 30, description: 'Frequent errors or fabricated findings' },
+    ],
+  },
+  {
+    id: 'date_accuracy',
+    name: 'Date Accuracy',
+    description: 'Are dates of service, onset and treatment correct, and are events in the right chronological order?',
+    weight: 20,
+    anchors: [
+      { score: 95, description: 'Every date checked is correct and in order' },
+      { score: 80, description: 'An occasional wrong date with no effect on the timeline' },
+      { score: 60, description: 'Dates wrong often enough to distort the timeline' },
+      { score: 30, description: 'Dates missing or unreliable' },
+    ],
+  },
+  {
+    id: 'provider_attribution',
+    name: 'Provider Attribution',
+    description: 'Is each entry attributed to the right provider and facility, and is each opinion credited to the clinician who gave it?',
+    weight: 15,
+    anchors: [
+      { score: 95, description: 'Every entry names the right provider and facility' },
+      { score: 70, description: 'Some entries unattributed or attributed to the wrong provider' },
+      { score: 40, description: 'Attribution missing or mostly wrong' },
+    ],
+  },
+  {
+    id: 'comprehensiveness',
+    name: 'Comprehensiveness',
+    description: 'Are all encounters, diagnoses, procedures and gaps in treatment covered?',
+    weight: 15,
+    anchors: [
+      { score: 90, description: 'Every encounter and treatment gap captured' },
+      { score: 70, description: 'A notable encounter or gap missed' },
+      { score: 40, description: 'Several encounters missing' },
+    ],
+  },
+  {
+    id: 'relevance',
+    name: 'Relevance',
+    description: 'Does it focus on the injuries, causation and treatment that matter to the claim?',
+    weight: 10,
+    anchors: [
+      { score: 90, description: 'Everything included bears on the claim' },
+      { score: 60, description: 'Routine or unrelated care crowds out what matters' },
+    ],
+  },
+  {
+    id: 'legal_utility',
+    name: 'Legal Utility',
+    description: 'Would it help an attorney assess damages and causation? Does it flag pre-existing conditions, gaps in care and inconsistencies, and can entries be traced to the source?',
+    weight: 15,
+    anchors: [
+      { score: 90, description: 'Ready to use for a demand or expert review' },
+      { score: 70, description: 'Useful but misses flags an attorney would want' },
+      { score: 40, description: 'A record dump with little analysis' },
+    ],
+  },
+];
+
+/** The built-in rubric for a summary type */
+export function defaultRubric(summaryType: SummaryType): Rubric {
+  const medical = summaryType.startsWith('MEDICAL_');
+  const categories = medical ? MEDICAL_CATEGORIES : TRANSCRIPT_CATEGORIES;
+  return {
+    summaryType,
+    categories: categories.map(c => ({ ...c, anchors: c.anchors.map(a => ({ ...a })) })),
+  };
+}
+
+/** The rubric a matter is judged with - matters created before rubrics use the default */
+export function getMatterRubric(matter: Pick<Matter, 'rubric' | 'summaryType'>): Rubric {
+  return matter.rubric || defaultRubric(matter.summaryType);
+}
+
+/** Same categories, weights and anchors (edit times aside) */
+export function isSameRubric(a: Rubric, b: Rubric): boolean {
+  return JSON.stringify(a.categories) === JSON.stringify(b.categories);
+}
+
+// ============== Validation ==============
+
+// Keys the judge's JSON already uses, plus head-to-head's "overall"
+const RESERVED_IDS = new Set([
+  'overall',
+  'strengths',
+  'weaknesses',
+  'specific_errors',
+  'citation_verification',
+  'missing_items',
+  'control_comparison',
+  'analysis_notes',
+  'recommendation',
+]);
+const CATEGORY_ID = /^[a-z][a-z0-9_]*$/;
+
+/** A category id derived from its name, e.g. "Date Accuracy" -> "date_accuracy" */
+export function toCategoryId(name: string): string {
+  return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^[^a-z]+|_+$/g, '');
+}
+
+/** Problems that make a rubric unusable - empty when it's valid */
+export function validateRubric(rubric: Rubric): string[] {
+  const errors: string[] = [];
+  if (!rubric.categories?.length) {
+    return ['A rubric needs at least one category'];
+  }
+
+  const seen = new Set<string>();
+  rubric.categories.forEach((category, i) => {
+    const label = category.name?.trim() || `Category ${i + 1}`;
+    if (!category.name?.trim()) errors.push(`${label} needs a name`);
+    if (!CATEGORY_ID.test(category.id || '')) {
+      errors.push(`${label}: id "${category.id}" must be lowercase letters, digits and underscores`);
+    } else if (RESERVED_IDS.has(category.id)) {
+      errors.push(`${label}: id "${category.id}" is reserved`);
+    } else if (seen.has(category.id)) {
+      errors.push(`${label}: id "${category.id}" is used twice`);
+    }
+    seen.add(category.id);
+
+    if (!Number.isFinite(category.weight) || category.weight <= 0) {
+      errors.push(`${label} needs a weight above 0`);
+    }
+    for (const anchor of category.anchors || []) {
+      if (!Number.isFinite(anchor.score) || anchor.score < 0 || anchor.score > 100) {
+        errors.push(`${label}: anchor scores must be 0-100`);
+      }
+      if (!anchor.description?.trim()) {
+        errors.push(`${label}: anchor ${anchor.score} needs a description`);
+      }
+    }
+  });
+  return errors;
+}
+
+// ============== Scoring ==============
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/** A category's share of the overall score, 0-1 */
+export function weightShare(rubric: Rubric, category: RubricCategory): number {
+  const total = rubric.categories.reduce((sum, c) => sum + c.weight, 0);
+  return total > 0 ? category.weight / total : 0;
+}
+
+export function formatWeight(rubric: Rubric, category: RubricCategory): string {
+  return `${Math.round(weightShare(rubric, category) * 100)}%`;
+}
+
+/**
+ * Weighted mean of the category scores. Categories without a score are
+ * left out and the remaining weights rescaled.
+ */
+export function computeOverallScore(rubric: Rubric, scores: Record<string, number>): number {
+  let total = 0;
+  let weights = 0;
+  for (const category of rubric.categories) {
+    if (scores[category.id] === undefined) continue;
+    total += scores[category.id] * category.weight;
+    weights += category.weight;
+  }
+  return weights > 0 ? round1(total / weights) : 0;
+}
+
+export function categoryValues(score: Pick<QualityScore, 'categoryScores'>): Record<string, number> {
+  return Object.fromEntries(Object.entries(score.categoryScores).map(([id, category]) => [id, category.score]));
+}
+
+/** Whether a judge's score has every category the rubric asks for */
+export function coversRubric(score: QualityScore, rubric: Rubric): boolean {
+  return rubric.categories.every(c => score.categoryScores[c.id]);
+}
+
+/**
+ * A judge's score with its overall (and each trial's overall) recomputed
+ * from the rubric's current weights.
+ */
+export function applyRubric(score: QualityScore, rubric: Rubric): QualityScore {
+  const overallScore = computeOverallScore(rubric, categoryValues(score));
+  const trials = score.uncertainty?.trialCategoryScores;
+  if (!trials) return { ...score, overallScore };
+
+  const uncertainty = scoreUncertainty(trials.map(t => computeOverallScore(rubric, t)), overallScore);
+  return { ...score, overallScore, uncertainty: uncertainty && { ...uncertainty, trialCategoryScores: trials } };
+}
+
+// ============== Prompts ==============
+
+function criteriaText(rubric: Rubric): string {
+  return rubric.categories
+    .map((category, i) => {
+      const anchors = [...category.anchors]
+        .sort((a, b) => b.score - a.score)
+        .map(a => `   - ${a.score}: ${a.description}`);
+      return [
+        `${i + 1}. **${category.name}** (${formatWeight(rubric, category)} weight) - JSON key "${category.id}"`,
+        `   ${category.description}`,
+        ...(anchors.length > 0 ? ['   Scoring anchors:', ...anchors] : []),
+      ].join('\n');
+    })
+    .join('\n\n');
+}
+
+function categoryJson(rubric: Rubric): string {
+  return rubric.categories
+    .map(category => `    "${category.id}": {
+        "score": <0-100>,
+        "rationale": "Why this ${category.name} score was given",
+        "examples": ["Specific example supporting the score..."]
+    },`)
+    .join('\n');
+}
+
+/** The judge's system prompt for scoring one summary */
+export function buildQualityPrompt(rubric: Rubric, summaryTypeName: string, hasControl: boolean): string {
+  const template = hasControl ? QUALITY_ANALYSIS_PROMPT : QUALITY_ANALYSIS_PROMPT_NO_CONTROL;
+  return template
+    .replace('{evaluation_criteria}', criteriaText(rubric))
+    .replace('{category_json}', categoryJson(rubric))
+    .replace('{summary_type_name}', summaryTypeName);
+}
+
+/** The judge's system prompt for comparing two summaries */
+export function buildPairwisePrompt(rubric: Rubric, summaryTypeName: string): string {
+  const categories = pairwiseCategories(rubric);
+  const list = categories
+    .map((c, i) => `${i + 1}. **${c.id}** - ${c.description}`)
+    .join('\n');
+  const json = categories
+    .map((c, i) => `    "${c.id}": { "winner": "A|B|tie", "reason": "${i === 0 ? 'One or two sentences citing specifics' : '...'}" }`)
+    .join(',\n');
+  return PAIRWISE_ANALYSIS_PROMPT
+    .replace('{pairwise_categories}', list)
+    .replace('{pairwise_json}', json)
+    .replace('{summary_type_name}', summaryTypeName);
+}
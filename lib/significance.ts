@@ -0,0 +1,206 @@
+/**
+ * Significance Testing
+ *
+ * Paired comparisons of a model against the baseline across matters. Each
+ * matter where both were scored gives one difference (model - baseline), so
+ * matter-to-matter variation in difficulty cancels out. From those:
+ * - a bootstrap confidence interval on the mean difference
+ * - a sign test on how often the model beat the baseline
+ * - how many more matters the interval would need to settle the question,
+ *   if the current mean difference and spread hold
+ * Safe to use on client and server.
+ */
+
+import { Matter } from './types';
+
+export const CONFIDENCE_LEVELS = [0.8, 0.9, 0.95, 0.99] as const;
+export type ConfidenceLevel = typeof CONFIDENCE_LEVELS[number];
+export const DEFAULT_CONFIDENCE: ConfidenceLevel = 0.95;
+
+// Two-sided normal critical values, for projecting how many matters are needed
+const Z_SCORES: Record<ConfidenceLevel, number> = {
+  0.8: 1.2816,
+  0.9: 1.6449,
+  0.95: 1.96,
+  0.99: 2.5758,
+};
+
+// A switch to a cheaper model is supported once a quality drop larger than this is ruled out
+export const NON_INFERIORITY_MARGIN = 5;
+
+const BOOTSTRAP_ITERATIONS = 2000;
+const MIN_PAIRS = 3;                // Fewer paired matters and no interval is given
+
+export interface ConfidenceInterval {
+  lower: number;
+  upper: number;
+}
+
+export interface PairedComparison {
+  modelId: string;
+  baselineId: string;
+  pairs: number;                    // Matters where both were scored
+  meanDiff: number;                 // Mean of model - baseline, in points
+  sdDiff: number;                   // Sample standard deviation of the differences
+  ci: ConfidenceInterval | null;    // Bootstrap interval on meanDiff; null under MIN_PAIRS
+  confidence: ConfidenceLevel;
+  wins: number;                     // Matters where the model outscored the baseline
+  losses: number;
+  ties: number;
+  signTestP: number | null;         // Two-sided; ties are dropped as usual
+  better: boolean;                  // Interval above 0 and the sign test agrees
+  nonInferior: boolean;             // Interval's lower end above -NON_INFERIORITY_MARGIN
+}
+
+// ============== Primitives ==============
+
+/** Mulberry32 - seeded so the same data always gives the same interval */
+function random(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0;
+  const m = mean(values);
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1));
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/** Percentile bootstrap interval on the mean */
+export function bootstrapMeanCI(
+  values: number[],
+  confidence: ConfidenceLevel,
+  iterations = BOOTSTRAP_ITERATIONS
+): ConfidenceInterval | null {
+  if (values.length < MIN_PAIRS) return null;
+  const next = random(values.length * 7919 + Math.round(mean(values) * 1000));
+  const means: number[] = [];
+  for (let i = 0; i < iterations; i++) {
+    let sum = 0;
+    for (let j = 0; j < values.length; j++) {
+      sum += values[Math.floor(next() * values.length)];
+    }
+    means.push(sum / values.length);
+  }
+  means.sort((a, b) => a - b);
+  const tail = (1 - confidence) / 2;
+  return {
+    lower: round2(means[Math.floor(tail * (iterations - 1))]),
+    upper: round2(means[Math.ceil((1 - tail) * (iterations - 1))]),
+  };
+}
+
+/** Exact two-sided binomial test of wins against losses at p = 0.5 */
+export function signTest(wins: number, losses: number): number | null {
+  const n = wins + losses;
+  if (n === 0) return null;
+  const k = Math.min(wins, losses);
+  // P(X <= k) for X ~ Binomial(n, 0.5), built up term by term
+  let term = Math.pow(0.5, n);
+  let tail = term;
+  for (let i = 1; i <= k; i++) {
+    term = (term * (n - i + 1)) / i;
+    tail += term;
+  }
+  return Math.min(1, 2 * tail);
+}
+
+// ============== Comparisons ==============
+
+/**
+ * Model - baseline overall score for each matter that scored both. The
+ * baseline is looked up per matter, so it can be each matter's own control.
+ */
+export function pairedDifferences(
+  matters: Matter[],
+  modelId: string,
+  baselineOf: (matter: Matter) => string | undefined
+): number[] {
+  return matters.flatMap((matter) => {
+    const baselineId = baselineOf(matter);
+    if (!baselineId || baselineId === modelId) return [];
+    const model = matter.qualityScores[modelId];
+    const baseline = matter.qualityScores[baselineId];
+    return model && baseline ? [model.overallScore - baseline.overallScore] : [];
+  });
+}
+
+export function compareWithBaseline(
+  differences: number[],
+  modelId: string,
+  baselineId: string,
+  confidence: ConfidenceLevel
+): PairedComparison {
+  const wins = differences.filter((d) => d > 0).length;
+  const losses = differences.filter((d) => d < 0).length;
+  const ci = bootstrapMeanCI(differences, confidence);
+  const signTestP = signTest(wins, losses);
+  return {
+    modelId,
+    baselineId,
+    pairs: differences.length,
+    meanDiff: differences.length > 0 ? round2(mean(differences)) : 0,
+    sdDiff: round2(standardDeviation(differences)),
+    ci,
+    confidence,
+    wins,
+    losses,
+    ties: differences.length - wins - losses,
+    signTestP,
+    better: !!ci && ci.lower > 0 && signTestP !== null && signTestP < 1 - confidence,
+    nonInferior: !!ci && ci.lower > -NON_INFERIORITY_MARGIN,
+  };
+}
+
+/**
+ * Roughly how many more matters until the comparison is settled, if the
+ * current mean difference, spread and win rate hold: for 'better', until the
+ * interval clears 0 and the sign test passes; for 'nonInferior', until the
+ * interval rules out a drop of NON_INFERIORITY_MARGIN. Null when the
+ * current numbers point the wrong way - more matters like these never get there.
+ */
+export function additionalMattersNeeded(
+  comparison: PairedComparison,
+  goal: 'better' | 'nonInferior'
+): number | null {
+  const z = Z_SCORES[comparison.confidence];
+  const gap = comparison.meanDiff + (goal === 'nonInferior' ? NON_INFERIORITY_MARGIN : 0);
+  if (gap <= 0) return null;
+  // With no spread yet (e.g. identical differences), assume a modest one rather than claiming 0
+  const sd = comparison.sdDiff > 0 ? comparison.sdDiff : gap;
+  let needed = Math.ceil((z * sd / gap) ** 2);
+
+  if (goal === 'better') {
+    const decided = comparison.wins + comparison.losses;
+    const winRate = decided > 0 ? comparison.wins / decided : 0;
+    if (winRate <= 0.5) return null;
+    // Normal approximation to the sign test, scaled up for matters that tie
+    const decisive = decided / Math.max(1, comparison.pairs);
+    needed = Math.max(needed, Math.ceil((z * 0.5 / (winRate - 0.5)) ** 2 / Math.max(decisive, 0.1)));
+  }
+
+  return Math.max(0, Math.max(needed, MIN_PAIRS) - comparison.pairs);
+}
+
+export function formatConfidence(confidence: ConfidenceLevel): string {
+  return `${Math.round(confidence * 100)}%`;
+}
+
+export function formatInterval(ci: ConfidenceInterval): string {
+  const sign = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(1)}`;
+  return `${sign(ci.lower)} to ${sign(ci.upper)}`;
+}
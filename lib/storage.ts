@@ -1,51 +1,307 @@
 /**
- * Local Storage for Matters
- * 
- * Persists matter data to localStorage for the prototype.
- * In production, this would be a database.
+ * Matter Storage
+ *
+ * Client-side access to the server matter store (/api/matters, backed by SQLite).
+ * Saves are queued per matter so rapid updates land in order and only the
+ * latest version is sent. Also reads and edits the per-summary-type rubrics
+ * and the model registry.
  */
 
-import { Matter } from './types';
+import { Matter, ModelConfig, Rubric, SummaryType } from './types';
+import { debugLogger } from './debug-logger';
 
-const STORAGE_KEY = 'summary-analyzer-matters';
+// Legacy key from the localStorage prototype - migrated once on load
+const LEGACY_STORAGE_KEY = 'summary-analyzer-matters';
 
-export function getMatters(): Matter[] {
-  if (typeof window === 'undefined') return [];
-  
+export async function readError(response: Response): Promise<string> {
   try {
-    const data = localStorage.getItem(STORAGE_KEY);
-    return data ? JSON.parse(data) : [];
+    const data = await response.json();
+    return data.error || `HTTP ${response.status}`;
   } catch {
-    return [];
+    return `HTTP ${response.status}`;
   }
 }
 
-export function getMatter(id: string): Matter | null {
-  const matters = getMatters();
-  return matters.find(m => m.id === id) || null;
+export async function getMattersWithStats(): Promise<{ matters: Matter[]; storageBytes: number }> {
+  try {
+    const response = await fetch('/api/matters', { cache: 'no-store' });
+    if (!response.ok) {
+      debugLogger.error('❌ Failed to load matters', { error: await readError(response) }, 'storage');
+      return { matters: [], storageBytes: 0 };
+    }
+    return await response.json();
+  } catch (error) {
+    debugLogger.error('❌ Failed to load matters', { error }, 'storage');
+    return { matters: [], storageBytes: 0 };
+  }
 }
 
-export function saveMatter(matter: Matter): void {
-  const matters = getMatters();
-  const index = matters.findIndex(m => m.id === matter.id);
-  
-  if (index >= 0) {
-    matters[index] = matter;
-  } else {
-    matters.unshift(matter);
+export async function getMatters(): Promise<Matter[]> {
+  const { matters } = await getMattersWithStats();
+  return matters;
+}
+
+export async function getMatter(id: string): Promise<Matter | null> {
+  try {
+    const response = await fetch(`/api/matters/${encodeURIComponent(id)}`, { cache: 'no-store' });
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      debugLogger.error(`❌ Failed to load matter ${id}`, { error: await readError(response) }, 'storage');
+      return null;
+    }
+    const data = await response.json();
+    return data.matter as Matter;
+  } catch (error) {
+    debugLogger.error(`❌ Failed to load matter ${id}`, { error }, 'storage');
+    return null;
   }
-  
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(matters));
 }
 
-export function deleteMatter(id: string): void {
-  const matters = getMatters().filter(m => m.id !== id);
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(matters));
+// Latest unsent version (with the callers waiting on it) and the tail of the save chain, per matter
+interface PendingSave {
+  matter: Matter;
+  waiters: ((saved: boolean) => void)[];
 }
+const pendingSaves = new Map<string, PendingSave>();
+const saveChains = new Map<string, Promise<void>>();
 
-export function createMatterId(): string {
-  return `matter_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+async function sendMatter(matter: Matter): Promise<boolean> {
+  try {
+    const response = await fetch(`/api/matters/${encodeURIComponent(matter.id)}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(matter),
+    });
+    if (!response.ok) {
+      debugLogger.error(`❌ Failed to save matter ${matter.id}`, { error: await readError(response) }, 'storage');
+      return false;
+    }
+    return true;
+  } catch (error) {
+    debugLogger.error(`❌ Failed to save matter ${matter.id}`, { error }, 'storage');
+    return false;
+  }
+}
+
+async function flushMatter(id: string): Promise<void> {
+  const pending = pendingSaves.get(id);
+  if (!pending) return; // Deleted before its turn came
+  pendingSaves.delete(id);
+  const saved = await sendMatter(pending.matter);
+  pending.waiters.forEach(resolve => resolve(saved));
+}
+
+/**
+ * Save a matter. Safe to call fire-and-forget (e.g. inside state updaters);
+ * await the result when the caller needs to know the write landed. Saves
+ * made while an earlier one is queued are sent together as the latest
+ * version, and each caller gets the outcome of the request that sent theirs.
+ */
+export function saveMatter(matter: Matter): Promise<boolean> {
+  return new Promise(resolve => {
+    const queued = pendingSaves.get(matter.id);
+    if (queued) {
+      // Its flush hasn't started yet, so it will send this version
+      queued.matter = matter;
+      queued.waiters.push(resolve);
+      return;
+    }
+    pendingSaves.set(matter.id, { matter, waiters: [resolve] });
+
+    const previous = saveChains.get(matter.id) || Promise.resolve();
+    const next = previous.then(() => flushMatter(matter.id));
+    saveChains.set(matter.id, next);
+    next.finally(() => {
+      if (saveChains.get(matter.id) === next) saveChains.delete(matter.id);
+    });
+  });
+}
+
+export async function deleteMatter(id: string): Promise<boolean> {
+  // Unsent saves are dropped - their callers learn they never landed
+  pendingSaves.get(id)?.waiters.forEach(resolve => resolve(false));
+  pendingSaves.delete(id);
+  try {
+    const response = await fetch(`/api/matters/${encodeURIComponent(id)}`, { method: 'DELETE' });
+    if (!response.ok) {
+      debugLogger.error(`❌ Failed to delete matter ${id}`, { error: await readError(response) }, 'storage');
+      return false;
+    }
+    return true;
+  } catch (error) {
+    debugLogger.error(`❌ Failed to delete matter ${id}`, { error }, 'storage');
+    return false;
+  }
+}
+
+// ============== Export / Import ==============
+
+/** Download URL for one matter's export file */
+export function getMatterExportUrl(id: string): string {
+  return `/api/matters/${encodeURIComponent(id)}/export`;
+}
+
+/** Download URL for a bundle of matters (all of them when no ids are given) */
+export function getBundleExportUrl(ids?: string[]): string {
+  return ids?.length
+    ? `/api/matters/export?ids=${ids.map(encodeURIComponent).join(',')}`
+    : '/api/matters/export';
+}
+
+export interface ImportResult {
+  imported: { id: string; name: string }[];
+  skipped: { id: string; name: string; reason: string }[];
+  error?: string;
 }
 
+/** Import an export file. Older schema versions are migrated by the server. */
+export async function importMatters(file: File, overwrite = false): Promise<ImportResult> {
+  try {
+    const response = await fetch(`/api/matters/import${overwrite ? '?overwrite=true' : ''}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: await file.text(),
+    });
+    if (!response.ok) {
+      const error = await readError(response);
+      debugLogger.error('❌ Failed to import matters', { error, filename: file.name }, 'storage');
+      return { imported: [], skipped: [], error };
+    }
+    return await response.json();
+  } catch (error) {
+    debugLogger.error('❌ Failed to import matters', { error, filename: file.name }, 'storage');
+    return { imported: [], skipped: [], error: error instanceof Error ? error.message : 'Import failed' };
+  }
+}
 
+// ============== Rubrics ==============
 
+/** The current rubric for every summary type, or null when they can't be loaded */
+export async function getRubrics(): Promise<Record<SummaryType, Rubric> | null> {
+  try {
+    const response = await fetch('/api/rubrics', { cache: 'no-store' });
+    if (!response.ok) {
+      debugLogger.error('❌ Failed to load rubrics', { error: await readError(response) }, 'storage');
+      return null;
+    }
+    const data = await response.json();
+    return data.rubrics;
+  } catch (error) {
+    debugLogger.error('❌ Failed to load rubrics', { error }, 'storage');
+    return null;
+  }
+}
+
+/** Save an edited rubric - returns the saved rubric or the server's error */
+export async function saveRubric(rubric: Rubric): Promise<{ rubric?: Rubric; error?: string }> {
+  try {
+    const response = await fetch(`/api/rubrics/${encodeURIComponent(rubric.summaryType)}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(rubric),
+    });
+    if (!response.ok) return { error: await readError(response) };
+    return await response.json();
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Save failed' };
+  }
+}
+
+/** Go back to the built-in rubric for a summary type */
+export async function resetRubric(summaryType: SummaryType): Promise<Rubric | null> {
+  try {
+    const response = await fetch(`/api/rubrics/${encodeURIComponent(summaryType)}`, { method: 'DELETE' });
+    if (!response.ok) {
+      debugLogger.error(`❌ Failed to reset rubric ${summaryType}`, { error: await readError(response) }, 'storage');
+      return null;
+    }
+    const data = await response.json();
+    return data.rubric;
+  } catch (error) {
+    debugLogger.error(`❌ Failed to reset rubric ${summaryType}`, { error }, 'storage');
+    return null;
+  }
+}
+
+// ============== Models ==============
+
+// Model ids are provider/model - keep the slash as a path separator
+function modelUrl(modelId: string): string {
+  return `/api/models/${modelId.split('/').map(encodeURIComponent).join('/')}`;
+}
+
+/** The model registry, or null when it can't be loaded */
+export async function getModels(): Promise<ModelConfig[] | null> {
+  try {
+    const response = await fetch('/api/models', { cache: 'no-store' });
+    if (!response.ok) {
+      debugLogger.error('❌ Failed to load models', { error: await readError(response) }, 'storage');
+      return null;
+    }
+    const data = await response.json();
+    return data.models;
+  } catch (error) {
+    debugLogger.error('❌ Failed to load models', { error }, 'storage');
+    return null;
+  }
+}
+
+/** Add a model (`isNew`) or save changes to one - returns the saved model or the server's error */
+export async function saveModel(model: ModelConfig, isNew = false): Promise<{ model?: ModelConfig; error?: string }> {
+  try {
+    const response = await fetch(isNew ? '/api/models' : modelUrl(model.id), {
+      method: isNew ? 'POST' : 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(model),
+    });
+    if (!response.ok) return { error: await readError(response) };
+    return await response.json();
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Save failed' };
+  }
+}
+
+/** Undo edits to a built-in model, or remove one that was added */
+export async function resetModel(modelId: string): Promise<boolean> {
+  try {
+    const response = await fetch(modelUrl(modelId), { method: 'DELETE' });
+    if (!response.ok) {
+      debugLogger.error(`❌ Failed to reset model ${modelId}`, { error: await readError(response) }, 'storage');
+      return false;
+    }
+    return true;
+  } catch (error) {
+    debugLogger.error(`❌ Failed to reset model ${modelId}`, { error }, 'storage');
+    return false;
+  }
+}
+
+/**
+ * One-time move of matters left in localStorage by older versions of the app.
+ * Returns how many were migrated; the legacy key is removed once all succeed.
+ */
+export async function migrateLocalMatters(): Promise<number> {
+  if (typeof window === 'undefined') return 0;
+
+  let legacy: Matter[] = [];
+  try {
+    const data = localStorage.getItem(LEGACY_STORAGE_KEY);
+    legacy = data ? JSON.parse(data) : [];
+  } catch {
+    return 0;
+  }
+  if (legacy.length === 0) return 0;
+
+  debugLogger.info(`📦 Migrating ${legacy.length} matter(s) from localStorage`, {}, 'storage');
+  const results = await Promise.all(legacy.map(m => saveMatter(m)));
+  const migrated = results.filter(Boolean).length;
+
+  if (migrated === legacy.length) {
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+  }
+  return migrated;
+}
+
+export function createMatterId(): string {
+  return `matter_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
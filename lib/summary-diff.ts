@@ -0,0 +1,317 @@
+/**
+ * Summary Diff
+ *
+ * Lines two summaries up side by side for review. Sections are matched by
+ * heading; each statement in them (a bullet, table row or sentence) is
+ * marked when the other summary says nothing like it, and each page:line
+ * citation when the other summary never cites those lines. A judge's
+ * specific errors are pinned to the statement their excerpt quotes, so a
+ * reviewer can see what one model got wrong that the other got right.
+ * Safe to use on client and server.
+ */
+
+import { SpecificError } from './types';
+import { keyWords, parseCitations, ParsedCitation } from './citations';
+
+const SHARED_WORD_SHARE = 0.6;      // Share of a statement's key words the other summary must repeat
+const MIN_STATEMENT_WORDS = 3;      // Shorter statements ("Yes.") are never marked unique
+const HEADING_MATCH = 0.5;          // Word overlap for headings that aren't worded identically
+const MAX_HEADING_CHARS = 80;
+const EXCERPT_MATCH = 0.7;          // Share of an error excerpt's key words a statement must contain
+
+export interface DiffCitation {
+  text: string;
+  shared: boolean;              // The other summary cites overlapping lines
+}
+
+export interface DiffStatement {
+  text: string;
+  shared: boolean;              // The other summary makes much the same statement
+  citations: DiffCitation[];
+  errors: number[];             // Indexes into the summary's specificErrors
+}
+
+export interface DiffSection {
+  heading: string;              // As written; '' for text before the first heading
+  statements: DiffStatement[];
+}
+
+export interface DiffRow {
+  heading: string;
+  left?: DiffSection;
+  right?: DiffSection;
+}
+
+export interface DiffSide {
+  statements: number;
+  unique: number;               // Statements the other summary doesn't make
+  citations: number;
+  uniqueCitations: number;      // Citations to lines the other summary never cites
+  unplacedErrors: number[];     // Errors whose excerpt no statement quotes
+}
+
+export interface SummaryDiff {
+  rows: DiffRow[];
+  left: DiffSide;
+  right: DiffSide;
+}
+
+export interface DiffInput {
+  content: string;
+  errors?: SpecificError[];
+}
+
+// ============== Parsing ==============
+
+interface ParsedSection {
+  heading: string;
+  key: string;
+  statements: { text: string; words: Set<string>; citations: ParsedCitation[] }[];
+}
+
+/** "## 3. Medical History:" -> "medical history" */
+function headingKey(heading: string): string {
+  return heading
+    .toLowerCase()
+    .replace(/^(?:[ivxlc]+|[a-z]|\d+)[.)]\s+/, '')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function headingOf(line: string): string | null {
+  const markdown = line.match(/^#{1,6}\s+(.+?)\s*#*$/);
+  if (markdown) return markdown[1].replace(/\*\*|__/g, '').trim();
+  const bold = line.match(/^(?:\*\*|__)([^*_]+?)(?:\*\*|__):?$/);
+  if (bold && bold[1].length <= MAX_HEADING_CHARS) return bold[1].trim();
+  // "SUMMARY OF TESTIMONY" - capitals only, no sentence punctuation
+  if (line.length <= MAX_HEADING_CHARS && /[A-Z]{2}/.test(line) && !/[a-z]/.test(line) && !/[.;]$/.test(line)) {
+    return line.replace(/:$/, '').trim();
+  }
+  return null;
+}
+
+function plainText(text: string): string {
+  return text.replace(/\*\*|__|`/g, '').replace(/\s+/g, ' ').trim();
+}
+
+/** Bullets, numbered items and table rows are one statement each; prose is split into sentences */
+function statementsOf(line: string): string[] {
+  if (/^\|?[\s:|-]+\|?$/.test(line)) return [];
+  if (line.startsWith('|')) {
+    const cells = line.split('|').map(cell => plainText(cell)).filter(Boolean);
+    return cells.length > 0 ? [cells.join(' | ')] : [];
+  }
+  const item = line.match(/^(?:[-*•+]|\d+[.)]|[a-z][.)])\s+(.+)$/i);
+  if (item) return [plainText(item[1])];
+
+  // A citation after the full stop ("... Main Street. (5:12)") belongs to the sentence before
+  const sentences: string[] = [];
+  for (const sentence of line.split(/(?<=[.!?])\s+(?=[A-Z"“(])/).map(plainText).filter(Boolean)) {
+    if (sentences.length > 0 && !/[a-z]{3}/i.test(withoutCitations(sentence))) {
+      sentences[sentences.length - 1] += ` ${sentence}`;
+    } else {
+      sentences.push(sentence);
+    }
+  }
+  return sentences;
+}
+
+function withoutCitations(text: string): string {
+  const citations = parseCitations(text);
+  let rest = text;
+  for (const citation of [...citations].reverse()) {
+    rest = rest.slice(0, citation.index) + rest.slice(citation.index + citation.text.length);
+  }
+  return rest;
+}
+
+function parseSummary(content: string): ParsedSection[] {
+  const sections: ParsedSection[] = [{ heading: '', key: '', statements: [] }];
+  for (const raw of content.split('\n')) {
+    const line = raw.trim();
+    if (!line || /^[-*_=]{3,}$/.test(line)) continue;
+
+    const heading = headingOf(line);
+    if (heading) {
+      sections.push({ heading, key: headingKey(heading), statements: [] });
+      continue;
+    }
+    for (const text of statementsOf(line)) {
+      sections[sections.length - 1].statements.push({
+        text,
+        words: keyWords(withoutCitations(text)),
+        citations: parseCitations(text),
+      });
+    }
+  }
+  return sections.filter(section => section.heading || section.statements.length > 0);
+}
+
+// ============== Alignment ==============
+
+function overlap(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0) return 0;
+  let shared = 0;
+  for (const word of a) if (b.has(word)) shared++;
+  return shared / a.size;
+}
+
+/**
+ * Pair each left section with a right one - identical headings first, then
+ * the closest wording - keeping each right section to one pair.
+ */
+function matchSections(left: ParsedSection[], right: ParsedSection[]): (number | undefined)[] {
+  const matches: (number | undefined)[] = left.map(() => undefined);
+  const taken = new Set<number>();
+
+  left.forEach((section, i) => {
+    const j = right.findIndex((other, k) => !taken.has(k) && other.key === section.key);
+    if (j !== -1) {
+      matches[i] = j;
+      taken.add(j);
+    }
+  });
+
+  left.forEach((section, i) => {
+    if (matches[i] !== undefined || !section.key) return;
+    const words = new Set(section.key.split(' '));
+    let best: number | undefined;
+    let bestScore = HEADING_MATCH;
+    right.forEach((other, k) => {
+      if (taken.has(k) || !other.key) return;
+      const otherWords = new Set(other.key.split(' '));
+      const score = Math.min(overlap(words, otherWords), overlap(otherWords, words));
+      if (score >= bestScore) {
+        best = k;
+        bestScore = score;
+      }
+    });
+    if (best !== undefined) {
+      matches[i] = best;
+      taken.add(best);
+    }
+  });
+
+  return matches;
+}
+
+/** Rows in the left summary's order, each right-only section placed after the one it follows */
+function alignRows(left: ParsedSection[], right: ParsedSection[]): { left?: number; right?: number }[] {
+  const matches = matchSections(left, right);
+  const rows: { left?: number; right?: number }[] = left.map((_, i) => ({ left: i, right: matches[i] }));
+
+  right.forEach((_, j) => {
+    if (matches.includes(j)) return;
+    let at = 0;
+    for (let k = j - 1; k >= 0; k--) {
+      const row = rows.findIndex(r => r.right === k);
+      if (row !== -1) {
+        at = row + 1;
+        break;
+      }
+    }
+    rows.splice(at, 0, { right: j });
+  });
+
+  return rows;
+}
+
+// ============== Comparison ==============
+
+/** Citations overlap when their line ranges do */
+function lineRange(citation: ParsedCitation): [number, number] {
+  return [citation.page * 1000 + citation.line, citation.endPage * 1000 + citation.endLine];
+}
+
+function excerptWords(error: SpecificError): Set<string> {
+  return keyWords(withoutCitations(error.summaryExcerpt).replace(/\.{3}|…/g, ' '));
+}
+
+/** The statement each error's excerpt quotes - verbatim if possible, else by key words */
+function placeErrors(sections: ParsedSection[], errors: SpecificError[]): Map<string, number[]> {
+  const placed = new Map<string, number[]>();
+  const statements = sections.flatMap((section, i) => section.statements.map((statement, j) => ({ key: `${i}:${j}`, statement })));
+
+  errors.forEach((error, index) => {
+    const excerpt = plainText(error.summaryExcerpt).replace(/^["“]|["”]$/g, '').toLowerCase();
+    let target = excerpt.length >= 12
+      ? statements.find(s => s.statement.text.toLowerCase().includes(excerpt.slice(0, 60)))
+      : undefined;
+    if (!target) {
+      const words = excerptWords(error);
+      let bestScore = EXCERPT_MATCH;
+      for (const s of statements) {
+        const score = overlap(words, s.statement.words);
+        if (words.size >= MIN_STATEMENT_WORDS && score >= bestScore) {
+          target = s;
+          bestScore = score;
+        }
+      }
+    }
+    if (target) placed.set(target.key, [...(placed.get(target.key) || []), index]);
+  });
+
+  return placed;
+}
+
+function compareSide(
+  sections: ParsedSection[],
+  errors: SpecificError[],
+  other: ParsedSection[],
+  matched: (number | undefined)[]
+): { sections: DiffSection[]; side: DiffSide } {
+  const otherStatements = other.flatMap(section => section.statements);
+  const otherRanges = otherStatements.flatMap(s => s.citations.map(lineRange));
+  const placed = placeErrors(sections, errors);
+  const side: DiffSide = { statements: 0, unique: 0, citations: 0, uniqueCitations: 0, unplacedErrors: [] };
+
+  const diffSections = sections.map((section, i) => {
+    // The matching section is the likeliest place for the same fact; anywhere else still counts
+    const nearby = matched[i] !== undefined ? other[matched[i]!].statements : [];
+    const statements = section.statements.map((statement, j) => {
+      const said = (candidates: typeof otherStatements) =>
+        candidates.some(c => overlap(statement.words, c.words) >= SHARED_WORD_SHARE);
+      const shared = statement.words.size < MIN_STATEMENT_WORDS || said(nearby) || said(otherStatements);
+      const citations = statement.citations.map(citation => {
+        const [from, to] = lineRange(citation);
+        return { text: citation.text.trim(), shared: otherRanges.some(([a, b]) => a <= to && b >= from) };
+      });
+
+      side.statements++;
+      if (!shared) side.unique++;
+      side.citations += citations.length;
+      side.uniqueCitations += citations.filter(c => !c.shared).length;
+      return { text: statement.text, shared, citations, errors: placed.get(`${i}:${j}`) || [] };
+    });
+    return { heading: section.heading, statements };
+  });
+
+  const placedErrors = new Set([...placed.values()].flat());
+  side.unplacedErrors = errors.map((_, index) => index).filter(index => !placedErrors.has(index));
+  return { sections: diffSections, side };
+}
+
+// ============== Entry Point ==============
+
+/** Align two summaries section by section and mark what each says that the other doesn't */
+export function diffSummaries(left: DiffInput, right: DiffInput): SummaryDiff {
+  const leftSections = parseSummary(left.content);
+  const rightSections = parseSummary(right.content);
+  const rows = alignRows(leftSections, rightSections);
+
+  const leftMatches = leftSections.map((_, i) => rows.find(r => r.left === i)?.right);
+  const rightMatches = rightSections.map((_, j) => rows.find(r => r.right === j)?.left);
+  const leftDiff = compareSide(leftSections, left.errors || [], rightSections, leftMatches);
+  const rightDiff = compareSide(rightSections, right.errors || [], leftSections, rightMatches);
+
+  return {
+    rows: rows.map(row => {
+      const leftSection = row.left !== undefined ? leftDiff.sections[row.left] : undefined;
+      const rightSection = row.right !== undefined ? rightDiff.sections[row.right] : undefined;
+      return { heading: leftSection?.heading || rightSection?.heading || '', left: leftSection, right: rightSection };
+    }),
+    left: leftDiff.side,
+    right: rightDiff.side,
+  };
+}
@@ -0,0 +1,313 @@
+/**
+ * Transcript Model
+ *
+ * Turns the extracted text of a deposition, hearing or trial transcript into
+ * pages and numbered lines, speaker turns (Q/A and colloquy), examinations
+ * and exhibit references. The result is stored on the source document, so
+ * the judge prompt, citation checks and the errors tab can all point at
+ * "page 37, line 12" instead of an offset in a flat string.
+ * Safe to use on client and server.
+ */
+
+import {
+  Matter,
+  SummaryType,
+  Transcript,
+  TranscriptExamination,
+  TranscriptExhibit,
+  TranscriptLine,
+  TranscriptLocation,
+  TranscriptTurn,
+  TRANSCRIPT_SUMMARY_TYPES,
+} from './types';
+
+export const MAX_LINES_PER_PAGE = 28;   // Depositions use 25; leave room for odd formats
+
+// ============== Lines ==============
+
+const PAGE_MARKER = /^\s*[-=[(]*\s*page\s*:?\s*(\d{1,4})(?:\s+of\s+\d+)?\s*[-=\])]*\s*$/i;
+const BARE_NUMBER = /^\s*(\d{1,4})\s*$/;
+const NUMBERED_LINE = /^\s*(?:line\s+)?(\d{1,2})[\s.:]+(\S.*)$/i;
+
+/**
+ * Split transcript text into pages and numbered lines. Understands explicit
+ * "Page 5" markers, bare page numbers, and line numbers restarting at 1 on a
+ * new page. Text without line numbers is skipped, so a source that isn't a
+ * transcript indexes to nothing.
+ */
+function parseLines(text: string): TranscriptLine[] {
+  const lines: TranscriptLine[] = [];
+  let page = 1;
+  let lastLine = 0;
+
+  const startPage = (next: number) => {
+    page = next;
+    lastLine = 0;
+  };
+
+  for (const raw of text.split(/\r?\n/)) {
+    if (!raw.trim()) continue;
+
+    const marker = raw.match(PAGE_MARKER);
+    if (marker) {
+      startPage(Number(marker[1]));
+      continue;
+    }
+
+    const bare = raw.match(BARE_NUMBER);
+    if (bare) {
+      const value = Number(bare[1]);
+      if (value === lastLine + 1 && value <= MAX_LINES_PER_PAGE) {
+        lines.push({ page, line: value, text: '' });  // Blank numbered line
+        lastLine = value;
+      } else if (value === page + 1 || (lines.length === 0 && value > 0)) {
+        startPage(value);
+      }
+      continue;
+    }
+
+    const numbered = raw.match(NUMBERED_LINE);
+    const lineNumber = numbered ? Number(numbered[1]) : 0;
+    if (numbered && lineNumber >= 1 && lineNumber <= MAX_LINES_PER_PAGE) {
+      // Line numbers starting over means a new page without a marker
+      if (lineNumber <= 2 && lastLine >= 10) {
+        startPage(page + 1);
+      }
+      lines.push({ page, line: lineNumber, text: numbered[2].trim() });
+      lastLine = lineNumber;
+    } else if (lastLine > 0) {
+      // Wrapped text belongs to the line above it
+      const previous = lines[lines.length - 1];
+      previous.text = `${previous.text} ${raw.trim()}`.trim();
+    }
+  }
+
+  return lines;
+}
+
+// ============== Speakers ==============
+
+const QUESTION_OR_ANSWER = /^(Q|A)(?:\.\s*|:\s*|\s{2,}|\s+(?=[A-Z"'(])|$)(.*)$/;
+const SPEAKER = /^((?:MR|MS|MRS|DR)\.\s+[A-Z][A-Za-z'-]+|THE (?:COURT|WITNESS|REPORTER|VIDEOGRAPHER|CLERK|BAILIFF|INTERPRETER|ARBITRATOR)|JUROR(?: NO\. \d+)?)\s*:\s*(.*)$/;
+const EXAMINATION = /^((?:FURTHER\s+)?(?:DIRECT|CROSS|REDIRECT|RECROSS|RE-DIRECT|RE-CROSS)[-\s]+EXAMINATION|EXAMINATION|VOIR DIRE(?:\s+EXAMINATION)?)\b/;
+const EXAMINER = /^BY\s+((?:MR|MS|MRS|DR)\.\s+[A-Z][A-Za-z'-]+)\s*:?\s*$/i;
+
+function titleCase(text: string): string {
+  return text.toLowerCase().replace(/(^|[\s-])([a-z])/g, (_, gap, letter) => gap + letter.toUpperCase());
+}
+
+function at(line: TranscriptLine): TranscriptLocation {
+  return { page: line.page, line: line.line };
+}
+
+/**
+ * Group lines into speaker turns and note each examination. Questions are
+ * credited to the examining attorney once a "BY MR. X:" line names one.
+ */
+function parseTurns(lines: TranscriptLine[]): { turns: TranscriptTurn[]; examinations: TranscriptExamination[] } {
+  const turns: TranscriptTurn[] = [];
+  const examinations: TranscriptExamination[] = [];
+  let current: TranscriptTurn | null = null;
+  let examiner: string | undefined;
+
+  for (const line of lines) {
+    const text = line.text;
+    if (!text) continue;
+
+    const examination = text.match(EXAMINATION);
+    if (examination && text === text.toUpperCase()) {
+      examinations.push({ label: titleCase(examination[1].replace(/\s+/g, ' ')), start: at(line) });
+      current = null;
+      continue;
+    }
+
+    const by = text.match(EXAMINER);
+    if (by) {
+      examiner = by[1].toUpperCase();
+      const last = examinations[examinations.length - 1];
+      if (last && !last.examiner) last.examiner = examiner;
+      else examinations.push({ label: 'Examination', examiner, start: at(line) });
+      current = null;
+      continue;
+    }
+
+    const qa = text.match(QUESTION_OR_ANSWER);
+    const speaker = qa ? null : text.match(SPEAKER);
+    if (qa) {
+      const isQuestion = qa[1] === 'Q';
+      current = {
+        kind: isQuestion ? 'question' : 'answer',
+        speaker: isQuestion ? examiner || 'EXAMINER' : 'THE WITNESS',
+        start: at(line),
+        end: at(line),
+      };
+      turns.push(current);
+    } else if (speaker) {
+      current = { kind: 'colloquy', speaker: speaker[1].replace(/\s+/g, ' '), start: at(line), end: at(line) };
+      turns.push(current);
+    } else if (text.startsWith('(')) {
+      current = null;   // Parentheticals like "(Exhibit 4 marked.)" end the turn
+    } else if (current) {
+      current.end = at(line);
+    }
+  }
+
+  return { turns, examinations };
+}
+
+// ============== Exhibits ==============
+
+const EXHIBIT = /\b((?:(?:Plaintiff|Defendant|Petitioner|Respondent|Claimant|Government|Joint|Defense|Deposition)(?:'s|s'|s)?\s+)?)Exhibits?\s+(?:No\.?\s*)?([A-Z]{1,3}-\d+|\d+[A-Z]?|[A-Z]{1,2})\b/gi;
+const MARKED = /\bmarked\b|\bidentification\b/i;
+
+/**
+ * Every exhibit reference, grouped by exhibit. A bare "Exhibit 12" counts
+ * toward "Plaintiff's Exhibit 12" when only one party has an exhibit 12.
+ */
+function parseExhibits(lines: TranscriptLine[]): TranscriptExhibit[] {
+  const mentions: { party: string; id: string; line: TranscriptLine }[] = [];
+  for (const line of lines) {
+    for (const match of line.text.matchAll(EXHIBIT)) {
+      mentions.push({ party: titleCase(match[1].trim()), id: match[2].toUpperCase(), line });
+    }
+  }
+
+  const parties = new Map<string, Set<string>>();
+  for (const { party, id } of mentions) {
+    if (party) parties.set(id, (parties.get(id) || new Set()).add(party));
+  }
+
+  const exhibits = new Map<string, TranscriptExhibit>();
+  for (const { party, id, line } of mentions) {
+    const owners = parties.get(id);
+    const owner = party || (owners?.size === 1 ? [...owners][0] : '');
+    const label = `${owner ? `${owner} ` : ''}Exhibit ${id}`;
+    const exhibit = exhibits.get(label) || { label, mentions: [] };
+    exhibit.mentions.push(at(line));
+    if (!exhibit.markedAt && MARKED.test(line.text)) exhibit.markedAt = at(line);
+    exhibits.set(label, exhibit);
+  }
+  return [...exhibits.values()].sort((a, b) => compare(a.mentions[0], b.mentions[0]));
+}
+
+// ============== Parsing ==============
+
+/** Parse transcript text into pages, lines, turns, examinations and exhibits */
+export function parseTranscript(text: string): Transcript {
+  const lines = parseLines(text);
+  const { turns, examinations } = parseTurns(lines);
+  return {
+    pageCount: new Set(lines.map(l => l.page)).size,
+    lines,
+    turns,
+    examinations,
+    exhibits: parseExhibits(lines),
+  };
+}
+
+export function isTranscriptType(summaryType: SummaryType): boolean {
+  return TRANSCRIPT_SUMMARY_TYPES.includes(summaryType);
+}
+
+/**
+ * The transcript to store with a source document - undefined for summary
+ * types that aren't transcripts, or text that has no numbered lines.
+ */
+export function sourceTranscript(summaryType: SummaryType, content: string | undefined): Transcript | undefined {
+  if (!content || !isTranscriptType(summaryType)) return undefined;
+  const transcript = parseTranscript(content);
+  return transcript.pageCount > 0 ? transcript : undefined;
+}
+
+/**
+ * One transcript for a matter's source documents, in order - e.g. the
+ * volumes of a multi-day trial. Volumes are expected to number their pages
+ * continuously; where two reuse a page number, lookups find the first.
+ */
+export function combineTranscripts(transcripts: Transcript[]): Transcript | undefined {
+  if (transcripts.length <= 1) return transcripts[0];
+  return {
+    pageCount: transcripts.reduce((sum, t) => sum + t.pageCount, 0),
+    lines: transcripts.flatMap(t => t.lines),
+    turns: transcripts.flatMap(t => t.turns),
+    examinations: transcripts.flatMap(t => t.examinations),
+    exhibits: transcripts.flatMap(t => t.exhibits),
+  };
+}
+
+/** The matter's transcript across all its source documents, if any of them is one */
+export function matterTranscript(matter: Pick<Matter, 'sourceDocuments'>): Transcript | undefined {
+  return combineTranscripts(matter.sourceDocuments.flatMap(doc => (doc.transcript ? [doc.transcript] : [])));
+}
+
+// ============== Lookup ==============
+
+export function findLine(transcript: Transcript, page: number, line: number): number {
+  return transcript.lines.findIndex(l => l.page === page && l.line === line);
+}
+
+/** The lines from start to end inclusive, or [] when either end isn't in the transcript */
+export function linesBetween(transcript: Transcript, start: TranscriptLocation, end: TranscriptLocation = start): TranscriptLine[] {
+  const from = findLine(transcript, start.page, start.line);
+  const to = findLine(transcript, end.page, end.line);
+  return from === -1 || to === -1 || to < from ? [] : transcript.lines.slice(from, to + 1);
+}
+
+function compare(a: TranscriptLocation, b: TranscriptLocation): number {
+  return a.page - b.page || a.line - b.line;
+}
+
+/** The speaker turn a line falls in */
+export function turnAt(transcript: Transcript, location: TranscriptLocation): TranscriptTurn | undefined {
+  return transcript.turns.find(t => compare(t.start, location) <= 0 && compare(location, t.end) <= 0);
+}
+
+export function formatLocation(location: TranscriptLocation, end?: TranscriptLocation): string {
+  if (!end || compare(location, end) === 0) return `${location.page}:${location.line}`;
+  return end.page === location.page
+    ? `${location.page}:${location.line}-${end.line}`
+    : `${location.page}:${location.line}-${end.page}:${end.line}`;
+}
+
+// ============== Judge Context ==============
+
+const MAX_INDEXED_EXHIBITS = 40;
+
+/**
+ * A short index of the transcript for the judge prompt: how to cite it, who
+ * examined the witness where, and where exhibits come up. `name` labels it
+ * when the matter has several source documents.
+ */
+export function formatTranscriptIndex(transcript: Transcript, name?: string): string {
+  const lastLine = transcript.lines[transcript.lines.length - 1];
+  const parts = [
+    `=== TRANSCRIPT INDEX${name ? `: ${name}` : ''} (parsed from the source below - use it to check page:line citations) ===`,
+    `- ${transcript.pageCount} pages, ${transcript.lines.length.toLocaleString()} numbered lines, ending at ${formatLocation(lastLine)}`,
+  ];
+
+  if (transcript.examinations.length > 0) {
+    parts.push('- Examinations:');
+    transcript.examinations.forEach((exam, i) => {
+      const next = transcript.examinations[i + 1];
+      const range = next ? `${formatLocation(exam.start)} to ${formatLocation(next.start)}` : `from ${formatLocation(exam.start)}`;
+      parts.push(`  - ${exam.label}${exam.examiner ? ` by ${exam.examiner}` : ''} (${range})`);
+    });
+  }
+
+  const questions = transcript.turns.filter(t => t.kind === 'question').length;
+  const answers = transcript.turns.filter(t => t.kind === 'answer').length;
+  if (questions + answers > 0) {
+    parts.push(`- ${questions.toLocaleString()} questions, ${answers.toLocaleString()} answers`);
+  }
+
+  if (transcript.exhibits.length > 0) {
+    const shown = transcript.exhibits.slice(0, MAX_INDEXED_EXHIBITS).map(e => {
+      const where = e.markedAt ? `marked ${formatLocation(e.markedAt)}` : `first ${formatLocation(e.mentions[0])}`;
+      return `${e.label} (${where}, ${e.mentions.length} mention${e.mentions.length === 1 ? '' : 's'})`;
+    });
+    const more = transcript.exhibits.length - shown.length;
+    parts.push(`- Exhibits: ${shown.join('; ')}${more > 0 ? `; and ${more} more` : ''}`);
+  }
+
+  return parts.join('\n');
+}
@@ -0,0 +1,179 @@
+/**
+ * Quality and Cost Trends
+ *
+ * Per-model scores, cost per page and latency over time, bucketed by week,
+ * and flags for when a model's recent runs shift away from its earlier ones -
+ * e.g. a provider update that quietly changed a model's quality or speed.
+ * Each completed summary is one observation, dated by when it was generated.
+ * Safe to use on client and server.
+ */
+
+import { Matter } from './types';
+import { getMatterRubric } from './rubrics';
+
+export const OVERALL_METRIC = 'overall';
+export const COST_PER_PAGE_METRIC = 'cost_per_page';
+export const LATENCY_METRIC = 'latency';
+
+const SHIFT_WINDOW = 5;             // Runs on each side of a candidate change point
+const SHIFT_Z = 3;                  // How far apart the two windows must be, in standard errors
+// ...and by at least this much, so a very consistent model doesn't flag a trivial change
+const MIN_SCORE_SHIFT = 5;          // Points
+const MIN_RELATIVE_SHIFT = 0.25;    // Share of the earlier average, for cost and latency
+
+export interface TrendMetricInfo {
+  id: string;                       // OVERALL_METRIC, a rubric category id, COST_PER_PAGE_METRIC or LATENCY_METRIC
+  name: string;
+  unit: 'points' | 'usd' | 'seconds';
+}
+
+export interface TrendObservation {
+  modelId: string;
+  matterId: string;
+  at: string;                       // When the summary was generated
+  week: string;                     // Monday of that week (UTC), YYYY-MM-DD
+  value: number;
+}
+
+export interface TrendBucket {
+  week: string;
+  values: Record<string, number>;   // Model id -> mean for the week
+  runs: Record<string, number>;
+}
+
+export interface TrendShift {
+  modelId: string;
+  metric: string;
+  week: string;                     // Week of the first run after the change
+  before: number;                   // Mean of the SHIFT_WINDOW runs before
+  after: number;                    // Mean of the SHIFT_WINDOW runs from there on
+  z: number;
+}
+
+// ============== Observations ==============
+
+/** Monday of the date's week, in UTC */
+export function weekStart(date: string): string {
+  const d = new Date(date);
+  const day = (d.getUTCDay() + 6) % 7;   // Monday = 0
+  d.setUTCDate(d.getUTCDate() - day);
+  return d.toISOString().slice(0, 10);
+}
+
+/** Pages across the matter's sources - null when extraction didn't report them */
+function sourcePages(matter: Matter): number | null {
+  const pages = matter.sourceDocuments.reduce(
+    (sum, doc) => sum + (doc.pageCount || doc.transcript?.pageCount || 0),
+    0
+  );
+  return pages > 0 ? pages : null;
+}
+
+/** The metrics the matters can be charted on: overall, each rubric category they use, cost and latency */
+export function trendMetrics(matters: Matter[]): TrendMetricInfo[] {
+  const categories = new Map<string, string>();
+  matters.forEach((matter) => {
+    getMatterRubric(matter).categories.forEach((c) => categories.has(c.id) || categories.set(c.id, c.name));
+  });
+  return [
+    { id: OVERALL_METRIC, name: 'Overall Score', unit: 'points' },
+    ...[...categories].map(([id, name]) => ({ id, name, unit: 'points' as const })),
+    { id: COST_PER_PAGE_METRIC, name: 'Cost per Page', unit: 'usd' },
+    { id: LATENCY_METRIC, name: 'Latency', unit: 'seconds' },
+  ];
+}
+
+function observe(matter: Matter, modelId: string, metric: string): number | null {
+  const summary = matter.summaries[modelId];
+  if (!summary || summary.status !== 'completed') return null;
+  if (metric === COST_PER_PAGE_METRIC) {
+    const pages = sourcePages(matter);
+    return pages && summary.costUsd > 0 ? summary.costUsd / pages : null;
+  }
+  if (metric === LATENCY_METRIC) {
+    return summary.elapsedTimeMs > 0 ? summary.elapsedTimeMs / 1000 : null;
+  }
+  const score = matter.qualityScores[modelId];
+  if (!score) return null;
+  return metric === OVERALL_METRIC ? score.overallScore : score.categoryScores[metric]?.score ?? null;
+}
+
+/** Every summary's value for the metric, oldest first */
+export function trendObservations(matters: Matter[], metric: string): TrendObservation[] {
+  const observations: TrendObservation[] = [];
+  matters.forEach((matter) => {
+    Object.keys(matter.summaries).forEach((modelId) => {
+      const value = observe(matter, modelId, metric);
+      if (value === null) return;
+      const at = matter.summaries[modelId].createdAt || matter.createdAt;
+      observations.push({ modelId, matterId: matter.id, at, week: weekStart(at), value });
+    });
+  });
+  return observations.sort((a, b) => a.at.localeCompare(b.at));
+}
+
+/** Weekly means per model, in week order */
+export function weeklyTrend(observations: TrendObservation[]): TrendBucket[] {
+  const buckets = new Map<string, { sums: Record<string, number>; runs: Record<string, number> }>();
+  observations.forEach(({ week, modelId, value }) => {
+    const bucket = buckets.get(week) || { sums: {}, runs: {} };
+    bucket.sums[modelId] = (bucket.sums[modelId] || 0) + value;
+    bucket.runs[modelId] = (bucket.runs[modelId] || 0) + 1;
+    buckets.set(week, bucket);
+  });
+  return [...buckets.keys()].sort().map((week) => {
+    const { sums, runs } = buckets.get(week)!;
+    return {
+      week,
+      values: Object.fromEntries(Object.keys(sums).map((id) => [id, sums[id] / runs[id]])),
+      runs,
+    };
+  });
+}
+
+// ============== Shift Detection ==============
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function variance(values: number[]): number {
+  const m = mean(values);
+  return values.reduce((sum, v) => sum + (v - m) ** 2, 0) / Math.max(1, values.length - 1);
+}
+
+/**
+ * For each model, the week boundary where the SHIFT_WINDOW runs after it
+ * differ most from the SHIFT_WINDOW runs before it - flagged when that gap is
+ * over SHIFT_Z standard errors and big enough to matter. One flag per model:
+ * the clearest change, not every boundary next to it.
+ */
+export function detectShifts(observations: TrendObservation[], metric: string): TrendShift[] {
+  const byModel = new Map<string, TrendObservation[]>();
+  observations.forEach((o) => byModel.set(o.modelId, [...(byModel.get(o.modelId) || []), o]));
+
+  const shifts: TrendShift[] = [];
+  byModel.forEach((runs, modelId) => {
+    let best: TrendShift | null = null;
+    for (let i = SHIFT_WINDOW; i + SHIFT_WINDOW <= runs.length; i++) {
+      // Only split between weeks - runs in one week belong together
+      if (runs[i].week === runs[i - 1].week) continue;
+      const before = runs.slice(i - SHIFT_WINDOW, i).map((r) => r.value);
+      const after = runs.slice(i, i + SHIFT_WINDOW).map((r) => r.value);
+      const meanBefore = mean(before);
+      const meanAfter = mean(after);
+      const change = Math.abs(meanAfter - meanBefore);
+      const minimum = metric === COST_PER_PAGE_METRIC || metric === LATENCY_METRIC
+        ? Math.abs(meanBefore) * MIN_RELATIVE_SHIFT
+        : MIN_SCORE_SHIFT;
+      if (change < minimum || change === 0) continue;
+      const standardError = Math.sqrt(variance(before) / before.length + variance(after) / after.length);
+      const z = standardError > 0 ? change / standardError : Infinity;
+      if (z >= SHIFT_Z && (!best || z > best.z)) {
+        best = { modelId, metric, week: runs[i].week, before: meanBefore, after: meanAfter, z };
+      }
+    }
+    if (best) shifts.push(best);
+  });
+  return shifts.sort((a, b) => a.week.localeCompare(b.week));
+}
@@ -0,0 +1,120 @@
+/**
+ * Repeated-Trial Statistics
+ *
+ * When a matter asks each judge to score every summary several times, the
+ * spread between those calls says how much of a score is noise. This turns
+ * trial scores into a standard deviation and confidence interval, and finds
+ * models whose intervals overlap - rankings between them aren't meaningful.
+ * Safe to use on client and server.
+ */
+
+import {
+  Matter,
+  QualityScore,
+  ScoreUncertainty,
+  JudgeTrialSettings,
+  DEFAULT_JUDGE_TRIALS,
+  MAX_JUDGE_TRIALS,
+} from './types';
+
+const CONFIDENCE = 0.95;
+
+// Two-sided 95% critical values of Student's t for 1-30 degrees of freedom
+const T_95 = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228,
+  2.201, 2.179, 2.160, 2.145, 2.131, 2.120, 2.110, 2.101, 2.093, 2.086,
+  2.080, 2.074, 2.069, 2.064, 2.060, 2.056, 2.052, 2.048, 2.045, 2.042,
+];
+const Z_95 = 1.96;
+
+// ============== Settings ==============
+
+export function getTrialSettings(matter: Pick<Matter, 'judgeTrials'>): JudgeTrialSettings {
+  const settings = { ...DEFAULT_JUDGE_TRIALS, ...matter.judgeTrials };
+  return {
+    ...settings,
+    trials: Math.min(MAX_JUDGE_TRIALS, Math.max(1, Math.round(settings.trials))),
+    temperature: Math.min(2, Math.max(0, settings.temperature)),
+  };
+}
+
+/** Seed for one trial - consecutive seeds so every trial samples differently */
+export function trialSeed(settings: JudgeTrialSettings, trial: number): number | undefined {
+  return settings.seed === undefined ? undefined : settings.seed + trial;
+}
+
+/** How many trials a judge's stored score is based on */
+export function trialCount(score: QualityScore): number {
+  return score.uncertainty?.scores.length || 1;
+}
+
+// ============== Statistics ==============
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Standard deviation and a 95% t-interval for the mean of `samples`,
+ * centred on `center` (the reported score, which an ensemble may compute
+ * as a median). Undefined with fewer than two samples.
+ */
+export function scoreUncertainty(samples: number[], center: number): ScoreUncertainty | undefined {
+  return pooledUncertainty([samples], center);
+}
+
+/**
+ * The same for a score averaged over several judges' trials: the trial
+ * variance is pooled within each judge, so judges disagreeing with each other
+ * isn't taken for trial noise, and the interval is for the mean of the judges'
+ * means. Undefined unless at least one judge ran repeated trials.
+ */
+export function pooledUncertainty(groups: number[][], center: number): ScoreUncertainty | undefined {
+  const degrees = groups.reduce((sum, g) => sum + Math.max(0, g.length - 1), 0);
+  if (degrees < 1) return undefined;
+
+  const squares = groups.reduce((sum, g) => {
+    const mean = g.reduce((total, v) => total + v, 0) / g.length;
+    return sum + g.reduce((total, v) => total + (v - mean) ** 2, 0);
+  }, 0);
+  const stdDev = Math.sqrt(squares / degrees);
+  const critical = T_95[degrees - 1] ?? Z_95;
+  const standardError = (stdDev * Math.sqrt(groups.reduce((sum, g) => sum + 1 / g.length, 0))) / groups.length;
+  const halfWidth = critical * standardError;
+
+  return {
+    scores: groups.flat(),
+    stdDev: round1(stdDev),
+    ciLow: round1(Math.max(0, center - halfWidth)),
+    ciHigh: round1(Math.min(100, center + halfWidth)),
+    confidence: CONFIDENCE,
+  };
+}
+
+/** The score's interval, or the bare score when it has no uncertainty */
+function interval(score: QualityScore): [number, number] {
+  return score.uncertainty
+    ? [score.uncertainty.ciLow, score.uncertainty.ciHigh]
+    : [score.overallScore, score.overallScore];
+}
+
+export function intervalsOverlap(a: QualityScore, b: QualityScore): boolean {
+  const [aLow, aHigh] = interval(a);
+  const [bLow, bHigh] = interval(b);
+  return aLow <= bHigh && bLow <= aHigh;
+}
+
+/**
+ * Models that are statistically tied with each model: their confidence
+ * intervals overlap. Only scores with an interval can tie - a single judge
+ * call has no measured noise to compare.
+ */
+export function findTies(scores: QualityScore[]): Record<string, string[]> {
+  const ties: Record<string, string[]> = {};
+  const measured = scores.filter(s => s.uncertainty);
+  for (const score of measured) {
+    const tied = measured.filter(other => other.model !== score.model && intervalsOverlap(score, other));
+    if (tied.length > 0) ties[score.model] = tied.map(t => t.model);
+  }
+  return ties;
+}
@@ -98,6 +98,17 @@ export const ALL_SUMMARY_TYPES: SummaryType[] = [
   'EXHIBIT_LIST',
 ];
 
+// Summary types whose source is a page/line transcript of testimony
+export const TRANSCRIPT_SUMMARY_TYPES: SummaryType[] = [
+  'DEPOSITION_ANALYSIS',
+  'DEPOSITION_SUMMARY_NARRATIVE_V2',
+  'DEPOSITION_SUMMARY_PAGELINE_V3',
+  'HEARING_SUMMARY_V2',
+  'TRIAL_SUMMARY_V2',
+  'TRIAL_DAILIES_V2',
+  'ARBITRATION_SUMMARY_V2',
+];
+
 export type MatterStatus =
   | 'created'
   | 'uploading'
@@ -118,6 +129,51 @@ export interface SourceDocument {
   pageCount?: number;       // From vault ingestion
   chunkCount?: number;      // From vault ingestion
   tokenEstimate?: number;   // Estimated tokens (~4 chars per token)
+  transcript?: Transcript;  // Page/line structure of a transcript source (see lib/transcript.ts)
+  pageOffsets?: number[];   // Where each PDF page starts in content, when the extractor reported pages
+}
+
+// ============== Transcripts ==============
+
+// A numbered transcript line - wrapped text is joined onto the line it continues
+export interface TranscriptLine {
+  page: number;
+  line: number;
+  text: string;                 // Without the line number
+}
+
+export interface TranscriptLocation {
+  page: number;
+  line: number;
+}
+
+// One speaker's turn: a question, an answer, or anyone else speaking on the record
+export interface TranscriptTurn {
+  kind: 'question' | 'answer' | 'colloquy';
+  speaker: string;              // "MR. SMITH", "THE WITNESS", "THE COURT"
+  start: TranscriptLocation;
+  end: TranscriptLocation;
+}
+
+// "DIRECT EXAMINATION" / "BY MR. SMITH:" - who asks the questions from here on
+export interface TranscriptExamination {
+  label: string;                // "Direct Examination"
+  examiner?: string;
+  start: TranscriptLocation;
+}
+
+export interface TranscriptExhibit {
+  label: string;                // "Exhibit 12", "Plaintiff's Exhibit A"
+  mentions: TranscriptLocation[];
+  markedAt?: TranscriptLocation;  // Where it was marked for identification
+}
+
+export interface Transcript {
+  pageCount: number;
+  lines: TranscriptLine[];      // In document order
+  turns: TranscriptTurn[];
+  examinations: TranscriptExamination[];
+  exhibits: TranscriptExhibit[];
 }
 
 export interface SummaryResult {
@@ -140,7 +196,7 @@ export interface SummaryResult {
 }
 
 export interface SpecificError {
-  type: 'factual' | 'citation' | 'omission' | 'hallucination' | 'misinterpretation';
+  type: 'factual' | 'citation' | 'omission' | 'hallucination' | 'misinterpretation' | 'transcript_error';
   severity: 'critical' | 'major' | 'minor';
   summaryExcerpt: string;       // The problematic text from the summary
   sourceReference?: string;     // Where in source document this relates to (e.g., "Page 5, Lines 12-15")
@@ -148,22 +204,93 @@ export interface SpecificError {
   correction?: string;          // What it should say (if applicable)
 }
 
+// A reviewer's ruling on an error or missing item a judge reported (see lib/adjudication.ts)
+export type AdjudicationVerdict = 'confirmed' | 'rejected' | 'downgraded';
+
+export interface FindingAdjudication {
+  modelId: string;
+  judgeId: string;                          // The judge that reported the finding
+  kind: 'error' | 'missing';
+  finding: string;                          // The error's summary excerpt, or the missing item, as reported
+  severity?: SpecificError['severity'];     // As reported (errors only)
+  verdict: AdjudicationVerdict;             // 'rejected' = the judge was wrong (a false positive)
+  adjustedSeverity?: SpecificError['severity'];  // What a downgraded error really is
+  note?: string;
+  reviewer: string;
+  adjudicatedAt: string;
+}
+
+// A reviewer's own grade of a summary, given blind (see lib/human-review.ts)
+export interface HumanRating {
+  modelId: string;
+  reviewer: string;
+  categoryScores: Record<string, number>;   // Rubric category id -> 0-100, same scale as the judge's
+  overallScore: number;                     // Weighted by the matter's rubric
+  comment?: string;
+  ratedAt: string;
+}
+
+export const ADJUDICATION_VERDICT_INFO: Record<AdjudicationVerdict, { label: string; description: string }> = {
+  confirmed: { label: 'Confirmed', description: 'The judge was right' },
+  rejected: { label: 'Rejected', description: 'Not actually an error - a judge false positive' },
+  downgraded: { label: 'Downgraded', description: 'A real error, but less severe than reported' },
+};
+
 export interface CategoryScore {
   score: number;
   rationale: string;            // Why this score was given
   examples?: string[];          // Specific examples supporting the score
 }
 
+// A problem found while validating the judge's JSON reply (see lib/judge-response.ts)
+// missing/invalid fail validation; defaulted/coerced were fixed up and kept
+export interface JudgeParseIssue {
+  path: string;                 // Field in the judge's JSON, e.g. "factual_accuracy.score"
+  kind: 'missing' | 'invalid' | 'defaulted' | 'coerced';
+  message: string;
+}
+
+// One page:line citation from a summary, checked against the source transcript (see lib/citations.ts)
+export interface CitationCheck {
+  citation: string;             // As written in the summary, e.g. "5:12-15"
+  page: number;
+  line: number;
+  endPage: number;
+  endLine: number;
+  claim: string;                // The summary text the citation supports
+  status: 'verified' | 'mismatch' | 'not_found' | 'unverifiable';
+  matchScore: number;           // 0-1: share of the claim's quotes or key words found near the cited lines
+  sourceExcerpt?: string;       // What the cited lines actually say
+}
+
+// Machine-computed citation accuracy - independent of the judge's self-reported numbers
+export interface CitationVerificationResult {
+  checkedAt: string;
+  transcriptPages: number;      // Pages indexed from the source (0 = not a page:line transcript)
+  totalCitations: number;
+  verified: number;
+  mismatched: number;
+  notFound: number;             // Cited page/line doesn't exist in the source
+  unverifiable: number;         // Too little summary text around the citation to compare
+  accuracy: number | null;      // 0-100 of the checkable citations; null when none could be checked
+  checks: CitationCheck[];
+}
+
+// How a test summary compares to the control (schema v1 stored this as a plain string)
+export interface ControlComparison {
+  summary: string;                  // Brief summary of how test compares to control
+  testBetterThanControl: string[];  // Areas where test is MORE accurate than control
+  testWorseThanControl: string[];   // Areas where control is more accurate than test
+  testIncludesControlMissing: string[]; // Items test captured that control missed
+  controlIncludesTestMissing: string[]; // Items control has that test missed
+  transcriptComparison?: string;    // How appended transcripts compare
+}
+
 export interface QualityScore {
   model: string;
-  // Detailed category scores with rationale
-  factualAccuracy: CategoryScore;
-  pageLineAccuracy: CategoryScore;
-  appendedTranscriptAccuracy?: CategoryScore;  // NEW: Accuracy of appended transcript
-  relevance: CategoryScore;
-  comprehensiveness: CategoryScore;
-  legalUtility: CategoryScore;
-  overallScore: number;               // Standalone quality score (0-100)
+  // Detailed category scores with rationale, keyed by rubric category id (e.g. "factual_accuracy")
+  categoryScores: Record<string, CategoryScore>;
+  overallScore: number;               // Weighted sum of the category scores (0-100), computed locally from the rubric
   // Lists
   strengths: string[];
   weaknesses: string[];
@@ -177,22 +304,23 @@ export interface QualityScore {
     unverifiableCitations: number;
     citationErrors: string[];
   };
+  // Citations checked locally against the source transcript (not judge output)
+  citationCheck?: CitationVerificationResult;
   // Missing items from SOURCE that should have been included
   missingItems: string[];
   // Control comparison fields (reference comparison, NOT for scoring)
-  controlComparison?: {
-    summary: string;                  // Brief summary of how test compares to control
-    testBetterThanControl: string[];  // Areas where test is MORE accurate than control
-    testWorseThanControl: string[];   // Areas where control is more accurate than test
-    testIncludesControlMissing: string[]; // Items test captured that control missed
-    controlIncludesTestMissing: string[]; // Items control has that test missed
-    transcriptComparison?: string;    // How appended transcripts compare
-  } | string;  // Allow string for backwards compatibility
-  missingFromTest?: string[];      // Deprecated - use controlComparison
-  extraInTest?: string[];          // Deprecated - use controlComparison
+  controlComparison?: ControlComparison;
   // General analysis
   analysisNotes: string;
   recommendation: string;          // Summary recommendation for this model
+  // Fields the parser had to default or coerce in the judge's reply
+  parseIssues?: JudgeParseIssue[];
+  // Set on a matter's score when several judges were combined (see lib/ensemble.ts)
+  ensemble?: EnsembleScore;
+  // Spread of the overall score across repeated trials (and judges) - see lib/trials.ts
+  uncertainty?: ScoreUncertainty;
+  // Set when the source was verified in page ranges and scored from the merged findings (see lib/chunking.ts)
+  chunking?: ChunkedJudgement;
   // Cost tracking
   costUsd: number;
   costEffectiveness: number;
@@ -202,6 +330,83 @@ export interface QualityScore {
   costSavingsPercent?: number;     // Cost savings vs control (positive = cheaper)
 }
 
+// What one page range of the source showed about a summary, from the map step of chunked judging
+export interface ChunkFindings {
+  label: string;                // "Pages 1-80", or "Part 2 of 5" when page numbers aren't known
+  startPage?: number;
+  endPage?: number;
+  claimsChecked: number;        // Summary claims about these pages
+  claimsSupported: number;
+  specificErrors: SpecificError[];
+  citationVerification?: QualityScore['citationVerification'];
+  missingItems: string[];
+  notes: string;
+}
+
+// How a chunked score was put together - the merged errors, missing items
+// and citation totals are on the QualityScore itself
+export interface ChunkedJudgement {
+  chunks: (Omit<ChunkFindings, 'specificErrors' | 'citationVerification' | 'missingItems'> & { errorCount: number })[];
+  claimsChecked: number;
+  claimsSupported: number;
+  sourceTokens: number;         // Estimated size of the whole source
+}
+
+// How much a summary's overall score moved between judge calls
+export interface ScoreUncertainty {
+  scores: number[];         // Overall score from every trial (across every judge for a combined score)
+  stdDev: number;           // Sample standard deviation
+  ciLow: number;            // Confidence interval around overallScore
+  ciHigh: number;
+  confidence: number;       // e.g. 0.95
+  trialCategoryScores?: Record<string, number>[];  // One judge's category scores per trial - lets a reweighted rubric recompute `scores`
+}
+
+// Evaluation rubric for a summary type (see lib/rubrics.ts). The judge
+// prompt is generated from it and the overall score is its weighted sum.
+export interface RubricAnchor {
+  score: number;                // 0-100
+  description: string;          // What a summary at this score looks like
+}
+
+export interface RubricCategory {
+  id: string;                   // snake_case key in the judge's JSON, e.g. "date_accuracy"
+  name: string;
+  description: string;          // What the judge should check
+  weight: number;               // Relative weight - shares are weight / sum of weights
+  anchors: RubricAnchor[];
+}
+
+export interface Rubric {
+  summaryType: SummaryType;
+  categories: RubricCategory[];
+  updatedAt?: string;           // Set once edited - absent on the built-in default
+}
+
+// Head-to-head judging: a rubric category id, or 'overall'
+export type PairwiseCategory = string;
+
+export type PairwiseVerdict = 'A' | 'B' | 'tie';
+
+// One judge call comparing two summaries. Each pair is compared twice with
+// the order swapped, so a judge that favours whichever summary comes first cancels out.
+export interface PairwiseComparison {
+  judge: string;          // Judge model id
+  first: string;          // Model shown as Summary A
+  second: string;         // Model shown as Summary B
+  verdicts: Record<PairwiseCategory, { winner: PairwiseVerdict; reason: string }>;
+  costUsd: number;
+  comparedAt: string;
+}
+
+// How the judges' scores for one summary were combined
+export interface EnsembleScore {
+  aggregation: ScoreAggregation;
+  judges: string[];                       // Judge model ids that scored this summary, primary first
+  overallByJudge: Record<string, number>; // Each judge's overall score
+  spread: number;                         // Highest minus lowest overall score
+}
+
 // Control summary from production CaseMark
 export interface ControlSummary {
   content: string;                    // The extracted/pasted text content
@@ -216,7 +421,7 @@ export interface ControlSummary {
 
 // Uploaded test summary PDF
 export interface UploadedTestSummary {
-  modelId: string;                    // Which model generated this (from TEST_MODELS)
+  modelId: string;                    // Which model generated this (from the matter's models)
   modelName: string;                  // Human readable model name
   filename: string;                   // Original PDF filename
   fileSize: number;                   // File size in bytes
@@ -225,6 +430,18 @@ export interface UploadedTestSummary {
   notes?: string;                     // Any notes
 }
 
+// Pipeline steps that record a checkpoint when they finish (see lib/pipeline.ts)
+// vault runs once per matter; upload/extract once per source document; workflow/download/judge once per model
+export type CheckpointStep = 'vault' | 'upload' | 'extract' | 'workflow' | 'download' | 'judge';
+
+export interface ProcessingCheckpoint {
+  step: CheckpointStep;
+  modelId?: string;
+  documentId?: string;
+  completedAt: string;
+  output?: Record<string, string | number>;  // What the step produced, e.g. { vaultId } or { workflowId }
+}
+
 // Log entry for processing activity
 export interface ProcessingLogEntry {
   timestamp: string; // ISO string for serialization
@@ -233,33 +450,137 @@ export interface ProcessingLogEntry {
   detail?: string;
 }
 
+// Version of the stored Matter shape - bump it and add a migration in
+// lib/migrations.ts whenever a change needs old records rewritten
+export const MATTER_SCHEMA_VERSION = 6;
+
 export interface Matter {
   id: string;
+  schemaVersion?: number;  // Missing on records saved before versioning (v1)
   name: string;
   vaultId: string | null;
   summaryType: SummaryType;
   status: MatterStatus;
   createdAt: string;
   updatedAt: string;
-  sourceDocuments: SourceDocument[];
+  sourceDocuments: SourceDocument[];   // In the order CaseMark and the judge read them
   // Control summary - the production standard we're comparing against
   controlSummary?: ControlSummary;
   // Which models to test (selected in wizard)
   modelsToTest?: string[];
+  // Copy of every model config the matter runs with, pricing included - re-pricing the registry doesn't change its costs
+  models?: ModelConfig[];
   // Generated test summaries from API
   summaries: Record<string, SummaryResult>;
-  qualityScores: Record<string, QualityScore>;
+  qualityScores: Record<string, QualityScore>;   // The combined score across judges - what rankings use
+  // Rubric the summaries are judged with - a copy, so editing the summary type's rubric later doesn't change this matter
+  rubric?: Rubric;
+  // Judge ensemble - defaults to the default judge alone, combined by mean
+  judgeModelIds?: string[];
+  scoreAggregation?: ScoreAggregation;
+  judgeScores?: Record<string, Record<string, QualityScore>>;  // modelId -> judge model id -> that judge's score
+  judgeTrials?: JudgeTrialSettings;  // Defaults to one call per judge
+  // Head-to-head mode - the primary judge compares every pair of summaries (see lib/pairwise.ts)
+  pairwiseJudging?: boolean;
+  pairwiseComparisons?: PairwiseComparison[];
+  // Verify long sources in page ranges before scoring - defaults to 'auto' (see lib/chunking.ts)
+  chunkedJudging?: ChunkedJudgingMode;
+  // Reviewer rulings on judge-reported errors and missing items, keyed by lib/adjudication.ts's findingKey
+  adjudications?: Record<string, FindingAdjudication>;
+  // Blind human grades - one per reviewer per summary
+  humanRatings?: HumanRating[];
   error?: string;
   // Persisted processing log
   processingLog?: ProcessingLogEntry[];
+  // Finished pipeline steps, keyed by step (or `${step}:${modelId}`) - a resumed run skips these
+  checkpoints?: Record<string, ProcessingCheckpoint>;
 }
 
-// Model configuration
-// Pricing sourced from Vercel AI Gateway: https://vercel.com/ai-gateway/models
+// Export file format (see lib/migrations.ts) - one matter or a bundle of them
+export const MATTER_EXPORT_FORMAT = 'summary-analyzer/matter-export';
+
+export type MatterExport = {
+  format: typeof MATTER_EXPORT_FORMAT;
+  schemaVersion: number;  // MATTER_SCHEMA_VERSION of the app that wrote the file
+  exportedAt: string;
+} & (
+  | { kind: 'matter'; matter: Matter }
+  | { kind: 'bundle'; matters: Matter[] }
+);
+
+// Server-side processing jobs (see lib/job-runner.ts)
+// process   = upload/ingest source, generate all summaries, then judge
+// summarize = (re)generate summaries for specific models, then judge
+// refresh   = check existing CaseMark workflows and download finished ones, then judge
+// analyze   = extract source text and judge summaries that have no score yet
+export type JobType = 'process' | 'summarize' | 'refresh' | 'analyze';
+
+export type JobStatus =
+  | 'queued'
+  | 'running'
+  | 'completed'
+  | 'failed'
+  | 'cancelled'
+  | 'interrupted'; // Server stopped while the job was running
+
+export type JobPhase = 'process' | 'summarize' | 'analyze';
+
+export interface JobStep {
+  id: string;
+  label: string;
+  status: 'pending' | 'running' | 'completed' | 'error';
+  progress?: number;
+  detail?: string;
+}
+
+export interface DocProcessingStatus {
+  id?: string;              // The source document's id - updates find a source by this, the control by type
+  filename: string;
+  type: 'source' | 'control';
+  status: 'pending' | 'uploading' | 'processing' | 'extracting' | 'completed' | 'error';
+  detail?: string;
+  progress?: number;
+  size?: number;
+  pageCount?: number;
+  charCount?: number;
+  startTime?: number;
+}
+
+export interface ProcessingJob {
+  id: string;
+  matterId: string;
+  type: JobType;
+  status: JobStatus;
+  modelIds?: string[];              // Limit summarize/refresh/analyze to these models
+  steps: JobStep[];
+  documents: DocProcessingStatus[];
+  currentPhase?: JobPhase;
+  currentModelId?: string;          // Model being generated
+  analyzingModelId?: string;        // Model being judged
+  phaseStartedAt?: number;          // Drives the elapsed timer in the UI
+  currentActivity?: string;
+  progress?: { current: number; total: number; label: string };
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+}
+
+// Events pushed to the matter page over /api/matters/[id]/events
+export type MatterEvent =
+  | { type: 'snapshot'; matter: Matter; job: ProcessingJob | null }
+  | { type: 'matter'; matter: Matter }
+  | { type: 'job'; job: ProcessingJob }
+  | { type: 'log'; entry: ProcessingLogEntry };
+
+// Model configuration - the registry of these lives in lib/models.ts
+export type ModelRole = 'summarizer' | 'judge';
+
 export interface ModelConfig {
   id: string;
   name: string;
   provider: string;
+  role: ModelRole;
   inputPricePer1M: number;
   outputPricePer1M: number;
   color: string;
@@ -267,120 +588,37 @@ export interface ModelConfig {
   maxOutput?: number;
   notes?: string; // Why this model is being tested
   isControl?: boolean; // True for the baseline/control model
+  retired?: boolean; // Hidden from new comparisons - matters that used it keep their copy
+  updatedAt?: string; // Set once the registry entry has been added or edited
 }
 
-export const TEST_MODELS: ModelConfig[] = [
-  // === CONTROL BASELINE ===
-  {
-    id: 'casemark/default',
-    name: '⭐ Control (Production)',
-    provider: 'CaseMark',
-    inputPricePer1M: 0.60,
-    outputPricePer1M: 5.00,
-    color: '#fbbf24', // amber/gold - special control color
-    contextWindow: 1000000,
-    maxOutput: 64000,
-    notes: 'BASELINE: Current production output - all other models compared against this',
-    isControl: true,
-  },
+// Repeated judging - each judge scores each summary `trials` times and the
+// spread between calls becomes the score's confidence interval
+export interface JudgeTrialSettings {
+  trials: number;
+  temperature: number;
+  seed?: number;            // Trial i uses seed + i; omitted = provider default sampling
+}
 
-  // === GOOGLE GEMINI MODELS ===
-  {
-    id: 'google/gemini-2.5-flash',
-    name: 'Gemini 2.5 Flash',
-    provider: 'Google',
-    inputPricePer1M: 0.60,
-    outputPricePer1M: 5.00,
-    color: '#3b82f6', // blue
-    contextWindow: 1000000,
-    maxOutput: 64000,
-    notes: 'High-quality multimodal with 1M context',
-  },
-  {
-    id: 'google/gemini-2.5-flash-lite',
-    name: 'Gemini 2.5 Flash Lite',
-    provider: 'Google',
-    inputPricePer1M: 0.20,
-    outputPricePer1M: 0.80,
-    color: '#06b6d4', // cyan
-    contextWindow: 1048576,
-    maxOutput: 65536,
-    notes: '~85% cheaper than 2.5 Flash - best value candidate',
-  },
-  {
-    id: 'google/gemini-3-flash',
-    name: 'Gemini 3 Flash',
-    provider: 'Google',
-    inputPricePer1M: 1.00,
-    outputPricePer1M: 6.00,
-    color: '#a855f7', // purple
-    contextWindow: 1000000,
-    maxOutput: 64000,
-    notes: 'Newest Gemini - more expensive but highly efficient',
-  },
+export const DEFAULT_JUDGE_TRIALS: JudgeTrialSettings = { trials: 1, temperature: 0.3 };
+export const MAX_JUDGE_TRIALS = 10;
 
-  // === OPENAI GPT MODELS ===
-  {
-    id: 'openai/gpt-4.1-nano',
-    name: 'GPT-4.1 Nano',
-    provider: 'OpenAI',
-    inputPricePer1M: 0.20,
-    outputPricePer1M: 0.80,
-    color: '#84cc16', // lime
-    contextWindow: 1047576,
-    maxOutput: 32768,
-    notes: 'Ultra-cheap OpenAI with 1M context',
-  },
-  {
-    id: 'openai/gpt-4.1-mini',
-    name: 'GPT-4.1 Mini',
-    provider: 'OpenAI',
-    inputPricePer1M: 0.80,
-    outputPricePer1M: 3.20,
-    color: '#65a30d', // darker lime
-    contextWindow: 1047576,
-    maxOutput: 32768,
-    notes: 'Balanced OpenAI option with 1M context',
-  },
-  {
-    id: 'openai/gpt-5-nano',
-    name: 'GPT-5 Nano',
-    provider: 'OpenAI',
-    inputPricePer1M: 0.10,
-    outputPricePer1M: 0.80,
-    color: '#f97316', // orange
-    contextWindow: 400000,
-    maxOutput: 128000,
-    notes: 'Cheapest GPT-5 - excellent value with 400K context',
-  },
-  {
-    id: 'openai/gpt-5-mini',
-    name: 'GPT-5 Mini',
-    provider: 'OpenAI',
-    inputPricePer1M: 0.50,
-    outputPricePer1M: 4.00,
-    color: '#ea580c', // darker orange
-    contextWindow: 400000,
-    maxOutput: 128000,
-    notes: 'Mid-tier GPT-5 with great quality/cost ratio',
-  },
-];
+// How per-judge scores combine into a matter's quality score
+export type ScoreAggregation = 'mean' | 'median' | 'trimmed_mean';
 
-// Get the control/baseline model for easy reference
-export const CONTROL_MODEL = TEST_MODELS.find(m => m.isControl)!;
-
-// Judge model for quality analysis
-// Using GPT-5.2 as the evaluation model - best reasoning for analysis
-export const JUDGE_MODEL: ModelConfig = {
-  id: 'openai/gpt-5.2',
-  name: 'GPT-5.2',
-  provider: 'OpenAI',
-  inputPricePer1M: 3.50,
-  outputPricePer1M: 19.00,
-  color: '#ef4444', // red
-  contextWindow: 400000,
-  maxOutput: 128000,
-  notes: 'Premium judge model for quality analysis',
+export const SCORE_AGGREGATION_INFO: Record<ScoreAggregation, { label: string; description: string }> = {
+  mean: { label: 'Mean', description: 'Average of every judge' },
+  median: { label: 'Median', description: 'Middle judge - ignores one outlier' },
+  trimmed_mean: { label: 'Trimmed Mean', description: 'Average after dropping the highest and lowest judge (3+ judges)' },
+};
+
+// When the judge verifies the source in page ranges instead of one prompt
+export type ChunkedJudgingMode = 'auto' | 'always' | 'off';
+
+export const CHUNKED_JUDGING_INFO: Record<ChunkedJudgingMode, { label: string; description: string }> = {
+  auto: { label: 'Auto', description: "Split the source only when it won't fit in the judge's context window" },
+  always: { label: 'Always', description: 'Verify every source in page ranges, then score from the merged findings' },
+  off: { label: 'Off', description: 'Always send the whole source in one prompt' },
 };
 
 // Summary type prompts - used for quality analysis context
@@ -429,34 +667,14 @@ export const SUMMARY_PROMPTS: Record<SummaryType, string> = {
 };
 
 // Quality analysis prompt when NO control summary is available (compare to source only)
+// {evaluation_criteria} and {category_json} are generated from the matter's rubric (see lib/rubrics.ts)
 export const QUALITY_ANALYSIS_PROMPT_NO_CONTROL = `You are an expert legal document quality analyst. Your task is to evaluate AI-generated summaries of legal documents against the original source material.
 
 EVALUATION CRITERIA (score each 0-100):
 
-1. **Factual Accuracy** (25% weight)
-   - Are all stated facts accurate according to the source?
-   - Are there any hallucinations or fabricated information?
-   - Are quotes accurate when used?
-
-2. **Page/Line Reference Accuracy** (20% weight)
-   - Are page and line citations correct and verifiable?
-   - Are citations formatted consistently?
-   - Do the citations actually correspond to the referenced content?
+{evaluation_criteria}
 
-3. **Relevance** (20% weight)
-   - Does the summary focus on legally significant information?
-   - Are irrelevant details minimized?
-   - Does it capture what matters for the case type?
-
-4. **Comprehensiveness** (15% weight)
-   - Does it cover all major topics from the source?
-   - Are key admissions, facts, or findings captured?
-   - Is the analysis thorough without being redundant?
-
-5. **Legal Utility** (20% weight)
-   - Would this be useful to a legal professional?
-   - Does it highlight impeachment opportunities, inconsistencies, or key points?
-   - Is it organized for practical use?
+Do not give an overall score - it is calculated from your category scores using the weights above.
 
 SUMMARY TYPE: {summary_type_name}
 
@@ -464,32 +682,7 @@ IMPORTANT: For each error you find, provide the EXACT text from the summary so a
 
 Respond with a JSON object in this exact format:
 {
-    "factual_accuracy": {
-        "score": <0-100>,
-        "rationale": "Detailed explanation of why this score was given",
-        "examples": ["Example of accurate fact...", "Example of inaccurate fact..."]
-    },
-    "page_line_accuracy": {
-        "score": <0-100>,
-        "rationale": "Detailed explanation of citation accuracy",
-        "examples": ["Example of correct citation...", "Example of incorrect citation..."]
-    },
-    "relevance": {
-        "score": <0-100>,
-        "rationale": "Explanation of relevance assessment",
-        "examples": ["Example of relevant content...", "Example of irrelevant content..."]
-    },
-    "comprehensiveness": {
-        "score": <0-100>,
-        "rationale": "Explanation of coverage assessment",
-        "examples": ["Key topic covered well...", "Topic that was missed..."]
-    },
-    "legal_utility": {
-        "score": <0-100>,
-        "rationale": "Explanation of practical legal value",
-        "examples": ["Useful element...", "Missing practical element..."]
-    },
-    "overall_score": <0-100>,
+{category_json}
     "strengths": ["strength 1", "strength 2", ...],
     "weaknesses": ["weakness 1", "weakness 2", ...],
     "specific_errors": [
@@ -512,6 +705,7 @@ Respond with a JSON object in this exact format:
 // Quality analysis prompt when a CONTROL summary IS available
 // IMPORTANT: The SOURCE document is the gold standard for accuracy, NOT the control!
 // The control is just what we currently produce - it may have its own errors.
+// Placeholders as above.
 export const QUALITY_ANALYSIS_PROMPT = `You are an expert legal document quality analyst. Your task is to evaluate a TEST SUMMARY for accuracy against the ORIGINAL SOURCE DOCUMENT.
 
 CRITICAL CONTEXT - SUMMARY STRUCTURE:
@@ -527,37 +721,9 @@ A TEST summary that is MORE accurate than CONTROL is a GOOD thing!
 
 EVALUATION CRITERIA (score each 0-100, based on SOURCE document accuracy):
 
-1. **Factual Accuracy** (25% weight) - VERIFY AGAINST SOURCE
-   - Are all stated facts accurate according to the SOURCE document?
-   - Are there any hallucinations or fabricated information not in SOURCE?
-   - Are quotes accurate when compared to SOURCE?
-
-2. **Page/Line Reference Accuracy** (20% weight) - VERIFY AGAINST APPENDED TRANSCRIPT
-   - Are page and line citations correct when checked against the APPENDED TRANSCRIPT?
-   - Does the cited page:line actually contain the referenced testimony?
-   - Are citations formatted consistently (e.g., "Page 5, Lines 12-15" or "5:12-15")?
-   - Can a user navigate to the citation in the appended transcript and find the referenced content?
-
-3. **Appended Transcript Accuracy** (10% weight) - NEW CRITICAL CHECK
-   - Is the appended transcript complete and accurate to the original source?
-   - Are page numbers and line numbers preserved correctly?
-   - Is the transcript formatting readable and usable for citation verification?
-
-4. **Relevance** (15% weight) - BASED ON SOURCE CONTENT
-   - Does the summary focus on legally significant information from SOURCE?
-   - Are irrelevant details minimized?
-   - Does it capture what matters for the case type?
-
-5. **Comprehensiveness** (15% weight) - COVERAGE OF SOURCE
-   - Does it cover all major topics from the SOURCE?
-   - Are key admissions, facts, or findings from SOURCE captured?
-   - Is the analysis thorough without being redundant?
-
-6. **Legal Utility** (15% weight)
-   - Would this be useful to a legal professional?
-   - Does it highlight impeachment opportunities, inconsistencies, or key points?
-   - Is it organized for practical use?
-   - Can citations be easily verified against the appended transcript?
+{evaluation_criteria}
+
+Do not give an overall score - it is calculated from your category scores using the weights above.
 
 SUMMARY TYPE: {summary_type_name}
 
@@ -578,37 +744,7 @@ After scoring accuracy to SOURCE, also note how TEST compares to CONTROL:
 
 Respond with a JSON object in this exact format:
 {
-    "factual_accuracy": {
-        "score": <0-100>,
-        "rationale": "How accurate is TEST compared to SOURCE document?",
-        "examples": ["Accurate fact from SOURCE...", "Error: stated X but SOURCE says Y..."]
-    },
-    "page_line_accuracy": {
-        "score": <0-100>,
-        "rationale": "Are TEST citations correct when verified against the APPENDED TRANSCRIPT?",
-        "examples": ["Citation '5:12-15' correctly points to testimony about X in appended transcript...", "Citation '10:5' is incorrect - that line actually says Y..."]
-    },
-    "appended_transcript_accuracy": {
-        "score": <0-100>,
-        "rationale": "Is the appended transcript complete, accurate, and usable for citation verification?",
-        "examples": ["Transcript includes all pages with correct line numbers...", "Missing pages 20-25...", "Line numbers are offset by 3..."]
-    },
-    "relevance": {
-        "score": <0-100>,
-        "rationale": "Does TEST focus on legally important content from SOURCE?",
-        "examples": ["Important content captured...", "Irrelevant detail included..."]
-    },
-    "comprehensiveness": {
-        "score": <0-100>,
-        "rationale": "How thoroughly does TEST cover the SOURCE content?",
-        "examples": ["Key topic covered well...", "Important SOURCE content missed..."]
-    },
-    "legal_utility": {
-        "score": <0-100>,
-        "rationale": "How useful is this for legal professionals? Can citations be easily verified?",
-        "examples": ["Useful feature...", "Citations are easy to verify in appended transcript...", "Missing practical element..."]
-    },
-    "overall_score": <0-100>,
+{category_json}
     "strengths": ["Strength based on SOURCE accuracy..."],
     "weaknesses": ["Weakness based on SOURCE accuracy..."],
     "specific_errors": [
@@ -643,4 +779,58 @@ Respond with a JSON object in this exact format:
     "recommendation": "Recommendation for using this model (considering quality, citation accuracy, and comparison to current production)"
 }`;
 
+// Map step of chunked judging - the judge checks a summary against one page range of the source
+// {chunk_label} names the range, e.g. "PAGES 81-160 (part 2 of 4)"
+export const CHUNK_VERIFICATION_PROMPT = `You are an expert legal document quality analyst. The ORIGINAL SOURCE DOCUMENT is too long to review at once, so you are given ONE PART of it - {chunk_label} - together with the complete TEST SUMMARY. The other parts are checked separately and the findings are merged afterwards.
+
+SUMMARY TYPE: {summary_type_name}
+
+Check the TEST SUMMARY against THIS PART of the source only:
+- Count the claims in the summary that concern these pages, and how many of them this part supports
+- Report an error only when this part contradicts the summary, or when a citation points into these pages and the cited lines don't support it
+- Do NOT report claims about other pages as errors or as unverifiable - they are checked with their own part
+- Count only citations that point into these pages
+- List important items in these pages that the summary leaves out
+- For each error, provide the EXACT text from the summary so a human can search for it
 
+Respond with a JSON object in this exact format:
+{
+    "claims_checked": <number of summary claims about these pages>,
+    "claims_supported": <number of those this part supports>,
+    "specific_errors": [
+        {
+            "type": "factual|citation|omission|hallucination|misinterpretation|transcript_error",
+            "severity": "critical|major|minor",
+            "summary_excerpt": "EXACT text from the summary containing the error",
+            "source_reference": "Where in these pages (e.g., Page 85, Lines 3-9)",
+            "explanation": "Why this is an error",
+            "correction": "What it should say based on the source"
+        }
+    ],
+    "citation_verification": {
+        "total_citations_checked": <number>,
+        "correct_citations": <number>,
+        "incorrect_citations": <number>,
+        "unverifiable_citations": <number>,
+        "citation_errors": ["Citation '85:3' claims X but the transcript shows Y at that location..."]
+    },
+    "missing_items": ["Important item from these pages that the summary does not include"],
+    "notes": "Two or three sentences on how well the summary covers these pages"
+}`;
+
+// Head-to-head prompt - the judge compares two summaries of the same source
+// {pairwise_categories} and {pairwise_json} list the rubric's categories plus "overall"
+export const PAIRWISE_ANALYSIS_PROMPT = `You are an expert legal document quality analyst. You will be given an ORIGINAL SOURCE DOCUMENT and two AI-generated summaries of it, SUMMARY A and SUMMARY B.
+
+Compare the two summaries against the SOURCE and decide which one is better in each category:
+
+{pairwise_categories}
+
+SUMMARY TYPE: {summary_type_name}
+
+Judge only on quality against the SOURCE. Ignore length unless it hides or omits content, and ignore which summary is presented first. Answer "tie" only when the summaries are genuinely indistinguishable in that category.
+
+Respond with a JSON object in this exact format:
+{
+{pairwise_json}
+}`;
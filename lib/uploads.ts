@@ -0,0 +1,36 @@
+/**
+ * Uploaded File Store
+ *
+ * Keeps the files picked in the new-comparison wizard on disk until the
+ * processing job has pushed them to the Case.dev vault.
+ * Only import this from API routes / server code.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+const UPLOADS_DIR = process.env.UPLOADS_DIR || path.join(process.cwd(), 'data', 'uploads');
+
+// Ids come from the client - keep them to a safe file name
+function safeSegment(value: string): string {
+  return value.replace(/[^a-zA-Z0-9_-]/g, '_');
+}
+
+function uploadPath(matterId: string, documentId: string): string {
+  return path.join(UPLOADS_DIR, safeSegment(matterId), safeSegment(documentId));
+}
+
+export function saveUpload(matterId: string, documentId: string, data: Buffer): void {
+  const filePath = uploadPath(matterId, documentId);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, data);
+}
+
+export function readUpload(matterId: string, documentId: string): Buffer | null {
+  const filePath = uploadPath(matterId, documentId);
+  return fs.existsSync(filePath) ? fs.readFileSync(filePath) : null;
+}
+
+export function removeUploads(matterId: string): void {
+  fs.rmSync(path.join(UPLOADS_DIR, safeSegment(matterId)), { recursive: true, force: true });
+}